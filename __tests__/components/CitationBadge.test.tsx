@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CitationBadge } from '@/components/chat/CitationBadge';
 import { useCitationContext } from '@/lib/contexts/CitationContext';
@@ -9,6 +9,25 @@ vi.mock('@/lib/contexts/CitationContext', () => ({
   useCitationContext: vi.fn(),
 }));
 
+vi.mock('@/lib/hooks/useDocumentPassage', () => ({
+  useDocumentPassage: vi.fn((documentId: string, chunkId: string | null) => ({
+    passage: chunkId
+      ? {
+          documentId,
+          documentName: 'Document1.pdf',
+          chunkId,
+          before: 'Earlier text. ',
+          passage: 'The cited passage.',
+          after: ' Later text.',
+          startPage: 3,
+          endPage: 3,
+        }
+      : null,
+    isLoading: false,
+    error: null,
+  })),
+}));
+
 describe('CitationBadge - React.memo Integration', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -445,4 +464,49 @@ describe('CitationBadge - React.memo Integration', () => {
       );
     });
   });
+
+  describe('Passage navigation', () => {
+    beforeEach(() => {
+      vi.mocked(useCitationContext).mockReturnValue({
+        studyId: 'study_123',
+        isDocumentValid: () => true,
+        isLoading: false,
+      });
+    });
+
+    it('should open the cited passage on click', () => {
+      render(
+        <CitationBadge
+          citationNumber={1}
+          documentName="Document1.pdf"
+          documentId="doc_1"
+          chunkId="chunk_1"
+          pageNumber={3}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('note'));
+
+      expect(screen.getByText('The cited passage.')).toBeInTheDocument();
+      expect(screen.getByText('Page 3')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: /open in document/i })).toHaveAttribute(
+        'href',
+        '/study/study_123/documents/doc_1?chunk=chunk_1'
+      );
+    });
+
+    it('should not open anything without a chunk', () => {
+      render(
+        <CitationBadge
+          citationNumber={1}
+          documentName="Document1.pdf"
+          documentId="doc_1"
+        />
+      );
+
+      fireEvent.click(screen.getByRole('note'));
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -296,4 +296,36 @@ describe('MarkdownRenderer - Hook Integration', () => {
       expect(proseDiv).toHaveClass('custom-class');
     });
   });
+
+  describe('Quote Verification', () => {
+    beforeEach(() => {
+      vi.mocked(useCitationParsing).mockReturnValue({
+        citationLookup: new Map(),
+        remarkPlugin: null,
+        hasCitations: false,
+      });
+    });
+
+    it('should flag quotes that were not found in the sources', () => {
+      render(
+        <MarkdownRenderer
+          content={'P3 said "I keep my own spreadsheet" and "I would pay twice as much".'}
+          quoteVerifications={[
+            { quote: 'I keep my own spreadsheet', verdict: 'exact', similarity: 1 },
+            { quote: 'I would pay twice as much', verdict: 'not_found', similarity: 0.2 },
+          ]}
+        />
+      );
+
+      const markers = screen.getAllByRole('note');
+      expect(markers).toHaveLength(1);
+      expect(markers[0]).toHaveAttribute('aria-label', expect.stringContaining('Unverified quote'));
+    });
+
+    it('should not flag anything without verifications', () => {
+      render(<MarkdownRenderer content={'P3 said "I would pay twice as much".'} />);
+
+      expect(screen.queryByRole('note')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -31,6 +31,10 @@ describe('CitationContext', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -54,6 +58,10 @@ describe('CitationContext', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -81,6 +89,10 @@ describe('CitationContext', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -105,6 +117,10 @@ describe('CitationContext', () => {
             error: null,
             deleteDocument: vi.fn(),
             renameDocument: vi.fn(),
+            updateChunkingStrategy: vi.fn(),
+            replaceDocumentFile: vi.fn(),
+            updateDocumentMetadata: vi.fn(),
+            moveDocuments: vi.fn(),
             refreshDocuments: vi.fn(),
             addDocument: vi.fn(),
             mutate: vi.fn(),
@@ -134,6 +150,10 @@ describe('CitationContext', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -158,6 +178,10 @@ describe('CitationContext', () => {
             error: null,
             deleteDocument: vi.fn(),
             renameDocument: vi.fn(),
+            updateChunkingStrategy: vi.fn(),
+            replaceDocumentFile: vi.fn(),
+            updateDocumentMetadata: vi.fn(),
+            moveDocuments: vi.fn(),
             refreshDocuments: vi.fn(),
             addDocument: vi.fn(),
             mutate: vi.fn(),
@@ -182,6 +206,10 @@ describe('CitationContext', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -203,6 +231,10 @@ describe('CitationContext', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -239,6 +271,10 @@ describe('CitationContext', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -264,6 +300,10 @@ describe('CitationContext', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -35,6 +35,10 @@ describe('useCitationValidation', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -73,6 +77,10 @@ describe('useCitationValidation', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -92,6 +100,10 @@ describe('useCitationValidation', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -113,6 +125,10 @@ describe('useCitationValidation', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -147,6 +163,10 @@ describe('useCitationValidation', () => {
             error: null,
             deleteDocument: vi.fn(),
             renameDocument: vi.fn(),
+            updateChunkingStrategy: vi.fn(),
+            replaceDocumentFile: vi.fn(),
+            updateDocumentMetadata: vi.fn(),
+            moveDocuments: vi.fn(),
             refreshDocuments: vi.fn(),
             addDocument: vi.fn(),
             mutate: vi.fn(),
@@ -176,6 +196,10 @@ describe('useCitationValidation', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -201,6 +225,10 @@ describe('useCitationValidation', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -235,6 +263,10 @@ describe('useCitationValidation', () => {
             error: null,
             deleteDocument: vi.fn(),
             renameDocument: vi.fn(),
+            updateChunkingStrategy: vi.fn(),
+            replaceDocumentFile: vi.fn(),
+            updateDocumentMetadata: vi.fn(),
+            moveDocuments: vi.fn(),
             refreshDocuments: vi.fn(),
             addDocument: vi.fn(),
             mutate: vi.fn(),
@@ -260,6 +292,10 @@ describe('useCitationValidation', () => {
           error: null,
           deleteDocument: vi.fn(),
           renameDocument: vi.fn(),
+          updateChunkingStrategy: vi.fn(),
+          replaceDocumentFile: vi.fn(),
+          updateDocumentMetadata: vi.fn(),
+          moveDocuments: vi.fn(),
           refreshDocuments: vi.fn(),
           addDocument: vi.fn(),
           mutate: vi.fn(),
@@ -280,6 +316,10 @@ describe('useCitationValidation', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -302,6 +342,10 @@ describe('useCitationValidation', () => {
         error: null,
         deleteDocument: vi.fn(),
         renameDocument: vi.fn(),
+        updateChunkingStrategy: vi.fn(),
+        replaceDocumentFile: vi.fn(),
+        updateDocumentMetadata: vi.fn(),
+        moveDocuments: vi.fn(),
         refreshDocuments: vi.fn(),
         addDocument: vi.fn(),
         mutate: vi.fn(),
@@ -338,6 +382,10 @@ describe('useDocumentExists', () => {
       error: null,
       deleteDocument: vi.fn(),
       renameDocument: vi.fn(),
+      updateChunkingStrategy: vi.fn(),
+      replaceDocumentFile: vi.fn(),
+      updateDocumentMetadata: vi.fn(),
+      moveDocuments: vi.fn(),
       refreshDocuments: vi.fn(),
       addDocument: vi.fn(),
       mutate: vi.fn(),
@@ -355,6 +403,10 @@ describe('useDocumentExists', () => {
       error: null,
       deleteDocument: vi.fn(),
       renameDocument: vi.fn(),
+      updateChunkingStrategy: vi.fn(),
+      replaceDocumentFile: vi.fn(),
+      updateDocumentMetadata: vi.fn(),
+      moveDocuments: vi.fn(),
       refreshDocuments: vi.fn(),
       addDocument: vi.fn(),
       mutate: vi.fn(),
@@ -372,6 +424,10 @@ describe('useDocumentExists', () => {
       error: null,
       deleteDocument: vi.fn(),
       renameDocument: vi.fn(),
+      updateChunkingStrategy: vi.fn(),
+      replaceDocumentFile: vi.fn(),
+      updateDocumentMetadata: vi.fn(),
+      moveDocuments: vi.fn(),
       refreshDocuments: vi.fn(),
       addDocument: vi.fn(),
       mutate: vi.fn(),
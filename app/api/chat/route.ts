@@ -12,9 +12,12 @@ import {
 import {
   createSearchTools
 } from '@/lib/llm-tools/search-tools';
+import { chatScopeFromRecord } from '@/lib/types/chat-scope';
+import { resolveChatScopeDocumentIds } from '@/lib/chat-scope';
+import { SearchResultStore, PersistedSearchResult, toPersistedSearchResult } from '@/lib/llm-tools/search-result-store';
 import { trackChatEvent, trackSearchEvent, trackErrorEvent } from '@/lib/analytics/server-analytics';
 import { buildSystemPrompt } from '@/lib/prompts/templates/main-system-prompt';
-import { extractCitationsFromContent, extractSearchResultsFromToolCalls } from '@/lib/utils/citation-extraction';
+import { extractCitationsFromContent, extractSearchResultsFromToolCalls, verifyQuotesInContent } from '@/lib/utils/citation-extraction';
 interface AISDKv5MessagePart {
   type: string;
   text?: string;
@@ -33,13 +36,14 @@ interface PersistedToolCall {
   timestamp: number;
   query?: string;
   resultCount?: number;
+  results?: PersistedSearchResult[]; // Chunks the search returned, as the model saw them
 }
 import { buildStudyContext } from '@/lib/metadata-context';
 import { getCachedData, studyContextKey } from '@/lib/metadata-cache';
 import { fetchMessageHistory, logMessageHistory } from '@/lib/chat/message-history';
 
 // Tool call extraction function
-function extractToolCallsFromParts(parts: AISDKv5MessagePart[]): PersistedToolCall[] {
+function extractToolCallsFromParts(parts: AISDKv5MessagePart[], resultStore: SearchResultStore): PersistedToolCall[] {
   if (!parts || !Array.isArray(parts)) return [];
 
   const toolCalls: PersistedToolCall[] = [];
@@ -53,10 +57,11 @@ function extractToolCallsFromParts(parts: AISDKv5MessagePart[]): PersistedToolCa
       
       const toolName = part.type.substring(5); // Remove "tool-" prefix
       const query = part.input?.query as string;
+      const results = resultStore.get(part.toolCallId);
       
-      // Extract result count from output string pattern
-      let resultCount: number | undefined;
-      if (typeof part.output === 'string') {
+      // Result count from the recorded results, else from the output string pattern
+      let resultCount: number | undefined = results?.length;
+      if (results === undefined && typeof part.output === 'string') {
         const match = part.output.match(/Found (\d+) relevant passages?/i);
         if (match) resultCount = parseInt(match[1], 10);
       }
@@ -69,7 +74,8 @@ function extractToolCallsFromParts(parts: AISDKv5MessagePart[]): PersistedToolCa
         output: typeof part.output === 'string' ? part.output : JSON.stringify(part.output || ''),
         timestamp: Date.now(),
         query: query || undefined,
-        resultCount: resultCount || undefined
+        resultCount: resultCount || undefined,
+        results: results?.map(toPersistedSearchResult),
       });
       
       processedToolIds.add(part.toolCallId);
@@ -118,6 +124,7 @@ export async function POST(req: NextRequest) {
     }
 
     const studyId = chat.studyId;
+    const chatScope = chatScopeFromRecord(chat);
 
     // Rate limiting check
     const rateLimitKey = `chat:${userId}:${studyId}`;
@@ -173,8 +180,8 @@ export async function POST(req: NextRequest) {
     try {
       // Use cached study context for optimal performance
       studyContext = await getCachedData(
-        studyContextKey(studyId),
-        () => buildStudyContext(studyId),
+        studyContextKey(studyId, chatScope),
+        () => buildStudyContext(studyId, chatScope),
         1800000 // 30 minutes TTL
       );
     } catch (error) {
@@ -190,12 +197,15 @@ export async function POST(req: NextRequest) {
       messageLength: userMessageLength,
     }, userId);
 
+    // Structured search results recorded by the tools, read back in onFinish
+    const searchResultStore = new SearchResultStore();
+
     // Generate AI response using v5 createUIMessageStream pattern
     try {
       const stream = createUIMessageStream({
         execute: ({ writer: dataStream }) => {
           // Initialize search tools
-          const searchTools = createSearchTools(studyId);
+          const searchTools = createSearchTools(studyId, searchResultStore, chatScope);
 
           // Convert history and current message to model format
           const historyAsModelMessages = convertToModelMessages(messageHistory);
@@ -240,7 +250,7 @@ export async function POST(req: NextRequest) {
                 const messageParts = (msg as unknown as { parts?: AISDKv5MessagePart[] }).parts;
                 if (!messageParts?.length) continue;
 
-                const toolCalls = extractToolCallsFromParts(messageParts);
+                const toolCalls = extractToolCallsFromParts(messageParts, searchResultStore);
                 totalToolCalls += toolCalls.length;
 
                 const textContent = messageParts
@@ -253,12 +263,20 @@ export async function POST(req: NextRequest) {
                 if (!textContent && !toolCalls.length) continue;
 
                 // NEW: Extract search results from tool calls for citation validation
-                // Re-run searches to get SearchResult[] objects (AI SDK serializes outputs to strings)
-                const searchResults = await extractSearchResultsFromToolCalls(toolCalls, studyId);
+                // Read from the result store (AI SDK serializes outputs to strings)
+                const searchResults = extractSearchResultsFromToolCalls(toolCalls, searchResultStore);
 
                 // NEW: Extract and validate citations from content
                 const citations = extractCitationsFromContent(textContent, searchResults);
 
+                // Check quoted passages against the sources so invented quotes can be flagged
+                const quoteVerifications = await verifyQuotesInContent(
+                  textContent,
+                  searchResults,
+                  studyId,
+                  await resolveChatScopeDocumentIds(studyId, chatScope)
+                );
+
                 // Re-validate chat ownership before saving assistant message
                 const chatExists = await validateChatOwnership(chatId);
 
@@ -274,6 +292,7 @@ export async function POST(req: NextRequest) {
                     toolCalls: toolCalls.length > 0 ? JSON.parse(JSON.stringify(toolCalls)) : undefined,
                     messageParts: JSON.parse(JSON.stringify(messageParts)), // Full backup for debugging
                     citations: Object.keys(citations).length > 0 ? JSON.parse(JSON.stringify(citations)) : undefined, // NEW
+                    quoteVerifications: quoteVerifications.length > 0 ? JSON.parse(JSON.stringify(quoteVerifications)) : undefined,
                     chatId: chatId,
                     studyId: studyId,
                   },
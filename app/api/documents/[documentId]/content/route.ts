@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth";
+import { locateChunk, validateStoredRange, type HighlightRange } from "@/lib/document-passages";
+import { isCitationMap } from "@/lib/types/citations";
+import { getStudyPseudonyms, restorePseudonyms } from "@/lib/pii-redaction";
+import { getDocumentVersionText, listDocumentVersions } from "@/lib/document-versions";
+
+// Upper bound on highlighted chunks per request
+const MAX_HIGHLIGHTS = 50;
+
+/**
+ * GET /api/documents/[documentId]/content?chunks=a,b&messageId=...&version=n
+ *
+ * Returns a document's extracted text for the in-app viewer, with the
+ * character ranges of the chunks to highlight. Chunks come from the `chunks`
+ * parameter and/or everything the given assistant message cited from this
+ * document. Pseudonymized documents are shown with their original names
+ * unless the study's display setting says otherwise.
+ *
+ * Shows `version` when given, else the version that was current when the
+ * message was generated or that holds the cited chunks, else the current one.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ documentId: string }> }
+) {
+  const params = await context.params;
+  try {
+    const userId = await requireAuth();
+    const documentId = params.documentId;
+    const searchParams = request.nextUrl.searchParams;
+
+    const document = await prisma.document.findFirst({
+      where: {
+        id: documentId,
+        study: {
+          userId,
+        },
+      },
+      select: {
+        id: true,
+        fileName: true,
+        fileType: true,
+        fileSize: true,
+        status: true,
+        studyId: true,
+        extractedText: true,
+        pageOffsets: true,
+        storageUrl: true,
+        storageType: true,
+        piiRedacted: true,
+        redactedRanges: true,
+        version: true,
+        versionCreatedAt: true,
+        study: { select: { piiDisplay: true } },
+      },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const chunkIds = new Set(
+      (searchParams.get("chunks") ?? "").split(",").map(id => id.trim()).filter(Boolean)
+    );
+
+    // Stored ranges of cited passages, for chunks that no longer exist
+    const citedRanges = new Map<string, { startOffset?: number; endOffset?: number }>();
+
+    const messageId = searchParams.get("messageId");
+    let messageTime: Date | null = null;
+    if (messageId) {
+      const message: { citations: unknown; timestamp: Date } | null = await prisma.chatMessage.findFirst({
+        where: {
+          id: messageId,
+          study: {
+            userId,
+          },
+        },
+        select: { citations: true, timestamp: true },
+      });
+
+      messageTime = message?.timestamp ?? null;
+      if (message && isCitationMap(message.citations)) {
+        Object.values(message.citations)
+          .filter(citation => citation.documentId === documentId)
+          .forEach(citation => {
+            citation.chunkIds?.forEach(id => chunkIds.add(id));
+            if (citation.chunkId) {
+              chunkIds.add(citation.chunkId);
+              citedRanges.set(citation.chunkId, citation);
+            }
+          });
+      }
+    }
+
+    const requestedVersion = Number(searchParams.get("version"));
+    const shown = await getDocumentVersionText(document, {
+      version: Number.isInteger(requestedVersion) && requestedVersion > 0 ? requestedVersion : null,
+      at: messageTime,
+      chunkIds: Array.from(chunkIds),
+    });
+
+    // Failed documents store the error message in extractedText
+    const extractedText = !shown.current || document.status === "READY" ? shown.extractedText : null;
+
+    const highlights: HighlightRange[] = [];
+    if (chunkIds.size > 0 && extractedText) {
+      const wanted = Array.from(chunkIds).slice(0, MAX_HIGHLIGHTS);
+      const chunks: Array<{ id: string; content: string; startOffset: number | null; endOffset: number | null }> =
+        shown.chunks
+          ? shown.chunks.filter(chunk => wanted.includes(chunk.id))
+          : await prisma.documentChunk.findMany({
+            where: {
+              documentId,
+              id: { in: wanted },
+            },
+            select: { id: true, content: true, startOffset: true, endOffset: true },
+          });
+
+      for (const chunk of chunks) {
+        const location = locateChunk(extractedText, chunk);
+        if (location) {
+          highlights.push({ chunkId: chunk.id, ...location });
+        }
+      }
+
+      // Cited chunks removed by a re-chunk or reindex: the text is unchanged, so
+      // the citation's own range still marks the passage
+      const found = new Set(chunks.map(chunk => chunk.id));
+      for (const [chunkId, range] of citedRanges) {
+        const location = found.has(chunkId) ? null : validateStoredRange(extractedText, range.startOffset, range.endOffset);
+        if (location) {
+          highlights.push({ chunkId, ...location });
+        }
+      }
+      highlights.sort((a, b) => a.start - b.start);
+    }
+
+    const documentFields = {
+      id: document.id,
+      fileName: shown.fileName,
+      fileType: document.fileType,
+      status: document.status,
+      studyId: document.studyId,
+      pageOffsets: shown.pageOffsets,
+      storageUrl: shown.storageUrl,
+      storageType: shown.storageType,
+      version: shown.version,
+      currentVersion: document.version,
+      versions: await listDocumentVersions(document),
+    };
+
+    if (shown.piiRedacted && extractedText && document.study.piiDisplay === "original") {
+      const restored = restorePseudonyms(extractedText, await getStudyPseudonyms(document.studyId), shown.redactedRanges);
+
+      return NextResponse.json({
+        ...documentFields,
+        extractedText: restored.text,
+        pageOffsets: shown.pageOffsets.map(restored.mapOffset),
+        highlights: highlights.map(highlight => ({
+          ...highlight,
+          start: restored.mapOffset(highlight.start),
+          end: restored.mapOffset(highlight.end),
+        })),
+        pseudonymized: false,
+      });
+    }
+
+    return NextResponse.json({
+      ...documentFields,
+      extractedText,
+      highlights,
+      pseudonymized: shown.piiRedacted,
+    });
+  } catch (error) {
+    console.error("Error fetching document content:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch document content" },
+      { status: 500 }
+    );
+  }
+}
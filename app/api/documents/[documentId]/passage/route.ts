@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth";
+import { getPassageWithContext, locateChunk, validateStoredRange } from "@/lib/document-passages";
+import { getStudyPseudonyms, restorePseudonyms } from "@/lib/pii-redaction";
+import { findVersionWithChunk } from "@/lib/document-versions";
+
+interface PassageSource {
+  content: string;
+  startOffset: number | null;
+  endOffset: number | null;
+  document: {
+    fileName: string;
+    extractedText: string | null;
+    pageOffsets: number[];
+    studyId: string;
+    piiRedacted: boolean;
+    redactedRanges: number[];
+    study: { piiDisplay: string };
+  };
+}
+
+/**
+ * A chunk of a replaced version, from that version's archived snapshot
+ */
+async function findArchivedChunk(documentId: string, chunkId: string, userId: string): Promise<PassageSource | null> {
+  const document: { studyId: string; study: { piiDisplay: string } } | null = await prisma.document.findFirst({
+    where: { id: documentId, study: { userId } },
+    select: { studyId: true, study: { select: { piiDisplay: true } } },
+  });
+  if (!document) return null;
+
+  const version = await findVersionWithChunk(documentId, [chunkId]);
+  const chunk = version?.chunks?.find(candidate => candidate.id === chunkId);
+  if (!version || !chunk) return null;
+
+  return {
+    ...chunk,
+    document: {
+      fileName: version.fileName,
+      extractedText: version.extractedText,
+      pageOffsets: version.pageOffsets,
+      piiRedacted: version.piiRedacted,
+      redactedRanges: version.redactedRanges,
+      ...document,
+    },
+  };
+}
+
+/**
+ * The citation's stored range in the current text, for a chunk that no
+ * longer exists (re-chunked or reindexed). Null if the range doesn't fit.
+ */
+async function findPassageByRange(
+  documentId: string,
+  userId: string,
+  start: number | null,
+  end: number | null
+): Promise<PassageSource | null> {
+  if (start === null || end === null) return null;
+
+  const document: PassageSource["document"] | null = await prisma.document.findFirst({
+    where: { id: documentId, study: { userId } },
+    select: {
+      fileName: true,
+      extractedText: true,
+      pageOffsets: true,
+      studyId: true,
+      piiRedacted: true,
+      redactedRanges: true,
+      study: { select: { piiDisplay: true } },
+    },
+  });
+  const range = document ? validateStoredRange(document.extractedText ?? "", start, end) : null;
+  if (!document || !range) return null;
+
+  return {
+    content: document.extractedText!.slice(range.start, range.end),
+    startOffset: range.start,
+    endOffset: range.end,
+    document,
+  };
+}
+
+function parseOffset(value: string | null): number | null {
+  return value === null || value.trim() === "" ? null : Number(value);
+}
+
+/**
+ * GET /api/documents/[documentId]/passage?chunkId=...&start=...&end=...
+ *
+ * Returns a cited chunk's passage with surrounding text and page numbers,
+ * so a citation can show exactly where it came from. Chunks of replaced
+ * versions are read from the version they were cited from. `start`/`end` are
+ * the citation's stored offsets, used when the chunk itself is gone.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ documentId: string }> }
+) {
+  const params = await context.params;
+  try {
+    const userId = await requireAuth();
+    const documentId = params.documentId;
+    const chunkId = request.nextUrl.searchParams.get("chunkId");
+
+    if (!chunkId) {
+      return NextResponse.json(
+        { error: "Chunk ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const current: PassageSource | null = await prisma.documentChunk.findFirst({
+      where: {
+        id: chunkId,
+        documentId,
+        document: {
+          study: {
+            userId,
+          },
+        },
+      },
+      select: {
+        content: true,
+        startOffset: true,
+        endOffset: true,
+        document: {
+          select: {
+            fileName: true,
+            extractedText: true,
+            pageOffsets: true,
+            studyId: true,
+            piiRedacted: true,
+            redactedRanges: true,
+            study: { select: { piiDisplay: true } },
+          },
+        },
+      },
+    });
+
+    const chunk = current
+      ?? await findArchivedChunk(documentId, chunkId, userId)
+      ?? await findPassageByRange(
+        documentId,
+        userId,
+        parseOffset(request.nextUrl.searchParams.get("start")),
+        parseOffset(request.nextUrl.searchParams.get("end"))
+      );
+    if (!chunk) {
+      return NextResponse.json(
+        { error: "Passage not found" },
+        { status: 404 }
+      );
+    }
+
+    let extractedText = chunk.document.extractedText ?? "";
+    let pageOffsets = chunk.document.pageOffsets;
+    let location = locateChunk(extractedText, chunk);
+
+    // Show original names unless the study displays pseudonyms. Only the
+    // document's redacted ranges are restored, so the passage is cut from the
+    // restored text rather than restored piece by piece.
+    if (location && chunk.document.piiRedacted && chunk.document.study.piiDisplay === "original") {
+      const restored = restorePseudonyms(
+        extractedText,
+        await getStudyPseudonyms(chunk.document.studyId),
+        chunk.document.redactedRanges
+      );
+      extractedText = restored.text;
+      pageOffsets = pageOffsets.map(restored.mapOffset);
+      location = { start: restored.mapOffset(location.start), end: restored.mapOffset(location.end) };
+    }
+
+    // Document text changed since the chunk was indexed: fall back to the chunk alone
+    const passage = location
+      ? getPassageWithContext(extractedText, location.start, location.end, pageOffsets)
+      : { before: "", passage: chunk.content, after: "" };
+
+    return NextResponse.json({
+      documentId,
+      documentName: chunk.document.fileName,
+      chunkId,
+      ...passage,
+    });
+  } catch (error) {
+    console.error("Error fetching passage:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch passage" },
+      { status: 500 }
+    );
+  }
+}
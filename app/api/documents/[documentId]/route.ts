@@ -5,6 +5,10 @@ import { deleteDocumentFiles } from "@/lib/file-storage/cleanup";
 import { invalidateStudyMetadataOnDocumentChange } from "@/lib/metadata-collector";
 import { generateStudySummary } from "@/lib/summary-generation";
 import { trackStudyEvent, trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { isChunkingStrategy } from "@/lib/document-chunking";
+import { kickIngestionWorker, requeueIngestionJob } from "@/lib/ingestion";
+import { getArchivedStoragePaths } from "@/lib/document-versions";
+import { parseDocumentAttributes, parseDocumentTags } from "@/lib/types/document-metadata";
 
 export async function GET(
   request: NextRequest,
@@ -63,9 +67,9 @@ export async function PUT(
 ) {
   const params = await context.params;
   try {
-    await requireAuth(); // Validate user authentication
+    const userId = await requireAuth(); // Validate user authentication
     const documentId = params.documentId;
-    const { fileName, description } = await request.json();
+    const { fileName, chunkingStrategy, tags: rawTags, attributes: rawAttributes } = await request.json();
 
     // Validate ownership
     const isOwner = await validateDocumentOwnership(documentId);
@@ -86,16 +90,65 @@ export async function PUT(
       }
     }
 
+    // Tags and attributes replace the document's current ones
+    const tags = rawTags === undefined ? undefined : parseDocumentTags(rawTags);
+    const attributes = rawAttributes === undefined ? undefined : parseDocumentAttributes(rawAttributes);
+    if (tags === null || attributes === null) {
+      return NextResponse.json(
+        { error: "Invalid tags or attributes" },
+        { status: 400 }
+      );
+    }
+
+    if (chunkingStrategy !== undefined) {
+      if (chunkingStrategy !== null && !isChunkingStrategy(chunkingStrategy)) {
+        return NextResponse.json(
+          { error: "Invalid chunking strategy" },
+          { status: 400 }
+        );
+      }
+
+      const current = await prisma.document.findUnique({
+        where: { id: documentId },
+        select: { status: true },
+      });
+      // Failed documents have no usable extracted text to re-chunk
+      if (current?.status !== 'READY') {
+        return NextResponse.json(
+          { error: "Only processed documents can be re-chunked" },
+          { status: 409 }
+        );
+      }
+    }
+
     // Update document
     const updated = await prisma.document.update({
       where: { id: documentId },
       data: {
         ...(fileName && { fileName: fileName.trim() }),
-        ...(description && { description }),
-        updatedAt: new Date(),
+        ...(tags && { tags }),
+        ...(attributes && { attributes }),
+        // The contextual embedding header names the file and lists its attributes
+        ...((fileName || attributes) && { embeddingContext: null }),
+        ...(chunkingStrategy !== undefined && {
+          // "auto" is stored as null so the default can change later
+          chunkingStrategy: chunkingStrategy === 'auto' ? null : chunkingStrategy,
+          status: 'PROCESSING',
+        }),
       },
     });
 
+    // Tags and attributes are listed in the chat's study context
+    if (tags || attributes) {
+      await invalidateStudyMetadataOnDocumentChange(updated.studyId);
+    }
+
+    // Re-chunk with the new strategy in the ingestion worker
+    if (chunkingStrategy !== undefined) {
+      await requeueIngestionJob({ documentId, userId });
+      kickIngestionWorker();
+    }
+
     return NextResponse.json(updated);
   } catch (error) {
     console.error("Document update error:", error);
@@ -132,6 +185,9 @@ export async function DELETE(
       );
     }
 
+    // Files of replaced versions; their records go with the document's cascade
+    const archivedPaths = await getArchivedStoragePaths(documentId);
+
     // Delete chunks first (should be handled by cascade, but being explicit)
     await prisma.documentChunk.deleteMany({
       where: { documentId },
@@ -142,9 +198,10 @@ export async function DELETE(
       where: { id: documentId },
     });
 
-    // Clean up physical file (non-blocking)
-    if (document.storagePath) {
-      const cleanup = await deleteDocumentFiles(documentId, document.storagePath);
+    // Clean up physical files (non-blocking)
+    const storagePaths = document.storagePath ? [document.storagePath, ...archivedPaths] : archivedPaths;
+    for (const storagePath of storagePaths) {
+      const cleanup = await deleteDocumentFiles(documentId, storagePath);
       if (!cleanup.success) {
         console.error(`File cleanup failed for document ${documentId}:`, cleanup.error);
         // Continue - database cleanup succeeded
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth";
+import { storeFile, validateFile } from "@/lib/file-storage";
+import { extractTextFromBuffer } from "@/lib/document-processing";
+import { isSurveyColumnMapping } from "@/lib/survey-import";
+import { trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { kickIngestionWorker, requeueIngestionJob } from "@/lib/ingestion";
+import { hashContent } from "@/lib/document-dedup";
+import { listDocumentVersions, replaceDocumentFile } from "@/lib/document-versions";
+
+/**
+ * Determine the actual storage type used based on headers and environment
+ */
+function determineStorageType(request: NextRequest): string {
+  const storageType = request.headers.get('X-Storage-Type');
+  const forceLocal = request.headers.get('X-Storage-Local') === 'true';
+
+  if (storageType) {
+    return storageType;
+  } else if (forceLocal) {
+    return 'filesystem';
+  } else {
+    // Default behavior
+    return (process.env.NODE_ENV === "production" && process.env.BLOB_READ_WRITE_TOKEN)
+      ? "vercel-blob"
+      : "filesystem";
+  }
+}
+
+/**
+ * GET /api/documents/[documentId]/versions
+ * Every version of the document, newest first
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ documentId: string }> }
+) {
+  const params = await context.params;
+  try {
+    const userId = await requireAuth();
+
+    const document = await prisma.document.findFirst({
+      where: { id: params.documentId, study: { userId } },
+      select: { id: true, version: true, fileName: true, fileSize: true, versionCreatedAt: true },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ versions: await listDocumentVersions(document) });
+  } catch (error) {
+    console.error("Error fetching document versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch document versions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[documentId]/versions
+ * Replace the document's file with a new version (multipart `file`). The
+ * previous version stays viewable and its citations keep resolving to it;
+ * the new one is re-chunked and re-embedded in the background.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ documentId: string }> }
+) {
+  const params = await context.params;
+  const userId = await requireAuth();
+
+  try {
+    const document = await prisma.document.findFirst({
+      where: { id: params.documentId, study: { userId } },
+      select: { id: true, studyId: true, status: true, surveyMapping: true },
+    });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    if (document.status === "PROCESSING") {
+      return NextResponse.json(
+        { error: "Document is still processing; try again when it is ready" },
+        { status: 409 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file") as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "No file provided" },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    // Reject the replacement before archiving anything if its text can't be read;
+    // spreadsheets keep the column mapping chosen for the first version
+    const surveyMapping = isSurveyColumnMapping(document.surveyMapping) ? document.surveyMapping : null;
+    const extractionResult = await extractTextFromBuffer(buffer, file.type, file.name, { surveyMapping });
+
+    if ('error' in extractionResult) {
+      return NextResponse.json(
+        {
+          error: "Document processing failed",
+          details: extractionResult.details || extractionResult.error,
+        },
+        { status: 422 }
+      );
+    }
+
+    const storageResult = await storeFile(file.name, buffer, document.studyId, request);
+
+    const version = await replaceDocumentFile(document.id, {
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      storagePath: storageResult.pathname,
+      storageUrl: storageResult.url,
+      storageType: determineStorageType(request),
+      contentHash: hashContent(buffer),
+    }, extractionResult, surveyMapping);
+
+    await requeueIngestionJob({ documentId: document.id, userId });
+    kickIngestionWorker();
+
+    return NextResponse.json({
+      success: true,
+      document: {
+        id: document.id,
+        fileName: file.name,
+        status: "PROCESSING",
+        version,
+      },
+    });
+  } catch (error) {
+    console.error("Document replacement error:", error);
+
+    await trackErrorEvent('upload_error_occurred', {
+      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : 'Unknown replacement error',
+      endpoint: `/api/documents/${params.documentId}/versions`,
+      statusCode: 500,
+      stackTrace: error instanceof Error ? error.stack : undefined,
+    }, userId);
+
+    return NextResponse.json(
+      { error: "Failed to replace file. Please try again." },
+      { status: 500 }
+    );
+  }
+}
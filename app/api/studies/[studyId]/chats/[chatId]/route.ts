@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { validateStudyOwnership } from "@/lib/auth";
+import { parseChatScope } from "@/lib/types/chat-scope";
 
 export async function GET(
   request: NextRequest,
@@ -49,6 +50,11 @@ export async function GET(
   }
 }
 
+/**
+ * PATCH /api/studies/[studyId]/chats/[chatId]
+ * Rename the chat and/or change its scope: { title?, folderPath?, documentIds?,
+ * filter? }, where null or empty values open that part of the scope again
+ */
 export async function PATCH(
   request: NextRequest,
   context: { params: Promise<{ studyId: string; chatId: string }> }
@@ -56,9 +62,18 @@ export async function PATCH(
   const params = await context.params;
   
   try {
-    const { title }: { title?: string } = await request.json();
+    const body = await request.json();
+    const title: string | undefined = body?.title;
+    const scope = parseChatScope(body);
 
-    if (!title) {
+    if (!scope) {
+      return NextResponse.json(
+        { error: "Invalid chat scope" },
+        { status: 400 }
+      );
+    }
+
+    if (!title && Object.keys(scope).length === 0) {
       return NextResponse.json(
         { error: "Title is required" },
         { status: 400 }
@@ -74,13 +89,29 @@ export async function PATCH(
       );
     }
 
+    // Pinned documents must belong to the study
+    if (scope.documentIds?.length) {
+      const found = await prisma.document.count({
+        where: { studyId: params.studyId, id: { in: scope.documentIds } },
+      });
+      if (found !== scope.documentIds.length) {
+        return NextResponse.json(
+          { error: "Pinned documents not found in this study" },
+          { status: 400 }
+        );
+      }
+    }
+
     const chat = await prisma.chat.updateMany({
       where: {
         id: params.chatId,
         studyId: params.studyId, // Ensure chat belongs to the study
       },
       data: {
-        title,
+        ...(title && { title }),
+        ...(scope.folderPath !== undefined && { folderPath: scope.folderPath }),
+        ...(scope.documentIds && { scopeDocumentIds: scope.documentIds }),
+        ...(scope.filter && { scopeTags: scope.filter.tags, scopeAttributes: scope.filter.attributes }),
         updatedAt: new Date(),
       },
     });
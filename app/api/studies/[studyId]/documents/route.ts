@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, validateStudyOwnership } from "@/lib/auth";
 import { trackServerEvent, trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { invalidateStudyMetadataOnDocumentChange } from "@/lib/metadata-collector";
+import { DocumentMetadataError, updateDocumentMetadata } from "@/lib/document-metadata";
+import { parseDocumentMetadataUpdate } from "@/lib/types/document-metadata";
+import { moveDocumentsToFolder } from "@/lib/document-folders";
+import { parseFolderPath } from "@/lib/types/folders";
 
 export async function GET(
   request: NextRequest,
@@ -50,4 +55,99 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+/**
+ * PATCH /api/studies/[studyId]/documents
+ * Bulk-edit tags and attributes and/or move documents to a folder:
+ * { documentIds, tags?, attributes?, addTags?, removeTags?, setAttributes?,
+ * removeAttributes?, folderPath? }, where a null folderPath moves documents
+ * out of every folder
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ studyId: string }> }
+) {
+  const params = await context.params;
+  try {
+    const userId = await requireAuth();
+
+    const isOwner = await validateStudyOwnership(params.studyId);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Study not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const documentIds = body?.documentIds;
+    if (!Array.isArray(documentIds) || documentIds.length === 0 || !documentIds.every(id => typeof id === "string")) {
+      return NextResponse.json(
+        { error: "documentIds must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+
+    const update = parseDocumentMetadataUpdate(body);
+    if (!update) {
+      return NextResponse.json(
+        { error: "Invalid tags or attributes" },
+        { status: 400 }
+      );
+    }
+
+    const folderPath = body.folderPath === undefined ? undefined : parseFolderPath(body.folderPath);
+    if (body.folderPath !== undefined && folderPath === undefined) {
+      return NextResponse.json(
+        { error: "Invalid folder" },
+        { status: 400 }
+      );
+    }
+
+    let updated = 0;
+    if (Object.keys(update).length > 0) {
+      updated = await updateDocumentMetadata(params.studyId, documentIds, update);
+
+      await trackServerEvent('documents_metadata_updated', {
+        study_id: params.studyId,
+        document_count: updated,
+      }, userId);
+    }
+
+    if (folderPath !== undefined) {
+      updated = await moveDocumentsToFolder(params.studyId, documentIds, folderPath);
+
+      await trackServerEvent('documents_moved', {
+        study_id: params.studyId,
+        document_count: updated,
+        folder_depth: folderPath ? folderPath.split("/").length : 0,
+      }, userId);
+    }
+
+    await invalidateStudyMetadataOnDocumentChange(params.studyId);
+
+    return NextResponse.json({ updated });
+  } catch (error) {
+    if (error instanceof DocumentMetadataError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error updating document metadata:", error);
+
+    await trackErrorEvent('api_error_occurred', {
+      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error updating documents',
+      endpoint: `/api/studies/${params.studyId}/documents`,
+      statusCode: 500,
+      stackTrace: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      { error: "Failed to update documents" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, validateStudyOwnership } from "@/lib/auth";
+import { trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { prisma } from "@/lib/prisma";
+import {
+  getStudyPrivacySettings,
+  getStudyPseudonyms,
+  STUDY_PRIVACY_SELECT,
+  toStudyPrivacySettings,
+} from "@/lib/pii-redaction";
+import { isPiiDetectorName, isPiiDictionary, isPiiDisplay } from "@/lib/types/pii";
+
+/**
+ * GET /api/studies/[studyId]/privacy
+ * The study's PII redaction settings and its pseudonym key
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ studyId: string }> }
+) {
+  const params = await context.params;
+  try {
+    await requireAuth();
+
+    // Validate user owns this study
+    const isOwner = await validateStudyOwnership(params.studyId);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Study not found" },
+        { status: 404 }
+      );
+    }
+
+    const [settings, pseudonyms] = await Promise.all([
+      getStudyPrivacySettings(params.studyId),
+      getStudyPseudonyms(params.studyId),
+    ]);
+
+    return NextResponse.json({ settings, pseudonyms });
+
+  } catch (error) {
+    console.error("Error fetching privacy settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch privacy settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/studies/[studyId]/privacy
+ * Update any of redaction, detectors, dictionary and display. Redaction
+ * changes apply to documents processed afterwards.
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ studyId: string }> }
+) {
+  const params = await context.params;
+
+  try {
+    await requireAuth();
+
+    // Validate user owns this study
+    const isOwner = await validateStudyOwnership(params.studyId);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Study not found" },
+        { status: 404 }
+      );
+    }
+
+    const { redaction, detectors, dictionary, display } = await request.json();
+    const data: Record<string, unknown> = {};
+
+    if (redaction !== undefined) {
+      if (typeof redaction !== "boolean") {
+        return NextResponse.json({ error: "redaction must be a boolean" }, { status: 400 });
+      }
+      data.piiRedaction = redaction;
+    }
+
+    if (detectors !== undefined) {
+      if (!Array.isArray(detectors) || !detectors.every(isPiiDetectorName)) {
+        return NextResponse.json({ error: "Unknown PII detector" }, { status: 400 });
+      }
+      data.piiDetectors = Array.from(new Set(detectors));
+    }
+
+    if (dictionary !== undefined) {
+      if (!isPiiDictionary(dictionary)) {
+        return NextResponse.json(
+          { error: "dictionary must be a list of { term, category: 'person' | 'organization' }" },
+          { status: 400 }
+        );
+      }
+      data.piiDictionary = dictionary.map(entry => ({ term: entry.term.trim(), category: entry.category }));
+    }
+
+    if (display !== undefined) {
+      if (!isPiiDisplay(display)) {
+        return NextResponse.json({ error: "display must be 'original' or 'pseudonymized'" }, { status: 400 });
+      }
+      data.piiDisplay = display;
+    }
+
+    const study = await prisma.study.update({
+      where: { id: params.studyId },
+      data,
+      select: STUDY_PRIVACY_SELECT,
+    });
+
+    return NextResponse.json({ settings: toStudyPrivacySettings(study) });
+
+  } catch (error) {
+    console.error("Error updating privacy settings:", error);
+
+    await trackErrorEvent('api_error_occurred', {
+      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error updating privacy settings',
+      endpoint: `/api/studies/${params.studyId}/privacy`,
+      statusCode: 500,
+      stackTrace: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      { error: "Failed to update privacy settings" },
+      { status: 500 }
+    );
+  }
+}
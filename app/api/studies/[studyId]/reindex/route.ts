@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, validateStudyOwnership } from "@/lib/auth";
+import { trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { getStudyEmbeddingModels } from "@/lib/data";
+import {
+  formatReindexJobProgress,
+  getLatestReindexJob,
+  runReindexJob,
+  startReindexJob,
+} from "@/lib/reindexing";
+
+/**
+ * GET /api/studies/[studyId]/reindex
+ * Progress of the latest reindex job plus the study's embedding model mix
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ studyId: string }> }
+) {
+  const params = await context.params;
+  try {
+    await requireAuth();
+
+    // Validate user owns this study
+    const isOwner = await validateStudyOwnership(params.studyId);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Study not found" },
+        { status: 404 }
+      );
+    }
+
+    const [job, embeddings] = await Promise.all([
+      getLatestReindexJob(params.studyId),
+      getStudyEmbeddingModels(params.studyId),
+    ]);
+
+    return NextResponse.json({
+      job: job ? formatReindexJobProgress(job) : null,
+      embeddings,
+    });
+
+  } catch (error) {
+    console.error("Error fetching reindex status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reindex status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/studies/[studyId]/reindex
+ * Re-chunk and re-embed every document in the study in the background.
+ * Resumes the study's unfinished job if there is one.
+ */
+export async function POST(
+  _request: NextRequest,
+  context: { params: Promise<{ studyId: string }> }
+) {
+  const params = await context.params;
+
+  try {
+    const userId = await requireAuth();
+
+    // Validate user owns this study
+    const isOwner = await validateStudyOwnership(params.studyId);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Study not found" },
+        { status: 404 }
+      );
+    }
+
+    let job;
+    try {
+      job = await startReindexJob(params.studyId);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Reindex job already running" },
+        { status: 409 }
+      );
+    }
+
+    // Process in background; progress is polled via GET
+    runReindexJob(job.id).catch(async (error) => {
+      console.error(`Reindex job ${job.id} crashed:`, error);
+
+      await trackErrorEvent('api_error_occurred', {
+        errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+        errorMessage: error instanceof Error ? error.message : 'Unknown reindex error',
+        endpoint: `/api/studies/${params.studyId}/reindex`,
+        statusCode: 500,
+      }, userId);
+    });
+
+    return NextResponse.json(
+      { job: formatReindexJobProgress(job) },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    console.error("Error starting reindex job:", error);
+
+    await trackErrorEvent('api_error_occurred', {
+      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error starting reindex job',
+      endpoint: `/api/studies/${params.studyId}/reindex`,
+      statusCode: 500,
+      stackTrace: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      { error: "Failed to start reindex job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, validateStudyOwnership } from "@/lib/auth";
+import { trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { prisma } from "@/lib/prisma";
+
+const STUDY_RETRIEVAL_SELECT = {
+  contextualEmbeddings: true,
+} as const;
+
+/**
+ * GET /api/studies/[studyId]/retrieval
+ * The study's retrieval settings
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ studyId: string }> }
+) {
+  const params = await context.params;
+  try {
+    await requireAuth();
+
+    // Validate user owns this study
+    const isOwner = await validateStudyOwnership(params.studyId);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Study not found" },
+        { status: 404 }
+      );
+    }
+
+    const settings = await prisma.study.findUnique({
+      where: { id: params.studyId },
+      select: STUDY_RETRIEVAL_SELECT,
+    });
+
+    return NextResponse.json({ settings });
+
+  } catch (error) {
+    console.error("Error fetching retrieval settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch retrieval settings" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/studies/[studyId]/retrieval
+ * Turn contextual chunk embeddings on or off. The change applies to documents
+ * processed afterwards; reindex the study to apply it to existing documents.
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ studyId: string }> }
+) {
+  const params = await context.params;
+
+  try {
+    await requireAuth();
+
+    // Validate user owns this study
+    const isOwner = await validateStudyOwnership(params.studyId);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Study not found" },
+        { status: 404 }
+      );
+    }
+
+    const { contextualEmbeddings } = await request.json();
+    if (typeof contextualEmbeddings !== "boolean") {
+      return NextResponse.json({ error: "contextualEmbeddings must be a boolean" }, { status: 400 });
+    }
+
+    const settings = await prisma.study.update({
+      where: { id: params.studyId },
+      data: { contextualEmbeddings },
+      select: STUDY_RETRIEVAL_SELECT,
+    });
+
+    return NextResponse.json({ settings });
+
+  } catch (error) {
+    console.error("Error updating retrieval settings:", error);
+
+    await trackErrorEvent('api_error_occurred', {
+      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error updating retrieval settings',
+      endpoint: `/api/studies/${params.studyId}/retrieval`,
+      statusCode: 500,
+      stackTrace: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      { error: "Failed to update retrieval settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, validateStudyOwnership } from "@/lib/auth";
 import { trackStudyEvent, trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { getRecordedDuplicate, RECORDED_DUPLICATE_SELECT } from "@/lib/document-dedup";
 
 export async function GET(
   request: NextRequest,
@@ -28,6 +29,7 @@ export async function GET(
       include: {
         documents: {
           orderBy: { uploadedAt: "desc" },
+          include: { duplicateOf: RECORDED_DUPLICATE_SELECT.duplicateOf },
         },
         messages: {
           orderBy: { timestamp: "asc" },
@@ -56,7 +58,14 @@ export async function GET(
       messageCount: study._count.messages,
     }, userId);
 
-    return NextResponse.json(study);
+    return NextResponse.json({
+      ...study,
+      // Flattened to the shape upload statuses report
+      documents: study.documents.map((document: Parameters<typeof getRecordedDuplicate>[0]) => ({
+        ...document,
+        duplicateOf: getRecordedDuplicate(document) ?? null,
+      })),
+    });
   } catch (error) {
     console.error("Error fetching study:", error);
     
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireAuth } from "@/lib/auth";
+import { joinArchivePath } from "@/lib/zip-archive";
+import { getRecordedDuplicate, RECORDED_DUPLICATE_SELECT } from "@/lib/document-dedup";
+import type { DuplicateMatch } from "@/lib/types/duplicates";
 
 interface BatchStatusResponse {
   batchId: string;
@@ -8,10 +11,11 @@ interface BatchStatusResponse {
   files: {
     [fileName: string]: {
       id?: string;
-      status: 'queued' | 'validating' | 'processing' | 'completed' | 'failed';
+      status: 'queued' | 'validating' | 'processing' | 'completed' | 'failed' | 'skipped';
       progress: number;
       error?: string;
       url?: string;
+      duplicateOf?: DuplicateMatch;
     };
   };
   summary: {
@@ -41,9 +45,17 @@ export async function GET(
           select: {
             id: true,
             fileName: true,
+            folderPath: true,
             status: true,
             storageUrl: true,
             uploadedAt: true,
+            ...RECORDED_DUPLICATE_SELECT,
+            ingestionJob: {
+              select: {
+                status: true,
+                lastError: true,
+              },
+            },
           },
         },
         study: {
@@ -72,7 +84,10 @@ export async function GET(
 
     // Build file status map
     const fileStatuses: BatchStatusResponse['files'] = {};
-    const metadata = batch.metadata as { fileNames?: string[] } | null;
+    const metadata = batch.metadata as {
+      fileNames?: string[];
+      skippedDuplicates?: Array<{ key: string; duplicateOf: DuplicateMatch }>;
+    } | null;
     const fileNames = metadata?.fileNames || [];
 
     // Initialize all files with queued status
@@ -83,6 +98,15 @@ export async function GET(
       };
     });
 
+    // Duplicates left out of the batch at upload
+    metadata?.skippedDuplicates?.forEach(({ key, duplicateOf }) => {
+      fileStatuses[key] = {
+        status: 'skipped',
+        progress: 100,
+        duplicateOf,
+      };
+    });
+
     // Update status based on documents
     let completedCount = 0;
     let failedCount = 0;
@@ -104,8 +128,14 @@ export async function GET(
           failedCount++;
           break;
         case 'PROCESSING':
-          status = 'processing';
-          progress = 50; // Assume halfway through when processing
+          // Waiting in the ingestion queue (including retry backoff) vs. being worked on
+          if (doc.ingestionJob?.status === 'QUEUED') {
+            status = 'queued';
+            progress = 0;
+          } else {
+            status = 'processing';
+            progress = 50; // Assume halfway through when processing
+          }
           processingCount++;
           break;
         default:
@@ -113,11 +143,14 @@ export async function GET(
           progress = 0;
       }
 
-      fileStatuses[doc.fileName] = {
+      // Archive entries are keyed by their path, as in the batch metadata
+      fileStatuses[joinArchivePath(doc.folderPath, doc.fileName)] = {
         id: doc.id,
         status,
         progress,
+        error: doc.status === 'FAILED' ? doc.ingestionJob?.lastError || undefined : undefined,
         url: doc.status === 'READY' ? doc.storageUrl || undefined : undefined,
+        duplicateOf: getRecordedDuplicate(doc),
       };
     });
 
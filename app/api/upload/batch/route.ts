@@ -1,17 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireAuth, validateStudyOwnership } from "@/lib/auth";
-import { storeFile, validateFile } from "@/lib/file-storage";
-import { extractTextFromBuffer } from "@/lib/document-processing";
-import { chunkText } from "@/lib/document-chunking";
-import { generateBatchEmbeddings, serializeEmbedding } from "@/lib/voyage-embeddings";
-import { trackBatchUploadEvent, trackErrorEvent, trackStudyEvent } from "@/lib/analytics/server-analytics";
-import { invalidateStudyMetadataOnDocumentChange } from "@/lib/metadata-collector";
-import { generateStudySummary } from "@/lib/summary-generation";
-
-// In-memory concurrency tracking
-const userConcurrency = new Map<string, number>();
-const MAX_CONCURRENT_FILES_PER_USER = 3;
+import { readStoredFile, storeFile, validateFile } from "@/lib/file-storage";
+import { trackBatchUploadEvent, trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { isChunkingStrategy, type ChunkingStrategy } from "@/lib/document-chunking";
+import { isSurveyColumnMapping, type SurveyColumnMapping } from "@/lib/survey-import";
+import { countActiveIngestionJobs, enqueueIngestionJob, kickIngestionWorker } from "@/lib/ingestion";
+import { MAX_ARCHIVE_SIZE } from "@/lib/constants";
+import {
+  ArchiveError,
+  expandZipArchive,
+  isZipArchive,
+  ARCHIVE_LIMITS,
+  type SkippedArchiveEntry,
+} from "@/lib/zip-archive";
+import { getCompletedUploads, UploadSessionError, type UploadSessionRecord } from "@/lib/resumable-upload";
+import { deleteAssembledUpload } from "@/lib/file-storage/resumable";
+import {
+  findDuplicateByHash,
+  getDuplicateFields,
+  hashContent,
+} from "@/lib/document-dedup";
+import { isDuplicateHandling, type DuplicateMatch } from "@/lib/types/duplicates";
+
+// Limit on a user's queued + in-flight ingestion jobs (tracked in the job table);
+// sized so one full archive fits
+const MAX_QUEUED_FILES_PER_USER = ARCHIVE_LIMITS.maxFiles;
+// Files per request, resumable uploads included; a .zip counts as one however
+// many entries it expands to
 const MAX_FILES_PER_BATCH = 5;
 const MAX_BATCH_SIZE_MB = 50;
 
@@ -21,10 +37,11 @@ interface BatchUploadResponse {
   files: {
     [fileName: string]: {
       id?: string;
-      status: 'queued' | 'validating' | 'processing' | 'completed' | 'failed';
+      status: 'queued' | 'validating' | 'processing' | 'completed' | 'failed' | 'skipped';
       progress: number;
       error?: string;
       url?: string;
+      duplicateOf?: DuplicateMatch;
     };
   };
   summary: {
@@ -33,6 +50,42 @@ interface BatchUploadResponse {
     failed: number;
     processing: number;
   };
+  skipped: SkippedArchiveEntry[]; // Archive entries that were not uploaded
+}
+
+/**
+ * A file to store: uploaded directly, expanded from a .zip, or already
+ * stored by a resumable upload
+ */
+type BatchFile = {
+  key: string; // Name in the batch status (path inside the archive for entries)
+  folderPath: string | null;
+} & (
+  | { file: File; upload?: never }
+  | { upload: UploadSessionRecord; file?: never }
+);
+
+function getBatchFileSize(batchFile: BatchFile): number {
+  return batchFile.file ? batchFile.file.size : batchFile.upload.fileSize;
+}
+
+/**
+ * A batch file with its content hash and, when the user already has the same
+ * bytes, the document it duplicates
+ */
+interface HashedBatchFile {
+  batchFile: BatchFile;
+  contentHash: string;
+  duplicate: DuplicateMatch | null;
+  duplicateInBatch: boolean; // Same bytes as an earlier file of this batch
+}
+
+/**
+ * A duplicate skipped instead of stored, kept in the batch metadata
+ */
+interface SkippedDuplicate {
+  key: string;
+  duplicateOf: DuplicateMatch;
 }
 
 /**
@@ -60,6 +113,16 @@ export async function POST(request: NextRequest) {
     // Parse the multipart form data
     const formData = await request.formData();
     const studyId = formData.get("studyId") as string;
+    // Optional chunking override applied to every file; anything unrecognised auto-detects
+    const chunkingStrategyField = formData.get("chunkingStrategy");
+    const chunkingStrategy = isChunkingStrategy(chunkingStrategyField) && chunkingStrategyField !== 'auto'
+      ? chunkingStrategyField
+      : null;
+    // Spreadsheet column mappings chosen in the upload dialog, keyed by file name
+    const surveyMappings = parseSurveyMappings(formData.get("surveyMappings"));
+    // Files the user already uploaded are stored and flagged ("warn") or left out ("skip")
+    const duplicatesField = formData.get("duplicates");
+    const duplicateHandling = isDuplicateHandling(duplicatesField) ? duplicatesField : 'warn';
 
     // Collect all files from formData
     const files: File[] = [];
@@ -71,7 +134,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    if (files.length === 0) {
+    // Large files sent ahead through /api/upload/resumable
+    const uploadIds = formData.getAll("uploadIds").filter((id): id is string => typeof id === 'string' && id.length > 0);
+
+    if (files.length === 0 && uploadIds.length === 0) {
       await trackErrorEvent('batch_upload_error_occurred', {
         errorType: 'ValidationError',
         errorMessage: 'No files provided',
@@ -109,7 +175,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Batch validation
-    const validationResult = await validateBatch(userId, studyId, files);
+    const validationResult = await validateBatch(userId, studyId, files, uploadIds.length);
     if (!validationResult.valid) {
       await trackErrorEvent('batch_upload_error_occurred', {
         errorType: 'BatchValidationError',
@@ -124,33 +190,111 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check concurrency limits
-    const currentConcurrency = userConcurrency.get(userId) || 0;
-    if (currentConcurrency + files.length > MAX_CONCURRENT_FILES_PER_USER) {
+    let uploads: UploadSessionRecord[];
+    try {
+      uploads = await getCompletedUploads(uploadIds, userId, studyId);
+    } catch (error) {
+      if (!(error instanceof UploadSessionError)) throw error;
+
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    // Expand archives into their entries
+    const batchFiles: BatchFile[] = [];
+    const skipped: SkippedArchiveEntry[] = [];
+    const expandedUploads: UploadSessionRecord[] = [];
+    const sources: Array<{ name: string; type: string; file?: File; upload?: UploadSessionRecord }> = [
+      ...files.map(file => ({ name: file.name, type: file.type, file })),
+      ...uploads.map(upload => ({ name: upload.fileName, type: upload.fileType, upload })),
+    ];
+    for (const source of sources) {
+      if (!isZipArchive(source)) {
+        batchFiles.push(source.file
+          ? { file: source.file, key: source.name, folderPath: null }
+          : { upload: source.upload!, key: source.name, folderPath: null });
+        continue;
+      }
+
+      try {
+        // Direct archives were size-checked in validateBatch; check stored
+        // ones before they are read into memory
+        if (source.upload && source.upload.fileSize > MAX_ARCHIVE_SIZE) {
+          throw new ArchiveError(`Exceeds the ${MAX_ARCHIVE_SIZE / (1024 * 1024)}MB archive limit`);
+        }
+
+        const buffer = source.file
+          ? Buffer.from(await source.file.arrayBuffer())
+          : await readStoredFile(source.upload!);
+        const archive = await expandZipArchive(source.name, buffer);
+        archive.files.forEach(entry => {
+          batchFiles.push({ file: entry.file, key: entry.path, folderPath: entry.folderPath });
+        });
+        skipped.push(...archive.skipped);
+        if (source.upload) expandedUploads.push(source.upload);
+      } catch (error) {
+        if (!(error instanceof ArchiveError)) throw error;
+
+        await trackErrorEvent('batch_upload_error_occurred', {
+          errorType: 'ArchiveError',
+          errorMessage: error.message,
+          endpoint: '/api/upload/batch',
+          statusCode: 400,
+        }, userId);
+
+        return NextResponse.json(
+          { error: `Archive "${source.name}": ${error.message}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (batchFiles.length === 0) {
+      return NextResponse.json(
+        { error: "No supported files found in the archive", skipped },
+        { status: 400 }
+      );
+    }
+
+    // Find files the user has already uploaded, or that repeat within the batch
+    const hashedFiles = await hashBatchFiles(batchFiles, userId);
+    const isSkipped = (hashed: HashedBatchFile) =>
+      duplicateHandling === 'skip' && (hashed.duplicate !== null || hashed.duplicateInBatch);
+    const filesToStore = hashedFiles.filter(hashed => !isSkipped(hashed));
+    const filesToSkip = hashedFiles.filter(isSkipped);
+
+    // Check queue limits
+    const activeJobs = await countActiveIngestionJobs(userId);
+    if (activeJobs + filesToStore.length > MAX_QUEUED_FILES_PER_USER) {
       await trackErrorEvent('batch_upload_error_occurred', {
         errorType: 'ConcurrencyLimitError',
-        errorMessage: `Concurrent file limit exceeded: ${currentConcurrency + files.length}/${MAX_CONCURRENT_FILES_PER_USER}`,
+        errorMessage: `Queued file limit exceeded: ${activeJobs + filesToStore.length}/${MAX_QUEUED_FILES_PER_USER}`,
         endpoint: '/api/upload/batch',
         statusCode: 429,
       }, userId);
 
       return NextResponse.json(
-        { error: `Too many concurrent uploads. Maximum ${MAX_CONCURRENT_FILES_PER_USER} files can be processed at once.` },
+        { error: `Too many files are still processing. Maximum ${MAX_QUEUED_FILES_PER_USER} files can be queued at once.` },
         { status: 429 }
       );
     }
 
-    // Create batch record in database
+    const storedSize = filesToStore.reduce((sum, { batchFile }) => sum + getBatchFileSize(batchFile), 0);
+
+    // Create batch record in database; a batch of only skipped duplicates has
+    // nothing to process
     const batch = await prisma.uploadBatch.create({
       data: {
         userId,
         studyId,
-        status: "VALIDATING",
-        totalFiles: files.length,
+        status: filesToStore.length > 0 ? "PROCESSING" : "COMPLETED",
+        totalFiles: filesToStore.length,
         metadata: {
-          fileNames: files.map(f => f.name),
-          totalSize: files.reduce((sum, f) => sum + f.size, 0),
-          concurrency: Math.min(files.length, MAX_CONCURRENT_FILES_PER_USER),
+          fileNames: filesToStore.map(({ batchFile }) => batchFile.key),
+          totalSize: storedSize,
+          ...(skipped.length > 0 && { skipped }),
         },
       },
     });
@@ -159,34 +303,67 @@ export async function POST(request: NextRequest) {
     await trackBatchUploadEvent('batch_upload_started', {
       batchId: batch.id,
       studyId,
-      fileCount: files.length,
-      totalSizeMb: Math.round(files.reduce((sum, f) => sum + f.size, 0) / (1024 * 1024) * 100) / 100,
-      concurrentFiles: Math.min(files.length, MAX_CONCURRENT_FILES_PER_USER),
+      fileCount: filesToStore.length,
+      totalSizeMb: Math.round(storedSize / (1024 * 1024) * 100) / 100,
     }, userId);
 
-    // Initialize file status tracking
+    // Store each file and queue it for ingestion; extraction, chunking and
+    // embedding happen in the ingestion worker
     const fileStatuses: BatchUploadResponse['files'] = {};
-    files.forEach(file => {
-      fileStatuses[file.name] = {
+    for (const hashed of filesToStore) {
+      const { key } = hashed.batchFile;
+      const duplicate = await resolveDuplicate(hashed, userId);
+      const document = await storeAndEnqueueFile(hashed.batchFile, batch.id, studyId, userId, request, {
+        chunkingStrategy,
+        surveyMapping: surveyMappings[key] ?? null,
+        contentHash: hashed.contentHash,
+        duplicate,
+      });
+      fileStatuses[key] = {
+        id: document.id,
         status: 'queued',
         progress: 0,
+        ...(duplicate && { duplicateOf: duplicate }),
       };
-    });
+    }
+
+    if (filesToStore.length > 0) {
+      kickIngestionWorker();
+    }
 
-    // Update concurrency counter
-    userConcurrency.set(userId, currentConcurrency + files.length);
-
-    // Process batch asynchronously
-    processBatchAsync(batch.id, files, studyId, userId, request).finally(() => {
-      // Decrement concurrency counter when done
-      const current = userConcurrency.get(userId) || 0;
-      const newCount = Math.max(0, current - files.length);
-      if (newCount === 0) {
-        userConcurrency.delete(userId);
-      } else {
-        userConcurrency.set(userId, newCount);
+    // Skipped duplicates are reported against the document they repeat;
+    // those repeating an earlier file of this batch resolve to it now it's stored
+    const skippedDuplicates: SkippedDuplicate[] = [];
+    for (const hashed of filesToSkip) {
+      const { key, upload } = hashed.batchFile;
+      const duplicate = await resolveDuplicate(hashed, userId);
+      if (duplicate) {
+        skippedDuplicates.push({ key, duplicateOf: duplicate });
+        fileStatuses[key] = { status: 'skipped', progress: 100, duplicateOf: duplicate };
       }
-    });
+      if (upload) {
+        await deleteAssembledUpload(upload);
+        await prisma.uploadSession.delete({ where: { id: upload.id } });
+      }
+    }
+
+    if (skippedDuplicates.length > 0) {
+      await prisma.uploadBatch.update({
+        where: { id: batch.id },
+        data: {
+          metadata: {
+            ...(batch.metadata as Record<string, unknown>),
+            skippedDuplicates,
+          },
+        },
+      });
+    }
+
+    // Archives uploaded resumably have been expanded; drop the .zip itself
+    for (const upload of expandedUploads) {
+      await deleteAssembledUpload(upload);
+      await prisma.uploadSession.delete({ where: { id: upload.id } });
+    }
 
     // Return initial response
     return NextResponse.json({
@@ -194,11 +371,12 @@ export async function POST(request: NextRequest) {
       status: 'started',
       files: fileStatuses,
       summary: {
-        total: files.length,
+        total: filesToStore.length,
         completed: 0,
         failed: 0,
-        processing: files.length,
+        processing: filesToStore.length,
       },
+      skipped,
     } as BatchUploadResponse);
 
   } catch (error) {
@@ -240,9 +418,9 @@ export async function OPTIONS() {
 /**
  * Validate batch upload request
  */
-async function validateBatch(userId: string, studyId: string, files: File[]) {
-  // Check batch size limits
-  if (files.length > MAX_FILES_PER_BATCH) {
+async function validateBatch(userId: string, studyId: string, files: File[], uploadCount: number) {
+  // Check batch size limits; resumable uploads were size-checked when they started
+  if (files.length + uploadCount > MAX_FILES_PER_BATCH) {
     return { valid: false, error: `Maximum ${MAX_FILES_PER_BATCH} files per batch` };
   }
 
@@ -252,8 +430,15 @@ async function validateBatch(userId: string, studyId: string, files: File[]) {
     return { valid: false, error: `Batch too large (max ${MAX_BATCH_SIZE_MB}MB, current: ${Math.round(totalSizeMB * 100) / 100}MB)` };
   }
 
-  // Validate each file
+  // Validate each file; archive entries are validated as they are expanded
   for (const file of files) {
+    if (isZipArchive(file)) {
+      if (file.size > MAX_ARCHIVE_SIZE) {
+        return { valid: false, error: `File "${file.name}": Archive exceeds ${MAX_ARCHIVE_SIZE / (1024 * 1024)}MB limit` };
+      }
+      continue;
+    }
+
     const validation = validateFile(file);
     if (!validation.valid) {
       return { valid: false, error: `File "${file.name}": ${validation.error}` };
@@ -264,316 +449,125 @@ async function validateBatch(userId: string, studyId: string, files: File[]) {
 }
 
 /**
- * Process batch of files asynchronously
+ * Parse the surveyMappings field (JSON object of file name to column mapping),
+ * dropping malformed entries; those spreadsheets fall back to inferred columns
  */
-async function processBatchAsync(
-  batchId: string,
-  files: File[],
-  studyId: string,
-  userId: string,
-  request: NextRequest
-): Promise<void> {
-  const startTime = Date.now();
+function parseSurveyMappings(field: FormDataEntryValue | null): Record<string, SurveyColumnMapping> {
+  if (typeof field !== 'string' || !field) {
+    return {};
+  }
 
   try {
-    console.log(`Starting batch processing for ${batchId}: ${files.length} files`);
-
-    // Update batch status to processing
-    await prisma.uploadBatch.update({
-      where: { id: batchId },
-      data: { status: "PROCESSING" },
-    });
-
-    await trackBatchUploadEvent('batch_processing_started', {
-      batchId,
-      studyId,
-      fileCount: files.length,
-      totalSizeMb: Math.round(files.reduce((sum, f) => sum + f.size, 0) / (1024 * 1024) * 100) / 100,
-    }, userId);
-
-    let completedFiles = 0;
-    let failedFiles = 0;
-    const fileResults: { fileName: string; documentId?: string; error?: string }[] = [];
-
-    // Process files with controlled concurrency (max 3 at once)
-    const processingPromises: (Promise<void> | undefined)[] = new Array(MAX_CONCURRENT_FILES_PER_USER).fill(undefined);
-
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-
-      // Wait for an available slot
-      const semaphoreIndex = i % MAX_CONCURRENT_FILES_PER_USER;
-      if (processingPromises[semaphoreIndex]) {
-        await processingPromises[semaphoreIndex];
-      }
-
-      // Process this file
-      processingPromises[semaphoreIndex] = processFileInBatch(
-        file, batchId, studyId, userId, request
-      ).then((result) => {
-        if (result.error) {
-          failedFiles++;
-          fileResults.push({ fileName: file.name, error: result.error });
-        } else {
-          completedFiles++;
-          fileResults.push({ fileName: file.name, documentId: result.documentId });
-        }
-      }).catch((error) => {
-        failedFiles++;
-        fileResults.push({ fileName: file.name, error: error.message });
-        console.error(`File processing failed for ${file.name}:`, error);
-      });
-    }
-
-    // Wait for all remaining files to complete
-    await Promise.all(processingPromises.filter((p): p is Promise<void> => p !== undefined));
-
-    // Update batch completion status
-    const finalStatus = failedFiles === 0 ? "COMPLETED" : (completedFiles > 0 ? "COMPLETED" : "FAILED");
-
-    await prisma.uploadBatch.update({
-      where: { id: batchId },
-      data: {
-        status: finalStatus as "VALIDATING" | "PROCESSING" | "COMPLETED" | "FAILED" | "CANCELLED",
-        completedFiles,
-        failedFiles,
-        metadata: {
-          ...(await prisma.uploadBatch.findUnique({ where: { id: batchId }, select: { metadata: true } }))?.metadata as Record<string, unknown> || {},
-          processingTimeMs: Date.now() - startTime,
-          fileResults,
-        },
-      },
-    });
-
-    // Track batch completion
-    await trackBatchUploadEvent('batch_upload_completed', {
-      batchId,
-      studyId,
-      fileCount: files.length,
-      successCount: completedFiles,
-      failureCount: failedFiles,
-      processingTimeMs: Date.now() - startTime,
-    }, userId);
-
-    console.log(`Batch processing completed for ${batchId}: ${completedFiles}/${files.length} files successful`);
-
-    // Final cache invalidation to ensure all batch documents are visible in context
-    try {
-      await invalidateStudyMetadataOnDocumentChange(studyId);
-    } catch (cacheError) {
-      console.error(`Final batch cache invalidation failed for study ${studyId}, batch ${batchId}:`, cacheError);
-
-      // Mark batch as failed since cache sync failed
-      await prisma.uploadBatch.update({
-        where: { id: batchId },
-        data: {
-          status: "FAILED",
-          metadata: {
-            ...(await prisma.uploadBatch.findUnique({ where: { id: batchId }, select: { metadata: true } }))?.metadata as Record<string, unknown> || {},
-            processingTimeMs: Date.now() - startTime,
-            fileResults,
-            cacheError: cacheError instanceof Error ? cacheError.message : 'Unknown cache error',
-          },
-        },
-      });
-
-      throw new Error(`Batch processing completed but final cache synchronization failed: ${cacheError instanceof Error ? cacheError.message : 'Unknown cache error'}`);
+    const parsed: unknown = JSON.parse(field);
+    if (!parsed || typeof parsed !== 'object') {
+      return {};
     }
-
-    // Trigger summary regeneration (non-blocking)
-    try {
-      console.log(`Triggering summary regeneration for study ${studyId} after batch upload ${batchId}`);
-      const result = await generateStudySummary(studyId);
-
-      if (result) {
-        await prisma.study.update({
-          where: { id: studyId },
-          data: { summary: result.summary },
-        });
-
-        console.log(`Summary regenerated for study ${studyId} (${result.summary.length} chars, ${result.metadata.generationTimeMs}ms)`);
-
-        // Track analytics
-        await trackStudyEvent('summary_generated', {
-          studyId,
-          documentCount: result.metadata.documentCount,
-          chunksAnalyzed: result.metadata.totalChunks,
-          generationTimeMs: result.metadata.generationTimeMs,
-          summaryLength: result.summary.length,
-          reason: 'batch_completed',
-          batchId,
-        }, userId);
-      }
-    } catch (error) {
-      // Silent failure - don't block batch processing
-      console.error(`Summary regeneration failed for study ${studyId} after batch ${batchId}:`, error);
-      await trackErrorEvent('summary_generation_failed', {
-        errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        endpoint: 'processBatchAsync',
-        statusCode: 500,
-        batchId,
-      }, userId);
-    }
-
-  } catch (error) {
-    console.error(`Batch processing failed for ${batchId}:`, error);
-
-    await prisma.uploadBatch.update({
-      where: { id: batchId },
-      data: {
-        status: "FAILED",
-        metadata: {
-          error: error instanceof Error ? error.message : 'Unknown error',
-          processingTimeMs: Date.now() - startTime,
-        },
-      },
-    }).catch(dbError => {
-      console.error(`Failed to update batch status:`, dbError);
-    });
-
-    await trackBatchUploadEvent('batch_upload_failed', {
-      batchId,
-      studyId,
-      fileCount: files.length,
-      processingTimeMs: Date.now() - startTime,
-      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
-      errorMessage: error instanceof Error ? error.message : 'Unknown error',
-    }, userId);
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, mapping]) => isSurveyColumnMapping(mapping))
+    );
+  } catch {
+    return {};
   }
 }
 
 /**
- * Process a single file within a batch
+ * Hash each file's bytes and look for an earlier upload of them by the user
  */
-async function processFileInBatch(
-  file: File,
-  batchId: string,
-  studyId: string,
-  userId: string,
-  request: NextRequest
-): Promise<{ documentId?: string; error?: string }> {
-  try {
-    console.log(`Processing file in batch ${batchId}: ${file.name}`);
-
-    // Convert file to buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-
-    // Pre-validate text extraction
-    const extractionResult = await extractTextFromBuffer(buffer, file.type, file.name);
-    if ('error' in extractionResult) {
-      return { error: `Text extraction failed: ${extractionResult.error}` };
-    }
-
-    // Store the file
-    const storageResult = await storeFile(file.name, buffer, studyId, request);
-
-    // Create document record in database
-    const document = await prisma.document.create({
-      data: {
-        fileName: file.name,
-        fileType: file.type,
-        fileSize: file.size,
-        status: "PROCESSING",
-        studyId: studyId,
-        batchId: batchId,
-        storagePath: storageResult.pathname,
-        storageUrl: storageResult.url,
-        storageType: determineStorageType(request),
-        extractedText: extractionResult.text,
-      },
+async function hashBatchFiles(batchFiles: BatchFile[], userId: string): Promise<HashedBatchFile[]> {
+  const seenHashes = new Set<string>();
+  const hashed: HashedBatchFile[] = [];
+
+  for (const batchFile of batchFiles) {
+    const buffer = batchFile.file
+      ? Buffer.from(await batchFile.file.arrayBuffer())
+      : await readStoredFile(batchFile.upload);
+    const contentHash = hashContent(buffer);
+
+    hashed.push({
+      batchFile,
+      contentHash,
+      duplicate: await findDuplicateByHash(userId, { contentHash }),
+      duplicateInBatch: seenHashes.has(contentHash),
     });
+    seenHashes.add(contentHash);
+  }
 
-    // Process document (chunking and embeddings)
-    await processDocumentContentAsync(document.id, extractionResult.text, userId, studyId, file.name);
-
-    return { documentId: document.id };
+  return hashed;
+}
 
-  } catch (error) {
-    console.error(`File processing error in batch ${batchId} for ${file.name}:`, error);
-    return { error: error instanceof Error ? error.message : 'Unknown processing error' };
+/**
+ * The document a file duplicates; for a repeat within the batch, the earlier
+ * file's document once it has been stored
+ */
+async function resolveDuplicate(hashed: HashedBatchFile, userId: string): Promise<DuplicateMatch | null> {
+  if (hashed.duplicate || !hashed.duplicateInBatch) {
+    return hashed.duplicate;
   }
+  return findDuplicateByHash(userId, { contentHash: hashed.contentHash });
 }
 
 /**
- * Process document content (chunking and embeddings)
+ * Store a file and enqueue its ingestion job
+ *
+ * Resumable uploads are already in storage; their document takes over the
+ * assembled file and the upload session is removed.
  */
-async function processDocumentContentAsync(
-  documentId: string,
-  extractedText: string,
-  userId: string,
+async function storeAndEnqueueFile(
+  batchFile: BatchFile,
+  batchId: string,
   studyId: string,
-  fileName: string
-): Promise<void> {
-  try {
-    // Chunk the text
-    const chunks = chunkText(extractedText);
-    console.log(`Created ${chunks.length} chunks for ${fileName}`);
-
-    if (chunks.length === 0) {
-      await prisma.document.update({
-        where: { id: documentId },
-        data: { status: "READY" },
-      });
-      return;
-    }
-
-    // Generate embeddings for all chunks
-    const chunkTexts = chunks.map(chunk => chunk.content);
-    const embeddingResult = await generateBatchEmbeddings(chunkTexts);
-
-    // Store chunks with embeddings in database
-    const chunkData = chunks.map((chunk, index) => ({
-      content: chunk.content,
-      chunkIndex: chunk.chunkIndex,
-      documentId: documentId,
-      embedding: serializeEmbedding(embeddingResult.embeddings[index]),
-    }));
-
-    await prisma.documentChunk.createMany({
-      data: chunkData,
-    });
-
-    // Mark document as ready
-    await prisma.document.update({
-      where: { id: documentId },
-      data: { status: "READY" },
-    });
-
-    console.log(`Successfully processed document content for ${documentId}: ${fileName}`);
-
-    // Invalidate study metadata cache so new document appears in context immediately
-    try {
-      await invalidateStudyMetadataOnDocumentChange(studyId);
-    } catch (cacheError) {
-      console.error(`Cache invalidation failed for study ${studyId} during document ${documentId} processing:`, cacheError);
-
-      // Mark document as failed since cache sync failed
-      await prisma.document.update({
-        where: { id: documentId },
-        data: {
-          status: "FAILED",
-          extractedText: `Processing completed but cache synchronization failed: ${cacheError instanceof Error ? cacheError.message : 'Unknown cache error'}`
-        },
-      });
+  userId: string,
+  request: NextRequest,
+  options: {
+    chunkingStrategy: ChunkingStrategy | null;
+    surveyMapping: SurveyColumnMapping | null;
+    contentHash: string;
+    duplicate: DuplicateMatch | null;
+  }
+): Promise<{ id: string }> {
+  const { file, upload } = batchFile;
+  let stored;
+  if (file) {
+    const bytes = await file.arrayBuffer();
+    const storageResult = await storeFile(file.name, Buffer.from(bytes), studyId, request);
+    stored = {
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      storagePath: storageResult.pathname,
+      storageUrl: storageResult.url,
+      storageType: determineStorageType(request),
+    };
+  } else {
+    stored = {
+      fileName: upload.fileName,
+      fileType: upload.fileType,
+      fileSize: upload.fileSize,
+      storagePath: upload.storagePath,
+      storageUrl: upload.storageUrl,
+      storageType: upload.storageType,
+    };
+  }
 
-      throw new Error(`Document processing completed but cache synchronization failed: ${cacheError instanceof Error ? cacheError.message : 'Unknown cache error'}`);
-    }
+  const document = await prisma.document.create({
+    data: {
+      ...stored,
+      status: "PROCESSING",
+      studyId: studyId,
+      batchId: batchId,
+      chunkingStrategy: options.chunkingStrategy,
+      folderPath: batchFile.folderPath,
+      contentHash: options.contentHash,
+      ...getDuplicateFields(options.duplicate),
+      ...(options.surveyMapping && { surveyMapping: options.surveyMapping }),
+    },
+  });
 
-  } catch (error) {
-    console.error(`Document content processing failed for ${documentId}:`, error);
+  if (upload) {
+    await prisma.uploadSession.delete({ where: { id: upload.id } });
+  }
 
-    await prisma.document.update({
-      where: { id: documentId },
-      data: {
-        status: "FAILED",
-        extractedText: `Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      },
-    }).catch(dbError => {
-      console.error(`Failed to update document status:`, dbError);
-    });
+  await enqueueIngestionJob({ documentId: document.id, userId, batchId });
 
-    throw error;
-  }
-}
\ No newline at end of file
+  return document;
+}
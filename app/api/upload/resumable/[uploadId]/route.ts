@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { trackErrorEvent } from "@/lib/analytics/server-analytics";
+import {
+  abortUploadSession,
+  appendUploadChunk,
+  getUploadSession,
+  toUploadSessionStatus,
+  UploadSessionError,
+} from "@/lib/resumable-upload";
+
+type RouteContext = { params: Promise<{ uploadId: string }> };
+
+function uploadSessionErrorResponse(error: UploadSessionError) {
+  return NextResponse.json(
+    { error: error.message, ...(error.offset !== undefined && { offset: error.offset }) },
+    {
+      status: error.statusCode,
+      headers: error.offset !== undefined ? { 'Upload-Offset': String(error.offset) } : undefined,
+    }
+  );
+}
+
+/**
+ * Current offset of an upload, so an interrupted client knows where to resume
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const userId = await requireAuth();
+    const { uploadId } = await context.params;
+
+    const session = await getUploadSession(uploadId, userId);
+    return NextResponse.json(toUploadSessionStatus(session), {
+      headers: { 'Upload-Offset': String(session.offset), 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return uploadSessionErrorResponse(error);
+    }
+
+    console.error("Resumable upload status error:", error);
+    return NextResponse.json(
+      { error: "Failed to get upload status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Append a chunk
+ *
+ * The raw bytes are the request body; the Upload-Offset header says where
+ * they start and must equal the offset the server has. The response carries
+ * the new offset, and status "completed" once the file is reassembled.
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const userId = await requireAuth();
+
+  try {
+    const { uploadId } = await context.params;
+    const offset = Number(request.headers.get('Upload-Offset'));
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        { error: "Upload-Offset header is required" },
+        { status: 400 }
+      );
+    }
+
+    const session = await getUploadSession(uploadId, userId);
+    const chunk = Buffer.from(await request.arrayBuffer());
+    const updated = await appendUploadChunk(session, offset, chunk);
+
+    return NextResponse.json(toUploadSessionStatus(updated), {
+      headers: { 'Upload-Offset': String(updated.offset) },
+    });
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return uploadSessionErrorResponse(error);
+    }
+
+    console.error("Resumable upload chunk error:", error);
+
+    await trackErrorEvent('upload_error_occurred', {
+      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : 'Unknown resumable upload error',
+      endpoint: '/api/upload/resumable',
+      statusCode: 500,
+    }, userId);
+
+    return NextResponse.json(
+      { error: "Failed to store chunk. Please retry." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Abandon an upload
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const userId = await requireAuth();
+    const { uploadId } = await context.params;
+
+    const session = await getUploadSession(uploadId, userId);
+    await abortUploadSession(session);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return uploadSessionErrorResponse(error);
+    }
+
+    console.error("Resumable upload abort error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel upload" },
+      { status: 500 }
+    );
+  }
+}
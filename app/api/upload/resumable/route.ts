@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth, validateStudyOwnership } from "@/lib/auth";
+import { validateFile } from "@/lib/file-storage";
+import { trackErrorEvent } from "@/lib/analytics/server-analytics";
+import { MAX_ARCHIVE_SIZE, MAX_RESUMABLE_FILE_SIZE } from "@/lib/constants";
+import { isZipArchive } from "@/lib/zip-archive";
+import { createUploadSession, toUploadSessionStatus } from "@/lib/resumable-upload";
+
+/**
+ * Determine the actual storage type used based on headers and environment
+ */
+function determineStorageType(request: NextRequest): string {
+  const storageType = request.headers.get('X-Storage-Type');
+  const forceLocal = request.headers.get('X-Storage-Local') === 'true';
+
+  if (storageType) {
+    return storageType;
+  } else if (forceLocal) {
+    return 'filesystem';
+  } else {
+    return (process.env.NODE_ENV === "production" && process.env.BLOB_READ_WRITE_TOKEN)
+      ? "vercel-blob"
+      : "filesystem";
+  }
+}
+
+/**
+ * Start a resumable upload
+ *
+ * Body: { studyId, fileName, fileType, fileSize }. The file is validated
+ * from these before any bytes are sent; chunks then go to PATCH
+ * /api/upload/resumable/[uploadId].
+ */
+export async function POST(request: NextRequest) {
+  const userId = await requireAuth();
+
+  try {
+    const body = await request.json().catch(() => null);
+    const { studyId, fileName, fileType, fileSize } = body ?? {};
+
+    if (
+      typeof studyId !== 'string' || !studyId ||
+      typeof fileName !== 'string' || !fileName ||
+      typeof fileSize !== 'number' || !Number.isInteger(fileSize) || fileSize <= 0
+    ) {
+      return NextResponse.json(
+        { error: "studyId, fileName and a positive fileSize are required" },
+        { status: 400 }
+      );
+    }
+
+    const isOwner = await validateStudyOwnership(studyId);
+    if (!isOwner) {
+      return NextResponse.json(
+        { error: "Study not found" },
+        { status: 404 }
+      );
+    }
+
+    const declaredFile = { name: fileName, type: typeof fileType === 'string' ? fileType : '', size: fileSize };
+    // Archives are expanded in memory, so they keep the direct upload cap
+    const validation = isZipArchive(declaredFile)
+      ? { valid: fileSize <= MAX_ARCHIVE_SIZE, error: `Archive exceeds ${MAX_ARCHIVE_SIZE / (1024 * 1024)}MB limit` }
+      : validateFile(declaredFile, MAX_RESUMABLE_FILE_SIZE);
+    if (!validation.valid) {
+      await trackErrorEvent('upload_error_occurred', {
+        errorType: 'FileValidationError',
+        errorMessage: validation.error!,
+        endpoint: '/api/upload/resumable',
+        statusCode: 400,
+      }, userId);
+
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const session = await createUploadSession({
+      userId,
+      studyId,
+      fileName,
+      fileType: declaredFile.type,
+      fileSize,
+      storageType: determineStorageType(request),
+    });
+
+    return NextResponse.json(toUploadSessionStatus(session), { status: 201 });
+  } catch (error) {
+    console.error("Resumable upload creation error:", error);
+
+    await trackErrorEvent('upload_error_occurred', {
+      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : 'Unknown resumable upload error',
+      endpoint: '/api/upload/resumable',
+      statusCode: 500,
+    }, userId);
+
+    return NextResponse.json(
+      { error: "Failed to start upload. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,11 @@ import { prisma } from "@/lib/prisma";
 import { requireAuth, validateStudyOwnership } from "@/lib/auth";
 import { storeFile, validateFile } from "@/lib/file-storage";
 import { extractTextFromBuffer } from "@/lib/document-processing";
-import { chunkText } from "@/lib/document-chunking";
-import { generateBatchEmbeddings, serializeEmbedding } from "@/lib/voyage-embeddings";
+import { isChunkingStrategy } from "@/lib/document-chunking";
+import { isSurveyColumnMapping, type SurveyColumnMapping } from "@/lib/survey-import";
 import { trackDocumentUploadEvent, trackErrorEvent } from "@/lib/analytics/server-analytics";
-import { invalidateStudyMetadataOnDocumentChange } from "@/lib/metadata-collector";
-import { generateStudySummary } from "@/lib/summary-generation";
+import { enqueueIngestionJob, kickIngestionWorker } from "@/lib/ingestion";
+import { findDuplicateByHash, getDuplicateFields, hashContent } from "@/lib/document-dedup";
 
 /**
  * Determine the actual storage type used based on headers and environment
@@ -28,6 +28,22 @@ function determineStorageType(request: NextRequest): string {
   }
 }
 
+/**
+ * Parse the surveyMapping field; malformed mappings are ignored
+ */
+function parseSurveyMapping(field: FormDataEntryValue | null): SurveyColumnMapping | null {
+  if (typeof field !== 'string' || !field) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(field);
+    return isSurveyColumnMapping(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
 export async function POST(request: NextRequest) {
   // const startTime = Date.now(); // TODO: Use for performance tracking
   const userId = await requireAuth();
@@ -37,6 +53,10 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const file = formData.get("file") as File;
     const studyId = formData.get("studyId") as string;
+    // Optional chunking override; anything unrecognised auto-detects
+    const chunkingStrategy = formData.get("chunkingStrategy");
+    // Optional spreadsheet column mapping (JSON); columns are inferred without it
+    const surveyMapping = parseSurveyMapping(formData.get("surveyMapping"));
 
     if (!file) {
       await trackErrorEvent('upload_error_occurred', {
@@ -105,7 +125,7 @@ export async function POST(request: NextRequest) {
 
     // PRE-VALIDATE: Test text extraction before storing anything
     console.log(`Pre-validating text extraction for ${file.name}...`);
-    const extractionResult = await extractTextFromBuffer(buffer, file.type, file.name);
+    const extractionResult = await extractTextFromBuffer(buffer, file.type, file.name, { surveyMapping });
 
     if ('error' in extractionResult) {
       // Extraction failed - reject the upload
@@ -122,7 +142,7 @@ export async function POST(request: NextRequest) {
         {
           error: "Document processing failed",
           details: extractionResult.details || extractionResult.error,
-          suggestion: "This PDF may contain custom fonts, be scanned, or be image-based. Please try a different file format or use OCR tools first."
+          suggestion: "The file may use custom fonts, be damaged, or contain images too unclear to read. Please try a different file format or a clearer scan."
         },
         { status: 422 } // Unprocessable Entity
       );
@@ -130,6 +150,10 @@ export async function POST(request: NextRequest) {
 
     console.log(`Text extraction validated successfully for ${file.name} (${extractionResult.text.length} characters)`);
 
+    // Flag (but still store) a file the user has uploaded before
+    const contentHash = hashContent(buffer);
+    const duplicate = await findDuplicateByHash(userId, { contentHash });
+
     // Store the file (pass request for header-based overrides)
     const storageResult = await storeFile(file.name, buffer, studyId, request);
 
@@ -145,6 +169,25 @@ export async function POST(request: NextRequest) {
         storagePath: storageResult.pathname,
         storageUrl: storageResult.url,
         storageType: determineStorageType(request),
+        contentHash,
+        ...getDuplicateFields(duplicate),
+        // Already extracted above, so the ingestion job can skip re-extraction
+        extractedText: extractionResult.text,
+        pageOffsets: extractionResult.metadata?.pageOffsets ?? [],
+        ...(extractionResult.metadata?.ocr && {
+          ocrConfidence: extractionResult.metadata.ocr.confidence,
+          ocrPages: extractionResult.metadata.ocr.pages,
+        }),
+        ...(extractionResult.metadata?.email && {
+          emailHeaders: extractionResult.metadata.email,
+        }),
+        ...(extractionResult.metadata?.surveyRecords && {
+          surveyMapping: surveyMapping ?? undefined,
+          surveyRecords: extractionResult.metadata.surveyRecords,
+        }),
+        chunkingStrategy: isChunkingStrategy(chunkingStrategy) && chunkingStrategy !== 'auto'
+          ? chunkingStrategy
+          : null,
       },
       include: {
         _count: {
@@ -155,8 +198,9 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    // Process the document asynchronously (we know extraction works now)
-    processDocumentAsync(document.id, buffer, file.type, file.name, studyId, userId, extractionResult.text);
+    // Chunking and embedding happen in the ingestion worker (we know extraction works now)
+    await enqueueIngestionJob({ documentId: document.id, userId });
+    kickIngestionWorker();
 
     return NextResponse.json({
       success: true,
@@ -169,6 +213,7 @@ export async function POST(request: NextRequest) {
         uploadedAt: document.uploadedAt,
         url: storageResult.url,
       },
+      ...(duplicate && { duplicateOf: duplicate }),
     });
 
   } catch (error) {
@@ -194,7 +239,7 @@ export async function POST(request: NextRequest) {
       
       if (error.message.includes("File type")) {
         return NextResponse.json(
-          { error: "Unsupported file type. Please upload PDF, DOCX, or TXT files." },
+          { error: "Unsupported file type. Please upload PDF, Word, PowerPoint, OpenDocument, RTF, HTML, EML, TXT, VTT, SRT, CSV, XLSX, PNG or JPEG files." },
           { status: 415 }
         );
       }
@@ -218,162 +263,3 @@ export async function OPTIONS() {
     },
   });
 }
-
-async function processDocumentAsync(
-  documentId: string,
-  buffer: Buffer,
-  mimeType: string,
-  fileName: string,
-  studyId: string,
-  userId: string,
-  preExtractedText?: string
-): Promise<void> {
-  const processingStartTime = Date.now();
-  
-  try {
-    console.log(`Starting document processing for ${documentId}: ${fileName}`);
-    
-    // Track processing started
-    await trackDocumentUploadEvent('document_processing_started', {
-      studyId,
-      fileName,
-      fileType: mimeType,
-      fileSize: buffer.length,
-    }, userId);
-
-    // Use pre-extracted text (validation already passed)
-    const extractedText = preExtractedText!;
-    console.log(`Extracted ${extractedText.length} characters from ${fileName}`);
-
-    // Step 2: Update document with extracted text
-    await prisma.document.update({
-      where: { id: documentId },
-      data: { extractedText },
-    });
-
-    // Step 3: Chunk the text
-    const chunks = chunkText(extractedText);
-    console.log(`Created ${chunks.length} chunks for ${fileName}`);
-
-    if (chunks.length === 0) {
-      await prisma.document.update({
-        where: { id: documentId },
-        data: { status: "READY" },
-      });
-      return;
-    }
-
-    // Step 4: Generate embeddings for all chunks
-    const chunkTexts = chunks.map(chunk => chunk.content);
-    
-    console.log(`Generating embeddings for ${chunks.length} chunks...`);
-    const embeddingResult = await generateBatchEmbeddings(chunkTexts);
-    console.log(`Generated ${embeddingResult.embeddings.length} embeddings, used ${embeddingResult.usage.totalTokens} tokens`);
-
-    // Step 5: Store chunks with embeddings in database
-    const chunkData = chunks.map((chunk, index) => ({
-      content: chunk.content,
-      chunkIndex: chunk.chunkIndex,
-      documentId: documentId,
-      embedding: serializeEmbedding(embeddingResult.embeddings[index]),
-    }));
-
-    await prisma.documentChunk.createMany({
-      data: chunkData,
-    });
-
-    // Step 6: Mark document as ready
-    await prisma.document.update({
-      where: { id: documentId },
-      data: { status: "READY" },
-    });
-
-    // Track successful processing
-    await trackDocumentUploadEvent('document_processing_completed', {
-      studyId,
-      fileName,
-      fileType: mimeType,
-      fileSize: buffer.length,
-      processingTimeMs: Date.now() - processingStartTime,
-    }, userId);
-
-    console.log(`Successfully processed document ${documentId}: ${fileName}`);
-
-    // Invalidate study metadata cache so new document appears in context immediately
-    try {
-      await invalidateStudyMetadataOnDocumentChange(studyId);
-    } catch (cacheError) {
-      console.error(`Cache invalidation failed for study ${studyId}:`, cacheError);
-
-      // Mark document as failed since cache sync failed
-      await prisma.document.update({
-        where: { id: documentId },
-        data: {
-          status: "FAILED",
-          extractedText: `Processing completed but cache synchronization failed: ${cacheError instanceof Error ? cacheError.message : 'Unknown cache error'}`
-        },
-      });
-
-      throw new Error(`Document processing completed but cache synchronization failed: ${cacheError instanceof Error ? cacheError.message : 'Unknown cache error'}`);
-    }
-
-    // Trigger summary regeneration (non-blocking)
-    try {
-      console.log(`Triggering summary regeneration for study ${studyId} after document upload`);
-      const result = await generateStudySummary(studyId);
-
-      if (result) {
-        await prisma.study.update({
-          where: { id: studyId },
-          data: { summary: result.summary },
-        });
-
-        console.log(`Summary regenerated for study ${studyId} (${result.summary.length} chars, ${result.metadata.generationTimeMs}ms)`);
-
-        // Track analytics
-        const { trackStudyEvent } = await import('@/lib/analytics/server-analytics');
-        await trackStudyEvent('summary_generated', {
-          studyId,
-          documentCount: result.metadata.documentCount,
-          chunksAnalyzed: result.metadata.totalChunks,
-          generationTimeMs: result.metadata.generationTimeMs,
-          summaryLength: result.summary.length,
-        }, userId);
-      }
-    } catch (error) {
-      // Silent failure - don't block document processing
-      console.error(`Summary regeneration failed for study ${studyId}:`, error);
-      await trackErrorEvent('summary_generation_failed', {
-        errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        endpoint: 'processDocumentAsync',
-        statusCode: 500,
-      }, userId);
-    }
-
-  } catch (error) {
-    console.error(`Document processing failed for ${documentId}:`, error);
-    
-    // Track processing failure
-    await trackDocumentUploadEvent('document_processing_failed', {
-      studyId,
-      fileName,
-      fileType: mimeType,
-      fileSize: buffer.length,
-      processingTimeMs: Date.now() - processingStartTime,
-      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
-      errorMessage: error instanceof Error ? error.message : 'Unknown processing error',
-    }, userId);
-    
-    // Mark document as failed
-    await prisma.document.update({
-      where: { id: documentId },
-      data: { 
-        status: "FAILED",
-        extractedText: `Processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      },
-    }).catch(dbError => {
-      console.error(`Failed to update document status:`, dbError);
-    });
-  }
-}
\ No newline at end of file
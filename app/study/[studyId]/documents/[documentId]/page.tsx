@@ -0,0 +1,100 @@
+"use client";
+
+import { Suspense } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { DocumentViewer } from "@/components/document/DocumentViewer";
+import { useDocumentContent } from "@/lib/hooks/useDocumentContent";
+
+/**
+ * Document viewer page
+ *
+ * Query parameters:
+ * - chunks: comma-separated chunk IDs to highlight
+ * - chunk: chunk to scroll to (also highlighted)
+ * - messageId: highlight every passage that assistant message cited
+ * - version: version to show; defaults to the one the citations came from
+ */
+function DocumentViewerPageContent() {
+  const router = useRouter();
+  const params = useParams();
+  const searchParams = useSearchParams();
+
+  const studyId = params.studyId as string;
+  const documentId = params.documentId as string;
+  const focusChunkId = searchParams.get("chunk");
+  const chunkIds = [
+    ...(searchParams.get("chunks")?.split(",").filter(Boolean) ?? []),
+    ...(focusChunkId ? [focusChunkId] : []),
+  ];
+
+  const { document, isLoading, error } = useDocumentContent(documentId, {
+    chunkIds,
+    messageId: searchParams.get("messageId"),
+    version: Number(searchParams.get("version")) || null,
+  });
+
+  const handleVersionChange = (version: number) => {
+    const query = new URLSearchParams(searchParams.toString());
+    query.set("version", String(version));
+    router.replace(`/study/${studyId}/documents/${documentId}?${query.toString()}`);
+  };
+
+  const handleBack = () => {
+    router.push(`/study/${studyId}`);
+  };
+
+  return (
+    <div className="h-screen bg-background flex flex-col">
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-6 py-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleBack}
+            className="gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to study
+          </Button>
+        </div>
+      </header>
+
+      {isLoading ? (
+        <main className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading document...</p>
+          </div>
+        </main>
+      ) : document && document.studyId === studyId ? (
+        <main className="flex-1 overflow-hidden">
+          <DocumentViewer
+            document={document}
+            focusChunkId={focusChunkId}
+            onVersionChange={handleVersionChange}
+          />
+        </main>
+      ) : (
+        <main className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <p className="text-muted-foreground mb-4">{error?.message ?? "Document not found"}</p>
+            <Button onClick={handleBack}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to study
+            </Button>
+          </div>
+        </main>
+      )}
+    </div>
+  );
+}
+
+export default function DocumentViewerPage() {
+  return (
+    <Suspense>
+      <DocumentViewerPageContent />
+    </Suspense>
+  );
+}
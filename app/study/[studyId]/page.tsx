@@ -1,13 +1,17 @@
 "use client";
 
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, ChevronDown } from "lucide-react";
 import { DocumentPanel } from "@/components/document/DocumentPanel";
 import { ChatPanel } from "@/components/chat/ChatPanel";
+import { PrivacySettingsDialog } from "@/components/study/PrivacySettingsDialog";
 import { useRouter, useParams } from "next/navigation";
 import { StudyProvider, useStudyContext } from "@/lib/contexts/StudyContext";
 import { CitationProvider } from "@/lib/contexts/CitationContext";
 import { useDocuments } from "@/lib/hooks/useDocuments";
+import type { ChunkingStrategy } from "@/lib/document-chunking";
+import type { DocumentMetadataUpdate } from "@/lib/types/document-metadata";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -18,7 +22,8 @@ import {
 function StudyPageContent() {
   const router = useRouter();
   const { study, isLoading, error, refreshStudy } = useStudyContext();
-  const { deleteDocument, mutate: mutateDocuments } = useDocuments(study?.id || '');
+  const { deleteDocument, updateChunkingStrategy, replaceDocumentFile, updateDocumentMetadata, moveDocuments, mutate: mutateDocuments } = useDocuments(study?.id || '');
+  const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
 
   const handleBackToStudies = () => {
     router.push("/");
@@ -37,6 +42,26 @@ function StudyPageContent() {
     refreshStudy();
   };
 
+  const handleDocumentChunkingChange = async (documentId: string, strategy: ChunkingStrategy) => {
+    await updateChunkingStrategy(documentId, strategy);
+    refreshStudy();
+  };
+
+  const handleDocumentReplace = async (documentId: string, file: File) => {
+    await replaceDocumentFile(documentId, file);
+    refreshStudy();
+  };
+
+  const handleDocumentsMetadataChange = async (documentIds: string[], update: DocumentMetadataUpdate) => {
+    await updateDocumentMetadata(documentIds, update);
+    refreshStudy();
+  };
+
+  const handleDocumentsMove = async (documentIds: string[], folderPath: string | null) => {
+    await moveDocuments(documentIds, folderPath);
+    refreshStudy();
+  };
+
   // Handle errors by redirecting to dashboard
   if (error && error.message === 'Study not found') {
     router.push('/');
@@ -74,6 +99,9 @@ function StudyPageContent() {
                 <DropdownMenuContent>
                   <DropdownMenuItem>Rename study</DropdownMenuItem>
                   <DropdownMenuItem>Export chat history</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setIsPrivacyOpen(true)}>
+                    Privacy settings
+                  </DropdownMenuItem>
                   <DropdownMenuItem className="text-destructive">
                     Delete study
                   </DropdownMenuItem>
@@ -84,6 +112,14 @@ function StudyPageContent() {
         </div>
       </header>
 
+      {study && (
+        <PrivacySettingsDialog
+          studyId={study.id}
+          isOpen={isPrivacyOpen}
+          onClose={() => setIsPrivacyOpen(false)}
+        />
+      )}
+
       {isLoading ? (
         <main className="flex-1 flex items-center justify-center">
           <div className="text-center">
@@ -99,6 +135,10 @@ function StudyPageContent() {
               onFileUploaded={handleFileUpload}
               studyId={study.id}
               onDocumentDelete={handleDocumentDelete}
+              onDocumentChunkingChange={handleDocumentChunkingChange}
+              onDocumentReplace={handleDocumentReplace}
+              onDocumentsMetadataChange={handleDocumentsMetadataChange}
+              onDocumentsMove={handleDocumentsMove}
             />
           </div>
 
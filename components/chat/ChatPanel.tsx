@@ -48,6 +48,7 @@ export function ChatPanel({ studyId }: ChatPanelProps) {
     isGeneratingTitle,
     createNewChat,
     generateTitleInBackground,
+    updateChatScope,
   } = useChatManager(studyId);
 
   // Use SWR for message loading with caching
@@ -291,6 +292,8 @@ export function ChatPanel({ studyId }: ChatPanelProps) {
             onNewChat={createNewChat}
             isCreatingNew={isCreatingNew}
             isGeneratingTitle={isGeneratingTitle}
+            documents={documents}
+            onScopeChange={currentChatId ? async (scope) => { await updateChatScope(currentChatId, scope); } : undefined}
           />
         </div>
         <p className="text-sm text-muted-foreground">
@@ -1,6 +1,6 @@
 'use client';
 
-import { memo } from 'react';
+import { memo, useState } from 'react';
 import {
   Tooltip,
   TooltipContent,
@@ -8,11 +8,22 @@ import {
 } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 import { useCitationContext } from '@/lib/contexts/CitationContext';
+import { formatRespondentLabel } from '@/lib/survey-import';
+import { CitationPassageDialog } from './CitationPassageDialog';
 
 interface CitationBadgeProps {
   citationNumber: number;
   documentName: string;
   documentId: string;
+  matchedBy?: Array<'semantic' | 'keyword'>;
+  speakers?: string[];
+  timestamps?: string[];
+  respondents?: string[];
+  chunkId?: string;
+  chunkIds?: string[];
+  pageNumber?: number;
+  startOffset?: number;
+  endOffset?: number;
   className?: string;
 }
 
@@ -20,7 +31,10 @@ interface CitationBadgeProps {
  * Citation Badge Component
  *
  * Renders an inline superscript badge showing a citation number.
- * Displays document name on hover via tooltip.
+ * Displays document name on hover via tooltip, along with the retriever(s)
+ * that surfaced the cited passages and, for transcripts, who spoke and when
+ * (for surveys, which respondents answered).
+ * When the cited chunk is known, clicking opens the passage in context.
  *
  * NOTE: Must be wrapped in a TooltipProvider by the parent component.
  *
@@ -36,51 +50,110 @@ export const CitationBadge = memo(
     citationNumber,
     documentName,
     documentId,
+    matchedBy,
+    speakers,
+    timestamps,
+    respondents,
+    chunkId,
+    chunkIds,
+    pageNumber,
+    startOffset,
+    endOffset,
     className
   }: CitationBadgeProps) {
     // Validate document existence via context
-    const { isDocumentValid } = useCitationContext();
+    const { studyId, isDocumentValid } = useCitationContext();
     const documentExists = isDocumentValid(documentId);
+    const [showPassage, setShowPassage] = useState(false);
+    const canOpenPassage = documentExists && !!chunkId;
+
+    // Full document with every retrieved passage highlighted, scrolled to this one
+    const viewerParams = new URLSearchParams({ chunk: chunkId ?? '' });
+    if (chunkIds && chunkIds.length > 0) viewerParams.set('chunks', chunkIds.join(','));
+    const viewerHref = `/study/${studyId}/documents/${documentId}?${viewerParams.toString()}`;
+
+    const openPassage = () => {
+      if (canOpenPassage) setShowPassage(true);
+    };
 
     return (
-      <Tooltip>
-        <TooltipTrigger asChild>
-          <sup
-            role="note"
-            aria-label={`Citation ${citationNumber}: ${documentName}`}
-            tabIndex={0}
-            className={cn(
-              "inline-flex items-center justify-center",
-              "min-w-[20px] h-[18px] px-1.5",
-              "text-[10px] font-medium leading-none",
-              "rounded-md transition-all duration-150",
-              "cursor-pointer select-none",
-              "focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1",
-              documentExists
-                ? "bg-primary/10 text-primary hover:bg-primary/20 border border-primary/20"
-                : "bg-muted text-muted-foreground hover:bg-muted/80 border border-border",
-              "ml-0.5 align-super",
-              className
-            )}
+      <>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <sup
+              role="note"
+              aria-label={`Citation ${citationNumber}: ${documentName}`}
+              tabIndex={0}
+              onClick={openPassage}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  openPassage();
+                }
+              }}
+              className={cn(
+                "inline-flex items-center justify-center",
+                "min-w-[20px] h-[18px] px-1.5",
+                "text-[10px] font-medium leading-none",
+                "rounded-md transition-all duration-150",
+                "cursor-pointer select-none",
+                "focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1",
+                documentExists
+                  ? "bg-primary/10 text-primary hover:bg-primary/20 border border-primary/20"
+                  : "bg-muted text-muted-foreground hover:bg-muted/80 border border-border",
+                "ml-0.5 align-super",
+                className
+              )}
+            >
+              {citationNumber}
+            </sup>
+          </TooltipTrigger>
+          <TooltipContent
+            side="top"
+            className="max-w-xs break-words"
           >
-            {citationNumber}
-          </sup>
-        </TooltipTrigger>
-        <TooltipContent
-          side="top"
-          className="max-w-xs break-words"
-        >
-          {documentExists ? (
-            <div className="flex items-center gap-2">
-              <span className="text-xs font-medium">{documentName}</span>
-            </div>
-          ) : (
-            <div className="flex items-center gap-2 text-muted-foreground">
-              <span className="text-xs">Document does not exist</span>
-            </div>
-          )}
-        </TooltipContent>
-      </Tooltip>
+            {documentExists ? (
+              <div className="flex flex-col gap-0.5">
+                <span className="text-xs font-medium">
+                  {documentName}
+                  {pageNumber && <span className="font-normal opacity-80"> · p. {pageNumber}</span>}
+                </span>
+                {(speakers?.length || timestamps?.length) ? (
+                  <span className="text-[10px] opacity-80">
+                    {[speakers?.join(', '), timestamps?.join(', ')].filter(Boolean).join(' @ ')}
+                  </span>
+                ) : null}
+                {respondents && respondents.length > 0 && (
+                  <span className="text-[10px] opacity-80">
+                    {respondents.map(formatRespondentLabel).join(', ')}
+                  </span>
+                )}
+                {matchedBy && matchedBy.length > 0 && (
+                  <span className="text-[10px] opacity-80">
+                    Matched by {matchedBy.join(' + ')} search
+                  </span>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <span className="text-xs">Document does not exist</span>
+              </div>
+            )}
+          </TooltipContent>
+        </Tooltip>
+        {canOpenPassage && (
+          <CitationPassageDialog
+            open={showPassage}
+            onOpenChange={setShowPassage}
+            documentId={documentId}
+            documentName={documentName}
+            chunkId={chunkId}
+            startOffset={startOffset}
+            endOffset={endOffset}
+            viewerHref={viewerHref}
+          />
+        )}
+      </>
     );
   },
   (prevProps, nextProps) => {
@@ -89,6 +162,15 @@ export const CitationBadge = memo(
       prevProps.citationNumber === nextProps.citationNumber &&
       prevProps.documentName === nextProps.documentName &&
       prevProps.documentId === nextProps.documentId &&
+      prevProps.matchedBy?.join() === nextProps.matchedBy?.join() &&
+      prevProps.speakers?.join() === nextProps.speakers?.join() &&
+      prevProps.timestamps?.join() === nextProps.timestamps?.join() &&
+      prevProps.respondents?.join() === nextProps.respondents?.join() &&
+      prevProps.chunkId === nextProps.chunkId &&
+      prevProps.chunkIds?.join() === nextProps.chunkIds?.join() &&
+      prevProps.pageNumber === nextProps.pageNumber &&
+      prevProps.startOffset === nextProps.startOffset &&
+      prevProps.endOffset === nextProps.endOffset &&
       prevProps.className === nextProps.className
     );
   }
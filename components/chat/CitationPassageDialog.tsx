@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { FileText } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useDocumentPassage } from '@/lib/hooks/useDocumentPassage';
+
+interface CitationPassageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  startOffset?: number; // The citation's stored range, for when the chunk is gone
+  endOffset?: number;
+  viewerHref?: string; // Full document viewer for this citation
+}
+
+function formatPageRange(startPage?: number, endPage?: number): string | null {
+  if (!startPage) return null;
+  return endPage && endPage !== startPage ? `Pages ${startPage}–${endPage}` : `Page ${startPage}`;
+}
+
+/**
+ * Citation Passage Dialog
+ *
+ * Shows the cited passage highlighted within its surrounding text and the
+ * page it appears on when known. Links through to the full document viewer.
+ * Fetches only while open.
+ */
+export function CitationPassageDialog({
+  open,
+  onOpenChange,
+  documentId,
+  documentName,
+  chunkId,
+  startOffset,
+  endOffset,
+  viewerHref,
+}: CitationPassageDialogProps) {
+  const { passage, isLoading, error } = useDocumentPassage(documentId, open ? chunkId : null, { startOffset, endOffset });
+  const highlightRef = useRef<HTMLElement>(null);
+
+  // Bring the highlighted passage into view once it has loaded
+  useEffect(() => {
+    if (passage) {
+      highlightRef.current?.scrollIntoView?.({ block: 'center' });
+    }
+  }, [passage]);
+
+  const pageLabel = passage ? formatPageRange(passage.startPage, passage.endPage) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="break-words">{documentName}</DialogTitle>
+          <DialogDescription>
+            {pageLabel ?? 'Cited passage'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto rounded-md border bg-muted/30 p-4 text-sm leading-relaxed whitespace-pre-wrap">
+          {isLoading && (
+            <span className="text-muted-foreground">Loading passage...</span>
+          )}
+          {error && (
+            <span className="text-muted-foreground">Could not load this passage.</span>
+          )}
+          {passage && (
+            <>
+              {passage.before && <span className="text-muted-foreground">…{passage.before}</span>}
+              <mark ref={highlightRef} className="bg-primary/15 text-foreground rounded-sm px-0.5">
+                {passage.passage}
+              </mark>
+              {passage.after && <span className="text-muted-foreground">{passage.after}…</span>}
+            </>
+          )}
+        </div>
+
+        {viewerHref && (
+          <DialogFooter>
+            <Button variant="outline" size="sm" className="gap-2" asChild>
+              <Link href={viewerHref}>
+                <FileText className="h-4 w-4" />
+                Open in document
+              </Link>
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { memo, useMemo } from "react";
+import { memo, useMemo, type HTMLAttributes } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeRaw from "rehype-raw";
@@ -6,14 +6,17 @@ import { cn } from "@/lib/utils";
 import type { Components } from "react-markdown";
 import { CodeBlock } from "./CodeBlock";
 import { CitationBadge } from "./CitationBadge";
-import type { CitationMap } from "@/lib/types/citations";
+import { QuoteVerificationMarker } from "./QuoteVerificationMarker";
+import type { CitationMap, QuoteVerdict, QuoteVerification } from "@/lib/types/citations";
 import { parseStreamingCitations } from "@/lib/utils/citation-parsing";
+import { markUnverifiedQuotes } from "@/lib/utils/quote-verification";
 import { useCitationParsing } from "@/lib/hooks/useCitationParsing";
 import { TooltipProvider } from "@/components/ui/tooltip";
 
 interface MarkdownRendererProps {
   content: string;
   citations?: CitationMap; // NEW: Citation data from database
+  quoteVerifications?: QuoteVerification[]; // Verdicts for quoted passages, from database
   className?: string;
 }
 
@@ -24,6 +27,12 @@ interface CiteElementProps {
   node?: unknown;
 }
 
+// Marker inserted after unverified quotes by markUnverifiedQuotes
+interface QuoteMarkerProps extends HTMLAttributes<HTMLSpanElement> {
+  'data-quote-verdict'?: QuoteVerdict;
+  'data-quote-similarity'?: string;
+}
+
 const customComponents: Components = {
   // Enhanced code handling with CodeBlock component
   code: CodeBlock,
@@ -118,6 +127,20 @@ const customComponents: Components = {
       {children}
     </strong>
   ),
+  // Unverified quote markers; other spans render as-is
+  span: (props: QuoteMarkerProps) => {
+    const verdict = props['data-quote-verdict'];
+    if (verdict) {
+      const similarity = Number(props['data-quote-similarity']);
+      return (
+        <QuoteVerificationMarker
+          verdict={verdict}
+          similarity={Number.isNaN(similarity) ? undefined : similarity}
+        />
+      );
+    }
+    return <span className={props.className} style={props.style}>{props.children}</span>;
+  },
   // Emphasis/italic text
   em: ({ children }) => (
     <em className="italic">
@@ -127,7 +150,7 @@ const customComponents: Components = {
 };
 
 export const MarkdownRenderer = memo(
-  ({ content, citations, className }: MarkdownRendererProps) => {
+  ({ content, citations, quoteVerifications, className }: MarkdownRendererProps) => {
     // Determine effective citations (database citations take precedence over streaming)
     const effectiveCitations = useMemo(() => {
       return citations && Object.keys(citations).length > 0
@@ -135,6 +158,13 @@ export const MarkdownRenderer = memo(
         : parseStreamingCitations(content);
     }, [citations, content]);
 
+    // Flag quotes that were paraphrased or not found in the sources
+    const renderedContent = useMemo(() => {
+      return quoteVerifications && quoteVerifications.length > 0
+        ? markUnverifiedQuotes(content, quoteVerifications)
+        : content;
+    }, [content, quoteVerifications]);
+
     // Use citation parsing hook for memoized lookup and plugin
     const { citationLookup, remarkPlugin, hasCitations } = useCitationParsing(effectiveCitations);
 
@@ -174,13 +204,22 @@ export const MarkdownRenderer = memo(
           return (
             <CitationBadge
               citationNumber={citationNumber}
-              documentName={documentName}
+              documentName={effectiveCitations[String(citationNumber)]?.documentName ?? documentName}
               documentId={citationInfo.documentId}
+              matchedBy={effectiveCitations[String(citationNumber)]?.matchedBy}
+              speakers={effectiveCitations[String(citationNumber)]?.speakers}
+              timestamps={effectiveCitations[String(citationNumber)]?.timestamps}
+              respondents={effectiveCitations[String(citationNumber)]?.respondents}
+              chunkId={effectiveCitations[String(citationNumber)]?.chunkId}
+              chunkIds={effectiveCitations[String(citationNumber)]?.chunkIds}
+              pageNumber={effectiveCitations[String(citationNumber)]?.pageNumber}
+              startOffset={effectiveCitations[String(citationNumber)]?.startOffset}
+              endOffset={effectiveCitations[String(citationNumber)]?.endOffset}
             />
           );
         },
       } as Components;
-    }, [hasCitations, citationLookup]);
+    }, [hasCitations, citationLookup, effectiveCitations]);
 
     return (
       <TooltipProvider delayDuration={200}>
@@ -195,13 +234,16 @@ export const MarkdownRenderer = memo(
             rehypePlugins={[rehypeRaw]}
             components={componentsWithCitations}
           >
-            {content}
+            {renderedContent}
           </ReactMarkdown>
         </div>
       </TooltipProvider>
     );
   },
-  (prev, next) => prev.content === next.content && prev.citations === next.citations
+  (prev, next) =>
+    prev.content === next.content &&
+    prev.citations === next.citations &&
+    prev.quoteVerifications === next.quoteVerifications
 );
 
 MarkdownRenderer.displayName = "MarkdownRenderer";
\ No newline at end of file
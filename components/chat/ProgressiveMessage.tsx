@@ -8,11 +8,11 @@ import { MessageActions } from "@/components/chat/MessageActions";
 import { useToolProgress } from "@/lib/hooks/useToolProgress";
 import { AnimatePresence, motion } from "framer-motion";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
-import type { CitationMap } from "@/lib/types/citations";
+import type { CitationMap, QuoteVerification } from "@/lib/types/citations";
 // Simplified for search-only approach - removed synthesis dependencies
 
 interface ProgressiveMessageProps {
-  message: UIMessage & { citations?: CitationMap }; // NEW: Include citations
+  message: UIMessage & { citations?: CitationMap; quoteVerifications?: QuoteVerification[] }; // NEW: Include citations
   persistenceError?: boolean;
   onRetryPersistence?: () => void;
   onCopy?: (text: string) => void;
@@ -76,6 +76,7 @@ export function ProgressiveMessage({
                       <MarkdownRenderer
                         content={part.text}
                         citations={message.citations}
+                        quoteVerifications={message.quoteVerifications}
                       />
                     </div>
                     {/* Message Actions - only show on final text part */}
@@ -206,6 +207,7 @@ export function ProgressiveMessage({
                       .join('') || ''
                   }
                   citations={message.citations}
+                  quoteVerifications={message.quoteVerifications}
                 />
               </div>
             )}
@@ -0,0 +1,64 @@
+'use client';
+
+import { memo } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import type { QuoteVerdict } from '@/lib/types/citations';
+
+interface QuoteVerificationMarkerProps {
+  verdict: QuoteVerdict;
+  similarity?: number;
+}
+
+/**
+ * Quote Verification Marker
+ *
+ * Inline warning placed after a quote that could not be found word for word
+ * in the study's documents. Paraphrased quotes get an amber marker, quotes
+ * with no close match a red one.
+ *
+ * NOTE: Must be wrapped in a TooltipProvider by the parent component.
+ */
+export const QuoteVerificationMarker = memo(
+  function QuoteVerificationMarker({ verdict, similarity }: QuoteVerificationMarkerProps) {
+    if (verdict === 'exact') return null;
+
+    const label = verdict === 'paraphrased'
+      ? 'Paraphrased quote: the wording differs from the source'
+      : 'Unverified quote: not found in the study documents';
+
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span
+            role="note"
+            aria-label={label}
+            tabIndex={0}
+            className={cn(
+              "inline-flex align-middle ml-1 cursor-help",
+              "focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-1 rounded-sm",
+              verdict === 'paraphrased' ? "text-amber-600" : "text-destructive"
+            )}
+          >
+            <AlertTriangle className="h-3.5 w-3.5" />
+          </span>
+        </TooltipTrigger>
+        <TooltipContent side="top" className="max-w-xs break-words">
+          <div className="flex flex-col gap-0.5">
+            <span className="text-xs font-medium">{label}</span>
+            {verdict === 'paraphrased' && similarity !== undefined && (
+              <span className="text-[10px] opacity-80">
+                {Math.round(similarity * 100)}% of its words match a source passage
+              </span>
+            )}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    );
+  }
+);
@@ -1,14 +1,21 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { MessageCircle, Plus, Loader2 } from "lucide-react";
+import { MessageCircle, Plus, Loader2, Filter } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { chatScopeFromRecord, describeChatScope, hasChatScope, type ChatScope } from "@/lib/types/chat-scope";
+import { ChatScopeDialog, type ScopeDocument } from "./chat-scope-dialog";
 
 interface Chat {
   id: string;
   title: string;
   createdAt: Date;
   updatedAt: Date;
+  folderPath?: string | null;
+  scopeDocumentIds?: string[];
+  scopeTags?: string[];
+  scopeAttributes?: Record<string, string>;
   _count: {
     messages: number;
   };
@@ -19,6 +26,8 @@ interface SimpleChatHeaderProps {
   onNewChat: () => Promise<void>;
   isCreatingNew?: boolean;
   isGeneratingTitle?: boolean;
+  documents?: ScopeDocument[]; // Study documents the chat can be limited to
+  onScopeChange?: (scope: ChatScope) => Promise<void>;
   className?: string;
 }
 
@@ -27,8 +36,19 @@ export function SimpleChatHeader({
   onNewChat,
   isCreatingNew = false,
   isGeneratingTitle = false,
+  documents = [],
+  onScopeChange,
   className,
 }: SimpleChatHeaderProps) {
+  const [isScopeDialogOpen, setIsScopeDialogOpen] = useState(false);
+
+  const scope = useMemo(() => currentChat ? chatScopeFromRecord(currentChat) : {}, [currentChat]);
+  const documentNames = useMemo(
+    () => Object.fromEntries(documents.map(doc => [doc.id, doc.fileName])),
+    [documents]
+  );
+  const scopeSummary = hasChatScope(scope) ? describeChatScope(scope, documentNames) : "All documents";
+
   const handleNewChat = async () => {
     try {
       await onNewChat();
@@ -61,6 +81,22 @@ export function SimpleChatHeader({
                 {currentChat._count.messages} message{currentChat._count.messages !== 1 ? 's' : ''}
               </span>
             )}
+            {currentChat && onScopeChange && documents.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setIsScopeDialogOpen(true)}
+                disabled={isLoading}
+                className={cn(
+                  "flex items-center gap-1 text-xs max-w-[240px] text-left hover:underline",
+                  hasChatScope(scope) ? "text-primary" : "text-muted-foreground"
+                )}
+                title={hasChatScope(scope) ? `Searches only cover ${scopeSummary}` : "Searches cover every document"}
+              >
+                <Filter className="h-3 w-3 shrink-0" />
+                <span className="sr-only">Search scope:</span>
+                <span className="truncate">{scopeSummary}</span>
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -75,6 +111,16 @@ export function SimpleChatHeader({
         <Plus className="h-4 w-4" />
         New Chat
       </Button>
+
+      {onScopeChange && (
+        <ChatScopeDialog
+          documents={documents}
+          scope={scope}
+          isOpen={isScopeDialogOpen}
+          onClose={() => setIsScopeDialogOpen(false)}
+          onSave={onScopeChange}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { isInChatScope, MAX_PINNED_DOCUMENTS, type ChatScope } from "@/lib/types/chat-scope";
+import type { DocumentAttributes } from "@/lib/types/document-metadata";
+import { getFolderDepth, getFolderName, listFolderPaths } from "@/lib/types/folders";
+
+export interface ScopeDocument {
+  id: string;
+  fileName: string;
+  folderPath?: string | null;
+  tags?: string[];
+  attributes?: DocumentAttributes | null;
+}
+
+interface ChatScopeDialogProps {
+  documents: ScopeDocument[];
+  scope: ChatScope;
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (scope: ChatScope) => Promise<void>;
+}
+
+/**
+ * Pin a chat to a folder, a saved tag and attribute filter and/or a set of
+ * documents; searches in the chat never reach outside them
+ */
+export function ChatScopeDialog({
+  documents,
+  scope,
+  isOpen,
+  onClose,
+  onSave,
+}: ChatScopeDialogProps) {
+  const [folderPath, setFolderPath] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [attributes, setAttributes] = useState<DocumentAttributes>({});
+  const [documentIds, setDocumentIds] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFolderPath(scope.folderPath ?? "");
+    setTags(scope.filter?.tags ?? []);
+    setAttributes(scope.filter?.attributes ?? {});
+    setDocumentIds(scope.documentIds ?? []);
+    setSearch("");
+    setError(null);
+  }, [isOpen, scope]);
+
+  const folders = useMemo(() => listFolderPaths(documents), [documents]);
+  const studyTags = useMemo(() => [...new Set(documents.flatMap(doc => doc.tags ?? []))].sort(), [documents]);
+  // Every value used per attribute key, offered as choices
+  const studyAttributes = useMemo(() => {
+    const values: Record<string, Set<string>> = {};
+    for (const doc of documents) {
+      for (const [key, value] of Object.entries(doc.attributes ?? {})) {
+        (values[key] ??= new Set()).add(value);
+      }
+    }
+    return Object.entries(values)
+      .map(([key, set]) => [key, [...set].sort()] as const)
+      .sort(([a], [b]) => a.localeCompare(b));
+  }, [documents]);
+
+  const draft: ChatScope = { folderPath: folderPath || null, documentIds, filter: { tags, attributes } };
+  // Documents that can be pinned: inside the folder and filter
+  const candidates = documents.filter(doc => isInChatScope(doc, { ...draft, documentIds: [] }));
+  const visibleCandidates = candidates.filter(doc => doc.fileName.toLowerCase().includes(search.trim().toLowerCase()));
+  const inScopeCount = documents.filter(doc => isInChatScope(doc, draft)).length;
+
+  const toggleTag = (tag: string) => {
+    setTags(current => current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag]);
+  };
+
+  const setAttribute = (key: string, value: string) => {
+    setAttributes(current => {
+      const next = { ...current };
+      if (value) next[key] = value; else delete next[key];
+      return next;
+    });
+  };
+
+  const toggleDocument = (documentId: string, pinned: boolean) => {
+    setDocumentIds(current => pinned ? [...current, documentId] : current.filter(id => id !== documentId));
+  };
+
+  const save = async (next: ChatScope) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(next);
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update chat scope");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Pinned documents the folder or filter now excludes would never be searched
+    const candidateIds = new Set(candidates.map(doc => doc.id));
+    save({ ...draft, documentIds: documentIds.filter(id => candidateIds.has(id)) });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Chat scope</DialogTitle>
+          <DialogDescription>
+            Limit every search in this chat to part of the study.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 text-sm">
+          {folders.length > 0 && (
+            <div className="space-y-1">
+              <label className="font-medium" htmlFor="chat-scope-folder">Folder</label>
+              <select
+                id="chat-scope-folder"
+                value={folderPath}
+                onChange={(e) => setFolderPath(e.target.value)}
+                disabled={isSaving}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                <option value="">All folders</option>
+                {folders.map(folder => (
+                  <option key={folder} value={folder}>
+                    {"  ".repeat(getFolderDepth(folder))}{getFolderName(folder)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {studyTags.length > 0 && (
+            <div className="space-y-1">
+              <span className="font-medium">Tags</span>
+              <div className="flex flex-wrap gap-1">
+                {studyTags.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    disabled={isSaving}
+                    aria-pressed={tags.includes(tag)}
+                    className={cn(
+                      "rounded-full border px-2 py-0.5 text-xs transition-colors",
+                      tags.includes(tag) ? "border-primary bg-primary text-primary-foreground" : "hover:bg-muted"
+                    )}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {studyAttributes.length > 0 && (
+            <div className="space-y-1">
+              <span className="font-medium">Attributes</span>
+              <div className="grid grid-cols-2 gap-2">
+                {studyAttributes.map(([key, values]) => (
+                  <label key={key} className="space-y-1 text-xs">
+                    <span className="text-muted-foreground">{key}</span>
+                    <select
+                      value={attributes[key] ?? ""}
+                      onChange={(e) => setAttribute(key, e.target.value)}
+                      disabled={isSaving}
+                      className="w-full rounded-md border border-input bg-background px-2 py-1 text-sm"
+                    >
+                      <option value="">Any</option>
+                      {values.map(value => <option key={value} value={value}>{value}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Documents</span>
+              {documentIds.length > 0 && (
+                <button type="button" className="text-xs text-muted-foreground hover:underline" onClick={() => setDocumentIds([])}>
+                  Unpin all
+                </button>
+              )}
+            </div>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Find a document"
+              aria-label="Find a document"
+              disabled={isSaving}
+            />
+            <div className="max-h-48 overflow-y-auto rounded-md border p-1">
+              {visibleCandidates.length === 0 ? (
+                <p className="p-2 text-xs text-muted-foreground">No documents match.</p>
+              ) : visibleCandidates.map(doc => (
+                <label key={doc.id} className="flex items-center gap-2 rounded px-2 py-1 hover:bg-muted/50">
+                  <input
+                    type="checkbox"
+                    checked={documentIds.includes(doc.id)}
+                    onChange={(e) => toggleDocument(doc.id, e.target.checked)}
+                    disabled={isSaving || (!documentIds.includes(doc.id) && documentIds.length >= MAX_PINNED_DOCUMENTS)}
+                  />
+                  <span className="truncate">{doc.fileName}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Pin documents to search only those; leave all unpinned to search every matching document.
+            </p>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {inScopeCount} of {documents.length} documents in scope
+          </p>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter className="flex-col-reverse gap-2 sm:flex-row sm:justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => save({ folderPath: null, documentIds: [], filter: { tags: [], attributes: {} } })}
+              disabled={isSaving}
+            >
+              Search all documents
+            </Button>
+            <div className="flex flex-col-reverse gap-2 sm:flex-row">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
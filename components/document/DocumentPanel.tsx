@@ -1,7 +1,11 @@
 "use client";
 
+import { useMemo, useState } from "react";
+import Link from "next/link";
 import { FileUpload } from "./FileUpload";
 import { DocumentActionsMenu } from "./document-actions-menu";
+import { DocumentMetadataDialog } from "./document-metadata-dialog";
+import { MoveToFolderDialog } from "./move-to-folder-dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { 
@@ -10,9 +14,25 @@ import {
   CheckCircle, 
   XCircle, 
   Download,
-  MoreHorizontal 
+  MoreHorizontal,
+  ScanText,
+  AlertTriangle,
+  Folder,
+  Copy,
+  Tag,
+  FolderOpen,
+  FolderInput,
+  ChevronRight,
+  ChevronDown
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { ChunkingStrategy } from "@/lib/document-chunking";
+import { LOW_OCR_CONFIDENCE } from "@/lib/constants";
+import { isOcrPageConfidenceList, type OcrPageConfidence } from "@/lib/types/ocr";
+import { isEmailHeaders, type EmailHeaders } from "@/lib/types/extractors";
+import { describeDuplicate, type DuplicateMatch } from "@/lib/types/duplicates";
+import type { DocumentAttributes, DocumentMetadataUpdate } from "@/lib/types/document-metadata";
+import { getFolderName, getParentFolder, isInFolder, listFolderPaths } from "@/lib/types/folders";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface Document {
@@ -24,6 +44,14 @@ interface Document {
   processingStatus: string;
   uploadedAt: string;
   studyId: string;
+  chunkingStrategy?: string | null;
+  ocrConfidence?: number | null;
+  ocrPages?: OcrPageConfidence[] | null;
+  emailHeaders?: EmailHeaders | null;
+  folderPath?: string | null;
+  duplicateOf?: DuplicateMatch | null;
+  tags?: string[];
+  attributes?: DocumentAttributes | null;
 }
 
 interface DocumentPanelProps {
@@ -35,8 +63,15 @@ interface DocumentPanelProps {
   onDocumentRename?: (documentId: string, newName: string) => Promise<void>;
   onDocumentDelete?: (documentId: string) => Promise<void>;
   onDocumentRetry?: (documentId: string) => Promise<void>;
+  onDocumentChunkingChange?: (documentId: string, strategy: ChunkingStrategy) => Promise<void>;
+  onDocumentReplace?: (documentId: string, file: File) => Promise<void>;
+  onDocumentsMetadataChange?: (documentIds: string[], update: DocumentMetadataUpdate) => Promise<void>;
+  onDocumentsMove?: (documentIds: string[], folderPath: string | null) => Promise<void>;
 }
 
+// Drop target for moving documents out of every folder
+const ROOT_DROP_TARGET = "";
+
 export function DocumentPanel({ 
   documents = [], 
   onFileUploaded, 
@@ -45,8 +80,109 @@ export function DocumentPanel({
   citationCounts = {},
   onDocumentRename,
   onDocumentDelete,
-  onDocumentRetry
+  onDocumentRetry,
+  onDocumentChunkingChange,
+  onDocumentReplace,
+  onDocumentsMetadataChange,
+  onDocumentsMove
 }: DocumentPanelProps) {
+  // Selection for bulk tag, attribute and folder edits
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Documents whose tags and attributes are being edited
+  const [metadataDocumentIds, setMetadataDocumentIds] = useState<string[] | null>(null);
+  // Documents being moved through the dialog
+  const [moveDocumentIds, setMoveDocumentIds] = useState<string[] | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>([]);
+  // Documents being dragged, and the folder they would be dropped into
+  const [draggedIds, setDraggedIds] = useState<string[] | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const folders = useMemo(() => listFolderPaths(documents), [documents]);
+  const moveDocuments = useMemo(
+    () => documents.filter(doc => moveDocumentIds?.includes(doc.id)),
+    [documents, moveDocumentIds]
+  );
+
+  const metadataDocuments = useMemo(
+    () => documents.filter(doc => metadataDocumentIds?.includes(doc.id)),
+    [documents, metadataDocumentIds]
+  );
+  const attributeKeys = useMemo(
+    () => [...new Set(documents.flatMap(doc => Object.keys(doc.attributes ?? {})))].sort(),
+    [documents]
+  );
+
+  const toggleSelected = (documentId: string, selected: boolean) => {
+    setSelectedIds(current => selected ? [...current, documentId] : current.filter(id => id !== documentId));
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const handleMetadataSave = async (update: DocumentMetadataUpdate) => {
+    if (!onDocumentsMetadataChange || !metadataDocumentIds) return;
+    await onDocumentsMetadataChange(metadataDocumentIds, update);
+    if (metadataDocumentIds.length > 1) stopSelecting();
+  };
+
+  const handleMove = async (folderPath: string | null) => {
+    if (!onDocumentsMove || !moveDocumentIds) return;
+    await onDocumentsMove(moveDocumentIds, folderPath);
+    if (moveDocumentIds.length > 1) stopSelecting();
+  };
+
+  const toggleFolder = (folderPath: string) => {
+    setCollapsedFolders(current =>
+      current.includes(folderPath) ? current.filter(folder => folder !== folderPath) : [...current, folderPath]
+    );
+  };
+
+  // Dragging a selected document drags the whole selection
+  const handleDragStart = (e: React.DragEvent, documentId: string) => {
+    if (!onDocumentsMove) return;
+    const ids = isSelecting && selectedIds.includes(documentId) ? selectedIds : [documentId];
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", ids.join(","));
+    setDraggedIds(ids);
+  };
+
+  const clearDrag = () => {
+    setDraggedIds(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (folderPath: string | null) => {
+    const ids = (draggedIds ?? []).filter(id =>
+      documents.find(doc => doc.id === id)?.folderPath !== folderPath
+    );
+    const wasSelection = (draggedIds?.length ?? 0) > 1;
+    clearDrag();
+    if (!onDocumentsMove || ids.length === 0) return;
+
+    // useDocuments reports failures; nothing more to do here
+    onDocumentsMove(ids, folderPath).then(() => {
+      if (wasSelection) stopSelecting();
+    }).catch(() => {});
+  };
+
+  // Nested folders stop the event so the innermost folder takes the drop
+  const dropTargetProps = (folderPath: string | null) => onDocumentsMove ? {
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggedIds) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(folderPath ?? ROOT_DROP_TARGET);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleDrop(folderPath);
+    },
+  } : {};
+
   const handleFileUpload = (file: { id: string; fileName: string; status: string }) => {
     onFileUploaded?.(file);
   };
@@ -63,14 +199,34 @@ export function DocumentPanel({
       case "application/pdf":
         return "📄";
       case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+      case "application/msword":
+      case "application/vnd.oasis.opendocument.text":
+      case "application/rtf":
+      case "text/rtf":
         return "📝";
+      case "application/vnd.openxmlformats-officedocument.presentationml.presentation":
+      case "application/vnd.oasis.opendocument.presentation":
+        return "📊";
+      case "text/html":
+        return "🌐";
+      case "message/rfc822":
+        return "✉️";
       case "text/plain":
         return "📃";
+      case "image/png":
+      case "image/jpeg":
+        return "🖼️";
       default:
         return "📄";
     }
   };
 
+  // OCR'd pages researchers should double-check against the original
+  const getLowConfidencePages = (doc: Document): OcrPageConfidence[] => {
+    if (!isOcrPageConfidenceList(doc.ocrPages)) return [];
+    return doc.ocrPages.filter(page => page.confidence < LOW_OCR_CONFIDENCE);
+  };
+
   const getStatusIcon = (processingStatus: string) => {
     switch (processingStatus) {
       case "PROCESSING":
@@ -129,16 +285,316 @@ export function DocumentPanel({
     }
   };
 
+  const renderDocument = (doc: Document, index: number) => (
+    <div
+      key={doc.id}
+      draggable={!!onDocumentsMove}
+      onDragStart={(e) => handleDragStart(e, doc.id)}
+      onDragEnd={clearDrag}
+    >
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: index * 0.05 }}
+        className={cn(
+          "group relative flex items-center gap-3 rounded-lg p-3 transition-all hover:bg-muted/50 cursor-pointer",
+          highlightedDocumentId === doc.id && "bg-primary/5 ring-1 ring-primary/20"
+        )}
+      >
+        {isSelecting && (
+          <input
+            type="checkbox"
+            checked={selectedIds.includes(doc.id)}
+            onChange={(e) => toggleSelected(doc.id, e.target.checked)}
+            aria-label={`Select ${doc.originalName || doc.fileName}`}
+            className="shrink-0"
+          />
+        )}
+
+        {/* File Icon */}
+        <motion.div 
+          className={cn(
+            "flex items-center justify-center w-10 h-10 rounded-lg shrink-0 transition-all duration-300",
+            doc.processingStatus === "PROCESSING" 
+              ? "bg-analysis/10 animate-pulse" 
+              : "bg-muted/50 group-hover:bg-muted/70"
+          )}
+          whileHover={{ scale: 1.05 }}
+          transition={{ type: "spring", stiffness: 300 }}
+        >
+          <motion.span 
+            className="text-lg leading-none"
+            animate={doc.processingStatus === "PROCESSING" ? {
+              scale: [1, 1.1, 1],
+              opacity: [0.7, 1, 0.7]
+            } : {}}
+            transition={{ 
+              duration: 2, 
+              repeat: doc.processingStatus === "PROCESSING" ? Infinity : 0,
+              ease: "easeInOut"
+            }}
+          >
+            {getFileIcon(doc.mimeType)}
+          </motion.span>
+        </motion.div>
+        
+        {/* File Info */}
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <h4 className="text-sm font-medium truncate pr-2">
+              <Link
+                href={`/study/${studyId}/documents/${doc.id}`}
+                className="hover:underline underline-offset-2"
+              >
+                {doc.originalName || doc.fileName}
+              </Link>
+            </h4>
+            {getStatusIcon(doc.processingStatus)}
+          </div>
+          
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>{formatFileSize(doc.fileSize)}</span>
+            <span>•</span>
+            <motion.span 
+              className={cn(
+                "transition-colors font-medium text-xs",
+                doc.processingStatus === "COMPLETED" && "text-green-600",
+                doc.processingStatus === "PROCESSING" && "text-analysis",
+                doc.processingStatus === "FAILED" && "text-destructive"
+              )}
+              animate={doc.processingStatus === "PROCESSING" ? {
+                opacity: [0.6, 1, 0.6]
+              } : {}}
+              transition={{ 
+                duration: 1.5, 
+                repeat: doc.processingStatus === "PROCESSING" ? Infinity : 0,
+                ease: "easeInOut"
+              }}
+            >
+              {getStatusText(doc.processingStatus)}
+            </motion.span>
+            {doc.ocrConfidence != null && (
+              <>
+                <span>•</span>
+                <Badge
+                  variant="outline"
+                  className="text-xs h-4 px-1.5 gap-1"
+                  title="Text was recognized from scanned pages or images"
+                >
+                  <ScanText className="h-3 w-3" />
+                  OCR {Math.round(doc.ocrConfidence)}%
+                </Badge>
+              </>
+            )}
+            {doc.duplicateOf && (
+              <>
+                <span>•</span>
+                <Badge
+                  variant="outline"
+                  className="text-xs h-4 px-1.5 gap-1"
+                  title={describeDuplicate(doc.duplicateOf, studyId)}
+                >
+                  <Copy className="h-3 w-3" />
+                  Duplicate
+                </Badge>
+              </>
+            )}
+            {citationCounts[doc.id] && citationCounts[doc.id] > 0 && (
+              <>
+                <span>•</span>
+                <Badge variant="secondary" className="text-xs h-4 px-1.5">
+                  {citationCounts[doc.id]} cited
+                </Badge>
+              </>
+            )}
+          </div>
+
+          {((doc.tags?.length ?? 0) > 0 || Object.keys(doc.attributes ?? {}).length > 0) && (
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(doc.attributes ?? {}).map(([key, value]) => (
+                <Badge key={`attribute-${key}`} variant="outline" className="text-xs h-4 px-1.5 font-normal">
+                  <span className="text-muted-foreground">{key}:</span>&nbsp;{value}
+                </Badge>
+              ))}
+              {doc.tags?.map(tag => (
+                <Badge key={`tag-${tag}`} variant="secondary" className="text-xs h-4 px-1.5 font-normal">
+                  #{tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {isEmailHeaders(doc.emailHeaders) && (doc.emailHeaders.from || doc.emailHeaders.subject) && (
+            <p className="text-xs text-muted-foreground truncate" title={doc.emailHeaders.subject}>
+              {[doc.emailHeaders.from, doc.emailHeaders.subject].filter(Boolean).join(" · ")}
+            </p>
+          )}
+
+          {getLowConfidencePages(doc).length > 0 && (
+            <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-500">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              <span className="truncate">
+                {doc.ocrPages && doc.ocrPages.length > 1
+                  ? `Low OCR confidence on p. ${getLowConfidencePages(doc).map(page => page.pageNumber).join(", ")}`
+                  : "Low OCR confidence, text may be unreliable"}
+              </span>
+            </p>
+          )}
+
+          {doc.processingStatus === "PROCESSING" && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              className="pt-2"
+            >
+              <div className="w-full h-1 bg-muted/50 rounded-full overflow-hidden">
+                <motion.div
+                  className="h-full bg-analysis rounded-full"
+                  initial={{ width: "0%" }}
+                  animate={{ width: "100%" }}
+                  transition={{
+                    duration: 3,
+                    repeat: Infinity,
+                    ease: "easeInOut"
+                  }}
+                />
+              </div>
+            </motion.div>
+          )}
+
+          {doc.processingStatus === "FAILED" && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              className="pt-2"
+            >
+              <Button size="sm" variant="outline" className="h-6 text-xs px-2 hover:bg-primary/5">
+                Retry
+              </Button>
+            </motion.div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+          {(onDocumentRename || onDocumentDelete || onDocumentRetry || onDocumentChunkingChange || onDocumentReplace || onDocumentsMetadataChange || onDocumentsMove) ? (
+            <DocumentActionsMenu
+              document={doc}
+              onRename={onDocumentRename ? (newName) => onDocumentRename(doc.id, newName) : undefined}
+              onDelete={onDocumentDelete ? () => onDocumentDelete(doc.id) : undefined}
+              onRetry={onDocumentRetry ? () => onDocumentRetry(doc.id) : undefined}
+              onChangeChunkingStrategy={onDocumentChunkingChange ? (strategy) => onDocumentChunkingChange(doc.id, strategy) : undefined}
+              onReplaceFile={onDocumentReplace ? (file) => onDocumentReplace(doc.id, file) : undefined}
+              onEditMetadata={onDocumentsMetadataChange ? () => setMetadataDocumentIds([doc.id]) : undefined}
+              onMove={onDocumentsMove ? () => setMoveDocumentIds([doc.id]) : undefined}
+            />
+          ) : (
+            <>
+              {doc.processingStatus === "COMPLETED" && (
+                <Button size="sm" variant="ghost" className="h-8 w-8 p-0 rounded-full">
+                  <Download className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" className="h-8 w-8 p-0 rounded-full">
+                <MoreHorizontal className="h-3.5 w-3.5" />
+              </Button>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+
+  const renderFolder = (folderPath: string): React.ReactNode => {
+    const isCollapsed = collapsedFolders.includes(folderPath);
+    const childFolders = folders.filter(folder => getParentFolder(folder) === folderPath);
+    const folderDocuments = documents.filter(doc => doc.folderPath === folderPath);
+    const documentCount = documents.filter(doc => isInFolder(doc.folderPath, folderPath)).length;
+
+    return (
+      <div key={`folder-${folderPath}`} {...dropTargetProps(folderPath)}>
+        <button
+          type="button"
+          onClick={() => toggleFolder(folderPath)}
+          className={cn(
+            "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm font-medium transition-colors hover:bg-muted/50",
+            dropTarget === folderPath && "bg-primary/10 ring-1 ring-primary/30"
+          )}
+          aria-expanded={!isCollapsed}
+          title={folderPath}
+        >
+          {isCollapsed
+            ? <ChevronRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            : <ChevronDown className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+          {isCollapsed
+            ? <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />
+            : <FolderOpen className="h-4 w-4 shrink-0 text-muted-foreground" />}
+          <span className="truncate">{getFolderName(folderPath)}</span>
+          <Badge variant="secondary" className="ml-auto text-xs h-4 px-1.5">
+            {documentCount}
+          </Badge>
+        </button>
+        {!isCollapsed && (
+          <div className="pl-4">
+            {childFolders.map(renderFolder)}
+            {folderDocuments.map(renderDocument)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col h-full bg-background border-r border-border">
       {/* Header with ai-chatbot styling */}
       <div className="flex flex-col gap-4 p-4 border-b border-border/50">
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold tracking-tight">Documents</h2>
-          <Badge variant="secondary" className="text-xs">
-            {documents.length}
-          </Badge>
+          <div className="flex items-center gap-2">
+            {(onDocumentsMetadataChange || onDocumentsMove) && documents.length > 1 && !isSelecting && (
+              <Button size="sm" variant="ghost" className="h-6 text-xs px-2" onClick={() => setIsSelecting(true)}>
+                Select
+              </Button>
+            )}
+            <Badge variant="secondary" className="text-xs">
+              {documents.length}
+            </Badge>
+          </div>
         </div>
+        {isSelecting && (
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-muted-foreground">{selectedIds.length} selected</span>
+            <div className="flex items-center gap-1">
+              {onDocumentsMove && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 text-xs px-2 gap-1"
+                  disabled={selectedIds.length === 0}
+                  onClick={() => setMoveDocumentIds(selectedIds)}
+                >
+                  <FolderInput className="h-3 w-3" />
+                  Move
+                </Button>
+              )}
+              {onDocumentsMetadataChange && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 text-xs px-2 gap-1"
+                  disabled={selectedIds.length === 0}
+                  onClick={() => setMetadataDocumentIds(selectedIds)}
+                >
+                  <Tag className="h-3 w-3" />
+                  Tags &amp; attributes
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" className="h-6 text-xs px-2" onClick={stopSelecting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
         <FileUpload 
           studyId={studyId}
           onFileUploaded={handleFileUpload}
@@ -171,145 +627,37 @@ export function DocumentPanel({
               </motion.div>
             </motion.div>
           ) : (
-            documents.map((doc, index) => (
-              <motion.div
-                key={doc.id}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-                className={cn(
-                  "group relative flex items-center gap-3 rounded-lg p-3 transition-all hover:bg-muted/50 cursor-pointer",
-                  highlightedDocumentId === doc.id && "bg-primary/5 ring-1 ring-primary/20"
-                )}
-              >
-                {/* File Icon */}
-                <motion.div 
-                  className={cn(
-                    "flex items-center justify-center w-10 h-10 rounded-lg shrink-0 transition-all duration-300",
-                    doc.processingStatus === "PROCESSING" 
-                      ? "bg-analysis/10 animate-pulse" 
-                      : "bg-muted/50 group-hover:bg-muted/70"
-                  )}
-                  whileHover={{ scale: 1.05 }}
-                  transition={{ type: "spring", stiffness: 300 }}
-                >
-                  <motion.span 
-                    className="text-lg leading-none"
-                    animate={doc.processingStatus === "PROCESSING" ? {
-                      scale: [1, 1.1, 1],
-                      opacity: [0.7, 1, 0.7]
-                    } : {}}
-                    transition={{ 
-                      duration: 2, 
-                      repeat: doc.processingStatus === "PROCESSING" ? Infinity : 0,
-                      ease: "easeInOut"
-                    }}
-                  >
-                    {getFileIcon(doc.mimeType)}
-                  </motion.span>
-                </motion.div>
-                
-                {/* File Info */}
-                <div className="flex-1 min-w-0 space-y-1">
-                  <div className="flex items-center gap-2">
-                    <h4 className="text-sm font-medium truncate pr-2">
-                      {doc.originalName || doc.fileName}
-                    </h4>
-                    {getStatusIcon(doc.processingStatus)}
-                  </div>
-                  
-                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                    <span>{formatFileSize(doc.fileSize)}</span>
-                    <span>•</span>
-                    <motion.span 
-                      className={cn(
-                        "transition-colors font-medium text-xs",
-                        doc.processingStatus === "COMPLETED" && "text-green-600",
-                        doc.processingStatus === "PROCESSING" && "text-analysis",
-                        doc.processingStatus === "FAILED" && "text-destructive"
-                      )}
-                      animate={doc.processingStatus === "PROCESSING" ? {
-                        opacity: [0.6, 1, 0.6]
-                      } : {}}
-                      transition={{ 
-                        duration: 1.5, 
-                        repeat: doc.processingStatus === "PROCESSING" ? Infinity : 0,
-                        ease: "easeInOut"
-                      }}
-                    >
-                      {getStatusText(doc.processingStatus)}
-                    </motion.span>
-                    {citationCounts[doc.id] && citationCounts[doc.id] > 0 && (
-                      <>
-                        <span>•</span>
-                        <Badge variant="secondary" className="text-xs h-4 px-1.5">
-                          {citationCounts[doc.id]} cited
-                        </Badge>
-                      </>
-                    )}
-                  </div>
-
-                  {doc.processingStatus === "PROCESSING" && (
-                    <motion.div
-                      initial={{ opacity: 0, height: 0 }}
-                      animate={{ opacity: 1, height: "auto" }}
-                      className="pt-2"
-                    >
-                      <div className="w-full h-1 bg-muted/50 rounded-full overflow-hidden">
-                        <motion.div
-                          className="h-full bg-analysis rounded-full"
-                          initial={{ width: "0%" }}
-                          animate={{ width: "100%" }}
-                          transition={{
-                            duration: 3,
-                            repeat: Infinity,
-                            ease: "easeInOut"
-                          }}
-                        />
-                      </div>
-                    </motion.div>
-                  )}
-
-                  {doc.processingStatus === "FAILED" && (
-                    <motion.div
-                      initial={{ opacity: 0, height: 0 }}
-                      animate={{ opacity: 1, height: "auto" }}
-                      className="pt-2"
-                    >
-                      <Button size="sm" variant="outline" className="h-6 text-xs px-2 hover:bg-primary/5">
-                        Retry
-                      </Button>
-                    </motion.div>
-                  )}
-                </div>
-
-                {/* Actions */}
-                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
-                  {(onDocumentRename || onDocumentDelete || onDocumentRetry) ? (
-                    <DocumentActionsMenu
-                      document={doc}
-                      onRename={onDocumentRename ? (newName) => onDocumentRename(doc.id, newName) : undefined}
-                      onDelete={onDocumentDelete ? () => onDocumentDelete(doc.id) : undefined}
-                      onRetry={onDocumentRetry ? () => onDocumentRetry(doc.id) : undefined}
-                    />
-                  ) : (
-                    <>
-                      {doc.processingStatus === "COMPLETED" && (
-                        <Button size="sm" variant="ghost" className="h-8 w-8 p-0 rounded-full">
-                          <Download className="h-3.5 w-3.5" />
-                        </Button>
-                      )}
-                      <Button size="sm" variant="ghost" className="h-8 w-8 p-0 rounded-full">
-                        <MoreHorizontal className="h-3.5 w-3.5" />
-                      </Button>
-                    </>
-                  )}
-                </div>
-              </motion.div>
-            ))
+            <div
+              key="document-list"
+              className={cn("min-h-full rounded-lg", dropTarget === ROOT_DROP_TARGET && "bg-primary/5")}
+              {...dropTargetProps(null)}
+            >
+              {folders.filter(folder => !getParentFolder(folder)).map(renderFolder)}
+              {documents.filter(doc => !doc.folderPath).map(renderDocument)}
+            </div>
           )}
         </AnimatePresence>
       </div>
+
+      {onDocumentsMetadataChange && (
+        <DocumentMetadataDialog
+          documents={metadataDocuments}
+          attributeKeys={attributeKeys}
+          isOpen={metadataDocuments.length > 0}
+          onClose={() => setMetadataDocumentIds(null)}
+          onSave={handleMetadataSave}
+        />
+      )}
+
+      {onDocumentsMove && (
+        <MoveToFolderDialog
+          documents={moveDocuments}
+          folders={folders}
+          isOpen={moveDocuments.length > 0}
+          onClose={() => setMoveDocumentIds(null)}
+          onMove={handleMove}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
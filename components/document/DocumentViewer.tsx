@@ -0,0 +1,151 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, ExternalLink } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { buildDocumentSegments } from "@/lib/document-passages";
+import type { DocumentContent } from "@/lib/hooks/useDocumentContent";
+
+interface DocumentViewerProps {
+  document: DocumentContent;
+  focusChunkId?: string | null;
+  onVersionChange?: (version: number) => void;
+}
+
+/**
+ * Document Viewer
+ *
+ * Renders a document's extracted text with cited chunks highlighted and page
+ * markers for PDFs. Scrolls to the focused chunk (or the first highlight) on
+ * load; the header steps through the remaining highlights. Documents whose
+ * file was replaced get a picker for their earlier versions.
+ */
+export function DocumentViewer({ document, focusChunkId, onVersionChange }: DocumentViewerProps) {
+  const text = document.extractedText ?? "";
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const segments = useMemo(
+    () => buildDocumentSegments(text.length, document.highlights, document.pageOffsets),
+    [text.length, document.highlights, document.pageOffsets]
+  );
+
+  // Highlight order follows the text
+  const highlightIds = document.highlights.map(highlight => highlight.chunkId);
+  const initialIndex = Math.max(0, focusChunkId ? highlightIds.indexOf(focusChunkId) : 0);
+  const [activeIndex, setActiveIndex] = useState(initialIndex);
+  const activeChunkId = highlightIds[activeIndex];
+
+  useEffect(() => {
+    if (!activeChunkId) return;
+    const target = containerRef.current?.querySelector(`[data-chunk-id~="${activeChunkId}"]`);
+    target?.scrollIntoView?.({ behavior: "smooth", block: "center" });
+  }, [activeChunkId]);
+
+  const hasOriginal = !!document.storageUrl && /^https?:\/\//.test(document.storageUrl);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between gap-4 border-b px-6 py-3">
+        <div className="min-w-0">
+          <h1 className="font-medium truncate">{document.fileName}</h1>
+          <p className="text-xs text-muted-foreground">
+            {highlightIds.length > 0
+              ? `${highlightIds.length} cited passage${highlightIds.length === 1 ? "" : "s"}`
+              : "No highlighted passages"}
+            {document.pageOffsets.length > 0 && ` · ${document.pageOffsets.length} pages`}
+            {document.pseudonymized && " · Names pseudonymized"}
+            {document.version !== document.currentVersion && ` · Version ${document.version}, replaced since`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {document.versions.length > 1 && onVersionChange && (
+            <select
+              value={document.version}
+              onChange={event => onVersionChange(Number(event.target.value))}
+              className="h-8 rounded-md border bg-background px-2 text-xs mr-2"
+              aria-label="Document version"
+            >
+              {document.versions.map(version => (
+                <option key={version.version} value={version.version}>
+                  Version {version.version}{version.current ? " (current)" : ""} · {new Date(version.createdAt).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+          )}
+          {highlightIds.length > 1 && (
+            <>
+              <span className="text-xs text-muted-foreground mr-1">
+                {activeIndex + 1} / {highlightIds.length}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => setActiveIndex(index => (index - 1 + highlightIds.length) % highlightIds.length)}
+                aria-label="Previous passage"
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => setActiveIndex(index => (index + 1) % highlightIds.length)}
+                aria-label="Next passage"
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          {hasOriginal && (
+            <Button size="sm" variant="outline" className="gap-2 ml-2" asChild>
+              <a href={document.storageUrl!} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-3.5 w-3.5" />
+                Original
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 overflow-y-auto px-6 py-6">
+        {text.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {document.status === "PROCESSING"
+              ? "This document is still processing."
+              : "No text is available for this document."}
+          </p>
+        ) : (
+          <div className="max-w-3xl mx-auto text-sm leading-relaxed whitespace-pre-wrap">
+            {segments.map(segment => (
+              <Fragment key={segment.start}>
+                {segment.page && (
+                  <span className="block text-[10px] uppercase tracking-wide text-muted-foreground border-t pt-2 mt-4 mb-2 first:mt-0 first:border-t-0">
+                    Page {segment.page}
+                  </span>
+                )}
+                {segment.chunkIds.length > 0 ? (
+                  <mark
+                    data-chunk-id={segment.chunkIds.join(" ")}
+                    className={cn(
+                      "rounded-sm text-foreground transition-colors",
+                      segment.chunkIds.includes(activeChunkId)
+                        ? "bg-primary/25"
+                        : "bg-primary/10"
+                    )}
+                  >
+                    {text.slice(segment.start, segment.end)}
+                  </mark>
+                ) : (
+                  text.slice(segment.start, segment.end)
+                )}
+              </Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
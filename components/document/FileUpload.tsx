@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import { useDropzone } from "react-dropzone";
 import { Upload, File, Loader2, Plus, X, RefreshCw } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -9,6 +9,11 @@ import { useBatchFileUpload } from "@/lib/hooks/useBatchFileUpload";
 import { useAnalytics } from "@/lib/analytics/hooks/use-analytics";
 import { toast } from "sonner";
 import { motion, AnimatePresence } from "framer-motion";
+import { getSpreadsheetFormat, type SurveyColumnMapping } from "@/lib/survey-import";
+import { SurveyMappingDialog } from "./SurveyMappingDialog";
+import { shouldUploadResumably } from "@/lib/resumable-upload-client";
+import { ACCEPTED_FILE_TYPES, ARCHIVE_FILE_EXTENSIONS, ARCHIVE_FILE_TYPES } from "@/lib/constants";
+import { describeDuplicate, type DuplicateHandling } from "@/lib/types/duplicates";
 
 interface FileUploadProps {
   studyId: string;
@@ -17,38 +22,57 @@ interface FileUploadProps {
   className?: string;
   disabled?: boolean;
   useBatchMode?: boolean; // Enable batch mode for multiple files
+  duplicates?: DuplicateHandling; // Batch uploads: flag ('warn') or skip files uploaded before
 }
 
-const ACCEPTED_FILE_TYPES = {
-  "application/pdf": [".pdf"],
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
-  "text/plain": [".txt"],
+// ZIP archives are expanded server-side by the batch endpoint
+const UPLOAD_ACCEPT = {
+  ...ACCEPTED_FILE_TYPES,
+  ...Object.fromEntries(ARCHIVE_FILE_TYPES.map(type => [type, [...ARCHIVE_FILE_EXTENSIONS]])),
 };
 
+// Skipped archive entries listed before collapsing into "and N more"
+const MAX_SKIPPED_SHOWN = 5;
+
+function isArchive(file: File): boolean {
+  return (ARCHIVE_FILE_TYPES as readonly string[]).includes(file.type) ||
+    (ARCHIVE_FILE_EXTENSIONS as readonly string[]).some(extension => file.name.toLowerCase().endsWith(extension));
+}
+
+
 export function FileUpload({
   studyId,
   onFileUploaded,
   onBatchUploaded,
   className,
   disabled,
-  useBatchMode = true
+  useBatchMode = true,
+  duplicates = 'warn'
 }: FileUploadProps) {
   const { uploadFile, uploads, isUploading: isSingleUploading } = useFileUpload();
   const { batchState, uploadBatch, cancelBatch, retryBatch, clearBatch, isUploading: isBatchUploading } = useBatchFileUpload();
   const { trackDocumentUpload } = useAnalytics();
+  // Files waiting on the survey column mapping dialog
+  const [pendingFiles, setPendingFiles] = useState<File[] | null>(null);
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    if (acceptedFiles.length === 0) return;
-
-    // Use batch mode for multiple files or if explicitly enabled
-    if (useBatchMode && acceptedFiles.length > 1) {
+  const startUpload = useCallback(async (
+    acceptedFiles: File[],
+    surveyMappings: Record<string, SurveyColumnMapping> = {}
+  ) => {
+    // Use batch mode for multiple files or if explicitly enabled. Column
+    // mappings, archives and resumable (large) uploads are only handled by
+    // the batch endpoint, so those always use it.
+    const hasSurveyMappings = Object.keys(surveyMappings).length > 0;
+    const hasArchives = acceptedFiles.some(isArchive);
+    const hasLargeFiles = acceptedFiles.some(shouldUploadResumably);
+    if ((useBatchMode && acceptedFiles.length > 1) || hasSurveyMappings || hasArchives || hasLargeFiles) {
       try {
         // Track batch upload attempt
         acceptedFiles.forEach(file => {
           trackDocumentUpload(file.name, file.type, file.size);
         });
 
-        const uploadedFiles = await uploadBatch(acceptedFiles, studyId);
+        const uploadedFiles = await uploadBatch(acceptedFiles, studyId, { surveyMappings, duplicates });
 
         // Call the batch callback if provided
         if (onBatchUploaded) {
@@ -64,7 +88,10 @@ export function FileUpload({
         const successCount = uploadedFiles.length;
         const totalCount = acceptedFiles.length;
 
-        if (successCount === totalCount) {
+        if (hasArchives) {
+          // Archives expand server-side, so the number of files isn't known up front
+          toast.success(`${successCount} file${successCount !== 1 ? 's' : ''} uploaded successfully`);
+        } else if (successCount === totalCount) {
           toast.success(`${successCount} file${successCount !== 1 ? 's' : ''} uploaded successfully`);
         } else {
           toast.success(`${successCount}/${totalCount} files uploaded successfully`);
@@ -91,6 +118,9 @@ export function FileUpload({
 
           // Show success toast
           toast.success(`${file.name} uploaded successfully`);
+          if (uploadedFile.duplicateOf) {
+            toast.warning(`${file.name}: ${describeDuplicate(uploadedFile.duplicateOf, studyId)}`);
+          }
         } catch (error) {
           console.error("Upload failed:", error);
           const errorMessage = error instanceof Error ? error.message : "Upload failed";
@@ -98,14 +128,32 @@ export function FileUpload({
         }
       }
     }
-  }, [uploadFile, uploadBatch, studyId, onFileUploaded, onBatchUploaded, trackDocumentUpload, useBatchMode]);
+  }, [uploadFile, uploadBatch, studyId, onFileUploaded, onBatchUploaded, trackDocumentUpload, useBatchMode, duplicates]);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    // Spreadsheets need their columns mapped before uploading
+    if (acceptedFiles.some(file => getSpreadsheetFormat(file.type, file.name))) {
+      setPendingFiles(acceptedFiles);
+      return;
+    }
+
+    await startUpload(acceptedFiles);
+  }, [startUpload]);
+
+  const handleSurveyMappingConfirm = useCallback((surveyMappings: Record<string, SurveyColumnMapping>) => {
+    const files = pendingFiles ?? [];
+    setPendingFiles(null);
+    void startUpload(files, surveyMappings);
+  }, [pendingFiles, startUpload]);
 
   // Determine if we're in an uploading state
   const isUploading = isSingleUploading || isBatchUploading;
 
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
-    accept: ACCEPTED_FILE_TYPES,
+    accept: UPLOAD_ACCEPT,
     disabled: disabled || isUploading,
     multiple: true,
   });
@@ -116,13 +164,22 @@ export function FileUpload({
   );
 
   const batchUploadingFiles = Array.from(batchState.files.values()).filter(
-    file => file.status === "processing" || file.status === "validating" || file.status === "queued"
+    file => file.status === "uploading" || file.status === "processing" || file.status === "validating" || file.status === "queued"
   );
 
   const uploadingFiles = isBatchUploading ? batchUploadingFiles : singleUploadingFiles;
 
+  const duplicateFiles = Array.from(batchState.files.values()).filter(file => file.duplicateOf);
+
   return (
     <div className={className}>
+      <SurveyMappingDialog
+        files={(pendingFiles ?? []).filter(file => getSpreadsheetFormat(file.type, file.name))}
+        isOpen={pendingFiles !== null}
+        onCancel={() => setPendingFiles(null)}
+        onConfirm={handleSurveyMappingConfirm}
+      />
+
       <div {...getRootProps()}>
         <motion.div
           className={cn(
@@ -215,6 +272,7 @@ export function FileUpload({
                           <span className="truncate max-w-[120px] font-medium">{fileName}</span>
                           {isBatchUploading && (
                             <span className="text-xs text-muted-foreground capitalize">
+                              {status === 'uploading' && '↑'}
                               {status === 'queued' && '•'}
                               {status === 'validating' && '✓'}
                               {status === 'processing' && '⚡'}
@@ -271,7 +329,7 @@ export function FileUpload({
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.1 }}
                   >
-                    Only PDF, DOCX, and TXT files are allowed
+                    Only PDF, Word, PowerPoint, OpenDocument, RTF, HTML, EML, TXT, VTT, SRT, CSV, XLSX, PNG, JPEG and ZIP files are allowed
                   </motion.p>
                 </>
               ) : (
@@ -314,7 +372,7 @@ export function FileUpload({
                   initial={{ opacity: 0.7 }}
                   whileHover={{ opacity: 0.9 }}
                 >
-                  Drag & drop or click to upload PDF, DOCX, and TXT files
+                  Drag & drop or click to upload documents, transcripts, surveys, scanned images or a ZIP of them
                 </motion.p>
               </>
             )}
@@ -385,7 +443,7 @@ export function FileUpload({
       )}
 
       {/* Batch upload summary when completed */}
-      {batchState.status === 'completed' && batchState.summary.total > 0 && (
+      {batchState.status === 'completed' && (batchState.summary.total > 0 || duplicateFiles.length > 0) && (
         <motion.div
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -421,6 +479,48 @@ export function FileUpload({
               Clear
             </motion.button>
           </div>
+
+          {/* Files the user had already uploaded */}
+          {duplicateFiles.length > 0 && (
+            <div className="mt-3 space-y-1">
+              <p className="text-xs text-muted-foreground font-medium">
+                {duplicateFiles.length} file{duplicateFiles.length !== 1 ? 's were' : ' was'} already uploaded:
+              </p>
+              {duplicateFiles.slice(0, MAX_SKIPPED_SHOWN).map(file => (
+                <div key={file.fileName} className="text-xs text-muted-foreground flex items-center gap-2">
+                  <span className="truncate">{file.fileName}</span>
+                  <span className="shrink-0">
+                    - {file.status === 'skipped' && 'Skipped: '}{describeDuplicate(file.duplicateOf!, studyId)}
+                  </span>
+                </div>
+              ))}
+              {duplicateFiles.length > MAX_SKIPPED_SHOWN && (
+                <p className="text-xs text-muted-foreground">
+                  and {duplicateFiles.length - MAX_SKIPPED_SHOWN} more
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Archive entries that were left out */}
+          {batchState.skipped && batchState.skipped.length > 0 && (
+            <div className="mt-3 space-y-1">
+              <p className="text-xs text-muted-foreground font-medium">
+                Skipped {batchState.skipped.length} file{batchState.skipped.length !== 1 ? 's' : ''} from the archive:
+              </p>
+              {batchState.skipped.slice(0, MAX_SKIPPED_SHOWN).map(entry => (
+                <div key={`${entry.archive}/${entry.path}`} className="text-xs text-muted-foreground flex items-center gap-2">
+                  <span className="truncate">{entry.path}</span>
+                  <span className="shrink-0">- {entry.reason}</span>
+                </div>
+              ))}
+              {batchState.skipped.length > MAX_SKIPPED_SHOWN && (
+                <p className="text-xs text-muted-foreground">
+                  and {batchState.skipped.length - MAX_SKIPPED_SHOWN} more
+                </p>
+              )}
+            </div>
+          )}
         </motion.div>
       )}
     </div>
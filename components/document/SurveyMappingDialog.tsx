@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import {
+  getSpreadsheetFormat,
+  inferSurveyMapping,
+  readSpreadsheet,
+  type SpreadsheetTable,
+  type SurveyColumnMapping,
+} from "@/lib/survey-import";
+
+type ColumnRole = "response" | "respondentId" | "attribute" | "ignore";
+
+const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  response: "Response",
+  respondentId: "Respondent ID",
+  attribute: "Attribute",
+  ignore: "Ignore",
+};
+
+const PREVIEW_ROWS = 3;
+
+interface SurveyMappingDialogProps {
+  files: File[]; // Spreadsheets to map, one step each
+  isOpen: boolean;
+  onCancel: () => void;
+  onConfirm: (mappings: Record<string, SurveyColumnMapping>) => void;
+}
+
+function rolesFromMapping(headers: string[], mapping: SurveyColumnMapping): Record<string, ColumnRole> {
+  return Object.fromEntries(headers.map(header => {
+    if (header === mapping.respondentIdColumn) return [header, "respondentId"];
+    if (mapping.attributeColumns?.includes(header)) return [header, "attribute"];
+    if (mapping.responseColumns.includes(header)) return [header, "response"];
+    return [header, "ignore"];
+  }));
+}
+
+function mappingFromRoles(headers: string[], roles: Record<string, ColumnRole>): SurveyColumnMapping {
+  return {
+    responseColumns: headers.filter(header => roles[header] === "response"),
+    respondentIdColumn: headers.find(header => roles[header] === "respondentId") ?? null,
+    attributeColumns: headers.filter(header => roles[header] === "attribute"),
+  };
+}
+
+/**
+ * Column mapping for spreadsheet survey uploads: which columns hold
+ * responses, which identifies the respondent and which are attributes
+ * (segment, plan, ...) attached to every response
+ */
+export function SurveyMappingDialog({
+  files,
+  isOpen,
+  onCancel,
+  onConfirm,
+}: SurveyMappingDialogProps) {
+  const [fileIndex, setFileIndex] = useState(0);
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [roles, setRoles] = useState<Record<string, ColumnRole>>({});
+  const [mappings, setMappings] = useState<Record<string, SurveyColumnMapping>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const file = files[fileIndex];
+
+  // Start over whenever a new set of files is opened
+  useEffect(() => {
+    if (isOpen) {
+      setFileIndex(0);
+      setMappings({});
+    }
+  }, [isOpen, files]);
+
+  useEffect(() => {
+    if (!isOpen || !file) return;
+
+    let cancelled = false;
+    setTable(null);
+    setError(null);
+
+    const format = getSpreadsheetFormat(file.type, file.name) ?? "csv";
+    file.arrayBuffer()
+      .then(buffer => readSpreadsheet(buffer, format))
+      .then(result => {
+        if (cancelled) return;
+        setTable(result);
+        setRoles(rolesFromMapping(result.headers, inferSurveyMapping(result.headers)));
+      })
+      .catch(readError => {
+        if (cancelled) return;
+        setError(readError instanceof Error ? readError.message : "Failed to read spreadsheet");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, file]);
+
+  const setRole = (header: string, role: ColumnRole) => {
+    setRoles(current => {
+      const next = { ...current, [header]: role };
+      // Only one column can identify the respondent
+      if (role === "respondentId") {
+        Object.keys(next).forEach(other => {
+          if (other !== header && next[other] === "respondentId") next[other] = "ignore";
+        });
+      }
+      return next;
+    });
+  };
+
+  const hasResponseColumn = Object.values(roles).includes("response");
+  const isLastFile = fileIndex === files.length - 1;
+
+  const handleNext = () => {
+    if (!table || !file) return;
+
+    const nextMappings = { ...mappings, [file.name]: mappingFromRoles(table.headers, roles) };
+    setMappings(nextMappings);
+
+    if (isLastFile) {
+      onConfirm(nextMappings);
+    } else {
+      setFileIndex(index => index + 1);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Map survey columns</DialogTitle>
+          <DialogDescription>
+            {file && (
+              <>
+                Choose how each column of &ldquo;{file.name}&rdquo; is imported. Every row becomes its own response.
+                {files.length > 1 && ` (${fileIndex + 1} of ${files.length})`}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !table ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : table.headers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This spreadsheet has no columns.</p>
+        ) : (
+          <div className="max-h-[50vh] overflow-y-auto space-y-2">
+            {table.headers.map((header, columnIndex) => {
+              const samples = table.rows
+                .map(row => row[columnIndex])
+                .filter(Boolean)
+                .slice(0, PREVIEW_ROWS);
+
+              return (
+                <div key={header} className="flex items-start gap-3 rounded-md border border-border/50 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{header}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {samples.length > 0 ? samples.join(" · ") : "No values"}
+                    </p>
+                  </div>
+                  <select
+                    aria-label={`Import "${header}" as`}
+                    value={roles[header] ?? "ignore"}
+                    onChange={(e) => setRole(header, e.target.value as ColumnRole)}
+                    className="border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+                  >
+                    {(Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[]).map(role => (
+                      <option key={role} value={role}>
+                        {COLUMN_ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              {table.rows.length} row{table.rows.length !== 1 ? "s" : ""}. Rows without a respondent ID are numbered by row.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleNext} disabled={!table || !hasResponseColumn}>
+            {isLastFile ? "Upload" : "Next"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,16 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
@@ -16,8 +21,26 @@ import {
   Edit3, 
   Trash2, 
   Download,
-  RefreshCw 
+  RefreshCw,
+  SplitSquareVertical,
+  FileUp,
+  Tag,
+  FolderInput
 } from "lucide-react";
+import type { ChunkingStrategy } from "@/lib/document-chunking";
+import { ACCEPTED_FILE_TYPES } from "@/lib/constants";
+
+// File picker filter for replacement files: same types as a regular upload
+const REPLACE_ACCEPT = [
+  ...Object.keys(ACCEPTED_FILE_TYPES),
+  ...Object.values(ACCEPTED_FILE_TYPES).flat(),
+].join(",");
+
+const CHUNKING_STRATEGY_LABELS: Record<ChunkingStrategy, string> = {
+  auto: "Auto-detect",
+  text: "Plain text",
+  transcript: "Interview transcript",
+};
 
 interface Document {
   id: string;
@@ -26,6 +49,7 @@ interface Document {
   processingStatus: string;
   fileSize: number;
   mimeType: string;
+  chunkingStrategy?: string | null;
 }
 
 interface DocumentActionsMenuProps {
@@ -34,6 +58,10 @@ interface DocumentActionsMenuProps {
   onDelete?: () => Promise<void>;
   onRetry?: () => Promise<void>;
   onDownload?: () => void;
+  onChangeChunkingStrategy?: (strategy: ChunkingStrategy) => Promise<void>;
+  onReplaceFile?: (file: File) => Promise<void>;
+  onEditMetadata?: () => void;
+  onMove?: () => void;
 }
 
 export function DocumentActionsMenu({
@@ -42,8 +70,13 @@ export function DocumentActionsMenu({
   onDelete,
   onRetry,
   onDownload,
+  onChangeChunkingStrategy,
+  onReplaceFile,
+  onEditMetadata,
+  onMove,
 }: DocumentActionsMenuProps) {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
   const [showRenameModal, setShowRenameModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -72,6 +105,31 @@ export function DocumentActionsMenu({
   const canDownload = document.processingStatus === "COMPLETED" && onDownload;
   const canRename = !!onRename;
   const canDelete = !!onDelete;
+  const canChangeChunking = !!onChangeChunkingStrategy;
+  // A replacement waits until the current version finishes processing
+  const canReplace = !!onReplaceFile && document.processingStatus !== "PROCESSING";
+  const canEditMetadata = !!onEditMetadata;
+  const currentStrategy = (document.chunkingStrategy || "auto") as ChunkingStrategy;
+
+  const handleChunkingChange = async (value: string) => {
+    if (!onChangeChunkingStrategy || value === currentStrategy) return;
+    try {
+      await onChangeChunkingStrategy(value as ChunkingStrategy);
+    } catch (error) {
+      console.error("Failed to change chunking strategy:", error);
+    }
+  };
+
+  const handleReplaceFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!onReplaceFile || !file) return;
+    try {
+      await onReplaceFile(file);
+    } catch (error) {
+      console.error("Failed to replace file:", error);
+    }
+  };
 
   return (
     <>
@@ -100,6 +158,26 @@ export function DocumentActionsMenu({
             </DropdownMenuItem>
           )}
           
+          {canEditMetadata && (
+            <DropdownMenuItem
+              onClick={onEditMetadata}
+              className="flex items-center gap-2"
+            >
+              <Tag className="h-4 w-4" />
+              Tags &amp; attributes
+            </DropdownMenuItem>
+          )}
+
+          {onMove && (
+            <DropdownMenuItem
+              onClick={onMove}
+              className="flex items-center gap-2"
+            >
+              <FolderInput className="h-4 w-4" />
+              Move to folder
+            </DropdownMenuItem>
+          )}
+
           {canDownload && (
             <DropdownMenuItem 
               onClick={onDownload}
@@ -120,7 +198,35 @@ export function DocumentActionsMenu({
             </DropdownMenuItem>
           )}
           
-          {(canRename || canDownload || canRetry) && canDelete && (
+          {canReplace && (
+            <DropdownMenuItem
+              onClick={() => replaceInputRef.current?.click()}
+              className="flex items-center gap-2"
+            >
+              <FileUp className="h-4 w-4" />
+              Replace file
+            </DropdownMenuItem>
+          )}
+
+          {canChangeChunking && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="flex items-center gap-2">
+                <SplitSquareVertical className="h-4 w-4" />
+                Chunking
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuRadioGroup value={currentStrategy} onValueChange={handleChunkingChange}>
+                  {(Object.keys(CHUNKING_STRATEGY_LABELS) as ChunkingStrategy[]).map((strategy) => (
+                    <DropdownMenuRadioItem key={strategy} value={strategy}>
+                      {CHUNKING_STRATEGY_LABELS[strategy]}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+
+          {(canRename || canEditMetadata || !!onMove || canDownload || canRetry || canReplace || canChangeChunking) && canDelete && (
             <DropdownMenuSeparator />
           )}
           
@@ -137,6 +243,16 @@ export function DocumentActionsMenu({
         </DropdownMenuContent>
       </DropdownMenu>
 
+      {canReplace && (
+        <input
+          ref={replaceInputRef}
+          type="file"
+          accept={REPLACE_ACCEPT}
+          className="hidden"
+          onChange={handleReplaceFile}
+        />
+      )}
+
       {canDelete && (
         <ConfirmationDialog
           isOpen={showDeleteDialog}
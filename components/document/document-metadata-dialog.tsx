@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+import type { DocumentAttributes, DocumentMetadataUpdate } from "@/lib/types/document-metadata";
+
+interface Document {
+  id: string;
+  fileName: string;
+  tags?: string[];
+  attributes?: DocumentAttributes | null;
+}
+
+interface DocumentMetadataDialogProps {
+  documents: Document[];
+  attributeKeys?: string[]; // Keys already used in the study, suggested while typing
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (update: DocumentMetadataUpdate) => Promise<void>;
+}
+
+interface AttributeRow {
+  key: string;
+  value: string;
+}
+
+function parseTagList(value: string): string[] {
+  return value.split(",").map(tag => tag.trim()).filter(Boolean);
+}
+
+function toAttributes(rows: AttributeRow[]): DocumentAttributes {
+  return Object.fromEntries(
+    rows.filter(row => row.key.trim() && row.value.trim()).map(row => [row.key.trim(), row.value.trim()])
+  );
+}
+
+/**
+ * Edit the tags and attributes of one document, or add and remove them
+ * across several selected documents at once
+ */
+export function DocumentMetadataDialog({
+  documents,
+  attributeKeys = [],
+  isOpen,
+  onClose,
+  onSave,
+}: DocumentMetadataDialogProps) {
+  const isBulk = documents.length > 1;
+  const [tags, setTags] = useState("");
+  const [removeTags, setRemoveTags] = useState("");
+  const [rows, setRows] = useState<AttributeRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A single document starts from its current values; bulk edits start empty
+  useEffect(() => {
+    if (!isOpen) return;
+    const single = documents.length === 1 ? documents[0] : null;
+    setTags(single?.tags?.join(", ") ?? "");
+    setRemoveTags("");
+    const current = Object.entries(single?.attributes ?? {}).map(([key, value]) => ({ key, value }));
+    setRows(current.length > 0 ? current : [{ key: "", value: "" }]);
+    setError(null);
+  }, [isOpen, documents]);
+
+  const updateRow = (index: number, change: Partial<AttributeRow>) => {
+    setRows(current => current.map((row, i) => i === index ? { ...row, ...change } : row));
+  };
+
+  const buildUpdate = (): DocumentMetadataUpdate => {
+    if (!isBulk) {
+      return { tags: parseTagList(tags), attributes: toAttributes(rows) };
+    }
+    return {
+      addTags: parseTagList(tags),
+      removeTags: parseTagList(removeTags),
+      setAttributes: toAttributes(rows),
+      // A key with an empty value is removed from every selected document
+      removeAttributes: rows.filter(row => row.key.trim() && !row.value.trim()).map(row => row.key.trim()),
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(buildUpdate());
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update documents");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Tags &amp; attributes</DialogTitle>
+          <DialogDescription>
+            {isBulk
+              ? `Changes apply to ${documents.length} selected documents.`
+              : <>Describe &ldquo;{documents[0]?.fileName}&rdquo; so chat searches can be limited to matching documents.</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <label className="font-medium" htmlFor="document-tags">
+              {isBulk ? "Add tags" : "Tags"}
+            </label>
+            <Input
+              id="document-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="churned, wave 2"
+              disabled={isSaving}
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+          </div>
+
+          {isBulk && (
+            <div className="space-y-1">
+              <label className="font-medium" htmlFor="document-remove-tags">Remove tags</label>
+              <Input
+                id="document-remove-tags"
+                value={removeTags}
+                onChange={(e) => setRemoveTags(e.target.value)}
+                placeholder="pilot"
+                disabled={isSaving}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div>
+              <span className="font-medium">{isBulk ? "Set attributes" : "Attributes"}</span>
+              {isBulk && (
+                <p className="text-xs text-muted-foreground">Leave a value empty to remove that attribute.</p>
+              )}
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={row.key}
+                  onChange={(e) => updateRow(index, { key: e.target.value })}
+                  placeholder="Segment"
+                  list="document-attribute-keys"
+                  aria-label="Attribute name"
+                  disabled={isSaving}
+                />
+                <Input
+                  value={row.value}
+                  onChange={(e) => updateRow(index, { value: e.target.value })}
+                  placeholder="Enterprise"
+                  aria-label="Attribute value"
+                  disabled={isSaving}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0 shrink-0"
+                  onClick={() => setRows(current => current.filter((_, i) => i !== index))}
+                  aria-label="Remove attribute"
+                  disabled={isSaving}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            <datalist id="document-attribute-keys">
+              {attributeKeys.map(key => <option key={key} value={key} />)}
+            </datalist>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="gap-1"
+              onClick={() => setRows(current => [...current, { key: "", value: "" }])}
+              disabled={isSaving}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Add attribute
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter className="flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
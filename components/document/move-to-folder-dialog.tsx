@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { parseFolderPath } from "@/lib/types/folders";
+
+interface Document {
+  id: string;
+  fileName: string;
+  folderPath?: string | null;
+}
+
+interface MoveToFolderDialogProps {
+  documents: Document[];
+  folders: string[]; // Existing folders, suggested while typing
+  isOpen: boolean;
+  onClose: () => void;
+  onMove: (folderPath: string | null) => Promise<void>;
+}
+
+/**
+ * Move one or more documents into an existing or new folder; an empty
+ * folder name moves them out of every folder
+ */
+export function MoveToFolderDialog({
+  documents,
+  folders,
+  isOpen,
+  onClose,
+  onMove,
+}: MoveToFolderDialogProps) {
+  const [folderPath, setFolderPath] = useState("");
+  const [isMoving, setIsMoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFolderPath(documents.length === 1 ? documents[0].folderPath ?? "" : "");
+    setError(null);
+  }, [isOpen, documents]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const target = parseFolderPath(folderPath);
+    if (target === undefined) {
+      setError("Folder names can have up to 5 levels of 64 characters each");
+      return;
+    }
+
+    setIsMoving(true);
+    setError(null);
+    try {
+      await onMove(target);
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to move documents");
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isMoving && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move to folder</DialogTitle>
+          <DialogDescription>
+            {documents.length > 1
+              ? `Move ${documents.length} selected documents.`
+              : <>Move &ldquo;{documents[0]?.fileName}&rdquo;.</>}
+            {" "}Type a new name to create a folder; use / to nest it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 text-sm">
+          <div className="space-y-1">
+            <label className="font-medium" htmlFor="document-folder">Folder</label>
+            <Input
+              id="document-folder"
+              value={folderPath}
+              onChange={(e) => setFolderPath(e.target.value)}
+              placeholder="Round 2/Interviews"
+              list="document-folders"
+              disabled={isMoving}
+              autoFocus
+            />
+            <datalist id="document-folders">
+              {folders.map(folder => <option key={folder} value={folder} />)}
+            </datalist>
+            <p className="text-xs text-muted-foreground">Leave empty to move out of every folder.</p>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter className="flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isMoving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isMoving}>
+              {isMoving ? "Moving..." : "Move"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { useStudyPrivacy } from "@/lib/hooks/useStudyPrivacy";
+import {
+  PII_DETECTOR_LABELS,
+  PII_DETECTOR_NAMES,
+  type PiiDetectorName,
+  type PiiDictionaryEntry,
+  type PiiDisplay,
+} from "@/lib/types/pii";
+
+interface PrivacySettingsDialogProps {
+  studyId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function termsOf(dictionary: PiiDictionaryEntry[], category: PiiDictionaryEntry["category"]): string {
+  return dictionary.filter(entry => entry.category === category).map(entry => entry.term).join("\n");
+}
+
+function parseTerms(value: string, category: PiiDictionaryEntry["category"]): PiiDictionaryEntry[] {
+  return value
+    .split("\n")
+    .map(term => term.trim())
+    .filter(Boolean)
+    .map(term => ({ term, category }));
+}
+
+/**
+ * Per-study PII redaction: whether new documents are pseudonymized, which
+ * detectors run, names that are always redacted, and whether documents are
+ * shown with original names or pseudonyms
+ */
+export function PrivacySettingsDialog({ studyId, isOpen, onClose }: PrivacySettingsDialogProps) {
+  const { settings, pseudonyms, isLoading, updateSettings } = useStudyPrivacy(isOpen ? studyId : "");
+  const [redaction, setRedaction] = useState(false);
+  const [detectors, setDetectors] = useState<PiiDetectorName[]>([]);
+  const [people, setPeople] = useState("");
+  const [companies, setCompanies] = useState("");
+  const [display, setDisplay] = useState<PiiDisplay>("original");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form to the saved settings whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen || !settings) return;
+    setRedaction(settings.redaction);
+    setDetectors(settings.detectors);
+    setPeople(termsOf(settings.dictionary, "person"));
+    setCompanies(termsOf(settings.dictionary, "organization"));
+    setDisplay(settings.display);
+  }, [isOpen, settings]);
+
+  const toggleDetector = (name: PiiDetectorName, enabled: boolean) => {
+    setDetectors(current => enabled ? [...current, name] : current.filter(detector => detector !== name));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings({
+        redaction,
+        detectors,
+        dictionary: [...parseTerms(people, "person"), ...parseTerms(companies, "organization")],
+        display,
+      });
+      onClose();
+    } catch {
+      // Error already shown by useStudyPrivacy
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Privacy settings</DialogTitle>
+          <DialogDescription>
+            Replace names, companies, emails and phone numbers with pseudonyms such as
+            &ldquo;Participant A&rdquo; before documents are indexed or sent to a model.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !settings ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-5 text-sm">
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={redaction}
+                onChange={(e) => setRedaction(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="font-medium">Pseudonymize new documents</span>
+                <span className="block text-xs text-muted-foreground">
+                  Applies to documents uploaded or reprocessed after saving. Existing documents keep their text.
+                </span>
+              </span>
+            </label>
+
+            <fieldset className="space-y-2" disabled={!redaction}>
+              <legend className="font-medium mb-1">Detect</legend>
+              {PII_DETECTOR_NAMES.map(name => (
+                <label key={name} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={detectors.includes(name)}
+                    onChange={(e) => toggleDetector(name, e.target.checked)}
+                  />
+                  {PII_DETECTOR_LABELS[name]}
+                </label>
+              ))}
+            </fieldset>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1">
+                <span className="font-medium">People</span>
+                <Textarea
+                  value={people}
+                  onChange={(e) => setPeople(e.target.value)}
+                  placeholder="One name per line"
+                  rows={4}
+                  disabled={!redaction}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="font-medium">Companies</span>
+                <Textarea
+                  value={companies}
+                  onChange={(e) => setCompanies(e.target.value)}
+                  placeholder="One name per line"
+                  rows={4}
+                  disabled={!redaction}
+                />
+              </label>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="font-medium mb-1">Show documents with</legend>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="pii-display"
+                  checked={display === "original"}
+                  onChange={() => setDisplay("original")}
+                />
+                Original names
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="pii-display"
+                  checked={display === "pseudonymized"}
+                  onChange={() => setDisplay("pseudonymized")}
+                />
+                Pseudonyms
+              </label>
+            </fieldset>
+
+            {pseudonyms.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium">Pseudonym key</p>
+                <div className="rounded-md border border-border/50 divide-y">
+                  {pseudonyms.map(entry => (
+                    <div key={entry.pseudonym} className="flex justify-between gap-4 px-3 py-1.5 text-xs">
+                      <span className="truncate">{entry.original}</span>
+                      <span className="text-muted-foreground shrink-0">{entry.pseudonym}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!settings || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
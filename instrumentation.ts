@@ -0,0 +1,27 @@
+/**
+ * Next.js startup hook
+ *
+ * Recovers ingestion jobs orphaned by the previous process and removes
+ * abandoned resumable uploads, then starts the in-process ingestion worker.
+ * Set INGESTION_WORKER=external when jobs are processed by
+ * scripts/ingestion-worker.ts instead (e.g. on serverless hosts).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.INGESTION_WORKER === 'external') {
+    return;
+  }
+
+  const { recoverOrphanedIngestion, startIngestionWorker } = await import('./lib/ingestion');
+  const { cleanupAbandonedUploads } = await import('./lib/file-storage/cleanup');
+
+  try {
+    await recoverOrphanedIngestion();
+  } catch (error) {
+    console.error('Ingestion recovery sweep failed:', error);
+  }
+
+  // Never throws; failures are reported in the result
+  await cleanupAbandonedUploads();
+
+  startIngestionWorker();
+}
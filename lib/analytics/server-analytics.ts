@@ -1,5 +1,6 @@
 import { PostHog } from 'posthog-node'
 import { getCurrentUserId } from '@/lib/auth'
+import { scrubPii } from '@/lib/pii-detection'
 
 // Initialize PostHog server client
 const serverPostHog = new PostHog(process.env.NEXT_PUBLIC_POSTHOG_KEY!, {
@@ -15,6 +16,13 @@ if (typeof process !== 'undefined' && process.on) {
   })
 }
 
+// Error messages and stack traces can quote document text; mask contact details
+function scrubProperties(properties: Record<string, unknown> = {}): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([key, value]) => [key, typeof value === 'string' ? scrubPii(value) : value])
+  )
+}
+
 /**
  * Track server-side events with consistent user identification
  */
@@ -36,7 +44,7 @@ export async function trackServerEvent(
       distinctId: actualUserId,
       event,
       properties: {
-        ...properties,
+        ...scrubProperties(properties),
         server_side: true,
         timestamp: new Date().toISOString(),
         environment: process.env.NODE_ENV,
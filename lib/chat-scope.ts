@@ -0,0 +1,40 @@
+import { prisma } from './prisma';
+import { isDocumentAttributes } from './types/document-metadata';
+import { hasChatScope, isInChatScope, type ChatScope } from './types/chat-scope';
+
+/**
+ * Chat scope enforcement
+ *
+ * Search tools resolve a chat's scope to document IDs before every search,
+ * so the scope holds no matter which tool the model calls or what it asks for.
+ * Matching happens here, with isInChatScope, for the same reasons tag and
+ * attribute filters do (lib/document-metadata).
+ */
+
+/**
+ * IDs of the study's documents inside `scope`
+ *
+ * @returns undefined when the scope is empty and the whole study is searchable
+ */
+export async function resolveChatScopeDocumentIds(
+  studyId: string,
+  scope?: ChatScope | null
+): Promise<string[] | undefined> {
+  if (!hasChatScope(scope)) return undefined;
+
+  const documents: Array<{ id: string; folderPath: string | null; tags: string[]; attributes: unknown }> =
+    await prisma.document.findMany({
+      where: {
+        studyId,
+        ...(scope.documentIds?.length && { id: { in: scope.documentIds } }),
+      },
+      select: { id: true, folderPath: true, tags: true, attributes: true },
+    });
+
+  return documents
+    .filter(document => isInChatScope({
+      ...document,
+      attributes: isDocumentAttributes(document.attributes) ? document.attributes : {},
+    }, scope))
+    .map(document => document.id);
+}
@@ -9,8 +9,61 @@ export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 export const SUPPORTED_FILE_TYPES = [
   "application/pdf",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.oasis.opendocument.text",
+  "application/vnd.oasis.opendocument.presentation",
+  "application/rtf",
+  "text/rtf",
+  "text/html",
+  "message/rfc822",
   "text/plain",
+  "text/vtt",
+  "application/x-subrip",
+  "text/csv",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "image/png",
+  "image/jpeg",
 ] as const;
+// Accepted by extension too: browsers often report no MIME type for .srt
+export const SUPPORTED_FILE_EXTENSIONS = [
+  ".pdf", ".docx", ".doc", ".pptx", ".odt", ".odp", ".rtf", ".html", ".htm", ".eml",
+  ".txt", ".vtt", ".srt", ".csv", ".xlsx", ".png", ".jpg", ".jpeg",
+] as const;
+
+// File picker accept map (MIME type to extensions); also used to type
+// files that arrive without a MIME type, such as ZIP archive entries
+export const ACCEPTED_FILE_TYPES: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/msword": [".doc"],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"],
+  "application/vnd.oasis.opendocument.text": [".odt"],
+  "application/vnd.oasis.opendocument.presentation": [".odp"],
+  "application/rtf": [".rtf"],
+  "text/html": [".html", ".htm"],
+  "message/rfc822": [".eml"],
+  "text/plain": [".txt"],
+  "text/vtt": [".vtt"],
+  "application/x-subrip": [".srt"],
+  "text/csv": [".csv"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+};
+
+// ZIP archives are expanded into one document per supported entry (batch uploads only)
+export const ARCHIVE_FILE_TYPES = ["application/zip", "application/x-zip-compressed"] as const;
+export const ARCHIVE_FILE_EXTENSIONS = [".zip"] as const;
+export const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024; // 50MB compressed
+
+// Resumable uploads: files larger than one chunk are sent in chunks. Chunks
+// stay under the 4.5MB request body limit of serverless hosts.
+export const RESUMABLE_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB
+export const MAX_RESUMABLE_FILE_SIZE = 200 * 1024 * 1024; // 200MB
+
+// OCR pages below this Tesseract confidence (0-100) are flagged as unreliable
+export const LOW_OCR_CONFIDENCE = 70;
 
 // AI Configuration
 export const AI_CONFIG = {
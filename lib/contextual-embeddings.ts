@@ -0,0 +1,350 @@
+import { anthropic } from '@ai-sdk/anthropic';
+import { generateText } from 'ai';
+import { prisma } from './prisma';
+import { deserializeEmbedding, generateBatchEmbeddings, generateEmbedding, getActiveEmbeddingModel } from './embeddings';
+import { cosineSimilarity } from './vector-index/brute-force';
+import { detectTranscript, parseTranscriptTurns } from './transcript-chunking';
+import { formatDocumentMetadata, isDocumentAttributes, type DocumentAttributes } from './types/document-metadata';
+import { isEmailHeaders, type EmailHeaders } from './types/extractors';
+import { replaceTerms } from './pii-detection';
+import { getStudyPseudonyms } from './pii-redaction';
+
+/**
+ * Contextual chunk embeddings
+ *
+ * A chunk such as "yeah, that was the worst part" means little on its own.
+ * When a study enables contextual embeddings, ingestion writes a short
+ * document-level header (file, folder, participants, attributes and a
+ * two-sentence summary) to Document.embeddingContext and embeds every chunk
+ * as header + content. Chunk content itself stays raw, so display, keyword
+ * search and citations are unchanged; only the vector knows the context.
+ *
+ * compareContextualRetrieval measures whether that helps a study by ranking
+ * its chunks for a set of queries with both kinds of embeddings.
+ */
+
+// Keeps the header a small share of each embedded chunk
+export const MAX_CONTEXT_LENGTH = 800;
+const MAX_PARTICIPANTS = 8;
+// Text the summary is written from; the opening is enough to say what a document is about
+const SUMMARY_EXCERPT_LENGTH = 8000;
+
+export interface DocumentContextSource {
+  fileName: string;
+  folderPath?: string | null;
+  attributes?: DocumentAttributes | null;
+  emailHeaders?: EmailHeaders | null;
+  participants?: string[];
+  summary?: string | null;
+}
+
+/**
+ * Document header prepended to each chunk before it is embedded
+ */
+export function formatDocumentContext(source: DocumentContextSource): string {
+  const lines = [`Document: ${source.fileName}${source.folderPath ? ` (folder: ${source.folderPath})` : ''}`];
+
+  if (source.participants?.length) lines.push(`Participants: ${source.participants.join(', ')}`);
+
+  const metadata = formatDocumentMetadata({ attributes: source.attributes });
+  if (metadata) lines.push(metadata);
+
+  const email = source.emailHeaders;
+  if (email?.subject) lines.push(`Subject: ${email.subject}`);
+  if (email?.from) lines.push(`From: ${email.from}`);
+
+  if (source.summary) lines.push(`Summary: ${source.summary}`);
+
+  const context = lines.join('\n');
+  return context.length > MAX_CONTEXT_LENGTH ? `${context.slice(0, MAX_CONTEXT_LENGTH - 3).trimEnd()}...` : context;
+}
+
+/**
+ * Text embedded for a chunk; the chunk's stored content stays raw
+ */
+export function contextualizeChunk(context: string | null | undefined, content: string): string {
+  return context ? `${context}\n\n${content}` : content;
+}
+
+/**
+ * Speaker labels of a transcript, in order of first appearance
+ */
+export function findParticipants(text: string): string[] {
+  if (!detectTranscript(text)) return [];
+
+  const speakers = parseTranscriptTurns(text)
+    .map(turn => turn.speaker)
+    .filter((speaker): speaker is string => !!speaker);
+  return Array.from(new Set(speakers)).slice(0, MAX_PARTICIPANTS);
+}
+
+/**
+ * One or two sentences on who and what the document is about. Advisory:
+ * without a summary the header still carries the document's metadata.
+ */
+async function summarizeDocument(fileName: string, text: string): Promise<string | null> {
+  try {
+    const { text: summary } = await generateText({
+      model: anthropic('claude-3-haiku-20240307'),
+      temperature: 0.2,
+      prompt: `Here is the start of "${fileName}", a document from a user research study:
+
+${text.slice(0, SUMMARY_EXCERPT_LENGTH)}
+
+In at most two sentences, say what this document is and who and what it is about (participant role, company, product area, main topic). Return only those sentences.`,
+    });
+
+    return summary.trim().replace(/\s+/g, ' ') || null;
+  } catch (error) {
+    console.error(`Document context summary failed for ${fileName}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Whether the study embeds chunks with their document context
+ */
+export async function isContextualEmbeddingEnabled(studyId: string): Promise<boolean> {
+  const study: { contextualEmbeddings: boolean } | null = await prisma.study.findUnique({
+    where: { id: studyId },
+    select: { contextualEmbeddings: true },
+  });
+  return !!study?.contextualEmbeddings;
+}
+
+/**
+ * Build the context header for a document from its metadata and text.
+ * reindexDocument stores it with the chunks it was embedded into.
+ */
+export async function generateDocumentContext(documentId: string, text: string): Promise<string> {
+  const document: {
+    studyId: string;
+    fileName: string;
+    folderPath: string | null;
+    attributes: unknown;
+    emailHeaders: unknown;
+    piiRedacted: boolean;
+  } | null = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { studyId: true, fileName: true, folderPath: true, attributes: true, emailHeaders: true, piiRedacted: true },
+  });
+  if (!document) throw new Error(`Document ${documentId} not found`);
+
+  // Only the text is redacted at ingestion; file and folder names and
+  // attributes often carry participant names too, so they get the same pseudonyms
+  const terms = document.piiRedacted
+    ? new Map((await getStudyPseudonyms(document.studyId)).map(entry => [entry.original, entry.pseudonym]))
+    : new Map<string, string>();
+  const redact = (value: string) => replaceTerms(value, terms).text;
+
+  const fileName = redact(document.fileName);
+  const attributes = isDocumentAttributes(document.attributes) ? document.attributes : null;
+
+  return formatDocumentContext({
+    fileName,
+    folderPath: document.folderPath && redact(document.folderPath),
+    attributes: attributes && Object.fromEntries(
+      Object.entries(attributes).map(([key, value]) => [key, redact(value)])
+    ),
+    // Email headers are never pseudonymized, so redacted documents leave them out
+    emailHeaders: !document.piiRedacted && isEmailHeaders(document.emailHeaders) ? document.emailHeaders : null,
+    participants: findParticipants(text),
+    summary: await summarizeDocument(fileName, text),
+  });
+}
+
+// Retrieval comparison
+
+export interface RetrievalComparisonQuery {
+  query: string;
+  // IDs or file names of the documents a good answer comes from; enables hit rate and MRR
+  expectedDocuments?: string[];
+}
+
+export interface ComparedChunk {
+  id: string;
+  documentId: string;
+  fileName: string;
+  chunkIndex: number;
+}
+
+export interface RankedChunk extends ComparedChunk {
+  similarity: number;
+}
+
+export interface RetrievalRun {
+  results: RankedChunk[];
+  firstRelevantRank: number | null; // 1-based; null when nothing expected was found or nothing was expected
+}
+
+export interface QueryComparison {
+  query: string;
+  raw: RetrievalRun;
+  contextual: RetrievalRun;
+  overlap: number; // Share of the top results both embeddings return (0-1)
+}
+
+export interface RetrievalMetrics {
+  hitRate: number; // Share of queries with an expected document in the top results
+  mrr: number; // Mean reciprocal rank of the first expected document
+}
+
+export interface RetrievalComparisonReport {
+  studyId: string;
+  chunkCount: number;
+  limit: number;
+  queries: QueryComparison[];
+  summary: {
+    meanOverlap: number;
+    raw: RetrievalMetrics | null; // null when no query lists expected documents
+    contextual: RetrievalMetrics | null;
+  };
+}
+
+/**
+ * Top `limit` chunks by cosine similarity to the query
+ */
+export function rankChunks(
+  queryEmbedding: number[],
+  chunks: Array<ComparedChunk & { embedding: number[] }>,
+  limit: number
+): RankedChunk[] {
+  return chunks
+    .map(({ embedding, ...chunk }) => ({ ...chunk, similarity: cosineSimilarity(queryEmbedding, embedding) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Rank of the first result from an expected document (by ID or case-insensitive file name)
+ */
+export function findFirstRelevantRank(results: ComparedChunk[], expectedDocuments: string[] = []): number | null {
+  if (expectedDocuments.length === 0) return null;
+
+  const expected = new Set(expectedDocuments.map(value => value.toLowerCase()));
+  const index = results.findIndex(result =>
+    expected.has(result.documentId.toLowerCase()) || expected.has(result.fileName.toLowerCase())
+  );
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Hit rate and MRR over the queries that list expected documents
+ */
+export function summarizeRetrieval(
+  queries: RetrievalComparisonQuery[],
+  runs: RetrievalRun[]
+): RetrievalMetrics | null {
+  const judged = runs.filter((_, index) => (queries[index].expectedDocuments?.length ?? 0) > 0);
+  if (judged.length === 0) return null;
+
+  return {
+    hitRate: judged.filter(run => run.firstRelevantRank !== null).length / judged.length,
+    mrr: judged.reduce((sum, run) => sum + (run.firstRelevantRank ? 1 / run.firstRelevantRank : 0), 0) / judged.length,
+  };
+}
+
+/**
+ * Rank a study's chunks for each query with raw and with contextual
+ * embeddings. Stored embeddings are used for whichever kind the study
+ * already has; the other kind is embedded in memory, so nothing is written.
+ */
+export async function compareContextualRetrieval(
+  studyId: string,
+  queries: RetrievalComparisonQuery[],
+  options: { limit?: number } = {}
+): Promise<RetrievalComparisonReport> {
+  const { limit = 5 } = options;
+  const activeModel = getActiveEmbeddingModel();
+
+  const chunks: Array<{
+    id: string;
+    content: string;
+    chunkIndex: number;
+    documentId: string;
+    embedding: Buffer | Uint8Array;
+    contextualized: boolean;
+    document: { fileName: string; extractedText: string | null; embeddingContext: string | null };
+  }> = await prisma.documentChunk.findMany({
+    where: {
+      embedding: { not: null },
+      embeddingProvider: activeModel.provider,
+      embeddingModel: activeModel.model,
+      embeddingDimensions: activeModel.dimensions,
+      document: { studyId, status: 'READY' },
+    },
+    select: {
+      id: true,
+      content: true,
+      chunkIndex: true,
+      documentId: true,
+      embedding: true,
+      contextualized: true,
+      document: { select: { fileName: true, extractedText: true, embeddingContext: true } },
+    },
+    orderBy: [{ documentId: 'asc' }, { chunkIndex: 'asc' }],
+  });
+
+  // Documents embedded without context get one generated for the comparison
+  const contexts = new Map<string, string>();
+  for (const chunk of chunks) {
+    if (contexts.has(chunk.documentId)) continue;
+    contexts.set(
+      chunk.documentId,
+      chunk.document.embeddingContext ?? await generateDocumentContext(chunk.documentId, chunk.document.extractedText ?? '')
+    );
+  }
+
+  const embedMissing = async (kind: 'raw' | 'contextual'): Promise<number[][]> => {
+    const missing = chunks.filter(chunk => chunk.contextualized !== (kind === 'contextual'));
+    const generated = missing.length > 0
+      ? (await generateBatchEmbeddings(missing.map(chunk =>
+        kind === 'contextual' ? contextualizeChunk(contexts.get(chunk.documentId), chunk.content) : chunk.content
+      ))).embeddings
+      : [];
+    const byId = new Map(missing.map((chunk, index) => [chunk.id, generated[index]]));
+    return chunks.map(chunk => byId.get(chunk.id) ?? deserializeEmbedding(chunk.embedding));
+  };
+
+  const rawEmbeddings = await embedMissing('raw');
+  const contextualEmbeddings = await embedMissing('contextual');
+
+  const toCompared = (embeddings: number[][]) => chunks.map((chunk, index) => ({
+    id: chunk.id,
+    documentId: chunk.documentId,
+    fileName: chunk.document.fileName,
+    chunkIndex: chunk.chunkIndex,
+    embedding: embeddings[index],
+  }));
+  const rawChunks = toCompared(rawEmbeddings);
+  const contextualChunks = toCompared(contextualEmbeddings);
+
+  const comparisons: QueryComparison[] = [];
+  for (const { query, expectedDocuments } of queries) {
+    const { embedding } = await generateEmbedding(query);
+    const raw = rankChunks(embedding, rawChunks, limit);
+    const contextual = rankChunks(embedding, contextualChunks, limit);
+    const rawIds = new Set(raw.map(chunk => chunk.id));
+
+    comparisons.push({
+      query,
+      raw: { results: raw, firstRelevantRank: findFirstRelevantRank(raw, expectedDocuments) },
+      contextual: { results: contextual, firstRelevantRank: findFirstRelevantRank(contextual, expectedDocuments) },
+      overlap: raw.length > 0 ? contextual.filter(chunk => rawIds.has(chunk.id)).length / raw.length : 1,
+    });
+  }
+
+  return {
+    studyId,
+    chunkCount: chunks.length,
+    limit,
+    queries: comparisons,
+    summary: {
+      meanOverlap: comparisons.length > 0
+        ? comparisons.reduce((sum, comparison) => sum + comparison.overlap, 0) / comparisons.length
+        : 1,
+      raw: summarizeRetrieval(queries, comparisons.map(comparison => comparison.raw)),
+      contextual: summarizeRetrieval(queries, comparisons.map(comparison => comparison.contextual)),
+    },
+  };
+}
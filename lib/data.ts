@@ -1,6 +1,9 @@
 import { prisma } from "./prisma";
 import { getCurrentUserId } from "./auth";
 import { DocumentReference } from "./types/metadata";
+import { EmbeddingModelInfo } from "./types/embeddings";
+import { getActiveEmbeddingModel } from "./embeddings";
+import { isInFolder, listFolderPaths, resolveFolderName } from "./types/folders";
 
 export async function getStudies() {
   try {
@@ -224,6 +227,69 @@ export async function getStudyStats(studyId: string): Promise<{
   }
 }
 
+/**
+ * Embedding models used by a study's chunks, compared against the active model.
+ * A study is mixed when its chunks span more than one model; any chunk not on
+ * the active model is invisible to semantic search until it is re-embedded.
+ */
+export async function getStudyEmbeddingModels(studyId: string): Promise<{
+  activeModel: EmbeddingModelInfo;
+  models: Array<EmbeddingModelInfo & { chunkCount: number }>;
+  isMixed: boolean;
+  staleChunks: number;
+  needsReembedding: boolean;
+}> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) throw new Error('Authentication required');
+
+    const groups: Array<{
+      embeddingProvider: string;
+      embeddingModel: string;
+      embeddingDimensions: number;
+      _count: { _all: number };
+    }> = await prisma.documentChunk.groupBy({
+      by: ['embeddingProvider', 'embeddingModel', 'embeddingDimensions'],
+      where: {
+        embedding: { not: null },
+        document: {
+          studyId,
+          study: { userId },
+        },
+      },
+      _count: { _all: true },
+    });
+
+    const activeModel = getActiveEmbeddingModel();
+    const models = groups.map(group => ({
+      provider: group.embeddingProvider as EmbeddingModelInfo['provider'],
+      model: group.embeddingModel,
+      dimensions: group.embeddingDimensions,
+      chunkCount: group._count._all,
+    }));
+
+    const staleChunks = models
+      .filter(model =>
+        model.provider !== activeModel.provider ||
+        model.model !== activeModel.model ||
+        model.dimensions !== activeModel.dimensions
+      )
+      .reduce((sum, model) => sum + model.chunkCount, 0);
+
+    return {
+      activeModel,
+      models,
+      isMixed: models.length > 1,
+      staleChunks,
+      needsReembedding: staleChunks > 0,
+    };
+
+  } catch (error) {
+    console.error("Error fetching study embedding models:", error);
+    throw error;
+  }
+}
+
 export async function validateDocumentAccess(documentIds: string[], studyId: string): Promise<boolean> {
   try {
     const userId = await getCurrentUserId();
@@ -249,18 +315,23 @@ export async function validateDocumentAccess(documentIds: string[], studyId: str
  * Document lookup result interface
  */
 export interface DocumentLookupResult {
-  found: Array<{name: string, id: string, status: string}>;
+  found: Array<{name: string, id: string, status: string, folderPath?: string}>;
   notFound: string[];
   alternatives: Array<{query: string, suggestions: string[]}>;
   availableDocuments: string[];
+  // Names that matched a folder rather than a file, e.g. "the round 2 interviews" → "Round 2"
+  collections: Array<{query: string, folderPath: string, documentCount: number}>;
 }
 
 /**
- * Find document IDs by their filenames with smart error handling
+ * Find document IDs by their filenames, or by the name of a folder they are
+ * in, with smart error handling. With `scopeDocumentIds` (a chat's scope),
+ * only those documents are considered.
  */
 export async function findDocumentIdsByNames(
   documentNames: string[], 
-  studyId: string
+  studyId: string,
+  scopeDocumentIds?: string[]
 ): Promise<DocumentLookupResult> {
   try {
     const userId = await getCurrentUserId();
@@ -271,7 +342,7 @@ export async function findDocumentIdsByNames(
     }
 
     // Get all documents for this study
-    const documents = await prisma.document.findMany({
+    const studyDocuments: Array<{id: string, fileName: string, status: string, folderPath: string | null}> = await prisma.document.findMany({
       where: {
         studyId,
         study: { userId },
@@ -280,14 +351,20 @@ export async function findDocumentIdsByNames(
         id: true,
         fileName: true,
         status: true,
+        folderPath: true,
       },
       orderBy: { uploadedAt: 'desc' },
     });
+    const documents = scopeDocumentIds
+      ? studyDocuments.filter(doc => scopeDocumentIds.includes(doc.id))
+      : studyDocuments;
 
-    const found: Array<{name: string, id: string, status: string}> = [];
+    const found: Array<{name: string, id: string, status: string, folderPath?: string}> = [];
     const notFound: string[] = [];
     const alternatives: Array<{query: string, suggestions: string[]}> = [];
+    const collections: Array<{query: string, folderPath: string, documentCount: number}> = [];
     const availableDocuments = documents.map(doc => doc.fileName);
+    const folderPaths = listFolderPaths(documents);
 
     for (const queryName of documentNames) {
       // First check for exact match (case-insensitive)
@@ -303,6 +380,26 @@ export async function findDocumentIdsByNames(
         });
         continue;
       }
+
+      // Then check for a folder of that name, which stands for all its documents
+      const collection = resolveFolderName(queryName, folderPaths);
+      if (collection) {
+        const folderDocuments = documents.filter(doc => isInFolder(doc.folderPath, collection));
+        collections.push({
+          query: queryName,
+          folderPath: collection,
+          documentCount: folderDocuments.length
+        });
+        folderDocuments
+          .filter(doc => !found.some(entry => entry.id === doc.id))
+          .forEach(doc => found.push({
+            name: doc.fileName,
+            id: doc.id,
+            status: doc.status,
+            folderPath: collection
+          }));
+        continue;
+      }
       
       // If no exact match, look for similar names
       const suggestions = documents
@@ -328,7 +425,8 @@ export async function findDocumentIdsByNames(
       found,
       notFound,
       alternatives,
-      availableDocuments
+      availableDocuments,
+      collections
     };
 
   } catch (error) {
@@ -362,8 +460,10 @@ function levenshteinDistance(str1: string, str2: string): number {
 
 /**
  * Get study document context for error messages
+ *
+ * @param documentIds - Limit to these documents (a chat's resolved scope)
  */
-export async function getStudyDocumentContext(studyId: string): Promise<{
+export async function getStudyDocumentContext(studyId: string, documentIds?: string[]): Promise<{
   totalDocuments: number;
   readyDocuments: number;
   processingDocuments: number;
@@ -377,6 +477,7 @@ export async function getStudyDocumentContext(studyId: string): Promise<{
       where: {
         studyId,
         study: { userId },
+        ...(documentIds && { id: { in: documentIds } }),
       },
       select: {
         fileName: true,
@@ -1,15 +1,38 @@
+import { chunkTranscript, detectTranscript, parseTranscriptTurns } from './transcript-chunking';
+
 export interface DocumentChunk {
   content: string;
   chunkIndex: number;
   startPosition?: number;
   endPosition?: number;
+  // Transcript chunks only: who speaks in the chunk and when
+  speakers?: string[];
+  startTimestamp?: string;
+  endTimestamp?: string;
+  // Survey chunks only: the response row the chunk came from
+  respondentId?: string;
+  attributes?: Record<string, string>;
+  // Parent-child retrieval: range of the window returned around the chunk
+  parentStartPosition?: number;
+  parentEndPosition?: number;
 }
 
+/**
+ * How text is split into chunks:
+ * - text: character windows ending at paragraph/sentence boundaries
+ * - transcript: speaker turns grouped into question/answer exchanges
+ * - auto: transcript when the text looks like one, otherwise text
+ */
+export type ChunkingStrategy = 'auto' | 'text' | 'transcript';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['auto', 'text', 'transcript'];
+
 export interface ChunkingOptions {
   chunkSize: number;
   overlapSize: number;
   preserveParagraphs: boolean;
   minChunkSize: number;
+  strategy: ChunkingStrategy;
 }
 
 export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
@@ -17,8 +40,13 @@ export const DEFAULT_CHUNKING_OPTIONS: ChunkingOptions = {
   overlapSize: 200, // character overlap between chunks
   preserveParagraphs: true, // try to keep paragraphs intact
   minChunkSize: 100, // minimum chunk size to avoid tiny fragments
+  strategy: 'auto', // per-document override via Document.chunkingStrategy
 };
 
+export function isChunkingStrategy(value: unknown): value is ChunkingStrategy {
+  return typeof value === 'string' && CHUNKING_STRATEGIES.includes(value as ChunkingStrategy);
+}
+
 export function chunkText(
   text: string,
   options: Partial<ChunkingOptions> = {}
@@ -30,6 +58,17 @@ export function chunkText(
     return chunks;
   }
 
+  if (
+    config.strategy === 'transcript' ||
+    (config.strategy === 'auto' && detectTranscript(text))
+  ) {
+    const transcriptChunks = chunkTranscript(text, config);
+    if (transcriptChunks.length > 0) {
+      return transcriptChunks;
+    }
+    // No turns found: fall through to plain-text chunking
+  }
+
   // Clean and normalize the text
   const cleanText = text
     .replace(/\r\n/g, '\n') // normalize line endings
@@ -63,15 +102,18 @@ export function chunkText(
       );
     }
 
-    const chunkContent = cleanText.slice(currentPosition, chunkEnd).trim();
+    const rawContent = cleanText.slice(currentPosition, chunkEnd);
+    const chunkContent = rawContent.trim();
     
     // Only create chunk if it meets minimum size requirement
     if (chunkContent.length >= config.minChunkSize) {
+      // Positions cover the trimmed content exactly
+      const contentStart = currentPosition + (rawContent.length - rawContent.trimStart().length);
       chunks.push({
         content: chunkContent,
         chunkIndex: chunkIndex++,
-        startPosition: currentPosition,
-        endPosition: chunkEnd,
+        startPosition: contentStart,
+        endPosition: contentStart + chunkContent.length,
       });
     }
 
@@ -137,6 +179,127 @@ function findOptimalChunkBoundary(
   return idealEnd;
 }
 
+/**
+ * Parent-child retrieval: documents are indexed as small child chunks, which
+ * embed precisely, and each child records a parent window (the speaker turns
+ * or paragraphs around it, widened to its neighbouring chunks) that search
+ * shows the model in its place
+ */
+export const CHILD_CHUNKING_OPTIONS: Pick<ChunkingOptions, 'chunkSize' | 'overlapSize' | 'minChunkSize'> = {
+  chunkSize: 400,
+  overlapSize: 80,
+  minChunkSize: 50,
+};
+
+export const MAX_PARENT_WINDOW_SIZE = 2000; // characters
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Blocks of text between blank lines
+ */
+function findParagraphs(text: string): TextRange[] {
+  const paragraphs: TextRange[] = [];
+  const separator = /\n[ \t]*\n/g;
+  let start = 0;
+  let match;
+
+  while ((match = separator.exec(text)) !== null) {
+    if (match.index > start) paragraphs.push({ start, end: match.index });
+    start = match.index + match[0].length;
+  }
+  if (start < text.length) paragraphs.push({ start, end: text.length });
+
+  return paragraphs;
+}
+
+/**
+ * Give each chunk its parent window: the units (speaker turns or paragraphs)
+ * it overlaps, widened to the neighbouring chunks by chunkIndex while that
+ * fits, and cut to maxSize around the chunk when a unit is longer
+ */
+export function assignParentWindows(
+  text: string,
+  chunks: DocumentChunk[],
+  units: TextRange[],
+  maxSize: number = MAX_PARENT_WINDOW_SIZE
+): DocumentChunk[] {
+  return chunks.map((chunk, index) => {
+    if (chunk.startPosition === undefined || chunk.endPosition === undefined) return chunk;
+    const child = { start: chunk.startPosition, end: chunk.endPosition };
+
+    let window = { ...child };
+    for (const unit of units) {
+      if (unit.start < child.end && unit.end > child.start) {
+        window = { start: Math.min(window.start, unit.start), end: Math.max(window.end, unit.end) };
+      }
+    }
+
+    for (const neighbour of [chunks[index - 1], chunks[index + 1]]) {
+      if (neighbour?.startPosition === undefined || neighbour.endPosition === undefined) continue;
+      const widened = {
+        start: Math.min(window.start, neighbour.startPosition),
+        end: Math.max(window.end, neighbour.endPosition),
+      };
+      if (widened.end - widened.start <= maxSize) window = widened;
+    }
+
+    if (window.end - window.start > maxSize) {
+      // Centre the chunk in what's left of maxSize
+      const before = Math.floor(Math.max(0, maxSize - (child.end - child.start)) / 2);
+      const start = Math.max(window.start, child.start - before);
+      const end = Math.min(window.end, start + maxSize);
+      window = { start: Math.max(window.start, end - maxSize), end };
+    }
+
+    // Positions cover the trimmed window exactly
+    const raw = text.slice(window.start, window.end);
+    return {
+      ...chunk,
+      parentStartPosition: window.start + (raw.length - raw.trimStart().length),
+      parentEndPosition: window.end - (raw.length - raw.trimEnd().length),
+    };
+  });
+}
+
+/**
+ * Split text into child chunks (CHILD_CHUNKING_OPTIONS unless overridden),
+ * each with its parent window
+ */
+export function chunkHierarchically(
+  text: string,
+  options: Partial<ChunkingOptions> = {}
+): DocumentChunk[] {
+  const chunks = chunkText(text, { ...CHILD_CHUNKING_OPTIONS, ...options });
+
+  // Same normalization as chunkText so positions line up
+  const cleanText = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').trim();
+  // Only transcript chunks carry speakers; their windows follow speaker turns
+  const units = chunks.some(chunk => chunk.speakers !== undefined)
+    ? parseTranscriptTurns(cleanText).map(turn => ({ start: turn.startPosition, end: turn.endPosition }))
+    : findParagraphs(cleanText);
+
+  return assignParentWindows(cleanText, chunks, units);
+}
+
+/**
+ * 1-based page containing a character offset, given the start offset of each
+ * page (ProcessingResult.metadata.pageOffsets). Undefined without page data.
+ */
+export function findPageNumber(pageOffsets: number[], offset: number): number | undefined {
+  if (pageOffsets.length === 0) return undefined;
+
+  let page = 1;
+  for (let i = 1; i < pageOffsets.length; i++) {
+    if (pageOffsets[i] > offset) break;
+    page = i + 1;
+  }
+  return page;
+}
+
 export function validateChunks(chunks: DocumentChunk[]): {
   valid: boolean;
   errors: string[];
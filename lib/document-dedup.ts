@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import { prisma } from './prisma';
+import { deserializeEmbedding } from './embeddings/serialization';
+import { getVectorIndex } from './vector-index';
+import type { EmbeddingProviderName } from './types/embeddings';
+import type { DuplicateKind, DuplicateMatch } from './types/duplicates';
+
+/**
+ * Duplicate document detection
+ *
+ * The same transcript often gets uploaded twice: once as DOCX and once as
+ * PDF, or into two studies. Duplicates are found at three levels, always
+ * within one user's documents:
+ *
+ * - exact: same uploaded bytes (Document.contentHash), known at upload time
+ * - text:  same normalized extracted text (Document.textHash), e.g. the same
+ *          transcript exported twice
+ * - near:  most of the document's chunks have a near-identical chunk in one
+ *          other document (embedding overlap), e.g. DOCX vs PDF of one file
+ *
+ * Duplicates are flagged on the newer document (Document.duplicateOfId), not
+ * removed; the batch upload can skip exact duplicates before storing them.
+ */
+
+export interface NearDuplicateOptions {
+  sampleSize: number; // Chunks compared per document
+  minSimilarity: number; // Cosine similarity for two chunks to count as the same passage
+  minOverlap: number; // Share of sampled chunks that must match one document
+}
+
+export const NEAR_DUPLICATE_OPTIONS: NearDuplicateOptions = {
+  sampleSize: 20,
+  minSimilarity: 0.95,
+  minOverlap: 0.8,
+};
+
+const DUPLICATE_SELECT = {
+  id: true,
+  fileName: true,
+  studyId: true,
+  study: { select: { name: true } },
+} as const;
+
+interface DuplicateCandidate {
+  id: string;
+  fileName: string;
+  studyId: string;
+  study: { name: string };
+}
+
+function toDuplicateMatch(candidate: DuplicateCandidate, kind: DuplicateKind, overlap?: number): DuplicateMatch {
+  return {
+    documentId: candidate.id,
+    fileName: candidate.fileName,
+    studyId: candidate.studyId,
+    studyName: candidate.study.name,
+    kind,
+    ...(overlap !== undefined && { overlap }),
+  };
+}
+
+export function hashContent(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Text as compared for duplicates: Unicode-normalized, case-folded, with
+ * whitespace collapsed, so formatting differences between exports of the
+ * same document don't matter
+ */
+export function normalizeTextForHash(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function hashText(text: string): string {
+  return hashContent(Buffer.from(normalizeTextForHash(text), 'utf8'));
+}
+
+/**
+ * Oldest of the user's documents with the same content or text hash
+ */
+export async function findDuplicateByHash(
+  userId: string,
+  hash: { contentHash: string } | { textHash: string },
+  excludeDocumentId?: string
+): Promise<DuplicateMatch | null> {
+  const candidate: DuplicateCandidate | null = await prisma.document.findFirst({
+    where: {
+      ...hash,
+      study: { userId },
+      status: { not: 'FAILED' },
+      ...(excludeDocumentId && { id: { not: excludeDocumentId } }),
+    },
+    select: DUPLICATE_SELECT,
+    orderBy: { uploadedAt: 'asc' },
+  });
+
+  return candidate ? toDuplicateMatch(candidate, 'contentHash' in hash ? 'exact' : 'text') : null;
+}
+
+/**
+ * Pick up to `count` items spread evenly across the list
+ */
+function sampleEvenly<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  const step = items.length / count;
+  return Array.from({ length: count }, (_, index) => items[Math.floor(index * step)]);
+}
+
+/**
+ * Another of the user's documents that most of this one's chunks closely
+ * match, by embedding similarity
+ */
+export async function findNearDuplicate(
+  documentId: string,
+  userId: string,
+  options: NearDuplicateOptions = NEAR_DUPLICATE_OPTIONS
+): Promise<DuplicateMatch | null> {
+  const chunks: Array<{
+    id: string;
+    embedding: Buffer | Uint8Array | null;
+    embeddingProvider: EmbeddingProviderName;
+    embeddingModel: string;
+    embeddingDimensions: number;
+  }> = await prisma.documentChunk.findMany({
+    where: { documentId, embedding: { not: null } },
+    select: { id: true, embedding: true, embeddingProvider: true, embeddingModel: true, embeddingDimensions: true },
+    orderBy: { chunkIndex: 'asc' },
+  });
+
+  const sample = sampleEvenly(chunks, options.sampleSize);
+  if (sample.length === 0) return null;
+
+  // For each sampled chunk, the documents holding a near-identical chunk
+  const matchCounts = new Map<string, number>();
+  for (const chunk of sample) {
+    const results = await getVectorIndex().search(deserializeEmbedding(chunk.embedding!), {
+      userId,
+      limit: 5,
+      minSimilarity: options.minSimilarity,
+      excludeChunkId: chunk.id,
+      embeddingModel: {
+        provider: chunk.embeddingProvider,
+        model: chunk.embeddingModel,
+        dimensions: chunk.embeddingDimensions,
+      },
+    });
+
+    const matchedDocuments = new Set(results.map(result => result.documentId).filter(id => id !== documentId));
+    matchedDocuments.forEach(id => matchCounts.set(id, (matchCounts.get(id) ?? 0) + 1));
+  }
+
+  const [bestDocumentId, bestCount] = Array.from(matchCounts.entries())
+    .sort(([, a], [, b]) => b - a)[0] ?? [];
+  if (!bestDocumentId || bestCount / sample.length < options.minOverlap) {
+    return null;
+  }
+
+  const candidate: DuplicateCandidate | null = await prisma.document.findUnique({
+    where: { id: bestDocumentId },
+    select: DUPLICATE_SELECT,
+  });
+
+  return candidate
+    ? toDuplicateMatch(candidate, 'near', Math.round((bestCount / sample.length) * 100) / 100)
+    : null;
+}
+
+/**
+ * Duplicate recorded on a document, in the shape upload statuses report
+ */
+export function getRecordedDuplicate(document: {
+  duplicateKind: string | null;
+  duplicateOverlap: number | null;
+  duplicateOf: DuplicateCandidate | null;
+}): DuplicateMatch | undefined {
+  if (!document.duplicateOf || !document.duplicateKind) return undefined;
+  return toDuplicateMatch(
+    document.duplicateOf,
+    document.duplicateKind as DuplicateKind,
+    document.duplicateOverlap ?? undefined
+  );
+}
+
+export const RECORDED_DUPLICATE_SELECT = {
+  duplicateKind: true,
+  duplicateOverlap: true,
+  duplicateOf: { select: DUPLICATE_SELECT },
+} as const;
+
+/**
+ * Fields to store on a document flagged as a duplicate
+ */
+export function getDuplicateFields(match: DuplicateMatch | null) {
+  return match
+    ? { duplicateOfId: match.documentId, duplicateKind: match.kind, duplicateOverlap: match.overlap ?? null }
+    : {};
+}
@@ -0,0 +1,26 @@
+import { prisma } from './prisma';
+
+/**
+ * Study folders
+ *
+ * Folders live in each document's folderPath (see lib/types/folders), so
+ * moving documents is all it takes to create, fill or empty a folder.
+ */
+
+/**
+ * Move documents of a study into `folderPath`, or out of every folder when null
+ *
+ * @returns Number of documents moved
+ */
+export async function moveDocumentsToFolder(
+  studyId: string,
+  documentIds: string[],
+  folderPath: string | null
+): Promise<number> {
+  const result: { count: number } = await prisma.document.updateMany({
+    where: { studyId, id: { in: documentIds } },
+    // The contextual embedding header names the folder; the next reindex rebuilds it
+    data: { folderPath, embeddingContext: null },
+  });
+  return result.count;
+}
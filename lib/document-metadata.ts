@@ -0,0 +1,95 @@
+import { prisma } from './prisma';
+import {
+  applyMetadataUpdate,
+  isDocumentAttributes,
+  matchesMetadataFilter,
+  type DocumentAttributes,
+  type DocumentMetadataFilter,
+  type DocumentMetadataUpdate,
+} from './types/document-metadata';
+
+/**
+ * Document tags and attributes
+ *
+ * Attributes are a small JSON map per document, so filters are matched here
+ * rather than in SQL: that keeps keys and values case-insensitive, and a
+ * study holds at most a few hundred documents.
+ */
+
+interface DocumentMetadataRecord {
+  id: string;
+  fileName: string;
+  tags: string[];
+  attributes: unknown;
+}
+
+export class DocumentMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentMetadataError';
+  }
+}
+
+function toMetadata(record: DocumentMetadataRecord): { tags: string[]; attributes: DocumentAttributes } {
+  return {
+    tags: record.tags,
+    attributes: isDocumentAttributes(record.attributes) ? record.attributes : {},
+  };
+}
+
+/**
+ * IDs of the user's documents matching `filter`, limited to a study and/or a
+ * set of documents
+ */
+export async function findDocumentsMatchingFilter(
+  userId: string,
+  filter: DocumentMetadataFilter,
+  scope: { studyId?: string; documentIds?: string[] } = {}
+): Promise<string[]> {
+  const documents: DocumentMetadataRecord[] = await prisma.document.findMany({
+    where: {
+      study: { userId },
+      ...(scope.studyId && { studyId: scope.studyId }),
+      ...(scope.documentIds && { id: { in: scope.documentIds } }),
+    },
+    select: { id: true, fileName: true, tags: true, attributes: true },
+  });
+
+  return documents
+    .filter(document => matchesMetadataFilter(toMetadata(document), filter))
+    .map(document => document.id);
+}
+
+/**
+ * Apply `update` to documents of a study. Nothing is written when a document
+ * would exceed the tag or attribute limits.
+ *
+ * @returns Number of documents updated
+ */
+export async function updateDocumentMetadata(
+  studyId: string,
+  documentIds: string[],
+  update: DocumentMetadataUpdate
+): Promise<number> {
+  const documents: DocumentMetadataRecord[] = await prisma.document.findMany({
+    where: { studyId, id: { in: documentIds } },
+    select: { id: true, fileName: true, tags: true, attributes: true },
+  });
+
+  // The contextual embedding header lists attributes; the next reindex rebuilds it
+  const attributesChanged = !!(update.attributes || update.setAttributes || update.removeAttributes);
+
+  const updates = documents.map(document => {
+    const next = applyMetadataUpdate(toMetadata(document), update);
+    if (!next) {
+      throw new DocumentMetadataError(`Too many tags or attributes on ${document.fileName}`);
+    }
+    return prisma.document.update({
+      where: { id: document.id },
+      data: { ...next, ...(attributesChanged && { embeddingContext: null }) },
+    });
+  });
+
+  await prisma.$transaction(updates);
+  return updates.length;
+}
@@ -0,0 +1,154 @@
+import { findPageNumber } from './document-chunking';
+
+/**
+ * Passage lookup for citations
+ *
+ * Chunks store their character range in Document.extractedText, so a citation
+ * can be resolved back to the exact passage plus some surrounding context.
+ * Chunks indexed before offsets were stored are located by searching for their
+ * content instead.
+ */
+
+// Characters of surrounding text returned on each side of a passage
+export const PASSAGE_CONTEXT_CHARS = 400;
+
+export interface DocumentPassage {
+  before: string;
+  passage: string;
+  after: string;
+  startOffset: number;
+  endOffset: number;
+  startPage?: number;
+  endPage?: number;
+}
+
+export interface PassageChunk {
+  content: string;
+  startOffset: number | null;
+  endOffset: number | null;
+}
+
+/**
+ * Character range of a chunk in the extracted text, or null if it can't be found
+ */
+export function locateChunk(extractedText: string, chunk: PassageChunk): { start: number; end: number } | null {
+  if (
+    chunk.startOffset !== null &&
+    chunk.endOffset !== null &&
+    chunk.endOffset <= extractedText.length &&
+    chunk.startOffset < chunk.endOffset
+  ) {
+    return { start: chunk.startOffset, end: chunk.endOffset };
+  }
+
+  // Legacy chunks: find the content itself
+  const start = extractedText.indexOf(chunk.content);
+  return start === -1 ? null : { start, end: start + chunk.content.length };
+}
+
+/**
+ * Character range a citation stored for its passage, if it still fits the
+ * text. Citations fall back to it when their chunk no longer exists, e.g.
+ * after the document was re-chunked or reindexed over the same text.
+ */
+export function validateStoredRange(
+  extractedText: string,
+  start: number | null | undefined,
+  end: number | null | undefined
+): { start: number; end: number } | null {
+  if (!Number.isInteger(start) || !Number.isInteger(end)) return null;
+  if (start! < 0 || start! >= end! || end! > extractedText.length) return null;
+  return { start: start!, end: end! };
+}
+
+/**
+ * Cut a passage and its surrounding context out of the extracted text.
+ * Context is trimmed back to whole words.
+ */
+export function getPassageWithContext(
+  extractedText: string,
+  start: number,
+  end: number,
+  pageOffsets: number[] = [],
+  contextChars: number = PASSAGE_CONTEXT_CHARS
+): DocumentPassage {
+  let beforeStart = Math.max(0, start - contextChars);
+  if (beforeStart > 0) {
+    const space = extractedText.indexOf(' ', beforeStart);
+    if (space !== -1 && space < start) beforeStart = space + 1;
+  }
+
+  let afterEnd = Math.min(extractedText.length, end + contextChars);
+  if (afterEnd < extractedText.length) {
+    const space = extractedText.lastIndexOf(' ', afterEnd);
+    if (space > end) afterEnd = space;
+  }
+
+  return {
+    before: extractedText.slice(beforeStart, start),
+    passage: extractedText.slice(start, end),
+    after: extractedText.slice(end, afterEnd),
+    startOffset: start,
+    endOffset: end,
+    startPage: findPageNumber(pageOffsets, start),
+    endPage: findPageNumber(pageOffsets, Math.max(start, end - 1)),
+  };
+}
+
+export interface HighlightRange {
+  chunkId: string;
+  start: number;
+  end: number;
+}
+
+export interface DocumentSegment {
+  start: number;
+  end: number;
+  chunkIds: string[]; // Highlighted chunks covering this segment; empty if none
+  page?: number; // Set on the first segment of each page (PDFs)
+}
+
+/**
+ * Split a document into consecutive segments at highlight and page boundaries,
+ * so a viewer can render highlighted chunks (overlapping ones included) and
+ * page markers over the extracted text.
+ */
+export function buildDocumentSegments(
+  textLength: number,
+  highlights: HighlightRange[],
+  pageOffsets: number[] = []
+): DocumentSegment[] {
+  const ranges = highlights
+    .map(range => ({ ...range, start: Math.max(0, range.start), end: Math.min(textLength, range.end) }))
+    .filter(range => range.start < range.end);
+
+  const boundaries = new Set<number>([0, textLength]);
+  ranges.forEach(range => {
+    boundaries.add(range.start);
+    boundaries.add(range.end);
+  });
+  pageOffsets.forEach(offset => {
+    if (offset < textLength) boundaries.add(offset);
+  });
+
+  const sorted = Array.from(boundaries).sort((a, b) => a - b);
+  const pageStarts = new Map<number, number>();
+  pageOffsets.forEach((offset, index) => {
+    // Empty pages share an offset with the next page; the later page owns the text
+    pageStarts.set(offset, index + 1);
+  });
+
+  const segments: DocumentSegment[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+    segments.push({
+      start,
+      end,
+      chunkIds: ranges.filter(range => range.start <= start && range.end >= end).map(range => range.chunkId),
+      ...(pageStarts.has(start) && { page: pageStarts.get(start) }),
+    });
+  }
+
+  return segments;
+}
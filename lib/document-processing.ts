@@ -1,15 +1,53 @@
 import * as mammoth from 'mammoth';
 import PDFParser from 'pdf2json';
+import {
+  formatSpeakerTurns,
+  parseSRT,
+  parseTranscriptExport,
+  parseWebVTT,
+  TranscriptFormat,
+} from './transcript-formats';
+import {
+  buildSurveyText,
+  findMissingColumns,
+  inferSurveyMapping,
+  readSpreadsheet,
+  SpreadsheetFormat,
+  SurveyColumnMapping,
+  SurveyRecord,
+} from './survey-import';
+import { averageOcrConfidence, findSparsePages, isOcrEnabled, recognizeImages, recognizePDFPages } from './ocr';
+import type { OcrPageConfidence } from './types/ocr';
+import type { EmailHeaders } from './types/extractors';
+import { DOCUMENT_EXTRACTORS, getDocumentExtractor } from './extractors';
+import { cleanupPDFPages, layoutPDFPage, type PositionedText } from './pdf-cleanup';
 
 export interface ProcessingResult {
   text: string;
   metadata?: {
     pageCount?: number;
+    // Offset in `text` where each page starts (index 0 = page 1); PDFs and
+    // slide decks (one page per slide)
+    pageOffsets?: number[];
     wordCount?: number;
     language?: string;
+    // One entry per response row; spreadsheets only
+    surveyRecords?: SurveyRecord[];
+    // Set when some or all text came from OCR (scanned PDF pages, images)
+    ocr?: {
+      confidence: number; // Mean page confidence, 0-100
+      pages: OcrPageConfidence[];
+    };
+    // Sender, recipients, subject and date; .eml messages only
+    email?: EmailHeaders;
   };
 }
 
+export interface ExtractionOptions {
+  // Spreadsheet column mapping chosen at upload; inferred from headers when absent
+  surveyMapping?: SurveyColumnMapping | null;
+}
+
 export interface ProcessingError {
   success: false;
   error: string;
@@ -27,6 +65,8 @@ interface PDFTextRun {
 }
 
 interface PDFTextItem {
+  x?: number;
+  y?: number;
   R?: PDFTextRun[];
 }
 
@@ -38,9 +78,20 @@ interface PDFData {
   Pages?: PDFPage[];
 }
 
-export async function extractTextFromPDF(buffer: Buffer): Promise<DocumentProcessingResult> {
+function decodePDFText(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    // If decoding fails, use the raw text
+    return text;
+  }
+}
+
+/**
+ * Text of each page from the PDF's text layer, laid out in lines
+ */
+function parsePDFPageTexts(buffer: Buffer): Promise<string[] | ProcessingError> {
   return new Promise((resolve) => {
-    console.log('Attempting PDF extraction with pdf2json...');
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const pdfParser = new (PDFParser as any)(null, 1);
 
@@ -49,70 +100,27 @@ export async function extractTextFromPDF(buffer: Buffer): Promise<DocumentProces
       resolve({
         success: false,
         error: 'Failed to parse PDF',
-        details: `This PDF may contain custom fonts (Type3), be scanned, or be image-based. Consider using OCR tools to extract text first. Error: ${errData.parserError || 'Unknown PDF parsing error'}`
+        details: `This PDF may contain custom fonts (Type3) or be damaged. Error: ${errData.parserError || 'Unknown PDF parsing error'}`
       });
     });
 
     pdfParser.on('pdfParser_dataReady', (pdfData: PDFData) => {
-      try {
-        // Extract text from all pages
-        let extractedText = '';
-
-        if (pdfData.Pages && Array.isArray(pdfData.Pages)) {
-          for (const page of pdfData.Pages) {
-            if (page.Texts && Array.isArray(page.Texts)) {
-              for (const textItem of page.Texts) {
-                if (textItem.R && Array.isArray(textItem.R)) {
-                  for (const textRun of textItem.R) {
-                    if (textRun.T) {
-                      // Decode URI component and add space
-                      try {
-                        extractedText += decodeURIComponent(textRun.T) + ' ';
-                      } catch {
-                        // If decoding fails, use the raw text
-                        extractedText += textRun.T + ' ';
-                      }
-                    }
-                  }
-                }
-              }
-            }
-            // Add page break
-            extractedText += '\n\n';
-          }
-        }
+      const pageTexts: string[] = [];
 
-        if (!extractedText || extractedText.trim().length === 0) {
-          resolve({
-            success: false,
-            error: 'PDF contains no extractable text',
-            details: 'This PDF may contain custom fonts (Type3), be scanned, or be image-based. Consider using OCR tools to extract text first.'
-          });
-          return;
+      if (pdfData.Pages && Array.isArray(pdfData.Pages)) {
+        for (const page of pdfData.Pages) {
+          const runs: PositionedText[] = (page.Texts ?? []).map(textItem => ({
+            text: (textItem.R ?? [])
+              .map(textRun => textRun.T ? decodePDFText(textRun.T) : '')
+              .join(' '),
+            x: textItem.x ?? 0,
+            y: textItem.y ?? 0,
+          }));
+          pageTexts.push(layoutPDFPage(runs));
         }
-
-        // Clean up the extracted text
-        const cleanText = extractedText
-          .replace(/\n{3,}/g, '\n\n') // Reduce excessive line breaks
-          .replace(/[ \t]{2,}/g, ' ') // Reduce excessive spaces
-          .trim();
-
-        console.log(`Successfully extracted ${cleanText.length} characters from PDF`);
-        resolve({
-          text: cleanText,
-          metadata: {
-            pageCount: pdfData.Pages ? pdfData.Pages.length : 0,
-            wordCount: cleanText.split(/\s+/).length,
-          }
-        });
-      } catch (error) {
-        console.error('PDF text extraction error:', error);
-        resolve({
-          success: false,
-          error: 'Failed to extract text from PDF',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        });
       }
+
+      resolve(pageTexts);
     });
 
     // Parse the PDF buffer
@@ -120,6 +128,128 @@ export async function extractTextFromPDF(buffer: Buffer): Promise<DocumentProces
   });
 }
 
+export async function extractTextFromPDF(buffer: Buffer): Promise<DocumentProcessingResult> {
+  console.log('Attempting PDF extraction with pdf2json...');
+  const pageTexts = await parsePDFPageTexts(buffer);
+  if (!Array.isArray(pageTexts)) {
+    return pageTexts;
+  }
+
+  try {
+    // Scanned pages have no text layer (or only a stray page number): OCR them
+    const ocrPages: OcrPageConfidence[] = [];
+    let ocrError: string | null = null;
+    const sparsePages = isOcrEnabled() ? findSparsePages(pageTexts) : [];
+
+    if (sparsePages.length > 0) {
+      try {
+        console.log(`Running OCR on ${sparsePages.length} PDF page(s) without a text layer...`);
+        const recognized = await recognizePDFPages(buffer, sparsePages);
+        recognized.forEach((result, pageIndex) => {
+          if (result.text.length > pageTexts[pageIndex].trim().length) {
+            pageTexts[pageIndex] = result.text;
+            ocrPages.push({ pageNumber: pageIndex + 1, confidence: result.confidence });
+          }
+        });
+      } catch (error) {
+        // Keep whatever the text layer had
+        console.warn('PDF OCR failed:', error);
+        ocrError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    // Running headers, footers, page numbers and line-break hyphenation
+    const cleanup = cleanupPDFPages(pageTexts);
+    if (cleanup.removedLines > 0 || cleanup.rejoinedWords > 0) {
+      console.log(`PDF cleanup removed ${cleanup.removedLines} header/footer line(s) and rejoined ${cleanup.rejoinedWords} hyphenated word(s)`);
+    }
+
+    // Clean each page separately so offsets stay valid after cleanup
+    const pageOffsets: number[] = [];
+    let cleanText = '';
+    for (const pageText of cleanup.pages) {
+      const cleanPage = pageText
+        .replace(/\n{3,}/g, '\n\n') // Reduce excessive line breaks
+        .replace(/[ \t]{2,}/g, ' ') // Reduce excessive spaces
+        .trim();
+
+      if (cleanPage.length > 0 && cleanText.length > 0) {
+        cleanText += '\n\n'; // Page break
+      }
+      pageOffsets.push(cleanText.length);
+      cleanText += cleanPage;
+    }
+
+    if (cleanText.length === 0) {
+      return {
+        success: false,
+        error: 'PDF contains no extractable text',
+        details: ocrError
+          ? `The PDF has no text layer and OCR failed: ${ocrError}`
+          : 'The PDF has no text layer and OCR found no text on its pages.'
+      };
+    }
+
+    console.log(`Successfully extracted ${cleanText.length} characters from PDF${ocrPages.length > 0 ? ` (${ocrPages.length} page(s) via OCR)` : ''}`);
+    return {
+      text: cleanText,
+      metadata: {
+        pageCount: pageTexts.length,
+        pageOffsets,
+        wordCount: cleanText.split(/\s+/).length,
+        ...(ocrPages.length > 0 && {
+          ocr: { confidence: averageOcrConfidence(ocrPages)!, pages: ocrPages },
+        }),
+      }
+    };
+  } catch (error) {
+    console.error('PDF text extraction error:', error);
+    return {
+      success: false,
+      error: 'Failed to extract text from PDF',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+export async function extractTextFromImage(buffer: Buffer): Promise<DocumentProcessingResult> {
+  if (!isOcrEnabled()) {
+    return {
+      success: false,
+      error: 'Image uploads require OCR',
+      details: 'OCR is disabled on this server (OCR_ENABLED=false)'
+    };
+  }
+
+  try {
+    const [result] = await recognizeImages([buffer]);
+
+    if (!result.text) {
+      return {
+        success: false,
+        error: 'Image contains no recognizable text',
+        details: `OCR confidence: ${result.confidence}%`
+      };
+    }
+
+    return {
+      text: result.text,
+      metadata: {
+        pageCount: 1,
+        wordCount: result.text.split(/\s+/).length,
+        ocr: { confidence: result.confidence, pages: [{ pageNumber: 1, confidence: result.confidence }] },
+      }
+    };
+  } catch (error) {
+    console.error('Image OCR error:', error);
+    return {
+      success: false,
+      error: 'Failed to read text from image',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
 export async function extractTextFromDOCX(buffer: Buffer): Promise<DocumentProcessingResult> {
   try {
     const result = await mammoth.extractRawText({ buffer });
@@ -183,12 +313,18 @@ export async function extractTextFromTXT(buffer: Buffer): Promise<DocumentProces
     }
 
     // Clean up the text
-    const cleanText = text
+    let cleanText = text
       .replace(/\r\n/g, '\n') // Normalize line endings
       .replace(/\r/g, '\n')
       .replace(/\n{3,}/g, '\n\n') // Reduce excessive line breaks
       .trim();
 
+    // Transcription-tool exports (Otter, Zoom) put speaker and time on their own line
+    const exportTurns = parseTranscriptExport(cleanText);
+    if (exportTurns && exportTurns.length > 0) {
+      cleanText = formatSpeakerTurns(exportTurns);
+    }
+
     return {
       text: cleanText,
       metadata: {
@@ -205,38 +341,111 @@ export async function extractTextFromTXT(buffer: Buffer): Promise<DocumentProces
   }
 }
 
-export async function extractTextFromBuffer(
+export async function extractTextFromTranscript(
   buffer: Buffer,
-  mimeType: string,
-  fileName: string
+  format: TranscriptFormat
 ): Promise<DocumentProcessingResult> {
   try {
-    // Determine file type from MIME type or extension
-    const fileExtension = fileName.toLowerCase().split('.').pop() || '';
-    
-    if (mimeType.includes('pdf') || fileExtension === 'pdf') {
-      return await extractTextFromPDF(buffer);
+    const raw = buffer.toString('utf8');
+    const turns = format === 'vtt' ? parseWebVTT(raw) : parseSRT(raw);
+
+    if (turns.length === 0) {
+      return {
+        success: false,
+        error: `${format.toUpperCase()} file contains no captions`,
+        details: 'No cues with timing lines were found'
+      };
     }
-    
-    if (mimeType.includes('officedocument.wordprocessingml') || 
-        mimeType.includes('msword') || 
-        fileExtension === 'docx' || 
-        fileExtension === 'doc') {
-      return await extractTextFromDOCX(buffer);
+
+    const text = formatSpeakerTurns(turns);
+    return {
+      text,
+      metadata: {
+        wordCount: text.split(/\s+/).length,
+      }
+    };
+  } catch (error) {
+    console.error('Transcript extraction error:', error);
+    return {
+      success: false,
+      error: `Failed to read ${format.toUpperCase()} file`,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+export async function extractTextFromSpreadsheet(
+  buffer: Buffer,
+  format: SpreadsheetFormat,
+  mapping?: SurveyColumnMapping | null
+): Promise<DocumentProcessingResult> {
+  try {
+    const table = await readSpreadsheet(new Uint8Array(buffer), format);
+
+    if (table.headers.length === 0) {
+      return {
+        success: false,
+        error: 'Spreadsheet is empty',
+        details: 'No header row was found'
+      };
     }
-    
-    if (mimeType.includes('text/') || 
-        fileExtension === 'txt' || 
-        fileExtension === 'md' ||
-        fileExtension === 'markdown') {
-      return await extractTextFromTXT(buffer);
+
+    const surveyMapping = mapping ?? inferSurveyMapping(table.headers);
+    const missingColumns = findMissingColumns(surveyMapping, table.headers);
+    if (missingColumns.length > 0) {
+      return {
+        success: false,
+        error: 'Mapped columns not found in spreadsheet',
+        details: `Missing columns: ${missingColumns.join(', ')}`
+      };
     }
 
+    const { text, records } = buildSurveyText(table, surveyMapping);
+    if (records.length === 0) {
+      return {
+        success: false,
+        error: 'Spreadsheet contains no responses',
+        details: 'Every row is empty in the response columns'
+      };
+    }
+
+    return {
+      text,
+      metadata: {
+        wordCount: text.split(/\s+/).length,
+        surveyRecords: records,
+      }
+    };
+  } catch (error) {
+    console.error('Spreadsheet extraction error:', error);
     return {
       success: false,
-      error: 'Unsupported file type',
-      details: `File type: ${mimeType}, Extension: ${fileExtension}`
+      error: `Failed to read ${format.toUpperCase()} file`,
+      details: error instanceof Error ? error.message : 'Unknown error'
     };
+  }
+}
+
+export async function extractTextFromBuffer(
+  buffer: Buffer,
+  mimeType: string,
+  fileName: string,
+  options: ExtractionOptions = {}
+): Promise<DocumentProcessingResult> {
+  try {
+    // Picked by file content first; the browser MIME type is only a hint
+    const extractor = getDocumentExtractor(buffer, mimeType, fileName);
+
+    if (!extractor) {
+      const fileExtension = fileName.toLowerCase().split('.').pop() || '';
+      return {
+        success: false,
+        error: 'Unsupported file type',
+        details: `File type: ${mimeType}, Extension: ${fileExtension}`
+      };
+    }
+
+    return await extractor.extract(buffer, options);
   } catch (error) {
     console.error('Document processing error:', error);
     return {
@@ -248,21 +457,15 @@ export async function extractTextFromBuffer(
 }
 
 export function getSupportedMimeTypes(): string[] {
-  return [
-    'application/pdf',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/msword',
-    'text/plain',
-    'text/markdown',
-  ];
+  return DOCUMENT_EXTRACTORS.flatMap(extractor => extractor.mimeTypes);
 }
 
 export function getSupportedExtensions(): string[] {
-  return ['pdf', 'docx', 'doc', 'txt', 'md', 'markdown'];
+  return DOCUMENT_EXTRACTORS.flatMap(extractor => extractor.extensions);
 }
 
 export function isFileTypeSupported(mimeType: string, fileName: string): boolean {
   const extension = fileName.toLowerCase().split('.').pop() || '';
   return getSupportedMimeTypes().some(type => mimeType.includes(type)) ||
          getSupportedExtensions().includes(extension);
-}
\ No newline at end of file
+}
@@ -0,0 +1,306 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { ProcessingResult } from './document-processing';
+import type { SurveyColumnMapping } from './survey-import';
+import { isArchivedChunkList, type ArchivedChunk, type DocumentVersionSummary } from './types/versions';
+
+/**
+ * Document versioning
+ *
+ * A Document is the logical document: its ID never changes and its own
+ * fields always describe the current version. Replacing the file copies the
+ * outgoing version (file, text and a snapshot of its chunk ranges) into
+ * DocumentVersion and removes its chunks, then the new file is chunked and
+ * embedded like a fresh upload. Only the current version is searchable, and
+ * nothing is while the new one is processing.
+ *
+ * Citations store chunk IDs, which are unique to a version, so a citation
+ * from before a replacement is resolved to the archived version it came from.
+ */
+
+export interface ReplacementFile {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  storagePath: string;
+  storageUrl: string;
+  storageType: string;
+  contentHash: string;
+}
+
+/**
+ * Text of one version of a document. `chunks` is the archived chunk snapshot;
+ * null for the current version, whose chunks are in DocumentChunk.
+ */
+export interface DocumentVersionText {
+  version: number;
+  current: boolean;
+  fileName: string;
+  storageUrl: string | null;
+  storageType: string;
+  extractedText: string | null;
+  pageOffsets: number[];
+  piiRedacted: boolean;
+  redactedRanges: number[];
+  chunks: ArchivedChunk[] | null;
+}
+
+interface ArchivedVersionRecord {
+  version: number;
+  fileName: string;
+  storageUrl: string | null;
+  storageType: string;
+  extractedText: string | null;
+  pageOffsets: number[];
+  piiRedacted: boolean;
+  redactedRanges: number[];
+  chunks: unknown;
+}
+
+const ARCHIVED_VERSION_SELECT = {
+  version: true,
+  fileName: true,
+  storageUrl: true,
+  storageType: true,
+  extractedText: true,
+  pageOffsets: true,
+  piiRedacted: true,
+  redactedRanges: true,
+  chunks: true,
+} as const;
+
+function toVersionText(record: ArchivedVersionRecord): DocumentVersionText {
+  return {
+    version: record.version,
+    current: false,
+    fileName: record.fileName,
+    storageUrl: record.storageUrl,
+    storageType: record.storageType,
+    extractedText: record.extractedText,
+    pageOffsets: record.pageOffsets,
+    piiRedacted: record.piiRedacted,
+    redactedRanges: record.redactedRanges,
+    chunks: isArchivedChunkList(record.chunks) ? record.chunks : [],
+  };
+}
+
+/**
+ * Archive the document's current version and make `file` the new one. The
+ * text was already extracted during upload validation; the caller enqueues
+ * ingestion to chunk and embed it.
+ *
+ * @returns The new version number
+ */
+export async function replaceDocumentFile(
+  documentId: string,
+  file: ReplacementFile,
+  extraction: ProcessingResult,
+  surveyMapping: SurveyColumnMapping | null
+): Promise<number> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const document = await tx.document.findUniqueOrThrow({
+      where: { id: documentId },
+      select: {
+        version: true,
+        versionCreatedAt: true,
+        fileName: true,
+        fileType: true,
+        fileSize: true,
+        storagePath: true,
+        storageUrl: true,
+        storageType: true,
+        extractedText: true,
+        pageOffsets: true,
+        piiRedacted: true,
+        redactedRanges: true,
+      },
+    });
+
+    const chunks: ArchivedChunk[] = await tx.documentChunk.findMany({
+      where: { documentId },
+      select: { id: true, content: true, startOffset: true, endOffset: true },
+      orderBy: { chunkIndex: 'asc' },
+    });
+
+    await tx.documentVersion.create({
+      data: {
+        documentId,
+        version: document.version,
+        fileName: document.fileName,
+        fileType: document.fileType,
+        fileSize: document.fileSize,
+        storagePath: document.storagePath,
+        storageUrl: document.storageUrl,
+        storageType: document.storageType,
+        extractedText: document.extractedText,
+        pageOffsets: document.pageOffsets,
+        piiRedacted: document.piiRedacted,
+        redactedRanges: document.redactedRanges,
+        chunks,
+        createdAt: document.versionCreatedAt,
+      },
+    });
+
+    // The old chunks are snapshotted above. Their offsets point into the old
+    // text, so they leave the index now rather than when ingestion finishes.
+    await tx.documentChunk.deleteMany({ where: { documentId } });
+
+    const metadata = extraction.metadata;
+    const nextVersion = document.version + 1;
+
+    // Everything derived from the old file is reset; ingestion chunks the new text
+    await tx.document.update({
+      where: { id: documentId },
+      data: {
+        ...file,
+        version: nextVersion,
+        versionCreatedAt: new Date(),
+        status: 'PROCESSING',
+        extractedText: extraction.text,
+        pageOffsets: metadata?.pageOffsets ?? [],
+        piiRedacted: false,
+        redactedRanges: [],
+        textHash: null,
+        duplicateOfId: null,
+        duplicateKind: null,
+        duplicateOverlap: null,
+        embeddingContext: null,
+        ocrConfidence: metadata?.ocr?.confidence ?? null,
+        ocrPages: metadata?.ocr?.pages ?? Prisma.DbNull,
+        emailHeaders: metadata?.email ?? Prisma.DbNull,
+        surveyMapping: metadata?.surveyRecords ? surveyMapping ?? Prisma.DbNull : Prisma.DbNull,
+        surveyRecords: metadata?.surveyRecords ?? Prisma.DbNull,
+      },
+    });
+
+    return nextVersion;
+  });
+}
+
+/**
+ * The version to show: an explicit version number, else the one current at
+ * `at` (when a message was generated), else the archived version containing
+ * any of `chunkIds`, else the current version
+ */
+export async function getDocumentVersionText(
+  document: Omit<DocumentVersionText, 'current' | 'chunks'> & { id: string; versionCreatedAt: Date },
+  options: { version?: number | null; at?: Date | null; chunkIds?: string[] } = {}
+): Promise<DocumentVersionText> {
+  const current: DocumentVersionText = {
+    version: document.version,
+    current: true,
+    fileName: document.fileName,
+    storageUrl: document.storageUrl,
+    storageType: document.storageType,
+    extractedText: document.extractedText,
+    pageOffsets: document.pageOffsets,
+    piiRedacted: document.piiRedacted,
+    redactedRanges: document.redactedRanges,
+    chunks: null,
+  };
+
+  if (document.version === 1 || options.version === document.version) {
+    return current;
+  }
+
+  if (options.version) {
+    const archived: ArchivedVersionRecord | null = await prisma.documentVersion.findUnique({
+      where: { documentId_version: { documentId: document.id, version: options.version } },
+      select: ARCHIVED_VERSION_SELECT,
+    });
+    return archived ? toVersionText(archived) : current;
+  }
+
+  if (options.at) {
+    if (options.at >= document.versionCreatedAt) return current;
+
+    const archived: ArchivedVersionRecord | null = await prisma.documentVersion.findFirst({
+      where: { documentId: document.id, createdAt: { lte: options.at } },
+      orderBy: { version: 'desc' },
+      select: ARCHIVED_VERSION_SELECT,
+    });
+    return archived ? toVersionText(archived) : current;
+  }
+
+  const chunkIds = options.chunkIds ?? [];
+  if (chunkIds.length > 0) {
+    const currentChunks = await prisma.documentChunk.count({
+      where: { documentId: document.id, id: { in: chunkIds } },
+    });
+    if (currentChunks > 0) return current;
+
+    const archived = await findVersionWithChunk(document.id, chunkIds);
+    if (archived) return archived;
+  }
+
+  return current;
+}
+
+/**
+ * Archived version whose chunk snapshot contains any of `chunkIds`
+ */
+export async function findVersionWithChunk(
+  documentId: string,
+  chunkIds: string[]
+): Promise<DocumentVersionText | null> {
+  const versions: ArchivedVersionRecord[] = await prisma.documentVersion.findMany({
+    where: { documentId },
+    orderBy: { version: 'desc' },
+    select: ARCHIVED_VERSION_SELECT,
+  });
+
+  const wanted = new Set(chunkIds);
+  const match = versions.find(record =>
+    isArchivedChunkList(record.chunks) && record.chunks.some(chunk => wanted.has(chunk.id))
+  );
+  return match ? toVersionText(match) : null;
+}
+
+/**
+ * Every version of a document, newest first
+ */
+export async function listDocumentVersions(document: {
+  id: string;
+  version: number;
+  fileName: string;
+  fileSize: number;
+  versionCreatedAt: Date;
+}): Promise<DocumentVersionSummary[]> {
+  const archived: Array<{ version: number; fileName: string; fileSize: number; createdAt: Date }> =
+    document.version > 1
+      ? await prisma.documentVersion.findMany({
+        where: { documentId: document.id },
+        orderBy: { version: 'desc' },
+        select: { version: true, fileName: true, fileSize: true, createdAt: true },
+      })
+      : [];
+
+  return [
+    {
+      version: document.version,
+      fileName: document.fileName,
+      fileSize: document.fileSize,
+      createdAt: document.versionCreatedAt.toISOString(),
+      current: true,
+    },
+    ...archived.map(record => ({
+      version: record.version,
+      fileName: record.fileName,
+      fileSize: record.fileSize,
+      createdAt: record.createdAt.toISOString(),
+      current: false,
+    })),
+  ];
+}
+
+/**
+ * Storage paths of a document's archived files, for cleanup on delete
+ */
+export async function getArchivedStoragePaths(documentId: string): Promise<string[]> {
+  const versions: Array<{ storagePath: string | null }> = await prisma.documentVersion.findMany({
+    where: { documentId },
+    select: { storagePath: true },
+  });
+
+  return versions.flatMap(record => record.storagePath ? [record.storagePath] : []);
+}
@@ -0,0 +1,91 @@
+/**
+ * Embedding Provider Selection
+ *
+ * Picks the embedding provider used for both ingestion and search.
+ *
+ * Provider priority:
+ * 1. EMBEDDING_PROVIDER env var ('voyage' | 'local')
+ * 2. Default: voyage
+ *
+ * Voyage honours VOYAGE_EMBEDDING_MODEL; the local provider honours
+ * LOCAL_EMBEDDING_DIMENSIONS. Changing either means existing chunks were
+ * embedded with a different model and must be re-embedded before they
+ * are searchable again (see getStudyEmbeddingModels in lib/data).
+ */
+
+import type {
+  BatchEmbeddingResult,
+  EmbeddingModelInfo,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+  EmbeddingResult,
+} from '../types/embeddings';
+import { createLocalEmbeddingProvider, DEFAULT_LOCAL_EMBEDDING_DIMENSIONS } from './local';
+import { createVoyageEmbeddingProvider } from '../voyage-embeddings';
+
+let cachedProvider: { key: string; provider: EmbeddingProvider } | null = null;
+
+function createProvider(name: EmbeddingProviderName): EmbeddingProvider {
+  if (name === 'local') {
+    const dimensions = parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '', 10);
+    return createLocalEmbeddingProvider(
+      Number.isFinite(dimensions) && dimensions > 0 ? dimensions : DEFAULT_LOCAL_EMBEDDING_DIMENSIONS
+    );
+  }
+
+  return createVoyageEmbeddingProvider();
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  let name = (process.env.EMBEDDING_PROVIDER || 'voyage') as EmbeddingProviderName;
+
+  if (name !== 'voyage' && name !== 'local') {
+    console.warn(`Unknown EMBEDDING_PROVIDER "${name}", falling back to voyage`);
+    name = 'voyage';
+  }
+
+  // Rebuild when configuration changes (tests switch providers via env)
+  const key = [
+    name,
+    process.env.VOYAGE_EMBEDDING_MODEL,
+    process.env.LOCAL_EMBEDDING_DIMENSIONS,
+  ].join('|');
+
+  if (!cachedProvider || cachedProvider.key !== key) {
+    cachedProvider = { key, provider: createProvider(name) };
+  }
+
+  return cachedProvider.provider;
+}
+
+/**
+ * Model that new chunks are embedded with and that queries are matched against
+ */
+export function getActiveEmbeddingModel(): EmbeddingModelInfo {
+  return getEmbeddingProvider().info;
+}
+
+/**
+ * Embed a search query
+ */
+export async function generateEmbedding(text: string): Promise<EmbeddingResult & { model: EmbeddingModelInfo }> {
+  const result = await getEmbeddingProvider().embed([text], 'query');
+
+  const embedding = result.embeddings[0];
+  if (!embedding) {
+    throw new Error('No embedding returned from embedding provider');
+  }
+
+  return { embedding, model: result.model };
+}
+
+/**
+ * Embed document chunks for storage
+ */
+export async function generateBatchEmbeddings(texts: string[]): Promise<BatchEmbeddingResult> {
+  return getEmbeddingProvider().embed(texts, 'document');
+}
+
+export { serializeEmbedding, deserializeEmbedding } from './serialization';
+export { createLocalEmbeddingProvider } from './local';
+export { createVoyageEmbeddingProvider } from '../voyage-embeddings';
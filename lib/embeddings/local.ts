@@ -0,0 +1,79 @@
+/**
+ * Local embedding provider
+ *
+ * Deterministic hashed bag-of-words embeddings computed on CPU with no
+ * network access. Retrieval quality is well below Voyage, but the output is
+ * stable across runs and machines, which makes it suitable for tests, local
+ * development and air-gapped deployments.
+ *
+ * Each token (and each adjacent token pair) is hashed into one of
+ * `dimensions` buckets with a hash-derived sign; the vector is then
+ * L2-normalized so cosine similarity behaves like the hosted models.
+ */
+
+import type { BatchEmbeddingResult, EmbeddingProvider } from '../types/embeddings';
+
+export const LOCAL_EMBEDDING_MODEL = 'hashed-bow-v1';
+export const DEFAULT_LOCAL_EMBEDDING_DIMENSIONS = 1536; // Matches voyage-large-2 so the pgvector column fits both
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip diacritics
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+}
+
+export function embedTextLocally(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+
+  const features: string[] = [...tokens];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    features.push(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    const bucket = hash % dimensions;
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[bucket] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+export function createLocalEmbeddingProvider(
+  dimensions: number = DEFAULT_LOCAL_EMBEDDING_DIMENSIONS
+): EmbeddingProvider {
+  const info = { provider: 'local' as const, model: LOCAL_EMBEDDING_MODEL, dimensions };
+
+  return {
+    info,
+
+    // Queries and documents share one vector space, so inputType is ignored
+    async embed(texts: string[]): Promise<BatchEmbeddingResult> {
+      return {
+        embeddings: texts.map(text => embedTextLocally(text, dimensions)),
+        usage: {
+          totalTokens: texts.reduce((sum, text) => sum + tokenize(text).length, 0),
+        },
+        model: info,
+      };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Embedding serialization for DocumentChunk.embedding (Bytes)
+ *
+ * Embeddings are stored as little-endian float32 arrays, independent of
+ * which provider produced them.
+ */
+
+export function serializeEmbedding(embedding: number[]): Buffer {
+  // Convert float32 array to binary buffer
+  const buffer = Buffer.allocUnsafe(embedding.length * 4);
+  for (let i = 0; i < embedding.length; i++) {
+    buffer.writeFloatLE(embedding[i], i * 4);
+  }
+  return buffer;
+}
+
+export function deserializeEmbedding(buffer: Buffer | Uint8Array): number[] {
+  // Convert binary buffer back to float32 array
+  const embedding: number[] = [];
+  
+  // Convert Uint8Array to Buffer if necessary
+  const buf = Buffer.isBuffer(buffer) ? buffer : Buffer.from(buffer);
+  
+  for (let i = 0; i < buf.length; i += 4) {
+    embedding.push(buf.readFloatLE(i));
+  }
+  return embedding;
+}
@@ -0,0 +1,53 @@
+import WordExtractor from 'word-extractor';
+import type { DocumentProcessingResult } from '../document-processing';
+
+/**
+ * Legacy Word 97-2003 documents (.doc)
+ *
+ * These are OLE compound files, not the zipped XML mammoth reads, so they go
+ * through word-extractor, which parses the WordDocument stream's piece table.
+ */
+
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// Directory entry name of the main stream, UTF-16LE; Excel and PowerPoint
+// compound files have "Workbook" and "PowerPoint Document" instead
+const WORD_DOCUMENT_STREAM = Buffer.from('WordDocument', 'utf16le');
+
+export function looksLikeWordDocument(buffer: Buffer): boolean {
+  return buffer.subarray(0, OLE_SIGNATURE.length).equals(OLE_SIGNATURE) && buffer.includes(WORD_DOCUMENT_STREAM);
+}
+
+export async function extractTextFromDOC(buffer: Buffer): Promise<DocumentProcessingResult> {
+  try {
+    const document = await new WordExtractor().extract(buffer);
+    const cleanText = [document.getBody(), document.getFootnotes(), document.getEndnotes()]
+      .join('\n\n')
+      .replace(/\r\n?/g, '\n')
+      .replace(/\n{3,}/g, '\n\n') // Reduce excessive line breaks
+      .replace(/[ \t]{2,}/g, ' ') // Reduce excessive spaces
+      .trim();
+
+    if (cleanText.length === 0) {
+      return {
+        success: false,
+        error: 'DOC contains no extractable text',
+        details: 'The document may be empty or corrupted'
+      };
+    }
+
+    return {
+      text: cleanText,
+      metadata: {
+        wordCount: cleanText.split(/\s+/).length,
+      }
+    };
+  } catch (error) {
+    console.error('DOC extraction error:', error);
+    return {
+      success: false,
+      error: 'Failed to extract text from DOC',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
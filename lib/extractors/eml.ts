@@ -0,0 +1,226 @@
+import type { DocumentProcessingResult } from '../document-processing';
+import type { EmailHeaders } from '../types/extractors';
+import { htmlToText } from './html';
+
+/**
+ * Email messages (.eml, RFC 822 / MIME)
+ *
+ * The message body becomes the document text: the text/plain part when there
+ * is one, otherwise the HTML part converted to text. Attachments are skipped.
+ * From, To, Cc, Subject, Date and Message-ID are returned as metadata rather
+ * than mixed into the body.
+ */
+
+interface MimeEntity {
+  headers: Map<string, string>;
+  body: string; // Raw (still transfer-encoded) body, as latin1
+}
+
+interface MessageBodies {
+  plain: string[];
+  html: string[];
+}
+
+const HEADER_LINE = /^([!-9;-~]+):[ \t]*(.*)$/;
+
+// Headers a real message carries besides From; notes that merely start with
+// "From:" won't have them
+const MESSAGE_HEADERS = ['message-id', 'received', 'mime-version', 'return-path', 'content-type'];
+
+/**
+ * Split a message or MIME part into unfolded headers and body
+ */
+function parseEntity(raw: string): MimeEntity {
+  const separator = raw.match(/\r?\n\r?\n/);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index! + separator[0].length) : '';
+
+  const headers = new Map<string, string>();
+  let current: string | null = null;
+  for (const line of headerBlock.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && current) {
+      // Folded continuation of the previous header
+      headers.set(current, `${headers.get(current)} ${line.trim()}`);
+      continue;
+    }
+    const match = line.match(HEADER_LINE);
+    if (!match) continue;
+    current = match[1].toLowerCase();
+    // Keep the first occurrence (Received repeats, newest first)
+    if (!headers.has(current)) headers.set(current, match[2].trim());
+    else current = null;
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Header parameter, e.g. boundary or charset from Content-Type
+ */
+function getHeaderParameter(value: string | undefined, name: string): string | undefined {
+  const match = value?.match(new RegExp(`;\\s*${name}\\*?=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return bytes.toString('utf8');
+  }
+}
+
+function decodeQuotedPrintable(text: string, isHeader = false): Buffer {
+  const source = (isHeader ? text.replace(/_/g, ' ') : text).replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const hex = source.slice(i + 1, i + 3);
+    if (source[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(source.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode RFC 2047 encoded words ("=?UTF-8?B?...?=") in a header value.
+ * Whitespace between adjacent encoded words is dropped.
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text, true);
+      return decodeCharset(bytes, charset.split('*')[0]);
+    });
+}
+
+/**
+ * Decoded text of a single-part entity
+ */
+function decodeBody(entity: MimeEntity): string {
+  const encoding = entity.headers.get('content-transfer-encoding')?.toLowerCase();
+  const charset = getHeaderParameter(entity.headers.get('content-type'), 'charset');
+
+  let bytes: Buffer;
+  if (encoding === 'base64') {
+    bytes = Buffer.from(entity.body.replace(/\s+/g, ''), 'base64');
+  } else if (encoding === 'quoted-printable') {
+    bytes = decodeQuotedPrintable(entity.body);
+  } else {
+    bytes = Buffer.from(entity.body, 'latin1');
+  }
+
+  return decodeCharset(bytes, charset);
+}
+
+/**
+ * Text and HTML bodies of an entity and its nested parts, attachments excluded
+ */
+function collectBodies(entity: MimeEntity, bodies: MessageBodies = { plain: [], html: [] }): MessageBodies {
+  const contentType = entity.headers.get('content-type') ?? 'text/plain';
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  const disposition = entity.headers.get('content-disposition')?.toLowerCase() ?? '';
+
+  if (disposition.startsWith('attachment')) return bodies;
+
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = getHeaderParameter(contentType, 'boundary');
+    if (!boundary) return bodies;
+
+    const parts = entity.body.split(new RegExp(`\\r?\\n?--${boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:--)?[ \\t]*(?:\\r?\\n|$)`));
+    // parts[0] is the preamble, the last part the epilogue
+    for (const part of parts.slice(1)) {
+      if (part.trim()) collectBodies(parseEntity(part), bodies);
+    }
+    return bodies;
+  }
+
+  if (mediaType === 'message/rfc822') {
+    return collectBodies(parseEntity(entity.body), bodies);
+  }
+
+  if (mediaType === 'text/plain') {
+    bodies.plain.push(decodeBody(entity));
+  } else if (mediaType === 'text/html') {
+    bodies.html.push(htmlToText(decodeBody(entity)));
+  }
+  return bodies;
+}
+
+/**
+ * Sender, recipients, subject and date of a message
+ */
+export function parseEmailHeaders(headers: Map<string, string>): EmailHeaders {
+  const fields: [keyof EmailHeaders, string][] = [
+    ['from', 'from'],
+    ['to', 'to'],
+    ['cc', 'cc'],
+    ['subject', 'subject'],
+    ['date', 'date'],
+    ['messageId', 'message-id'],
+  ];
+
+  const emailHeaders: EmailHeaders = {};
+  for (const [field, name] of fields) {
+    const value = headers.get(name);
+    // Raw 8-bit headers are UTF-8 (RFC 6532); the message was read as latin1
+    if (value) emailHeaders[field] = decodeHeaderValue(Buffer.from(value, 'latin1').toString('utf8'));
+  }
+  return emailHeaders;
+}
+
+/**
+ * Leading RFC 822 header block with From, Date and a transport header
+ */
+export function looksLikeEmail(buffer: Buffer): boolean {
+  const start = buffer.subarray(0, 8192).toString('latin1');
+  if (!HEADER_LINE.test(start.split(/\r?\n/, 1)[0])) return false;
+
+  const { headers } = parseEntity(start);
+  return headers.has('from') && headers.has('date') && MESSAGE_HEADERS.some(name => headers.has(name));
+}
+
+export async function extractTextFromEmail(buffer: Buffer): Promise<DocumentProcessingResult> {
+  try {
+    const message = parseEntity(buffer.toString('latin1'));
+    const emailHeaders = parseEmailHeaders(message.headers);
+    const bodies = collectBodies(message);
+
+    const text = (bodies.plain.length > 0 ? bodies.plain : bodies.html)
+      .join('\n\n')
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    if (text.length === 0) {
+      return {
+        success: false,
+        error: 'Email contains no readable body',
+        details: 'No text/plain or text/html part was found outside attachments'
+      };
+    }
+
+    return {
+      text,
+      metadata: {
+        wordCount: text.split(/\s+/).length,
+        email: emailHeaders,
+      }
+    };
+  } catch (error) {
+    console.error('Email extraction error:', error);
+    return {
+      success: false,
+      error: 'Failed to read email file',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,111 @@
+import type { DocumentProcessingResult } from '../document-processing';
+
+/**
+ * Saved HTML pages (and HTML email bodies)
+ *
+ * Scripts, styles and other non-content elements are dropped, block elements
+ * become line breaks and list items get a bullet, so the text keeps the
+ * page's paragraph structure for chunking.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+};
+
+const SKIPPED_ELEMENTS = /<(script|style|noscript|template|svg|head|iframe)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const BLOCK_ELEMENTS = /<\/?(p|div|section|article|aside|header|footer|main|nav|blockquote|pre|h[1-6]|ul|ol|table|tr|form|fieldset|figure|figcaption|hr|dl|dt|dd)\b[^>]*>/gi;
+
+/**
+ * Decode numeric and common named character references (XML and HTML)
+ */
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&([a-z]+);/gi, (entity, name: string) => NAMED_ENTITIES[name.toLowerCase()] ?? entity);
+}
+
+/**
+ * Readable text of an HTML document or fragment
+ */
+export function htmlToText(html: string): string {
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(SKIPPED_ELEMENTS, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n• ')
+    .replace(/<\/t[dh]\s*>/gi, ' ')
+    .replace(BLOCK_ELEMENTS, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  const text = decodeEntities(body)
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  // Saved pages often repeat the title as their first heading
+  const cleanTitle = title ? decodeEntities(title).replace(/\s+/g, ' ').trim() : '';
+  if (cleanTitle && !text.startsWith(cleanTitle)) {
+    return text ? `${cleanTitle}\n\n${text}` : cleanTitle;
+  }
+  return text;
+}
+
+/**
+ * Leading markup that identifies an HTML page regardless of its extension
+ */
+export function looksLikeHTML(buffer: Buffer): boolean {
+  const start = buffer.subarray(0, 512).toString('utf8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  return start.startsWith('<!doctype html') || start.startsWith('<html');
+}
+
+export async function extractTextFromHTML(buffer: Buffer): Promise<DocumentProcessingResult> {
+  try {
+    const text = htmlToText(buffer.toString('utf8'));
+
+    if (text.length === 0) {
+      return {
+        success: false,
+        error: 'HTML page contains no text',
+        details: 'Only markup, scripts or styles were found'
+      };
+    }
+
+    return {
+      text,
+      metadata: {
+        wordCount: text.split(/\s+/).length,
+      }
+    };
+  } catch (error) {
+    console.error('HTML extraction error:', error);
+    return {
+      success: false,
+      error: 'Failed to read HTML file',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
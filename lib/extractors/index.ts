@@ -0,0 +1,173 @@
+import type { DocumentExtractor } from '../types/extractors';
+import {
+  extractTextFromDOCX,
+  extractTextFromImage,
+  extractTextFromPDF,
+  extractTextFromSpreadsheet,
+  extractTextFromTranscript,
+  extractTextFromTXT,
+} from '../document-processing';
+import { extractTextFromDOC, looksLikeWordDocument } from './doc';
+import { extractTextFromEmail, looksLikeEmail } from './eml';
+import { extractTextFromHTML, looksLikeHTML } from './html';
+import { extractTextFromOpenDocument, getOpenDocumentFormat } from './opendocument';
+import { extractTextFromPPTX } from './pptx';
+import { extractTextFromRTF, looksLikeRTF } from './rtf';
+
+/**
+ * Document Extractor Registry
+ *
+ * Every supported upload format, in detection order. An upload is matched by
+ * its content first (magic bytes, or a leading marker for text formats), so
+ * a mislabelled file still reaches the right extractor; the file extension
+ * and then the browser MIME type are only used for formats without a
+ * signature and for files too damaged to recognize.
+ *
+ * To support a new format, add an extractor here.
+ */
+
+const ZIP_SIGNATURE = Buffer.from('PK\x03\x04', 'latin1');
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+function startsWith(buffer: Buffer, signature: Buffer): boolean {
+  return buffer.subarray(0, signature.length).equals(signature);
+}
+
+/**
+ * Office Open XML packages are zips told apart by their main part; entry
+ * names are stored uncompressed, so no unzipping is needed
+ */
+function hasZipEntry(buffer: Buffer, entryName: string): boolean {
+  return startsWith(buffer, ZIP_SIGNATURE) && buffer.includes(entryName);
+}
+
+// Leading text with any byte-order mark removed
+function leadingText(buffer: Buffer, length = 64): string {
+  return buffer.subarray(0, length).toString('utf8').replace(/^\uFEFF/, '');
+}
+
+export const DOCUMENT_EXTRACTORS: DocumentExtractor[] = [
+  {
+    format: 'pdf',
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+    // Some writers put junk before the header; readers accept it within 1 KB
+    detect: buffer => buffer.subarray(0, 1024).includes('%PDF-'),
+    extract: buffer => extractTextFromPDF(buffer),
+  },
+  {
+    format: 'image',
+    mimeTypes: ['image/png', 'image/jpeg'],
+    extensions: ['png', 'jpg', 'jpeg'],
+    detect: buffer => startsWith(buffer, PNG_SIGNATURE) || startsWith(buffer, JPEG_SIGNATURE),
+    extract: buffer => extractTextFromImage(buffer),
+  },
+  {
+    format: 'docx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['docx'],
+    detect: buffer => hasZipEntry(buffer, 'word/document.xml'),
+    extract: buffer => extractTextFromDOCX(buffer),
+  },
+  {
+    format: 'pptx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+    extensions: ['pptx'],
+    detect: buffer => hasZipEntry(buffer, 'ppt/presentation.xml'),
+    extract: buffer => extractTextFromPPTX(buffer),
+  },
+  {
+    format: 'xlsx',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    extensions: ['xlsx'],
+    detect: buffer => hasZipEntry(buffer, 'xl/workbook.xml'),
+    extract: (buffer, options) => extractTextFromSpreadsheet(buffer, 'xlsx', options.surveyMapping),
+  },
+  {
+    format: 'odt',
+    mimeTypes: ['application/vnd.oasis.opendocument.text'],
+    extensions: ['odt'],
+    detect: buffer => getOpenDocumentFormat(buffer) === 'odt',
+    extract: buffer => extractTextFromOpenDocument(buffer, 'odt'),
+  },
+  {
+    format: 'odp',
+    mimeTypes: ['application/vnd.oasis.opendocument.presentation'],
+    extensions: ['odp'],
+    detect: buffer => getOpenDocumentFormat(buffer) === 'odp',
+    extract: buffer => extractTextFromOpenDocument(buffer, 'odp'),
+  },
+  {
+    format: 'doc',
+    mimeTypes: ['application/msword'],
+    extensions: ['doc'],
+    detect: looksLikeWordDocument,
+    extract: buffer => extractTextFromDOC(buffer),
+  },
+  {
+    format: 'rtf',
+    mimeTypes: ['application/rtf', 'text/rtf'],
+    extensions: ['rtf'],
+    detect: looksLikeRTF,
+    extract: buffer => extractTextFromRTF(buffer),
+  },
+  {
+    format: 'eml',
+    mimeTypes: ['message/rfc822'],
+    extensions: ['eml'],
+    detect: looksLikeEmail,
+    extract: buffer => extractTextFromEmail(buffer),
+  },
+  {
+    format: 'html',
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extensions: ['html', 'htm', 'xhtml'],
+    detect: looksLikeHTML,
+    extract: buffer => extractTextFromHTML(buffer),
+  },
+  {
+    format: 'vtt',
+    mimeTypes: ['text/vtt'],
+    extensions: ['vtt'],
+    detect: buffer => /^WEBVTT(?:[ \t\r\n]|$)/.test(leadingText(buffer)),
+    extract: buffer => extractTextFromTranscript(buffer, 'vtt'),
+  },
+  {
+    format: 'srt',
+    mimeTypes: ['application/x-subrip'],
+    extensions: ['srt'],
+    // Counter line, then the first cue timing
+    detect: buffer => /^\d+\r?\n\d{2}:\d{2}:\d{2},\d{3} --> /.test(leadingText(buffer)),
+    extract: buffer => extractTextFromTranscript(buffer, 'srt'),
+  },
+  {
+    format: 'csv',
+    mimeTypes: ['text/csv'],
+    extensions: ['csv'],
+    extract: (buffer, options) => extractTextFromSpreadsheet(buffer, 'csv', options.surveyMapping),
+  },
+  {
+    format: 'text',
+    mimeTypes: ['text/plain', 'text/markdown'],
+    extensions: ['txt', 'md', 'markdown'],
+    extract: buffer => extractTextFromTXT(buffer),
+  },
+];
+
+/**
+ * Extractor for an upload: by content, then extension, then MIME type.
+ * Returns null for unsupported files.
+ */
+export function getDocumentExtractor(buffer: Buffer, mimeType: string, fileName: string): DocumentExtractor | null {
+  const detected = DOCUMENT_EXTRACTORS.find(extractor => extractor.detect?.(buffer));
+  if (detected) return detected;
+
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  const baseMimeType = mimeType.split(';')[0].trim().toLowerCase();
+
+  return DOCUMENT_EXTRACTORS.find(extractor => extractor.extensions.includes(extension))
+    ?? DOCUMENT_EXTRACTORS.find(extractor => extractor.mimeTypes.includes(baseMimeType))
+    // Any other text/* type is read as plain text
+    ?? (baseMimeType.startsWith('text/') ? DOCUMENT_EXTRACTORS.find(extractor => extractor.format === 'text')! : null);
+}
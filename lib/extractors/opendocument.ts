@@ -0,0 +1,135 @@
+import JSZip from 'jszip';
+import type { DocumentProcessingResult } from '../document-processing';
+import { decodeEntities } from './html';
+import { cleanSlideText, formatSlides, type SlideContent } from './slides';
+
+/**
+ * OpenDocument text (.odt) and presentations (.odp)
+ *
+ * Both keep their content in content.xml. Text documents are read paragraph
+ * by paragraph (headings, lists and table cells included); presentations
+ * slide by slide, with speaker notes, in the same layout as PowerPoint decks.
+ */
+
+export type OpenDocumentFormat = 'odt' | 'odp';
+
+const OPENDOCUMENT_MIME_TYPES: Record<OpenDocumentFormat, string> = {
+  odt: 'application/vnd.oasis.opendocument.text',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+};
+
+/**
+ * ODF packages store their MIME type uncompressed as the first zip entry,
+ * so it can be read straight from the local file header
+ */
+export function getOpenDocumentFormat(buffer: Buffer): OpenDocumentFormat | null {
+  if (buffer.subarray(30, 38).toString('latin1') !== 'mimetype') return null;
+
+  const mimeType = buffer.subarray(38, 38 + 80).toString('latin1');
+  if (mimeType.startsWith(OPENDOCUMENT_MIME_TYPES.odt) && !mimeType.startsWith(`${OPENDOCUMENT_MIME_TYPES.odt}-`)) {
+    return 'odt';
+  }
+  if (mimeType.startsWith(OPENDOCUMENT_MIME_TYPES.odp) && !mimeType.startsWith(`${OPENDOCUMENT_MIME_TYPES.odp}-`)) {
+    return 'odp';
+  }
+  return null;
+}
+
+/**
+ * Plain text of an ODF content fragment, one line per paragraph or heading
+ */
+export function readOpenDocumentText(xml: string): string {
+  const text = xml
+    .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, '')
+    .replace(/<text:tab\s*\/>/g, '\t')
+    .replace(/<text:line-break\s*\/>/g, '\n')
+    .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count?: string) => ' '.repeat(count ? parseInt(count, 10) : 1))
+    .replace(/<\/text:(?:p|h)>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return cleanSlideText(decodeEntities(text));
+}
+
+function readPresentation(content: string): SlideContent[] {
+  return Array.from(content.matchAll(/<draw:page\b[^>]*>([\s\S]*?)<\/draw:page>/g)).map(match => {
+    const page = match[1];
+    const notes = page.match(/<presentation:notes\b[^>]*>([\s\S]*?)<\/presentation:notes>/)?.[1];
+    const slide = notes ? page.replace(/<presentation:notes\b[\s\S]*?<\/presentation:notes>/, '') : page;
+
+    const titleFrame = Array.from(slide.matchAll(/<draw:frame\b[^>]*>[\s\S]*?<\/draw:frame>/g))
+      .map(frame => frame[0])
+      .find(frame => /^<draw:frame\b[^>]*presentation:class="title"/.test(frame));
+    const title = titleFrame ? readOpenDocumentText(titleFrame).replace(/\n+/g, ' ') : '';
+
+    return {
+      title: title || undefined,
+      body: readOpenDocumentText(titleFrame ? slide.replace(titleFrame, '') : slide),
+      notes: notes ? readOpenDocumentText(notes) || undefined : undefined,
+    };
+  });
+}
+
+export async function extractTextFromOpenDocument(
+  buffer: Buffer,
+  format: OpenDocumentFormat
+): Promise<DocumentProcessingResult> {
+  const label = format.toUpperCase();
+
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const content = await zip.file('content.xml')?.async('string');
+    if (!content) {
+      return {
+        success: false,
+        error: `${label} file has no content`,
+        details: 'content.xml is missing from the package'
+      };
+    }
+
+    const body = content.match(/<office:body\b[^>]*>([\s\S]*)<\/office:body>/)?.[1] ?? content;
+
+    if (format === 'odp') {
+      const slides = readPresentation(body);
+      if (!slides.some(slide => slide.title || slide.body || slide.notes)) {
+        return {
+          success: false,
+          error: 'Presentation contains no extractable text',
+          details: slides.length === 0 ? 'No slides were found' : 'The slides may contain only images'
+        };
+      }
+
+      const { text, pageOffsets } = formatSlides(slides);
+      return {
+        text,
+        metadata: {
+          pageCount: slides.length,
+          pageOffsets,
+          wordCount: text.split(/\s+/).length,
+        }
+      };
+    }
+
+    const text = readOpenDocumentText(body);
+    if (text.length === 0) {
+      return {
+        success: false,
+        error: `${label} contains no extractable text`,
+        details: 'The document may be empty or corrupted'
+      };
+    }
+
+    return {
+      text,
+      metadata: {
+        wordCount: text.split(/\s+/).length,
+      }
+    };
+  } catch (error) {
+    console.error(`${label} extraction error:`, error);
+    return {
+      success: false,
+      error: `Failed to extract text from ${label}`,
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
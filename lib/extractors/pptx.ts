@@ -0,0 +1,142 @@
+import path from 'path';
+import JSZip from 'jszip';
+import type { DocumentProcessingResult } from '../document-processing';
+import { decodeEntities } from './html';
+import { cleanSlideText, formatSlides, type SlideContent } from './slides';
+
+/**
+ * PowerPoint decks (.pptx)
+ *
+ * Slides are read in presentation order (p:sldIdLst, resolved through the
+ * presentation relationships) with the title placeholder as the heading and
+ * the remaining shapes and tables as body text. Speaker notes come from each
+ * slide's notesSlide part.
+ */
+
+const TITLE_PLACEHOLDER = /<p:ph\b[^>]*\btype="(?:title|ctrTitle)"/;
+const SHAPE = /<p:sp\b[\s\S]*?<\/p:sp>/g;
+
+/**
+ * Map of relationship id to part path, from a .rels part
+ */
+function readRelationships(xml: string | undefined, basePath: string): Map<string, { type: string; target: string }> {
+  const relationships = new Map<string, { type: string; target: string }>();
+  for (const match of (xml ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = match[0].match(/\bId="([^"]+)"/)?.[1];
+    const type = match[0].match(/\bType="([^"]+)"/)?.[1] ?? '';
+    const target = match[0].match(/\bTarget="([^"]+)"/)?.[1];
+    if (!id || !target || /\bTargetMode="External"/.test(match[0])) continue;
+
+    relationships.set(id, {
+      type,
+      target: target.startsWith('/')
+        ? target.slice(1)
+        : path.posix.normalize(path.posix.join(path.posix.dirname(basePath), target)),
+    });
+  }
+  return relationships;
+}
+
+function relationshipsPath(partPath: string): string {
+  return path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`);
+}
+
+/**
+ * Text of DrawingML paragraphs, one line each. Slide-number fields are left
+ * out; they would otherwise repeat on every slide and notes page.
+ */
+function readParagraphs(xml: string): string {
+  const paragraphs = Array.from(xml.matchAll(/<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g)).map(match => {
+    const paragraph = match[1]
+      .replace(/<a:fld\b[^>]*type="slidenum"[^>]*>[\s\S]*?<\/a:fld>/g, '')
+      .replace(/<a:br\b[^>]*\/>/g, '\n');
+    return Array.from(paragraph.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|\n/g))
+      .map(run => (run[0] === '\n' ? '\n' : decodeEntities(run[1])))
+      .join('');
+  });
+  return cleanSlideText(paragraphs.join('\n'));
+}
+
+async function readPart(zip: JSZip, partPath: string): Promise<string | undefined> {
+  return zip.file(partPath)?.async('string');
+}
+
+/**
+ * Slide part paths in presentation order
+ */
+async function findSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentation = await readPart(zip, 'ppt/presentation.xml');
+  const relationships = readRelationships(
+    await readPart(zip, relationshipsPath('ppt/presentation.xml')),
+    'ppt/presentation.xml'
+  );
+
+  const ordered = Array.from((presentation ?? '').matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g))
+    .map(match => relationships.get(match[1])?.target)
+    .filter((target): target is string => !!target && !!zip.file(target));
+  if (ordered.length > 0) return ordered;
+
+  // No usable slide list: fall back to part names (slide1.xml, slide2.xml, ...)
+  return Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.match(/(\d+)\.xml$/)![1], 10) - parseInt(b.match(/(\d+)\.xml$/)![1], 10));
+}
+
+async function readSlide(zip: JSZip, slidePath: string): Promise<SlideContent> {
+  const xml = (await readPart(zip, slidePath)) ?? '';
+  const titleShape = Array.from(xml.matchAll(SHAPE)).find(match => TITLE_PLACEHOLDER.test(match[0]))?.[0];
+  const title = titleShape ? readParagraphs(titleShape).replace(/\n+/g, ' ') : undefined;
+  const body = readParagraphs(titleShape ? xml.replace(titleShape, '') : xml);
+
+  const relationships = readRelationships(await readPart(zip, relationshipsPath(slidePath)), slidePath);
+  const notesPath = Array.from(relationships.values()).find(rel => rel.type.endsWith('/notesSlide'))?.target;
+  const notesXml = notesPath ? await readPart(zip, notesPath) : undefined;
+
+  let notes: string | undefined;
+  if (notesXml) {
+    // The body placeholder holds the notes; the rest is the slide thumbnail and number
+    const notesShapes = Array.from(notesXml.matchAll(SHAPE))
+      .map(match => match[0])
+      .filter(shape => /<p:ph\b[^>]*\btype="body"/.test(shape));
+    notes = readParagraphs(notesShapes.length > 0 ? notesShapes.join('') : notesXml) || undefined;
+  }
+
+  return { title: title || undefined, body, notes };
+}
+
+export async function extractTextFromPPTX(buffer: Buffer): Promise<DocumentProcessingResult> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const slidePaths = await findSlidePaths(zip);
+
+    const slides: SlideContent[] = [];
+    for (const slidePath of slidePaths) {
+      slides.push(await readSlide(zip, slidePath));
+    }
+
+    if (!slides.some(slide => slide.title || slide.body || slide.notes)) {
+      return {
+        success: false,
+        error: 'Presentation contains no extractable text',
+        details: slides.length === 0 ? 'No slides were found' : 'The slides may contain only images'
+      };
+    }
+
+    const { text, pageOffsets } = formatSlides(slides);
+    return {
+      text,
+      metadata: {
+        pageCount: slides.length,
+        pageOffsets,
+        wordCount: text.split(/\s+/).length,
+      }
+    };
+  } catch (error) {
+    console.error('PPTX extraction error:', error);
+    return {
+      success: false,
+      error: 'Failed to extract text from PPTX',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,178 @@
+import type { DocumentProcessingResult } from '../document-processing';
+
+/**
+ * Rich Text Format
+ *
+ * A small RTF reader: control words for paragraphs, tabs, quotes and dashes
+ * become text, \'hh escapes are decoded with the document's ANSI code page
+ * and \uN escapes as Unicode. Font/colour tables, pictures, embedded objects,
+ * headers/footers and other destinations are skipped.
+ */
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number; // \ucN: fallback characters following each \uN
+}
+
+// Destinations whose content isn't document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'objdata',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'fldinst', 'themedata', 'colorschememapping', 'latentstyles', 'datastore',
+  'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'filetbl', 'revtbl',
+  'xmlnstbl', 'mmathPr',
+]);
+
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n\n',
+  page: '\n\n',
+  row: '\n',
+  cell: ' ',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  bullet: '•',
+};
+
+export function looksLikeRTF(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString('latin1') === '{\\rtf';
+}
+
+function createDecoder(codePage: number): TextDecoder {
+  try {
+    return new TextDecoder(`windows-${codePage}`);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
+
+/**
+ * Plain text of an RTF document
+ */
+export function rtfToText(rtf: string): string {
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let decoder = createDecoder(1252);
+  let pendingSkip = 0; // Fallback characters still to drop after a \uN
+  let output = '';
+
+  const emit = (text: string) => {
+    if (!state.skip) output += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      i++;
+      continue;
+    }
+    if (char === '}') {
+      state = stack.pop() ?? state;
+      pendingSkip = 0;
+      i++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      if (pendingSkip > 0) pendingSkip--;
+      else emit(char);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+
+    if (next === "'") {
+      // \'hh: a byte in the ANSI code page
+      const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+      if (pendingSkip > 0) pendingSkip--;
+      else if (!isNaN(byte)) emit(decoder.decode(new Uint8Array([byte])));
+      i += 4;
+      continue;
+    }
+
+    if (next === '*') {
+      // Ignorable destination unknown readers should skip
+      state.skip = true;
+      i += 2;
+      continue;
+    }
+
+    if (next === undefined || !/[a-z]/i.test(next)) {
+      // Control symbols
+      if (next === '\\' || next === '{' || next === '}') emit(next);
+      else if (next === '~') emit(' ');
+      else if (next === '_') emit('-');
+      else if (next === '\n' || next === '\r') emit('\n');
+      i += 2;
+      continue;
+    }
+
+    const match = rtf.slice(i + 1, i + 40).match(/^([a-z]+)(-?\d+)? ?/i);
+    const word = match![1];
+    const parameter = match![2] !== undefined ? parseInt(match![2], 10) : undefined;
+    i += 1 + match![0].length;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (word === 'ansicpg' && parameter !== undefined) {
+      decoder = createDecoder(parameter);
+    } else if (word === 'uc' && parameter !== undefined) {
+      state.unicodeSkip = parameter;
+    } else if (word === 'u' && parameter !== undefined) {
+      emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+      pendingSkip = state.unicodeSkip;
+    } else if (word in CONTROL_WORD_TEXT) {
+      emit(CONTROL_WORD_TEXT[word]);
+    }
+  }
+
+  return output
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export async function extractTextFromRTF(buffer: Buffer): Promise<DocumentProcessingResult> {
+  try {
+    // RTF is 7-bit; anything else is escaped
+    const text = rtfToText(buffer.toString('latin1'));
+
+    if (text.length === 0) {
+      return {
+        success: false,
+        error: 'RTF contains no extractable text',
+        details: 'The document may be empty or contain only images'
+      };
+    }
+
+    return {
+      text,
+      metadata: {
+        wordCount: text.split(/\s+/).length,
+      }
+    };
+  } catch (error) {
+    console.error('RTF extraction error:', error);
+    return {
+      success: false,
+      error: 'Failed to read RTF file',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Shared layout for slide decks (PowerPoint, OpenDocument presentations)
+ *
+ * Each slide becomes a "Slide N: Title" block followed by its text and, when
+ * present, its speaker notes. Slides are recorded as pages, so citations and
+ * the document viewer can point at "p. 3" for the third slide.
+ */
+
+export interface SlideContent {
+  title?: string;
+  body: string;
+  notes?: string;
+}
+
+export function formatSlides(slides: SlideContent[]): { text: string; pageOffsets: number[] } {
+  const pageOffsets: number[] = [];
+  let text = '';
+
+  slides.forEach((slide, index) => {
+    const heading = slide.title ? `Slide ${index + 1}: ${slide.title}` : `Slide ${index + 1}`;
+    const sections = [heading, slide.body, slide.notes && `Speaker notes:\n${slide.notes}`].filter(Boolean);
+
+    if (text.length > 0) text += '\n\n';
+    pageOffsets.push(text.length);
+    text += sections.join('\n\n');
+  });
+
+  return { text, pageOffsets };
+}
+
+/**
+ * Trim each line and collapse blank runs in slide or notes text
+ */
+export function cleanSlideText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -5,11 +5,12 @@
  * development (filesystem) and production (Vercel Blob) environments.
  */
 
-import { writeFile, mkdir } from "fs/promises";
+import { writeFile, mkdir, readFile } from "fs/promises";
 import { join } from "path";
 import { put, del } from "@vercel/blob";
 import type { PutBlobResult } from "@vercel/blob";
 import type { NextRequest } from "next/server";
+import { MAX_FILE_SIZE, SUPPORTED_FILE_EXTENSIONS, SUPPORTED_FILE_TYPES } from "./constants";
 
 export interface StorageResult {
   url: string;
@@ -89,6 +90,36 @@ export async function deleteFile(pathname: string): Promise<void> {
   }
 }
 
+/**
+ * Read a stored file back into memory
+ *
+ * Used by background ingestion, which runs after the upload request that
+ * received the bytes has finished.
+ */
+export async function readStoredFile(file: {
+  storageType: string;
+  storagePath: string | null;
+  storageUrl: string | null;
+}): Promise<Buffer> {
+  if (file.storageType === "vercel-blob") {
+    if (!file.storageUrl) {
+      throw new Error("Stored file has no blob URL");
+    }
+
+    const response = await fetch(file.storageUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download stored file: ${response.status} ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  if (!file.storagePath) {
+    throw new Error("Stored file has no filesystem path");
+  }
+
+  return readFile(file.storagePath);
+}
+
 /**
  * Store file in Vercel Blob (production)
  */
@@ -97,10 +128,7 @@ async function storeInVercelBlob(
   buffer: Buffer,
   studyId: string
 ): Promise<StorageResult> {
-  // Create a unique path with study scoping and timestamp
-  const timestamp = Date.now();
-  const safeName = fileName.replace(/[^a-zA-Z0-9.-]/g, "_");
-  const blobPath = `studies/${studyId}/${timestamp}_${safeName}`;
+  const blobPath = createBlobPath(fileName, studyId);
   
   const result: PutBlobResult = await put(blobPath, buffer, {
     access: "public", // Files are public for MVP (will be private with auth in future)
@@ -114,6 +142,15 @@ async function storeInVercelBlob(
   };
 }
 
+/**
+ * Unique blob pathname with study scoping and timestamp
+ */
+export function createBlobPath(fileName: string, studyId: string): string {
+  const timestamp = Date.now();
+  const safeName = fileName.replace(/[^a-zA-Z0-9.-]/g, "_");
+  return `studies/${studyId}/${timestamp}_${safeName}`;
+}
+
 /**
  * Store file in local filesystem (development)
  */
@@ -122,6 +159,23 @@ async function storeInFilesystem(
   buffer: Buffer,
   studyId: string
 ): Promise<StorageResult> {
+  const target = await createFilesystemTarget(fileName, studyId);
+  
+  // Write file to filesystem
+  await writeFile(target.pathname, buffer);
+  
+  return { ...target, size: buffer.length };
+}
+
+/**
+ * Reserve a unique path for a file in local filesystem storage
+ *
+ * Shared with resumable uploads, which move their assembled file here.
+ */
+export async function createFilesystemTarget(
+  fileName: string,
+  studyId: string
+): Promise<Omit<StorageResult, "size">> {
   // Create dev-uploads directory structure if it doesn't exist
   const uploadsDir = join(process.cwd(), "dev-uploads", studyId);
   await mkdir(uploadsDir, { recursive: true });
@@ -130,15 +184,10 @@ async function storeInFilesystem(
   const timestamp = Date.now();
   const safeName = fileName.replace(/[^a-zA-Z0-9.-]/g, "_");
   const uniqueFileName = `${timestamp}_${safeName}`;
-  const filePath = join(uploadsDir, uniqueFileName);
-  
-  // Write file to filesystem
-  await writeFile(filePath, buffer);
   
   return {
     url: `/api/files/${studyId}/${uniqueFileName}`, // URL for serving via Next.js API
-    size: buffer.length,
-    pathname: filePath, // Full filesystem path for deletion
+    pathname: join(uploadsDir, uniqueFileName), // Full filesystem path for deletion
   };
 }
 
@@ -158,21 +207,24 @@ export function getFileUrl(pathname: string): string {
 
 /**
  * Validate file before storage
+ *
+ * Resumable uploads validate the declared name, type and size before any
+ * bytes arrive, with their own size limit.
  */
-export function validateFile(file: File): { valid: boolean; error?: string } {
-  const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-  const ALLOWED_TYPES = [
-    "application/pdf",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    "text/plain",
-  ];
-
-  if (file.size > MAX_SIZE) {
-    return { valid: false, error: "File size exceeds 10MB limit" };
+export function validateFile(
+  file: Pick<File, "name" | "type" | "size">,
+  maxSize: number = MAX_FILE_SIZE
+): { valid: boolean; error?: string } {
+  const ALLOWED_TYPES: readonly string[] = SUPPORTED_FILE_TYPES;
+  const ALLOWED_EXTENSIONS: readonly string[] = SUPPORTED_FILE_EXTENSIONS;
+  const extension = file.name ? `.${file.name.toLowerCase().split(".").pop()}` : "";
+
+  if (file.size > maxSize) {
+    return { valid: false, error: `File size exceeds ${Math.round(maxSize / (1024 * 1024))}MB limit` };
   }
 
-  if (!ALLOWED_TYPES.includes(file.type)) {
-    return { valid: false, error: "File type not supported. Only PDF, DOCX, and TXT files are allowed." };
+  if (!ALLOWED_TYPES.includes(file.type) && !ALLOWED_EXTENSIONS.includes(extension)) {
+    return { valid: false, error: "File type not supported. Only PDF, Word, PowerPoint, OpenDocument, RTF, HTML, EML, TXT, VTT, SRT, CSV, XLSX, PNG and JPEG files are allowed." };
   }
 
   return { valid: true };
@@ -5,8 +5,12 @@
  * and production storage systems with detailed error reporting.
  */
 
+import { readdir, rm, stat } from "fs/promises";
+import { join } from "path";
 import { deleteFile } from "../file-storage";
 import { prisma } from "../prisma";
+import { UPLOAD_SESSION_TTL_MS } from "../resumable-upload";
+import { deleteAssembledUpload, getResumableBackend, PARTIAL_UPLOADS_DIR } from "./resumable";
 
 export interface CleanupResult {
   success: boolean;
@@ -104,6 +108,7 @@ export async function batchDeleteDocuments(
         id: true,
         storagePath: true,
         fileName: true,
+        versions: { select: { storagePath: true } },
       }
     });
 
@@ -129,9 +134,15 @@ export async function batchDeleteDocuments(
 
     // Clean up files for successfully deleted documents
     for (const document of documents) {
-      if (document.storagePath) {
+      // Include files of replaced versions
+      const storagePaths: Array<string | null> = [
+        document.storagePath,
+        ...document.versions.map((version: { storagePath: string | null }) => version.storagePath),
+      ];
+      for (const storagePath of storagePaths) {
+        if (!storagePath) continue;
         try {
-          await deleteFile(document.storagePath);
+          await deleteFile(storagePath);
           console.log(`Batch cleanup: Deleted file for ${document.fileName}`);
         } catch (fileError) {
           const errorMsg = `Failed to delete file for ${document.fileName}: ${fileError instanceof Error ? fileError.message : 'Unknown error'}`;
@@ -150,6 +161,92 @@ export async function batchDeleteDocuments(
   }
 }
 
+/**
+ * Garbage-collect abandoned resumable uploads
+ *
+ * Removes expired upload sessions with their partial chunks, or with the
+ * assembled file when the upload finished but no batch ever claimed it.
+ * Partial files on disk with no session left (e.g. the row was deleted by
+ * a study cascade) are removed once they are older than the session TTL.
+ */
+export async function cleanupAbandonedUploads(now: Date = new Date()): Promise<BatchCleanupResult> {
+  const result: BatchCleanupResult = {
+    deletedCount: 0,
+    errors: []
+  };
+
+  try {
+    const expiredSessions = await prisma.uploadSession.findMany({
+      where: { expiresAt: { lt: now } },
+      select: {
+        id: true,
+        status: true,
+        storageType: true,
+        storagePath: true,
+        storageUrl: true,
+      }
+    });
+
+    for (const session of expiredSessions) {
+      try {
+        if (session.status === 'UPLOADING') {
+          await getResumableBackend(session.storageType).discard(session.id);
+        } else {
+          await deleteAssembledUpload(session);
+        }
+        await prisma.uploadSession.delete({ where: { id: session.id } });
+        result.deletedCount++;
+      } catch (error) {
+        const errorMsg = `Failed to clean up upload ${session.id}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        result.errors.push(errorMsg);
+        console.error(errorMsg);
+      }
+    }
+
+    result.deletedCount += await cleanupStrayPartialFiles(now, result.errors);
+
+    if (result.deletedCount > 0) {
+      console.log(`Upload cleanup: Removed ${result.deletedCount} abandoned uploads`);
+    }
+    return result;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    result.errors.push(`Upload cleanup failed: ${errorMessage}`);
+    console.error('Abandoned upload cleanup error:', error);
+    return result;
+  }
+}
+
+async function cleanupStrayPartialFiles(now: Date, errors: string[]): Promise<number> {
+  let fileNames: string[];
+  try {
+    fileNames = await readdir(PARTIAL_UPLOADS_DIR);
+  } catch {
+    return 0; // No filesystem uploads yet
+  }
+
+  const liveSessions: Array<{ id: string }> = await prisma.uploadSession.findMany({
+    where: { id: { in: fileNames } },
+    select: { id: true }
+  });
+  const liveIds = new Set(liveSessions.map(session => session.id));
+
+  let deletedCount = 0;
+  for (const fileName of fileNames.filter(name => !liveIds.has(name))) {
+    const partialPath = join(PARTIAL_UPLOADS_DIR, fileName);
+    try {
+      const { mtime } = await stat(partialPath);
+      if (now.getTime() - mtime.getTime() > UPLOAD_SESSION_TTL_MS) {
+        await rm(partialPath, { force: true });
+        deletedCount++;
+      }
+    } catch (error) {
+      errors.push(`Failed to remove partial upload ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+  return deletedCount;
+}
+
 /**
  * Verify file exists in storage (useful for debugging)
  */
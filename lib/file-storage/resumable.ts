@@ -0,0 +1,181 @@
+/**
+ * Resumable Upload Storage
+ *
+ * Storage backends for resumable uploads. The client sends a file in chunks
+ * at increasing byte offsets (tus-style); each chunk is written to a partial
+ * upload that survives between requests, and once the last chunk arrives
+ * the chunks are reassembled into a stored file like any other upload.
+ *
+ * The received offset is tracked on the UploadSession row, not here. A chunk
+ * whose write succeeded but whose offset update didn't is simply sent again,
+ * so backends must let a chunk overwrite an earlier attempt at its offset.
+ */
+
+import { mkdir, open, rename, rm, unlink } from "fs/promises";
+import { join } from "path";
+import { completeMultipartUpload, createMultipartUpload, del, list, put, uploadPart } from "@vercel/blob";
+import type { Part } from "@vercel/blob";
+import { createBlobPath, createFilesystemTarget, type StorageResult } from "../file-storage";
+
+export interface ResumableStorageBackend {
+  // Write a chunk at its byte offset, replacing anything after it
+  writeChunk(uploadId: string, offset: number, chunk: Buffer): Promise<void>;
+  // Reassemble the first `size` bytes into the study's storage
+  complete(uploadId: string, size: number, fileName: string, studyId: string): Promise<StorageResult>;
+  // Remove whatever the partial upload left behind
+  discard(uploadId: string): Promise<void>;
+}
+
+// Partial uploads live beside the study folders; the leading dot keeps them
+// out of the dev file cleanup, which only knows about documents
+export const PARTIAL_UPLOADS_DIR = join(process.cwd(), "dev-uploads", ".partial");
+
+function getPartialPath(uploadId: string): string {
+  return join(PARTIAL_UPLOADS_DIR, uploadId);
+}
+
+/**
+ * Filesystem: one partial file per upload, written at chunk offsets and
+ * moved into the study folder when complete
+ */
+const filesystemBackend: ResumableStorageBackend = {
+  async writeChunk(uploadId, offset, chunk) {
+    await mkdir(PARTIAL_UPLOADS_DIR, { recursive: true });
+
+    const partialPath = getPartialPath(uploadId);
+    const handle = await open(partialPath, "r+").catch(error => {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return open(partialPath, "w");
+      throw error;
+    });
+
+    try {
+      await handle.write(chunk, 0, chunk.length, offset);
+      await handle.truncate(offset + chunk.length);
+    } finally {
+      await handle.close();
+    }
+  },
+
+  async complete(uploadId, size, fileName, studyId) {
+    const target = await createFilesystemTarget(fileName, studyId);
+    await rename(getPartialPath(uploadId), target.pathname);
+    return { ...target, size };
+  },
+
+  async discard(uploadId) {
+    await rm(getPartialPath(uploadId), { force: true });
+  },
+};
+
+// Blob multipart parts must be at least 5MB, except the last
+const MIN_BLOB_PART_SIZE = 5 * 1024 * 1024;
+
+function getStagingPrefix(uploadId: string): string {
+  return `uploads/${uploadId}/`;
+}
+
+async function listStagedChunks(uploadId: string) {
+  const blobs = [];
+  let cursor: string | undefined;
+  do {
+    const page = await list({ prefix: getStagingPrefix(uploadId), cursor });
+    blobs.push(...page.blobs);
+    cursor = page.hasMore ? page.cursor : undefined;
+  } while (cursor);
+
+  // Pathnames end in the chunk's byte offset
+  return blobs.map(blob => ({
+    url: blob.url,
+    size: blob.size,
+    offset: Number(blob.pathname.slice(getStagingPrefix(uploadId).length)),
+  }));
+}
+
+/**
+ * Vercel Blob: each chunk is staged as its own blob, then streamed into a
+ * multipart upload (regrouped into parts of at least 5MB) on completion
+ */
+const vercelBlobBackend: ResumableStorageBackend = {
+  async writeChunk(uploadId, offset, chunk) {
+    await put(`${getStagingPrefix(uploadId)}${offset}`, chunk, {
+      access: "public",
+      addRandomSuffix: false,
+      allowOverwrite: true,
+    });
+  },
+
+  async complete(uploadId, size, fileName, studyId) {
+    const chunks = await listStagedChunks(uploadId);
+    const blobPath = createBlobPath(fileName, studyId);
+    const multipart = await createMultipartUpload(blobPath, { access: "public", addRandomSuffix: false });
+    const partOptions = { access: "public" as const, key: multipart.key, uploadId: multipart.uploadId };
+
+    const parts: Part[] = [];
+    let pending: Buffer[] = [];
+    let pendingSize = 0;
+    const flushPart = async () => {
+      parts.push(await uploadPart(blobPath, Buffer.concat(pending), { ...partOptions, partNumber: parts.length + 1 }));
+      pending = [];
+      pendingSize = 0;
+    };
+
+    // Follow the chain of offsets; a chunk left over from an attempt that
+    // was later resent with a different size is never on it
+    let position = 0;
+    while (position < size) {
+      const chunk = chunks.find(candidate => candidate.offset === position);
+      if (!chunk) {
+        throw new Error(`Resumable upload ${uploadId} is missing bytes from offset ${position}`);
+      }
+
+      const response = await fetch(chunk.url);
+      if (!response.ok) {
+        throw new Error(`Failed to read staged chunk: ${response.status} ${response.statusText}`);
+      }
+      pending.push(Buffer.from(await response.arrayBuffer()));
+      pendingSize += chunk.size;
+      position += chunk.size;
+
+      if (pendingSize >= MIN_BLOB_PART_SIZE) {
+        await flushPart();
+      }
+    }
+    if (pendingSize > 0 || parts.length === 0) {
+      await flushPart();
+    }
+
+    const result = await completeMultipartUpload(blobPath, parts, partOptions);
+    await del(chunks.map(chunk => chunk.url));
+
+    return { url: result.url, size, pathname: result.pathname };
+  },
+
+  async discard(uploadId) {
+    const chunks = await listStagedChunks(uploadId);
+    if (chunks.length > 0) {
+      await del(chunks.map(chunk => chunk.url));
+    }
+  },
+};
+
+/**
+ * Backend for a session's storage type (as recorded on the UploadSession)
+ */
+export function getResumableBackend(storageType: string): ResumableStorageBackend {
+  return storageType === "vercel-blob" ? vercelBlobBackend : filesystemBackend;
+}
+
+/**
+ * Delete the file a completed session assembled but no document claimed
+ */
+export async function deleteAssembledUpload(session: {
+  storageType: string;
+  storagePath: string | null;
+  storageUrl: string | null;
+}): Promise<void> {
+  if (session.storageType === "vercel-blob") {
+    if (session.storageUrl) await del(session.storageUrl);
+  } else if (session.storagePath) {
+    await unlink(session.storagePath).catch(() => undefined);
+  }
+}
@@ -1,9 +1,16 @@
 /**
  * React hook for handling batch file uploads with real-time progress tracking
+ *
+ * Files above one chunk are first sent through the resumable upload endpoint
+ * (progress is the share of bytes sent) and joined to the batch by uploadId.
  */
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import useSWR, { useSWRConfig } from "swr";
+import type { SurveyColumnMapping } from "@/lib/survey-import";
+import type { SkippedArchiveEntry } from "@/lib/zip-archive";
+import type { DuplicateHandling, DuplicateMatch } from "@/lib/types/duplicates";
+import { clearResumableUpload, shouldUploadResumably, uploadFileResumably } from "@/lib/resumable-upload-client";
 
 interface BatchStatusApiResponse {
   batchId: string;
@@ -11,10 +18,11 @@ interface BatchStatusApiResponse {
   files: {
     [fileName: string]: {
       id?: string;
-      status: 'queued' | 'validating' | 'processing' | 'completed' | 'failed';
+      status: 'queued' | 'validating' | 'processing' | 'completed' | 'failed' | 'skipped';
       progress: number;
       error?: string;
       url?: string;
+      duplicateOf?: DuplicateMatch;
     };
   };
   summary: {
@@ -31,10 +39,11 @@ interface BatchStatusApiResponse {
 export interface BatchFileStatus {
   fileName: string;
   id?: string;
-  status: 'queued' | 'validating' | 'processing' | 'completed' | 'failed';
+  status: 'uploading' | 'queued' | 'validating' | 'processing' | 'completed' | 'failed' | 'skipped';
   progress: number; // 0-100
   error?: string;
   url?: string;
+  duplicateOf?: DuplicateMatch; // Earlier upload of the same content; 'skipped' files weren't stored
 }
 
 export interface BatchUploadSummary {
@@ -49,6 +58,7 @@ export interface BatchUploadState {
   status: 'idle' | 'uploading' | 'validating' | 'processing' | 'completed' | 'failed';
   files: Map<string, BatchFileStatus>;
   summary: BatchUploadSummary;
+  skipped?: SkippedArchiveEntry[]; // Entries of uploaded .zip files that were left out
   error?: string;
 }
 
@@ -62,9 +72,14 @@ export interface UploadedBatchFile {
   url: string;
 }
 
+export interface BatchUploadOptions {
+  surveyMappings?: Record<string, SurveyColumnMapping>; // Spreadsheet column mappings by file name
+  duplicates?: DuplicateHandling; // Files uploaded before: store and flag ('warn', default) or skip
+}
+
 export interface UseBatchFileUploadReturn {
   batchState: BatchUploadState;
-  uploadBatch: (files: File[], studyId: string) => Promise<UploadedBatchFile[]>;
+  uploadBatch: (files: File[], studyId: string, options?: BatchUploadOptions) => Promise<UploadedBatchFile[]>;
   cancelBatch: () => void;
   retryBatch: () => Promise<void>;
   clearBatch: () => void;
@@ -83,6 +98,8 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
   const [isPolling, setIsPolling] = useState(false);
   const originalFilesRef = useRef<File[]>([]);
   const studyIdRef = useRef<string>('');
+  const optionsRef = useRef<BatchUploadOptions>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { mutate: globalMutate } = useSWRConfig();
 
   // SWR for batch status polling
@@ -120,6 +137,7 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
           progress: typedFileData.progress,
           error: typedFileData.error,
           url: typedFileData.url,
+          duplicateOf: typedFileData.duplicateOf,
         });
       });
 
@@ -148,7 +166,11 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
     }
   }, [batchStatusError, isPolling]);
 
-  const uploadBatch = useCallback(async (files: File[], studyId: string): Promise<UploadedBatchFile[]> => {
+  const uploadBatch = useCallback(async (
+    files: File[],
+    studyId: string,
+    options: BatchUploadOptions = {}
+  ): Promise<UploadedBatchFile[]> => {
     if (files.length === 0) {
       throw new Error('No files provided');
     }
@@ -156,13 +178,14 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
     // Store original files for retry
     originalFilesRef.current = files;
     studyIdRef.current = studyId;
+    optionsRef.current = options;
 
     // Initialize batch state
     const initialFiles = new Map<string, BatchFileStatus>();
     files.forEach(file => {
       initialFiles.set(file.name, {
         fileName: file.name,
-        status: 'queued',
+        status: shouldUploadResumably(file) ? 'uploading' : 'queued',
         progress: 0,
       });
     });
@@ -174,18 +197,53 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
       summary: { total: files.length, completed: 0, failed: 0, processing: files.length },
     });
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
+      // Send large files in resumable chunks first; an earlier interrupted
+      // attempt at the same file picks up where it stopped
+      const resumableFiles = files.filter(shouldUploadResumably);
+      const uploadIds: string[] = [];
+      for (const file of resumableFiles) {
+        const uploadId = await uploadFileResumably(file, studyId, {
+          signal: abortController.signal,
+          onProgress: (uploadedBytes, totalBytes) => {
+            setBatchState(prev => {
+              const nextFiles = new Map(prev.files);
+              nextFiles.set(file.name, {
+                fileName: file.name,
+                status: uploadedBytes < totalBytes ? 'uploading' : 'queued',
+                progress: Math.round((uploadedBytes / totalBytes) * 100),
+              });
+              return { ...prev, files: nextFiles };
+            });
+          },
+        });
+        uploadIds.push(uploadId);
+      }
+
       // Create FormData for batch upload
       const formData = new FormData();
-      files.forEach(file => {
+      files.filter(file => !shouldUploadResumably(file)).forEach(file => {
         formData.append("files", file);
       });
+      uploadIds.forEach(uploadId => {
+        formData.append("uploadIds", uploadId);
+      });
       formData.append("studyId", studyId);
+      if (options.surveyMappings && Object.keys(options.surveyMappings).length > 0) {
+        formData.append("surveyMappings", JSON.stringify(options.surveyMappings));
+      }
+      if (options.duplicates) {
+        formData.append("duplicates", options.duplicates);
+      }
 
       // Upload batch
       const response = await fetch("/api/upload/batch", {
         method: "POST",
         body: formData,
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -195,11 +253,15 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
 
       const batchData = await response.json();
 
+      // The batch now owns the resumable uploads
+      resumableFiles.forEach(file => clearResumableUpload(file, studyId));
+
       // Update state with batch ID and start polling
       setBatchState(prev => ({
         ...prev,
         batchId: batchData.batchId,
         status: 'validating',
+        skipped: batchData.skipped ?? [],
       }));
 
       setIsPolling(true);
@@ -245,7 +307,9 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
       });
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Batch upload failed";
+      const errorMessage = abortController.signal.aborted
+        ? 'Upload cancelled by user'
+        : error instanceof Error ? error.message : "Batch upload failed";
 
       setBatchState(prev => ({
         ...prev,
@@ -258,7 +322,11 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
   }, [mutateBatchStatus, globalMutate]);
 
   const cancelBatch = useCallback(() => {
-    if (batchState.batchId) {
+    // Stops chunk uploads in flight; the partial upload is kept for a retry
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+
+    if (batchState.batchId || batchState.status === 'uploading') {
       setIsPolling(false);
       setBatchState(prev => ({
         ...prev,
@@ -266,19 +334,22 @@ export function useBatchFileUpload(): UseBatchFileUploadReturn {
         error: 'Upload cancelled by user',
       }));
     }
-  }, [batchState.batchId]);
+  }, [batchState.batchId, batchState.status]);
 
   const retryBatch = useCallback(async (): Promise<void> => {
     if (originalFilesRef.current.length > 0 && studyIdRef.current) {
-      await uploadBatch(originalFilesRef.current, studyIdRef.current);
+      await uploadBatch(originalFilesRef.current, studyIdRef.current, optionsRef.current);
     }
   }, [uploadBatch]);
 
   const clearBatch = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setIsPolling(false);
     setBatchState(INITIAL_BATCH_STATE);
     originalFilesRef.current = [];
     studyIdRef.current = '';
+    optionsRef.current = {};
   }, []);
 
   const isUploading = batchState.status === 'uploading' ||
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import type { ChatScope } from '@/lib/types/chat-scope';
 
 interface Chat {
   id: string;
@@ -7,6 +8,11 @@ interface Chat {
   updatedAt: Date;
   studyId: string;
   userId: string;
+  // Scope the chat's searches are limited to (see lib/types/chat-scope)
+  folderPath?: string | null;
+  scopeDocumentIds?: string[];
+  scopeTags?: string[];
+  scopeAttributes?: Record<string, string>;
   _count: {
     messages: number;
   };
@@ -149,6 +155,36 @@ export function useChatManager(studyId: string) {
     }
   }, [generateTitle]);
 
+  // Limit a chat's searches to a scope; an empty scope covers the whole study
+  const updateChatScope = useCallback(async (chatId: string, scope: ChatScope) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/studies/${studyId}/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(scope),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update chat scope');
+      }
+
+      const updatedChat = await response.json();
+      setChats(prev => prev.map(chat =>
+        chat.id === chatId ? updatedChat : chat
+      ));
+
+      return updatedChat;
+    } catch (err) {
+      console.error('Error updating chat scope:', err);
+      setError('Failed to update chat scope');
+      throw err;
+    }
+  }, [studyId]);
+
   const getCurrentChat = useCallback(() => {
     return chats.find(chat => chat.id === currentChatId) || null;
   }, [chats, currentChatId]);
@@ -165,6 +201,7 @@ export function useChatManager(studyId: string) {
     createNewChat,
     generateTitle,
     generateTitleInBackground,
+    updateChatScope,
     refetchChats: loadChats,
   };
 }
\ No newline at end of file
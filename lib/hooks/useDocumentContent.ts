@@ -0,0 +1,73 @@
+import useSWR from 'swr';
+import type { HighlightRange } from '@/lib/document-passages';
+import type { DocumentVersionSummary } from '@/lib/types/versions';
+
+/**
+ * Response of GET /api/documents/[documentId]/content
+ */
+export interface DocumentContent {
+  id: string;
+  fileName: string;
+  fileType: string;
+  status: 'PROCESSING' | 'READY' | 'FAILED';
+  studyId: string;
+  extractedText: string | null;
+  pageOffsets: number[];
+  storageUrl: string | null;
+  storageType: string;
+  highlights: HighlightRange[];
+  pseudonymized: boolean; // Text shows the study's pseudonyms rather than the original names
+  version: number; // Version shown; older versions stay viewable after the file is replaced
+  currentVersion: number;
+  versions: DocumentVersionSummary[];
+}
+
+export interface UseDocumentContentResult {
+  document: DocumentContent | null;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+async function fetchDocumentContent(url: string): Promise<DocumentContent> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? 'Document not found' : 'Failed to fetch document');
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a document's text and the ranges of the chunks to highlight
+ *
+ * @param documentId - Document to show
+ * @param options.chunkIds - Chunks to highlight
+ * @param options.messageId - Highlight everything this assistant message cited
+ * @param options.version - Version to show instead of the one the citations came from
+ */
+export function useDocumentContent(
+  documentId: string,
+  options: { chunkIds?: string[]; messageId?: string | null; version?: number | null } = {}
+): UseDocumentContentResult {
+  const query = new URLSearchParams();
+  if (options.chunkIds && options.chunkIds.length > 0) query.set('chunks', options.chunkIds.join(','));
+  if (options.messageId) query.set('messageId', options.messageId);
+  if (options.version) query.set('version', String(options.version));
+  const queryString = query.toString();
+
+  const { data, error, isLoading } = useSWR<DocumentContent>(
+    documentId ? `/api/documents/${documentId}/content${queryString ? `?${queryString}` : ''}` : null,
+    fetchDocumentContent,
+    {
+      revalidateOnFocus: false,
+      errorRetryCount: 2,
+    }
+  );
+
+  return {
+    document: data ?? null,
+    isLoading,
+    error: error || null,
+  };
+}
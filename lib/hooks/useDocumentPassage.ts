@@ -0,0 +1,79 @@
+import useSWR from 'swr';
+
+/**
+ * Response of GET /api/documents/[documentId]/passage. Offsets and pages are
+ * missing when the chunk could no longer be found in the document text.
+ */
+export interface CitedPassage {
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  before: string;
+  passage: string;
+  after: string;
+  startOffset?: number;
+  endOffset?: number;
+  startPage?: number;
+  endPage?: number;
+}
+
+export interface UseDocumentPassageResult {
+  passage: CitedPassage | null;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Stored location of the citation, used when its chunk no longer exists
+ */
+export interface CitedRange {
+  startOffset?: number;
+  endOffset?: number;
+}
+
+function getPassageUrl(documentId: string, chunkId: string, range: CitedRange = {}): string {
+  const params = new URLSearchParams({ chunkId });
+  if (range.startOffset !== undefined && range.endOffset !== undefined) {
+    params.set('start', String(range.startOffset));
+    params.set('end', String(range.endOffset));
+  }
+  return `/api/documents/${documentId}/passage?${params.toString()}`;
+}
+
+async function fetchPassage(url: string): Promise<CitedPassage> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch passage: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a cited passage with its surrounding text
+ *
+ * @param documentId - Cited document
+ * @param chunkId - Cited chunk; pass null to skip fetching (e.g. dialog closed)
+ * @param range - The citation's stored offsets, for when the chunk is gone
+ */
+export function useDocumentPassage(
+  documentId: string,
+  chunkId: string | null,
+  range?: CitedRange
+): UseDocumentPassageResult {
+  const { data, error, isLoading } = useSWR<CitedPassage>(
+    chunkId ? getPassageUrl(documentId, chunkId, range) : null,
+    fetchPassage,
+    {
+      revalidateOnFocus: false,
+      errorRetryCount: 1,
+    }
+  );
+
+  return {
+    passage: data ?? null,
+    isLoading,
+    error: error || null,
+  };
+}
@@ -1,6 +1,8 @@
 import useSWR from 'swr';
 import { toast } from 'sonner';
 import { StudyDocument } from './useStudy';
+import type { ChunkingStrategy } from '../document-chunking';
+import type { DocumentMetadataUpdate } from '../types/document-metadata';
 
 async function fetchDocuments(studyId: string): Promise<StudyDocument[]> {
   const response = await fetch(`/api/studies/${studyId}/documents`);
@@ -36,6 +38,76 @@ async function renameDocumentAPI(documentId: string, fileName: string): Promise<
   return response.json();
 }
 
+async function updateChunkingStrategyAPI(documentId: string, chunkingStrategy: ChunkingStrategy): Promise<StudyDocument> {
+  const response = await fetch(`/api/documents/${documentId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ chunkingStrategy }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update chunking strategy');
+  }
+
+  return response.json();
+}
+
+async function replaceDocumentFileAPI(documentId: string, file: File): Promise<void> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(`/api/documents/${documentId}/versions`, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.details || data.error || 'Failed to replace file');
+  }
+}
+
+async function updateDocumentMetadataAPI(
+  studyId: string,
+  documentIds: string[],
+  update: DocumentMetadataUpdate
+): Promise<void> {
+  const response = await fetch(`/api/studies/${studyId}/documents`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ documentIds, ...update }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update documents');
+  }
+}
+
+async function moveDocumentsAPI(
+  studyId: string,
+  documentIds: string[],
+  folderPath: string | null
+): Promise<void> {
+  const response = await fetch(`/api/studies/${studyId}/documents`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ documentIds, folderPath }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to move documents');
+  }
+}
+
 export function useDocuments(studyId: string) {
   const { data: documents, error, isLoading, mutate } = useSWR<StudyDocument[]>(
     studyId ? `/api/studies/${studyId}/documents` : null,
@@ -95,6 +167,72 @@ export function useDocuments(studyId: string) {
     }
   };
 
+  const updateChunkingStrategy = async (documentId: string, chunkingStrategy: ChunkingStrategy) => {
+    try {
+      await updateChunkingStrategyAPI(documentId, chunkingStrategy);
+
+      // Document goes back to processing while it is re-chunked
+      await mutate();
+
+      toast.success('Re-chunking document');
+    } catch (error) {
+      console.error('Error updating chunking strategy:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update chunking strategy');
+      throw error;
+    }
+  };
+
+  const replaceDocumentFile = async (documentId: string, file: File) => {
+    try {
+      await replaceDocumentFileAPI(documentId, file);
+
+      // The new version is processed like a fresh upload
+      await mutate();
+
+      toast.success('Uploaded new version');
+    } catch (error) {
+      console.error('Error replacing document file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to replace file');
+      throw error;
+    }
+  };
+
+  const updateDocumentMetadata = async (documentIds: string[], update: DocumentMetadataUpdate) => {
+    try {
+      await updateDocumentMetadataAPI(studyId, documentIds, update);
+      await mutate();
+
+      toast.success(documentIds.length === 1 ? 'Document updated' : `${documentIds.length} documents updated`);
+    } catch (error) {
+      console.error('Error updating document metadata:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update documents');
+      throw error;
+    }
+  };
+
+  const moveDocuments = async (documentIds: string[], folderPath: string | null) => {
+    try {
+      // Optimistically move in the cache so dropped documents land right away
+      const optimisticDocuments = documents?.map(doc =>
+        documentIds.includes(doc.id) ? { ...doc, folderPath } : doc
+      ) || [];
+      await mutate(optimisticDocuments, false);
+
+      await moveDocumentsAPI(studyId, documentIds, folderPath);
+      await mutate();
+
+      const target = folderPath ? `to ${folderPath}` : 'out of folders';
+      toast.success(documentIds.length === 1 ? `Document moved ${target}` : `${documentIds.length} documents moved ${target}`);
+    } catch (error) {
+      console.error('Error moving documents:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to move documents');
+
+      // Revert optimistic update
+      await mutate();
+      throw error;
+    }
+  };
+
   const refreshDocuments = () => {
     return mutate();
   };
@@ -111,6 +249,10 @@ export function useDocuments(studyId: string) {
     error,
     deleteDocument,
     renameDocument,
+    updateChunkingStrategy,
+    replaceDocumentFile,
+    updateDocumentMetadata,
+    moveDocuments,
     refreshDocuments,
     addDocument,
     mutate,
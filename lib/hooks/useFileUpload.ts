@@ -4,6 +4,7 @@
 
 import { useState, useCallback } from "react";
 import { useSWRConfig } from 'swr';
+import type { DuplicateMatch } from '@/lib/types/duplicates';
 
 // Custom error type for validation errors
 export interface ValidationError extends Error {
@@ -43,6 +44,7 @@ export interface UploadedFile {
   status: string;
   uploadedAt: string;
   url: string;
+  duplicateOf?: DuplicateMatch; // Earlier upload of the same file by the user
 }
 
 export interface UseFileUploadReturn {
@@ -100,7 +102,7 @@ export function useFileUpload(): UseFileUploadReturn {
                   progress: 100,
                   status: "completed",
                 })));
-                resolve(response.document);
+                resolve({ ...response.document, duplicateOf: response.duplicateOf });
               } else {
                 throw new Error(response.error || "Upload failed");
               }
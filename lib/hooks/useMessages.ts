@@ -1,6 +1,6 @@
 import useSWR from 'swr';
 import type { UIMessage } from '@ai-sdk/react';
-import { CitationMap } from '@/lib/types/citations';
+import { CitationMap, QuoteVerification } from '@/lib/types/citations';
 import { reconstructMessageParts } from '@/lib/utils/message-parts';
 
 interface DatabaseMessage {
@@ -11,6 +11,7 @@ interface DatabaseMessage {
   toolCalls?: PersistedToolCall[] | null;
   messageParts?: AISDKv5MessagePart[] | null;
   citations?: CitationMap | null; // NEW: Citation data
+  quoteVerifications?: QuoteVerification[] | null;
 }
 
 interface AISDKMessage {
@@ -19,6 +20,7 @@ interface AISDKMessage {
   parts: Array<{ type: 'text'; text: string } | { type: `tool-${string}`; toolCallId: string; state: 'input-available' | 'output-available'; input?: Record<string, unknown>; output?: string | object; }>;
   createdAt: Date;
   citations?: CitationMap; // NEW: Citation data
+  quoteVerifications?: QuoteVerification[];
 }
 
 interface AISDKv5MessagePart {
@@ -59,6 +61,7 @@ async function fetchMessages(studyId: string, chatId: string): Promise<AISDKMess
       : [{ type: 'text', text: msg.content }],
     createdAt: new Date(msg.timestamp),
     citations: msg.citations || undefined, // NEW: Include citations if present
+    quoteVerifications: msg.quoteVerifications || undefined,
   })) as AISDKMessage[];
 }
 
@@ -1,5 +1,9 @@
 import useSWR from 'swr';
 import { toast } from 'sonner';
+import type { OcrPageConfidence } from '../types/ocr';
+import type { EmailHeaders } from '../types/extractors';
+import type { DuplicateMatch } from '../types/duplicates';
+import type { DocumentAttributes } from '../types/document-metadata';
 
 export interface StudyDocument {
   id: string;
@@ -10,6 +14,14 @@ export interface StudyDocument {
   uploadedAt: string;
   processingStatus: string;
   studyId: string;
+  chunkingStrategy?: string | null; // null/undefined = auto-detect
+  ocrConfidence?: number | null; // Set when text came from OCR
+  ocrPages?: OcrPageConfidence[] | null;
+  emailHeaders?: EmailHeaders | null; // Set for uploaded .eml messages
+  folderPath?: string | null; // Folder (collection) inside the study, "Round 2/Interviews"
+  duplicateOf?: DuplicateMatch | null; // Earlier upload by the user with the same content
+  tags?: string[];
+  attributes?: DocumentAttributes | null;
 }
 
 export interface StudyMessage {
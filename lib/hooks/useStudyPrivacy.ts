@@ -0,0 +1,71 @@
+import useSWR from 'swr';
+import { toast } from 'sonner';
+import type { PseudonymEntry, StudyPrivacySettings } from '@/lib/types/pii';
+
+/**
+ * Response of GET /api/studies/[studyId]/privacy
+ */
+interface PrivacyResponse {
+  settings: StudyPrivacySettings;
+  pseudonyms: PseudonymEntry[];
+}
+
+async function fetchPrivacy(url: string): Promise<PrivacyResponse> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to fetch privacy settings');
+  }
+  return response.json();
+}
+
+async function updatePrivacyAPI(
+  studyId: string,
+  changes: Partial<StudyPrivacySettings>
+): Promise<StudyPrivacySettings> {
+  const response = await fetch(`/api/studies/${studyId}/privacy`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update privacy settings');
+  }
+
+  const { settings } = await response.json();
+  return settings;
+}
+
+export function useStudyPrivacy(studyId: string) {
+  const { data, error, isLoading, mutate } = useSWR<PrivacyResponse>(
+    studyId ? `/api/studies/${studyId}/privacy` : null,
+    fetchPrivacy,
+    {
+      revalidateOnFocus: false,
+      errorRetryCount: 1,
+    }
+  );
+
+  const updateSettings = async (changes: Partial<StudyPrivacySettings>) => {
+    try {
+      const settings = await updatePrivacyAPI(studyId, changes);
+      await mutate(current => current ? { ...current, settings } : current, false);
+      toast.success('Privacy settings saved');
+      return settings;
+    } catch (error) {
+      console.error('Error updating privacy settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update privacy settings');
+      throw error;
+    }
+  };
+
+  return {
+    settings: data?.settings ?? null,
+    pseudonyms: data?.pseudonyms ?? [],
+    isLoading,
+    error: error || null,
+    updateSettings,
+    mutate,
+  };
+}
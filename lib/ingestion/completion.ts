@@ -0,0 +1,153 @@
+/**
+ * Post-ingestion bookkeeping
+ *
+ * Keeps UploadBatch counters in step with its jobs, finalizes the batch once
+ * every job has settled, and regenerates the study summary.
+ */
+
+import { prisma } from '../prisma';
+import { invalidateStudyMetadataOnDocumentChange } from '../metadata-collector';
+import { generateStudySummary } from '../summary-generation';
+import { trackBatchUploadEvent, trackErrorEvent, trackStudyEvent } from '../analytics/server-analytics';
+
+/**
+ * Regenerate the study summary after new documents became searchable.
+ * Failures are logged and tracked but never fail ingestion.
+ */
+export async function regenerateSummaryAfterIngestion(
+  studyId: string,
+  userId: string,
+  batchId?: string
+): Promise<void> {
+  try {
+    console.log(`Triggering summary regeneration for study ${studyId}${batchId ? ` after batch upload ${batchId}` : ' after document upload'}`);
+    const result = await generateStudySummary(studyId);
+
+    if (result) {
+      await prisma.study.update({
+        where: { id: studyId },
+        data: { summary: result.summary },
+      });
+
+      console.log(`Summary regenerated for study ${studyId} (${result.summary.length} chars, ${result.metadata.generationTimeMs}ms)`);
+
+      await trackStudyEvent('summary_generated', {
+        studyId,
+        documentCount: result.metadata.documentCount,
+        chunksAnalyzed: result.metadata.totalChunks,
+        generationTimeMs: result.metadata.generationTimeMs,
+        summaryLength: result.summary.length,
+        ...(batchId && { reason: 'batch_completed', batchId }),
+      }, userId);
+    }
+  } catch (error) {
+    // Silent failure - don't block ingestion
+    console.error(`Summary regeneration failed for study ${studyId}:`, error);
+    await trackErrorEvent('summary_generation_failed', {
+      errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      endpoint: 'ingestion-worker',
+      statusCode: 500,
+      batchId,
+    }, userId);
+  }
+}
+
+/**
+ * Settle a document whose job failed for good. The error stays on the job
+ * (IngestionJob.lastError) and the document's text is left alone. A document
+ * that still has chunks from an earlier run (e.g. a failed re-chunk) stays
+ * searchable on them, so it goes back to READY instead of FAILED.
+ */
+export async function settleFailedDocument(documentId: string): Promise<'READY' | 'FAILED'> {
+  const indexedChunks: number = await prisma.documentChunk.count({ where: { documentId } });
+  const status = indexedChunks > 0 ? 'READY' : 'FAILED';
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { status },
+  });
+
+  return status;
+}
+
+/**
+ * Recount a batch's jobs into its counters and finalize it when all jobs have
+ * settled. Safe to call concurrently: only one caller wins the finalization.
+ */
+export async function syncBatchProgress(batchId: string): Promise<void> {
+  const batch = await prisma.uploadBatch.findUnique({
+    where: { id: batchId },
+    include: {
+      ingestionJobs: {
+        select: {
+          status: true,
+          lastError: true,
+          document: { select: { id: true, fileName: true } },
+        },
+      },
+    },
+  });
+
+  if (!batch) return;
+
+  const jobs: Array<{
+    status: string;
+    lastError: string | null;
+    document: { id: string; fileName: string };
+  }> = batch.ingestionJobs;
+
+  const completedFiles = jobs.filter(job => job.status === 'SUCCEEDED').length;
+  const failedFiles = jobs.filter(job => job.status === 'FAILED').length;
+  const pendingFiles = jobs.length - completedFiles - failedFiles;
+
+  await prisma.uploadBatch.update({
+    where: { id: batchId },
+    data: { completedFiles, failedFiles },
+  });
+
+  if (pendingFiles > 0) return;
+
+  const processingTimeMs = Date.now() - batch.createdAt.getTime();
+  const fileResults = jobs.map(job => job.status === 'SUCCEEDED'
+    ? { fileName: job.document.fileName, documentId: job.document.id }
+    : { fileName: job.document.fileName, error: job.lastError ?? 'Unknown processing error' }
+  );
+
+  // Only the caller that moves the batch out of PROCESSING finalizes it
+  const finalized = await prisma.uploadBatch.updateMany({
+    where: { id: batchId, status: 'PROCESSING' },
+    data: {
+      status: completedFiles > 0 ? 'COMPLETED' : 'FAILED',
+      metadata: {
+        ...(batch.metadata as Record<string, unknown> || {}),
+        processingTimeMs,
+        fileResults,
+      },
+    },
+  });
+
+  if (finalized.count === 0) return;
+
+  await trackBatchUploadEvent('batch_upload_completed', {
+    batchId,
+    studyId: batch.studyId,
+    fileCount: batch.totalFiles,
+    successCount: completedFiles,
+    failureCount: failedFiles,
+    processingTimeMs,
+  }, batch.userId);
+
+  console.log(`Batch processing completed for ${batchId}: ${completedFiles}/${batch.totalFiles} files successful`);
+
+  // Final cache invalidation to ensure all batch documents are visible in context
+  try {
+    await invalidateStudyMetadataOnDocumentChange(batch.studyId);
+  } catch (cacheError) {
+    console.error(`Final batch cache invalidation failed for study ${batch.studyId}, batch ${batchId}:`, cacheError);
+  }
+
+  if (completedFiles > 0) {
+    await regenerateSummaryAfterIngestion(batch.studyId, batch.userId, batchId);
+  }
+}
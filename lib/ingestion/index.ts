@@ -0,0 +1,27 @@
+/**
+ * Durable document ingestion
+ *
+ * Upload routes store the file, create the Document and enqueue an
+ * IngestionJob; the worker does the heavy lifting outside the request.
+ */
+
+export {
+  enqueueIngestionJob,
+  requeueIngestionJob,
+  countActiveIngestionJobs,
+  getRetryDelayMs,
+  MAX_INGESTION_ATTEMPTS,
+  type IngestionJob,
+  type IngestionJobStatus,
+} from './queue';
+export { processIngestionJob, IngestionError } from './processor';
+export {
+  drainIngestionQueue,
+  kickIngestionWorker,
+  startIngestionWorker,
+  stopIngestionWorker,
+  sweepOrphanedIngestion,
+  RECOVERY_INTERVAL_MS,
+} from './worker';
+export { recoverOrphanedIngestion, type IngestionRecoveryResult } from './recovery';
+export { syncBatchProgress } from './completion';
@@ -0,0 +1,286 @@
+/**
+ * Ingestion job processing
+ *
+ * Runs the document pipeline for one claimed job: text extraction (when the
+ * upload didn't already extract it), PII redaction (when the study has it
+ * enabled), document context (when the study uses contextual embeddings),
+ * chunking, embedding, indexing and duplicate flagging
+ * (lib/document-dedup). Job outcome drives Document.status and the owning
+ * UploadBatch.
+ */
+
+import { prisma } from '../prisma';
+import { readStoredFile } from '../file-storage';
+import { extractTextFromBuffer } from '../document-processing';
+import { reindexDocument } from '../reindexing';
+import { isSurveyColumnMapping, parseSurveyRecords, type SurveyRecord } from '../survey-import';
+import { invalidateStudyMetadataOnDocumentChange } from '../metadata-collector';
+import {
+  findDuplicateByHash,
+  findNearDuplicate,
+  getDuplicateFields,
+  hashText,
+} from '../document-dedup';
+import type { DuplicateMatch } from '../types/duplicates';
+import { getStudyPrivacySettings, pseudonymizeText } from '../pii-redaction';
+import { generateDocumentContext, isContextualEmbeddingEnabled } from '../contextual-embeddings';
+import { trackDocumentUploadEvent } from '../analytics/server-analytics';
+import { completeIngestionJob, failIngestionJob, type IngestionJob } from './queue';
+import { regenerateSummaryAfterIngestion, settleFailedDocument, syncBatchProgress } from './completion';
+
+/**
+ * Error raised by the pipeline. Non-retryable errors (e.g. a file we can't
+ * extract text from) fail the job immediately instead of burning retries.
+ */
+export class IngestionError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'IngestionError';
+  }
+}
+
+interface IngestionDocument {
+  id: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  studyId: string;
+  extractedText: string | null;
+  storageType: string;
+  storagePath: string | null;
+  storageUrl: string | null;
+  chunkingStrategy: string | null;
+  pageOffsets: number[];
+  surveyMapping: unknown;
+  surveyRecords: unknown;
+  duplicateOfId: string | null;
+  textHash: string | null;
+  piiRedacted: boolean;
+}
+
+interface ExtractedDocumentText {
+  text: string;
+  pageOffsets: number[];
+  surveyRecords: SurveyRecord[];
+}
+
+async function extractDocumentText(document: IngestionDocument): Promise<ExtractedDocumentText> {
+  if (document.extractedText !== null) {
+    return {
+      text: document.extractedText,
+      pageOffsets: document.pageOffsets,
+      surveyRecords: parseSurveyRecords(document.surveyRecords),
+    };
+  }
+
+  const buffer = await readStoredFile(document);
+
+  const extractionResult = await extractTextFromBuffer(buffer, document.fileType, document.fileName, {
+    surveyMapping: isSurveyColumnMapping(document.surveyMapping) ? document.surveyMapping : null,
+  });
+  if ('error' in extractionResult) {
+    throw new IngestionError(`Text extraction failed: ${extractionResult.error}`, false);
+  }
+
+  const pageOffsets = extractionResult.metadata?.pageOffsets ?? [];
+  const surveyRecords = extractionResult.metadata?.surveyRecords ?? [];
+  const ocr = extractionResult.metadata?.ocr;
+  const emailHeaders = extractionResult.metadata?.email;
+
+  await prisma.document.update({
+    where: { id: document.id },
+    data: {
+      extractedText: extractionResult.text,
+      pageOffsets,
+      ...(surveyRecords.length > 0 && { surveyRecords }),
+      ...(ocr && { ocrConfidence: ocr.confidence, ocrPages: ocr.pages }),
+      ...(emailHeaders && { emailHeaders }),
+    },
+  });
+
+  return { text: extractionResult.text, pageOffsets, surveyRecords };
+}
+
+/**
+ * Pseudonymize the text before it is chunked, when the study asks for it.
+ * The redacted text replaces the original in the database so retries and
+ * later reindexing never see the original again.
+ */
+async function redactDocumentText(
+  document: IngestionDocument,
+  extracted: ExtractedDocumentText,
+  textHash: string
+): Promise<ExtractedDocumentText> {
+  if (document.piiRedacted) {
+    return extracted;
+  }
+
+  const settings = await getStudyPrivacySettings(document.studyId);
+  if (!settings.redaction) {
+    return extracted;
+  }
+
+  const redacted = await pseudonymizeText(document.studyId, extracted, settings);
+
+  await prisma.document.update({
+    where: { id: document.id },
+    data: {
+      extractedText: redacted.text,
+      pageOffsets: redacted.pageOffsets,
+      ...(redacted.surveyRecords.length > 0 && { surveyRecords: redacted.surveyRecords }),
+      piiRedacted: true,
+      redactedRanges: redacted.redactedRanges,
+      textHash,
+    },
+  });
+  console.log(`Redacted ${redacted.replacementCount} PII occurrences in ${document.fileName}`);
+
+  return { text: redacted.text, pageOffsets: redacted.pageOffsets, surveyRecords: redacted.surveyRecords };
+}
+
+/**
+ * Duplicate detection is advisory: a failed lookup must not fail ingestion.
+ * Duplicates found here are only flagged on the document, never skipped,
+ * since the file has already been stored and queued by then.
+ */
+async function findDuplicateSafely(find: () => Promise<DuplicateMatch | null>): Promise<DuplicateMatch | null> {
+  try {
+    return await find();
+  } catch (error) {
+    console.error('Duplicate detection failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Process a claimed job through to success, a scheduled retry or failure
+ */
+export async function processIngestionJob(job: IngestionJob): Promise<void> {
+  const startTime = Date.now();
+
+  const document: IngestionDocument | null = await prisma.document.findUnique({
+    where: { id: job.documentId },
+    select: {
+      id: true,
+      fileName: true,
+      fileType: true,
+      fileSize: true,
+      studyId: true,
+      extractedText: true,
+      storageType: true,
+      storagePath: true,
+      storageUrl: true,
+      chunkingStrategy: true,
+      pageOffsets: true,
+      surveyMapping: true,
+      surveyRecords: true,
+      duplicateOfId: true,
+      textHash: true,
+      piiRedacted: true,
+    },
+  });
+
+  // Document was deleted while queued; the cascade normally removes the job too
+  if (!document) {
+    await completeIngestionJob(job.id);
+    return;
+  }
+
+  try {
+    console.log(`Processing ingestion job ${job.id} (attempt ${job.attempts}/${job.maxAttempts}): ${document.fileName}`);
+
+    await trackDocumentUploadEvent('document_processing_started', {
+      studyId: document.studyId,
+      fileName: document.fileName,
+      fileType: document.fileType,
+      fileSize: document.fileSize,
+    }, job.userId);
+
+    const extracted = await extractDocumentText(document);
+    // Hashed before redaction: pseudonyms differ between studies. A redacted
+    // document kept the hash of its original text.
+    const textHash = document.textHash ?? hashText(extracted.text);
+    const { text, pageOffsets, surveyRecords } = await redactDocumentText(document, extracted, textHash);
+
+    // Exact duplicates were already flagged at upload
+    let duplicate = document.duplicateOfId
+      ? null
+      : await findDuplicateSafely(() => findDuplicateByHash(job.userId, { textHash }, document.id));
+
+    // Generated from the final (redacted) text, so it never holds what redaction removed
+    const embeddingContext = await isContextualEmbeddingEnabled(document.studyId)
+      ? await generateDocumentContext(document.id, text)
+      : null;
+
+    const chunkCount = await reindexDocument(document.id, text, {
+      chunkingStrategy: document.chunkingStrategy,
+      pageOffsets,
+      surveyRecords,
+      userId: job.userId,
+      ...(embeddingContext && { embeddingContext }),
+    });
+    console.log(`Created ${chunkCount} chunks for ${document.fileName}`);
+
+    // Near duplicates need the chunks embedded
+    if (!document.duplicateOfId && !duplicate) {
+      duplicate = await findDuplicateSafely(() => findNearDuplicate(document.id, job.userId));
+    }
+    if (duplicate) {
+      console.log(`${document.fileName} is a ${duplicate.kind} duplicate of ${duplicate.fileName}`);
+    }
+
+    await prisma.document.update({
+      where: { id: document.id },
+      data: { status: 'READY', textHash, ...getDuplicateFields(duplicate) },
+    });
+
+    // Invalidate study metadata cache so new document appears in context immediately
+    await invalidateStudyMetadataOnDocumentChange(document.studyId);
+
+    await completeIngestionJob(job.id);
+
+    await trackDocumentUploadEvent('document_processing_completed', {
+      studyId: document.studyId,
+      fileName: document.fileName,
+      fileType: document.fileType,
+      fileSize: document.fileSize,
+      processingTimeMs: Date.now() - startTime,
+    }, job.userId);
+
+    console.log(`Successfully processed document ${document.id}: ${document.fileName}`);
+
+    if (!job.batchId) {
+      await regenerateSummaryAfterIngestion(document.studyId, job.userId);
+    }
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retryable = !(error instanceof IngestionError) || error.retryable;
+
+    console.error(`Ingestion job ${job.id} failed for ${document.fileName}:`, error);
+
+    const requeued = await failIngestionJob(job, message, retryable);
+
+    if (!requeued) {
+      await settleFailedDocument(document.id).catch(dbError => {
+        console.error(`Failed to update document status:`, dbError);
+      });
+
+      await trackDocumentUploadEvent('document_processing_failed', {
+        studyId: document.studyId,
+        fileName: document.fileName,
+        fileType: document.fileType,
+        fileSize: document.fileSize,
+        processingTimeMs: Date.now() - startTime,
+        errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+        errorMessage: message,
+      }, job.userId);
+    }
+  }
+
+  if (job.batchId) {
+    await syncBatchProgress(job.batchId).catch(error => {
+      console.error(`Failed to sync batch ${job.batchId} progress:`, error);
+    });
+  }
+}
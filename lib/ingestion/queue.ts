@@ -0,0 +1,178 @@
+/**
+ * Ingestion job queue
+ *
+ * Jobs live in the IngestionJob table so queued and in-flight work survives
+ * server restarts. Workers claim jobs with a conditional update, which makes
+ * claiming safe across multiple processes without row locks.
+ */
+
+import { prisma } from '../prisma';
+
+export const MAX_INGESTION_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 5000; // 5 seconds
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+
+export type IngestionJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+export interface IngestionJob {
+  id: string;
+  documentId: string;
+  batchId: string | null;
+  userId: string;
+  status: IngestionJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Exponential backoff for the given (1-based) attempt number
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+export async function enqueueIngestionJob(params: {
+  documentId: string;
+  userId: string;
+  batchId?: string;
+}): Promise<IngestionJob> {
+  return prisma.ingestionJob.create({
+    data: {
+      documentId: params.documentId,
+      userId: params.userId,
+      batchId: params.batchId,
+      maxAttempts: MAX_INGESTION_ATTEMPTS,
+    },
+  });
+}
+
+/**
+ * Queue an already-ingested document to run through the pipeline again (e.g.
+ * after its chunking strategy changed), resetting any previous job's attempts
+ */
+export async function requeueIngestionJob(params: {
+  documentId: string;
+  userId: string;
+}): Promise<IngestionJob> {
+  const reset = {
+    userId: params.userId,
+    batchId: null,
+    status: 'QUEUED' as const,
+    attempts: 0,
+    runAfter: new Date(),
+    lockedAt: null,
+    lastError: null,
+  };
+
+  return prisma.ingestionJob.upsert({
+    where: { documentId: params.documentId },
+    create: {
+      ...reset,
+      documentId: params.documentId,
+      maxAttempts: MAX_INGESTION_ATTEMPTS,
+    },
+    update: reset,
+  });
+}
+
+/**
+ * Claim the oldest runnable job, or return null when the queue is empty.
+ * Another worker may win the race for a candidate; we then try the next one.
+ */
+export async function claimNextIngestionJob(): Promise<IngestionJob | null> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate: IngestionJob | null = await prisma.ingestionJob.findFirst({
+      where: {
+        status: 'QUEUED',
+        runAfter: { lte: new Date() },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const claimed = await prisma.ingestionJob.updateMany({
+      where: { id: candidate.id, status: 'QUEUED' },
+      data: {
+        status: 'RUNNING',
+        lockedAt: new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 1) {
+      return { ...candidate, status: 'RUNNING', attempts: candidate.attempts + 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Refresh a running job's lock so the recovery sweep doesn't take it for
+ * orphaned while it is still being processed
+ */
+export async function touchIngestionJob(jobId: string): Promise<void> {
+  await prisma.ingestionJob.updateMany({
+    where: { id: jobId, status: 'RUNNING' },
+    data: { lockedAt: new Date() },
+  });
+}
+
+export async function completeIngestionJob(jobId: string): Promise<void> {
+  await prisma.ingestionJob.update({
+    where: { id: jobId },
+    data: { status: 'SUCCEEDED', lockedAt: null, lastError: null },
+  });
+}
+
+/**
+ * Record a failed attempt. Retryable failures are requeued with backoff until
+ * the job runs out of attempts.
+ *
+ * @returns true if the job was requeued, false if it failed permanently
+ */
+export async function failIngestionJob(
+  job: Pick<IngestionJob, 'id' | 'attempts' | 'maxAttempts'>,
+  error: string,
+  retryable: boolean
+): Promise<boolean> {
+  const willRetry = retryable && job.attempts < job.maxAttempts;
+
+  await prisma.ingestionJob.update({
+    where: { id: job.id },
+    data: willRetry
+      ? {
+          status: 'QUEUED',
+          lockedAt: null,
+          lastError: error,
+          runAfter: new Date(Date.now() + getRetryDelayMs(job.attempts)),
+        }
+      : {
+          status: 'FAILED',
+          lockedAt: null,
+          lastError: error,
+        },
+  });
+
+  return willRetry;
+}
+
+/**
+ * Number of a user's jobs that are waiting or in flight
+ */
+export async function countActiveIngestionJobs(userId: string): Promise<number> {
+  return prisma.ingestionJob.count({
+    where: {
+      userId,
+      status: { in: ['QUEUED', 'RUNNING'] },
+    },
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Ingestion recovery sweep
+ *
+ * Run on startup and then periodically by the worker. A process that dies
+ * mid-job leaves its job RUNNING and the document PROCESSING; documents
+ * uploaded before the queue existed may have no job at all. Live workers
+ * refresh the lock of the jobs they are running, so a RUNNING job whose lock
+ * has gone stale belongs to a process that is gone. The sweep requeues what
+ * can be retried and fails the rest, so nothing stays in PROCESSING
+ * indefinitely.
+ */
+
+import { prisma } from '../prisma';
+import { enqueueIngestionJob, failIngestionJob } from './queue';
+import { settleFailedDocument, syncBatchProgress } from './completion';
+
+// A RUNNING job whose lock hasn't been refreshed for this long is assumed
+// orphaned; workers refresh it every JOB_HEARTBEAT_MS (lib/ingestion/worker)
+const ORPHANED_JOB_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface IngestionRecoveryResult {
+  requeuedJobs: number;
+  failedJobs: number;
+  enqueuedDocuments: number;
+  failedDocuments: number;
+}
+
+export async function recoverOrphanedIngestion(now: Date = new Date()): Promise<IngestionRecoveryResult> {
+  const result: IngestionRecoveryResult = {
+    requeuedJobs: 0,
+    failedJobs: 0,
+    enqueuedDocuments: 0,
+    failedDocuments: 0,
+  };
+  const affectedBatches = new Set<string>();
+
+  // 1. Jobs whose worker went away mid-run
+  const orphanedJobs: Array<{
+    id: string;
+    documentId: string;
+    batchId: string | null;
+    attempts: number;
+    maxAttempts: number;
+  }> = await prisma.ingestionJob.findMany({
+    where: {
+      status: 'RUNNING',
+      lockedAt: { lt: new Date(now.getTime() - ORPHANED_JOB_MS) },
+    },
+    select: { id: true, documentId: true, batchId: true, attempts: true, maxAttempts: true },
+  });
+
+  for (const job of orphanedJobs) {
+    const requeued = await failIngestionJob(job, 'Worker stopped before the job finished', true);
+
+    if (requeued) {
+      result.requeuedJobs++;
+    } else {
+      result.failedJobs++;
+      await settleFailedDocument(job.documentId);
+    }
+
+    if (job.batchId) affectedBatches.add(job.batchId);
+  }
+
+  // 2. PROCESSING documents with no job (uploaded before the queue existed)
+  const documentsWithoutJobs: Array<{
+    id: string;
+    batchId: string | null;
+    storagePath: string | null;
+    storageUrl: string | null;
+    study: { userId: string | null };
+  }> = await prisma.document.findMany({
+    where: {
+      status: 'PROCESSING',
+      ingestionJob: null,
+      uploadedAt: { lt: new Date(now.getTime() - ORPHANED_JOB_MS) },
+    },
+    select: {
+      id: true,
+      batchId: true,
+      storagePath: true,
+      storageUrl: true,
+      study: { select: { userId: true } },
+    },
+  });
+
+  for (const document of documentsWithoutJobs) {
+    // Without the stored file or an owner there is nothing to reprocess
+    if ((!document.storagePath && !document.storageUrl) || !document.study.userId) {
+      result.failedDocuments++;
+      await settleFailedDocument(document.id);
+      continue;
+    }
+
+    await enqueueIngestionJob({
+      documentId: document.id,
+      userId: document.study.userId,
+      batchId: document.batchId ?? undefined,
+    });
+    result.enqueuedDocuments++;
+  }
+
+  for (const batchId of affectedBatches) {
+    await syncBatchProgress(batchId);
+  }
+
+  if (Object.values(result).some(count => count > 0)) {
+    console.log('Ingestion recovery sweep:', result);
+  }
+
+  return result;
+}
@@ -0,0 +1,130 @@
+/**
+ * Ingestion worker loop
+ *
+ * Drains the IngestionJob queue with a fixed number of concurrent lanes.
+ * Runs inside the Next.js server (started from instrumentation.ts) and can
+ * also run standalone via scripts/ingestion-worker.ts. Upload routes kick the
+ * worker so new jobs start immediately instead of waiting for the next poll.
+ */
+
+import { claimNextIngestionJob, touchIngestionJob } from './queue';
+import { processIngestionJob } from './processor';
+import { recoverOrphanedIngestion } from './recovery';
+
+const DEFAULT_CONCURRENCY = 3;
+const POLL_INTERVAL_MS = 5000; // Picks up retries whose backoff has elapsed
+// Keeps a running job's lock fresh; well under the recovery sweep's orphan threshold
+export const JOB_HEARTBEAT_MS = 60 * 1000; // 1 minute
+// Requeues jobs and documents left behind by a process that stopped mid-job
+export const RECOVERY_INTERVAL_MS = 60 * 1000; // 1 minute
+
+let draining: Promise<number> | null = null;
+let sweeping: Promise<void> | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let recoveryTimer: ReturnType<typeof setInterval> | null = null;
+
+function getConcurrency(): number {
+  const configured = parseInt(process.env.INGESTION_WORKER_CONCURRENCY || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Process runnable jobs until the queue is empty
+ *
+ * @returns Number of jobs processed
+ */
+export async function drainIngestionQueue(concurrency: number = getConcurrency()): Promise<number> {
+  let processed = 0;
+
+  async function lane(): Promise<void> {
+    while (true) {
+      const job = await claimNextIngestionJob();
+      if (!job) return;
+
+      const heartbeat = setInterval(() => {
+        touchIngestionJob(job.id).catch(error => {
+          console.error(`Failed to refresh lock of ingestion job ${job.id}:`, error);
+        });
+      }, JOB_HEARTBEAT_MS);
+      heartbeat.unref?.();
+
+      try {
+        await processIngestionJob(job);
+      } catch (error) {
+        // Bookkeeping failed; the recovery sweep will requeue the job
+        console.error(`Ingestion worker error for job ${job.id}:`, error);
+      } finally {
+        clearInterval(heartbeat);
+      }
+      processed++;
+    }
+  }
+
+  await Promise.all(Array.from({ length: concurrency }, () => lane()));
+  return processed;
+}
+
+/**
+ * Start draining now unless a drain is already in progress
+ */
+export function kickIngestionWorker(): void {
+  if (draining) return;
+
+  draining = drainIngestionQueue()
+    .catch(error => {
+      console.error('Ingestion worker drain failed:', error);
+      return 0;
+    })
+    .finally(() => {
+      draining = null;
+    });
+}
+
+/**
+ * Run the recovery sweep unless one is already in progress, then start
+ * draining whatever it requeued. Failures are logged; the next sweep retries.
+ */
+export function sweepOrphanedIngestion(): Promise<void> {
+  if (sweeping) return sweeping;
+
+  sweeping = recoverOrphanedIngestion()
+    .then(result => {
+      if (result.requeuedJobs > 0 || result.enqueuedDocuments > 0) kickIngestionWorker();
+    })
+    .catch(error => {
+      console.error('Ingestion recovery sweep failed:', error);
+    })
+    .finally(() => {
+      sweeping = null;
+    });
+  return sweeping;
+}
+
+/**
+ * Poll the queue and periodically sweep for orphaned work. The startup sweep
+ * is the caller's (instrumentation.ts); this one catches jobs that were only
+ * recently orphaned when the process started.
+ */
+export function startIngestionWorker(): void {
+  if (pollTimer) return;
+
+  console.log(`Starting ingestion worker (concurrency ${getConcurrency()})`);
+  pollTimer = setInterval(kickIngestionWorker, POLL_INTERVAL_MS);
+  recoveryTimer = setInterval(sweepOrphanedIngestion, RECOVERY_INTERVAL_MS);
+  // Don't keep short-lived processes (scripts, tests) alive for the timers
+  pollTimer.unref?.();
+  recoveryTimer.unref?.();
+
+  kickIngestionWorker();
+}
+
+export function stopIngestionWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  if (recoveryTimer) {
+    clearInterval(recoveryTimer);
+    recoveryTimer = null;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Keyword Search
+ *
+ * Lexical retrieval over DocumentChunk.content using Postgres full-text
+ * search. Complements embedding search for exact product names,
+ * participant IDs and quoted phrases that embeddings tend to blur.
+ *
+ * Queries use websearch_to_tsquery, so "quoted phrases", OR and -exclusions
+ * behave the way researchers expect from a search box.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { SearchResult } from './vector-search';
+
+export const KEYWORD_SEARCH_LANGUAGE = 'english';
+
+export interface KeywordSearchQuery {
+  userId: string;
+  limit: number;
+  studyId?: string;
+  documentIds?: string[];
+}
+
+interface KeywordRow {
+  chunkId: string;
+  content: string;
+  chunkIndex: number;
+  speakers: string[];
+  startTimestamp: string | null;
+  endTimestamp: string | null;
+  startOffset: number | null;
+  endOffset: number | null;
+  startPage: number | null;
+  endPage: number | null;
+  respondentId: string | null;
+  attributes: Record<string, string> | null;
+  documentId: string;
+  documentName: string;
+  rank: number;
+}
+
+export function buildKeywordSearchQuery(text: string, query: KeywordSearchQuery): Prisma.Sql {
+  // Inlined rather than bound, so the expression matches the GIN index from
+  // scripts/setup-vector-index.ts even under a generic plan
+  const language = Prisma.raw(`'${KEYWORD_SEARCH_LANGUAGE}'::regconfig`);
+  const tsQuery = Prisma.sql`websearch_to_tsquery(${language}, ${text})`;
+  const tsVector = Prisma.sql`to_tsvector(${language}, c."content")`;
+
+  const filters: Prisma.Sql[] = [
+    Prisma.sql`s."userId" = ${query.userId}`,
+    Prisma.sql`${tsVector} @@ ${tsQuery}`,
+  ];
+
+  if (query.studyId) {
+    filters.push(Prisma.sql`d."studyId" = ${query.studyId}`);
+  }
+
+  if (query.documentIds && query.documentIds.length > 0) {
+    filters.push(Prisma.sql`c."documentId" IN (${Prisma.join(query.documentIds)})`);
+  }
+
+  // Normalization flag 32 maps the rank into [0, 1) as rank / (rank + 1)
+  return Prisma.sql`
+    SELECT
+      c."id" AS "chunkId",
+      c."content" AS "content",
+      c."chunkIndex" AS "chunkIndex",
+      c."speakers" AS "speakers",
+      c."startTimestamp" AS "startTimestamp",
+      c."endTimestamp" AS "endTimestamp",
+      c."startOffset" AS "startOffset",
+      c."endOffset" AS "endOffset",
+      c."startPage" AS "startPage",
+      c."endPage" AS "endPage",
+      c."respondentId" AS "respondentId",
+      c."attributes" AS "attributes",
+      d."id" AS "documentId",
+      d."fileName" AS "documentName",
+      ts_rank_cd(${tsVector}, ${tsQuery}, 32) AS "rank"
+    FROM "DocumentChunk" c
+    JOIN "Document" d ON d."id" = c."documentId"
+    JOIN "Study" s ON s."id" = d."studyId"
+    WHERE ${Prisma.join(filters, ' AND ')}
+    ORDER BY "rank" DESC
+    LIMIT ${query.limit}
+  `;
+}
+
+export async function findKeywordMatches(
+  text: string,
+  query: KeywordSearchQuery
+): Promise<SearchResult[]> {
+  if (!text.trim()) {
+    return [];
+  }
+
+  const rows = await prisma.$queryRaw<KeywordRow[]>(buildKeywordSearchQuery(text, query));
+
+  return rows.map((row: KeywordRow): SearchResult => ({
+    chunkId: row.chunkId,
+    content: row.content,
+    similarity: Number(row.rank),
+    documentId: row.documentId,
+    documentName: row.documentName,
+    chunkIndex: row.chunkIndex,
+    speakers: row.speakers,
+    startTimestamp: row.startTimestamp,
+    endTimestamp: row.endTimestamp,
+    startOffset: row.startOffset,
+    endOffset: row.endOffset,
+    startPage: row.startPage,
+    endPage: row.endPage,
+    respondentId: row.respondentId,
+    attributes: row.attributes,
+    matchedBy: ['keyword'],
+  }));
+}
@@ -0,0 +1,60 @@
+import type { SearchResult } from '../vector-search';
+
+/**
+ * Per-request record of what the search tools returned
+ *
+ * The AI SDK serializes tool outputs to strings, so the structured results are
+ * captured here at execution time, keyed by tool call ID. Citation extraction
+ * and tool call persistence read from the store after the response finishes,
+ * so citations point at exactly the chunks the model was shown.
+ */
+export class SearchResultStore {
+  private results = new Map<string, SearchResult[]>();
+
+  /**
+   * Record the results of one tool call
+   */
+  record(toolCallId: string, results: SearchResult[]): void {
+    this.results.set(toolCallId, results);
+  }
+
+  /**
+   * Results of one tool call, or undefined if it wasn't a recorded search
+   */
+  get(toolCallId: string): SearchResult[] | undefined {
+    return this.results.get(toolCallId);
+  }
+
+  /**
+   * Results of the given tool calls in call order, deduplicated by chunk
+   * (the first, higher-ranked occurrence wins)
+   */
+  collect(toolCallIds: string[]): SearchResult[] {
+    const collected: SearchResult[] = [];
+    const seenChunkIds = new Set<string>();
+
+    toolCallIds.forEach(toolCallId => {
+      this.results.get(toolCallId)?.forEach(result => {
+        if (!seenChunkIds.has(result.chunkId)) {
+          collected.push(result);
+          seenChunkIds.add(result.chunkId);
+        }
+      });
+    });
+
+    return collected;
+  }
+}
+
+/**
+ * Search result as persisted with a tool call: everything but the chunk and
+ * parent window text, which stay in DocumentChunk and Document.extractedText
+ */
+export type PersistedSearchResult = Omit<SearchResult, 'content' | 'parentContent'>;
+
+export function toPersistedSearchResult(result: SearchResult): PersistedSearchResult {
+  const persisted: Partial<SearchResult> = { ...result };
+  delete persisted.content;
+  delete persisted.parentContent;
+  return persisted as PersistedSearchResult;
+}
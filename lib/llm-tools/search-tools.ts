@@ -1,7 +1,11 @@
 import { z } from 'zod';
 import { tool } from 'ai';
-import { findRelevantChunks, SearchResult } from '../vector-search';
+import { findRelevantChunks, formatPassageText, formatRespondentAttribution, formatSpeakerAttribution, SearchResult, SearchMode } from '../vector-search';
 import { validateDocumentAccess, getDocumentNames, findDocumentIdsByNames, getStudyDocumentContext, DocumentLookupResult } from '../data';
+import type { SearchResultStore } from './search-result-store';
+import { describeMetadataFilter, hasMetadataFilter, type DocumentMetadataFilter } from '../types/document-metadata';
+import { resolveChatScopeDocumentIds } from '../chat-scope';
+import { describeChatScope, hasChatScope, type ChatScope } from '../types/chat-scope';
 
 /**
  * Core search function tools for LLM function calling
@@ -14,8 +18,16 @@ export interface SearchToolResult {
   searchScope: 'all' | 'specific';
   documentNames: Record<string, string>;
   toolUsed: string;
+  filter?: DocumentMetadataFilter; // Tags and attributes the searched documents had to match
+  scope?: string; // Description of the chat scope the search was limited to
 }
 
+// Shared by both search tools
+const metadataFilterSchema = z.object({
+  tags: z.array(z.string()).optional().describe('Only documents with all of these tags'),
+  attributes: z.record(z.string(), z.string()).optional().describe('Only documents whose attributes match all of these, e.g. {"Segment": "Enterprise"}'),
+}).optional().describe('Restrict the search to documents with the tags and attributes listed in the study context');
+
 /**
  * Search across all documents in the study
  */
@@ -25,9 +37,12 @@ export async function searchAllDocuments(
   options: {
     limit?: number;
     minSimilarity?: number;
+    mode?: SearchMode;
+    filter?: DocumentMetadataFilter;
+    scope?: ChatScope;
   } = {}
 ): Promise<SearchToolResult> {
-  const { limit = 5, minSimilarity = 0.1 } = options;
+  const { limit = 5, minSimilarity = 0.1, mode = 'hybrid', filter, scope } = options;
   
   if (!query.trim()) {
     throw new Error('Search query cannot be empty');
@@ -36,12 +51,18 @@ export async function searchAllDocuments(
   if (!studyId) {
     throw new Error('Study ID is required');
   }
+
+  // A chat scope narrows "all documents" to the documents inside it
+  const scopeDocumentIds = await resolveChatScopeDocumentIds(studyId, scope);
   
   // Use existing vector search with study filter
-  const results = await findRelevantChunks(query, {
+  const results = scopeDocumentIds?.length === 0 ? [] : await findRelevantChunks(query, {
     studyId,
+    documentIds: scopeDocumentIds,
     limit,
     minSimilarity,
+    mode,
+    filter,
   });
 
   // Get document names for result formatting
@@ -54,6 +75,8 @@ export async function searchAllDocuments(
     searchScope: 'all',
     documentNames,
     toolUsed: 'search_all_documents',
+    ...(hasMetadataFilter(filter) && { filter }),
+    ...(hasChatScope(scope) && { scope: describeChatScope(scope) }),
   };
 }
 
@@ -67,9 +90,12 @@ export async function searchSpecificDocuments(
   options: {
     limit?: number;
     minSimilarity?: number;
+    mode?: SearchMode;
+    filter?: DocumentMetadataFilter;
+    scope?: ChatScope;
   } = {}
 ): Promise<SearchToolResult> {
-  const { limit = 5, minSimilarity = 0.1 } = options;
+  const { limit = 5, minSimilarity = 0.1, mode = 'hybrid', filter, scope } = options;
   
   if (!query.trim()) {
     throw new Error('Search query cannot be empty');
@@ -83,6 +109,16 @@ export async function searchSpecificDocuments(
     throw new Error('No document IDs provided for specific search');
   }
 
+  // Documents outside the chat scope are dropped rather than searched
+  const scopeDocumentIds = await resolveChatScopeDocumentIds(studyId, scope);
+  if (scopeDocumentIds) {
+    const allowed = new Set(scopeDocumentIds);
+    documentIds = documentIds.filter(id => allowed.has(id));
+    if (documentIds.length === 0) {
+      throw new Error(`None of the specified documents are in this chat's scope (${describeChatScope(scope ?? {})}). Use search_all_documents to search every document in scope.`);
+    }
+  }
+
   // Validate that all documents belong to the study and user has access
   const hasAccess = await validateDocumentAccess(documentIds, studyId);
   if (!hasAccess) {
@@ -95,6 +131,8 @@ export async function searchSpecificDocuments(
     documentIds,
     limit,
     minSimilarity,
+    mode,
+    filter,
   });
 
   // Get document names for result formatting
@@ -106,6 +144,8 @@ export async function searchSpecificDocuments(
     searchScope: 'specific',
     documentNames,
     toolUsed: 'search_specific_documents',
+    ...(hasMetadataFilter(filter) && { filter }),
+    ...(hasChatScope(scope) && { scope: describeChatScope(scope) }),
   };
 }
 
@@ -120,10 +160,14 @@ export function formatDocumentLookupResult(result: DocumentLookupResult): string
     const readyDocs = result.found.filter(doc => doc.status === 'READY');
     const notReadyDocs = result.found.filter(doc => doc.status !== 'READY');
     
+    result.collections.forEach(collection => {
+      response += `📁 "${collection.query}" matched the folder "${collection.folderPath}" (${collection.documentCount} document(s))\n`;
+    });
+    
     if (readyDocs.length > 0) {
       response += `✅ Found ${readyDocs.length} document(s):\n`;
       readyDocs.forEach(doc => {
-        response += `• "${doc.name}" → ${doc.id}\n`;
+        response += `• "${doc.name}"${doc.folderPath ? ` (in ${doc.folderPath})` : ''} → ${doc.id}\n`;
       });
       
       // Provide explicit next step instruction
@@ -183,15 +227,20 @@ export function formatSearchToolResults(result: SearchToolResult, context?: Sear
   const scope = result.searchScope === 'all' 
     ? `all documents (${Object.keys(result.documentNames).length} searched)`
     : `${Object.keys(result.documentNames).length} specified documents`;
+  const scopeNote = result.scope ? ` within this chat's scope (${result.scope})` : '';
+  const filterNote = result.filter ? `, limited to ${describeMetadataFilter(result.filter)}` : '';
 
-  let formatted = `Found ${result.totalFound} relevant passages in ${scope}:\n\n`;
+  let formatted = `Found ${result.totalFound} relevant passages in ${scope}${scopeNote}${filterNote}:\n\n`;
   
   result.results.forEach((item, index) => {
     const docName = result.documentNames[item.documentId] || item.documentName;
     const similarity = Math.round(item.similarity * 100);
     
-    formatted += `**${index + 1}. ${docName}** (${similarity}% relevance)\n`;
-    formatted += `${item.content.trim()}\n\n`;
+    const matchLabel = formatMatchedBy(item);
+    const attribution = formatSpeakerAttribution(item) ?? formatRespondentAttribution(item);
+
+    formatted += `**${index + 1}. ${docName}** (${similarity}% relevance${matchLabel ? `, ${matchLabel}` : ''})${attribution ? ` — ${attribution}` : ''}\n`;
+    formatted += `${formatPassageText(item, result.results)}\n\n`;
     
     if (index < result.results.length - 1) {
       formatted += '---\n\n';
@@ -201,6 +250,17 @@ export function formatSearchToolResults(result: SearchToolResult, context?: Sear
   return formatted;
 }
 
+/**
+ * Describe which retriever(s) returned a result, e.g. "keyword + semantic match"
+ */
+export function formatMatchedBy(result: SearchResult): string {
+  if (!result.matchedBy || result.matchedBy.length === 0) {
+    return '';
+  }
+
+  return `${[...result.matchedBy].sort().join(' + ')} match`;
+}
+
 /**
  * Build enhanced no results response with actionable suggestions
  */
@@ -208,7 +268,15 @@ function buildEnhancedNoResultsResponse(result: SearchToolResult, context?: Sear
   const searchedDocs = Object.values(result.documentNames);
   const scope = result.searchScope === 'all' ? 'all documents' : searchedDocs.join(', ');
   
-  let response = `No relevant content found in ${scope}.`;
+  let response = `No relevant content found in ${scope}${result.scope ? ` within this chat's scope (${result.scope})` : ''}.`;
+
+  if (result.filter) {
+    response = `No relevant content found in ${describeMetadataFilter(result.filter)}.`;
+    response += `\n\n💡 **Suggestions:**`;
+    response += `\n• Check the tags and attributes listed in the study context`;
+    response += `\n• Search again without the filter to compare`;
+    return response;
+  }
   
   // Add context-specific suggestions
   if (context?.studyDocumentCount && result.searchScope === 'specific') {
@@ -264,6 +332,19 @@ export const searchToolDefinitions = {
           minimum: 0,
           maximum: 1,
         },
+        mode: {
+          type: 'string',
+          enum: ['semantic', 'keyword', 'hybrid'],
+          description: 'Retrieval mode: semantic (meaning), keyword (exact terms, names, IDs, quotes) or hybrid (both, default)',
+        },
+        filter: {
+          type: 'object',
+          properties: {
+            tags: { type: 'array', items: { type: 'string' } },
+            attributes: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+          description: 'Only documents with all of these tags and attribute values',
+        },
       },
       required: ['query'],
     },
@@ -296,6 +377,19 @@ export const searchToolDefinitions = {
           minimum: 0,
           maximum: 1,
         },
+        mode: {
+          type: 'string',
+          enum: ['semantic', 'keyword', 'hybrid'],
+          description: 'Retrieval mode: semantic (meaning), keyword (exact terms, names, IDs, quotes) or hybrid (both, default)',
+        },
+        filter: {
+          type: 'object',
+          properties: {
+            tags: { type: 'array', items: { type: 'string' } },
+            attributes: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+          description: 'Only documents with all of these tags and attribute values',
+        },
       },
       required: ['query', 'documentIds'],
     },
@@ -304,8 +398,10 @@ export const searchToolDefinitions = {
 
 /**
  * Create AI SDK v5 compatible tool definitions using tool() function
+ * Search results are recorded in resultStore (when given) under each tool call ID;
+ * every tool is limited to the documents inside the chat's `scope`
  */
-export function createSearchTools(studyId: string) {
+export function createSearchTools(studyId: string, resultStore?: SearchResultStore, scope: ChatScope = {}) {
   return {
     search_all_documents: tool({
       description: 'Search across all documents in the current study for relevant content',
@@ -313,17 +409,20 @@ export function createSearchTools(studyId: string) {
         query: z.string().describe('The search query to find relevant content'),
         limit: z.number().min(1).max(15).optional().describe('Maximum number of results to return (default: 3, recommended: 10-15 for multi-document analysis)'),
         minSimilarity: z.number().min(0).max(1).optional().describe('Minimum similarity score for results (default: 0.1)'),
+        mode: z.enum(['semantic', 'keyword', 'hybrid']).optional().describe('Retrieval mode: semantic (meaning), keyword (exact product names, participant IDs, quoted phrases) or hybrid (both, default)'),
+        filter: metadataFilterSchema,
       }),
-      execute: async ({ query, limit = 3, minSimilarity = 0.1 }) => {
+      execute: async ({ query, limit = 3, minSimilarity = 0.1, mode = 'hybrid', filter }, { toolCallId }) => {
         if (!query.trim()) {
           throw new Error('Search query cannot be empty');
         }
 
         try {
-          const result = await searchAllDocuments(query, studyId, { limit, minSimilarity });
+          const result = await searchAllDocuments(query, studyId, { limit, minSimilarity, mode, filter, scope });
+          resultStore?.record(toolCallId, result.results);
           const formattedResult = formatSearchToolResults(result);
 
-          // Return formatted text for LLM (citation extraction will re-run search using input params)
+          // Return formatted text for LLM (structured results stay in the result store)
           return formattedResult;
         } catch (error) {
           console.error('Search error:', error);
@@ -332,9 +431,9 @@ export function createSearchTools(studyId: string) {
       },
     }),
     find_document_ids: tool({
-      description: 'Find document IDs by their filenames. Use this before search_specific_documents when users mention specific document names.',
+      description: 'Find document IDs by their filenames or by the name of a folder (collection) holding them. Use this before search_specific_documents when users mention specific document or collection names.',
       inputSchema: z.object({
-        documentNames: z.array(z.string()).min(1).describe('Array of document filenames to look up (e.g., ["research.txt", "data.pdf"])'),
+        documentNames: z.array(z.string()).min(1).describe('Array of document filenames or folder names to look up (e.g., ["research.txt", "data.pdf", "round 2 interviews"])'),
         includeAlternatives: z.boolean().optional().describe('Include similar document names if exact match fails (default: true)'),
       }),
       execute: async ({ documentNames }) => {
@@ -343,7 +442,8 @@ export function createSearchTools(studyId: string) {
         }
 
         try {
-          const result = await findDocumentIdsByNames(documentNames, studyId);
+          const scopeDocumentIds = await resolveChatScopeDocumentIds(studyId, scope);
+          const result = await findDocumentIdsByNames(documentNames, studyId, scopeDocumentIds);
           const formattedResult = formatDocumentLookupResult(result);
           return formattedResult;
         } catch (error) {
@@ -359,8 +459,10 @@ export function createSearchTools(studyId: string) {
         documentIds: z.array(z.string()).min(1).describe('Array of document IDs to search within'),
         limit: z.number().min(1).max(15).optional().describe('Maximum number of results to return (default: 3, recommended: 10-15 for multi-document analysis)'),
         minSimilarity: z.number().min(0).max(1).optional().describe('Minimum similarity score for results (default: 0.1)'),
+        mode: z.enum(['semantic', 'keyword', 'hybrid']).optional().describe('Retrieval mode: semantic (meaning), keyword (exact product names, participant IDs, quoted phrases) or hybrid (both, default)'),
+        filter: metadataFilterSchema,
       }),
-      execute: async ({ query, documentIds, limit = 3, minSimilarity = 0.1 }) => {
+      execute: async ({ query, documentIds, limit = 3, minSimilarity = 0.1, mode = 'hybrid', filter }, { toolCallId }) => {
         if (!query.trim()) {
           throw new Error('Search query cannot be empty');
         }
@@ -377,12 +479,15 @@ export function createSearchTools(studyId: string) {
         }
 
         try {
-          const result = await searchSpecificDocuments(query, studyId, documentIds, { limit, minSimilarity });
+          const result = await searchSpecificDocuments(query, studyId, documentIds, { limit, minSimilarity, mode, filter, scope });
+          resultStore?.record(toolCallId, result.results);
 
           // Get study context for enhanced error messages
           let context: SearchContext | undefined;
           try {
-            const studyContext = await getStudyDocumentContext(studyId);
+            // Only documents inside the chat scope are suggested
+            const scopeDocumentIds = await resolveChatScopeDocumentIds(studyId, scope);
+            const studyContext = await getStudyDocumentContext(studyId, scopeDocumentIds);
             context = {
               studyDocumentCount: studyContext.totalDocuments,
               availableDocuments: studyContext.availableNames,
@@ -394,7 +499,7 @@ export function createSearchTools(studyId: string) {
 
           const formattedResult = formatSearchToolResults(result, context);
 
-          // Return formatted text for LLM (citation extraction will re-run search using input params)
+          // Return formatted text for LLM (structured results stay in the result store)
           return formattedResult;
         } catch (error) {
           console.error('Specific document search error:', error);
@@ -427,6 +532,21 @@ export function validateSearchParameters(toolName: string, parameters: Record<st
       errors.push('MinSimilarity must be a number between 0 and 1');
     }
   }
+
+  if (parameters.mode !== undefined) {
+    if (parameters.mode !== 'semantic' && parameters.mode !== 'keyword' && parameters.mode !== 'hybrid') {
+      errors.push('Mode must be one of: semantic, keyword, hybrid');
+    }
+  }
+  
+  if (parameters.filter !== undefined) {
+    const filter = parameters.filter as Record<string, unknown> | null;
+    if (!filter || typeof filter !== 'object' ||
+        (filter.tags !== undefined && !Array.isArray(filter.tags)) ||
+        (filter.attributes !== undefined && (typeof filter.attributes !== 'object' || filter.attributes === null))) {
+      errors.push('Filter must be an object with optional tags (array) and attributes (object)');
+    }
+  }
   
   if (toolName === 'search_specific_documents') {
     if (!parameters.documentIds || !Array.isArray(parameters.documentIds)) {
@@ -1,4 +1,5 @@
 import { MetadataCacheEntry, CacheStats } from './types/metadata';
+import { chatScopeKey, hasChatScope, type ChatScope } from './types/chat-scope';
 
 /**
  * Simple in-memory cache with TTL for metadata
@@ -145,8 +146,9 @@ export function studyMetadataKey(studyId: string): string {
   return `study:${studyId}:metadata`;
 }
 
-export function studyContextKey(studyId: string): string {
-  return `study:${studyId}:context`;
+export function studyContextKey(studyId: string, scope?: ChatScope): string {
+  // Each chat scope gets its own context; all of them go with the study's
+  return hasChatScope(scope) ? `study:${studyId}:context:${chatScopeKey(scope)}` : `study:${studyId}:context`;
 }
 
 export function documentReferencesKey(studyId: string): string {
@@ -7,6 +7,7 @@ import {
   invalidateStudyCache
 } from './metadata-cache';
 import { trackCacheEvent } from './analytics/server-analytics';
+import { isDocumentAttributes } from './types/document-metadata';
 
 /**
  * Collects comprehensive metadata for studies and documents
@@ -74,6 +75,9 @@ async function fetchStudyMetadata(studyId: string): Promise<StudyMetadata | null
         uploadedAt: doc.uploadedAt,
         chunkCount,
         hasEmbeddings,
+        folderPath: doc.folderPath,
+        tags: doc.tags ?? [],
+        attributes: isDocumentAttributes(doc.attributes) ? doc.attributes : {},
       };
     });
 
@@ -144,6 +148,9 @@ export async function getDocumentMetadata(documentIds: string[]): Promise<Docume
         uploadedAt: doc.uploadedAt,
         chunkCount,
         hasEmbeddings,
+        folderPath: doc.folderPath,
+        tags: doc.tags ?? [],
+        attributes: isDocumentAttributes(doc.attributes) ? doc.attributes : {},
       };
     });
 
@@ -222,6 +229,9 @@ export async function getDocumentsByStudy(studyId: string): Promise<DocumentMeta
         uploadedAt: doc.uploadedAt,
         chunkCount,
         hasEmbeddings,
+        folderPath: doc.folderPath,
+        tags: doc.tags ?? [],
+        attributes: isDocumentAttributes(doc.attributes) ? doc.attributes : {},
       };
     });
 
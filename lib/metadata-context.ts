@@ -1,12 +1,18 @@
 import { DocumentReference, SearchContext } from './types/metadata';
 import { getMetadataContext } from './metadata-collector';
 import { getStudyDocumentReferences } from './data';
+import { formatDocumentMetadata } from './types/document-metadata';
+import { describeChatScope, hasChatScope, isInChatScope, type ChatScope } from './types/chat-scope';
 
 /**
  * Context generation utilities for LLM function calling
  */
 
-export async function buildStudyContext(studyId: string): Promise<string> {
+/**
+ * With a chat `scope`, the documents inside it are marked and the scope is
+ * spelled out, since searches cannot reach the other documents
+ */
+export async function buildStudyContext(studyId: string, scope?: ChatScope): Promise<string> {
   try {
     const context = await getMetadataContext(studyId);
 
@@ -28,8 +34,26 @@ export async function buildStudyContext(studyId: string): Promise<string> {
     if (availableDocuments.length > 0) {
       contextParts.push('\nAvailable documents:');
       availableDocuments.forEach((doc, index) => {
-        contextParts.push(`${index + 1}. "${doc.fileName}" (${doc.chunkCount} chunks)`);
+        const metadata = formatDocumentMetadata(doc);
+        const folder = doc.folderPath ? ` [folder: ${doc.folderPath}]` : '';
+        const inScope = hasChatScope(scope) && isInChatScope(doc, scope) ? ' [in chat scope]' : '';
+        contextParts.push(`${index + 1}. "${doc.fileName}"${folder}${inScope} (${doc.chunkCount} chunks)${metadata ? ` — ${metadata}` : ''}`);
       });
+
+      if (availableDocuments.some(doc => doc.folderPath)) {
+        contextParts.push('\nDocuments are organized in folders (collections); pass a folder name to find_document_ids to get the IDs of every document in it.');
+      }
+
+      if (availableDocuments.some(doc => formatDocumentMetadata(doc))) {
+        contextParts.push('\nDocuments carry tags (#) and attributes (Key: Value); pass them as `filter` to the search tools to search only matching documents.');
+      }
+    }
+
+    if (hasChatScope(scope)) {
+      const documentNames = Object.fromEntries(availableDocuments.map(doc => [doc.id, doc.fileName]));
+      const inScope = availableDocuments.filter(doc => isInChatScope(doc, scope)).length;
+      contextParts.push(`\nChat scope: the user limited this chat to ${describeChatScope(scope, documentNames)}.`);
+      contextParts.push(`Every search only covers the ${inScope} searchable document${inScope === 1 ? '' : 's'} marked [in chat scope]; say so when a question needs documents outside it.`);
     }
 
     return contextParts.join('\n');
@@ -0,0 +1,197 @@
+import os from 'os';
+import path from 'path';
+import type { OcrPageConfidence } from './types/ocr';
+
+/**
+ * OCR fallback
+ *
+ * Scanned PDFs and photographed notes carry their text as images. PDF pages
+ * whose text layer is (nearly) empty and PNG/JPEG uploads are run through
+ * Tesseract (tesseract.js, on CPU). For PDFs the largest image painted on
+ * each sparse page is pulled out with pdf.js and recognized directly, so no
+ * canvas or native renderer is needed.
+ *
+ * Configuration:
+ * - OCR_ENABLED=false turns the fallback off
+ * - OCR_LANGUAGES: Tesseract language codes, "+"-separated (default "eng")
+ * - OCR_LANG_PATH: directory or URL holding *.traineddata, for offline servers
+ */
+
+// Pages with fewer non-whitespace characters than this are treated as scanned
+export const OCR_MIN_PAGE_CHARACTERS = 50;
+
+// Recognition takes around a second per page on one core
+export const OCR_MAX_PAGES = 50;
+
+// Smaller images are logos, stamps and signatures rather than page scans
+const MIN_PAGE_IMAGE_SIDE = 200;
+
+// pdf.js ImageKind values
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+const RGBA_32BPP = 3;
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100
+}
+
+interface PDFImage {
+  width: number;
+  height: number;
+  kind: number;
+  data?: Uint8Array | Uint8ClampedArray;
+}
+
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== 'false';
+}
+
+/**
+ * Indexes of pages whose extracted text is too sparse to be a real text layer
+ */
+export function findSparsePages(pageTexts: string[]): number[] {
+  return pageTexts.flatMap((text, index) =>
+    text.replace(/\s+/g, '').length < OCR_MIN_PAGE_CHARACTERS ? [index] : []
+  );
+}
+
+/**
+ * Mean page confidence, or null when nothing was OCR'd
+ */
+export function averageOcrConfidence(pages: OcrPageConfidence[]): number | null {
+  if (pages.length === 0) return null;
+  return Math.round(pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length);
+}
+
+/**
+ * Encode a decoded pdf.js image as PNM, which Tesseract reads without any
+ * image codec. Returns null for image kinds that can't be converted.
+ */
+export function imageToPNM(image: PDFImage): Buffer | null {
+  const { width, height, kind, data } = image;
+  if (!data) return null;
+
+  if (kind === RGB_24BPP) {
+    return Buffer.concat([
+      Buffer.from(`P6\n${width} ${height}\n255\n`),
+      Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+    ]);
+  }
+
+  if (kind === RGBA_32BPP) {
+    const rgb = Buffer.alloc(width * height * 3);
+    for (let pixel = 0; pixel < width * height; pixel++) {
+      rgb[pixel * 3] = data[pixel * 4];
+      rgb[pixel * 3 + 1] = data[pixel * 4 + 1];
+      rgb[pixel * 3 + 2] = data[pixel * 4 + 2];
+    }
+    return Buffer.concat([Buffer.from(`P6\n${width} ${height}\n255\n`), rgb]);
+  }
+
+  if (kind === GRAYSCALE_1BPP) {
+    // Rows are byte-padded in both; pdf.js sets bits for white, PBM for black
+    const bits = Buffer.from(data);
+    for (let i = 0; i < bits.length; i++) bits[i] = ~bits[i] & 0xff;
+    return Buffer.concat([Buffer.from(`P4\n${width} ${height}\n`), bits]);
+  }
+
+  return null;
+}
+
+/**
+ * The largest image painted on each of the given pages (0-based), as PNM
+ */
+export async function extractPDFPageImages(buffer: Buffer, pageIndexes: number[]): Promise<Map<number, Buffer>> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: 0,
+  }).promise;
+
+  const images = new Map<number, Buffer>();
+  try {
+    for (const pageIndex of pageIndexes) {
+      if (pageIndex >= pdf.numPages) continue;
+
+      const page = await pdf.getPage(pageIndex + 1);
+      const operators = await page.getOperatorList();
+
+      let largest: PDFImage | null = null;
+      for (let i = 0; i < operators.fnArray.length; i++) {
+        let image: PDFImage | null = null;
+
+        if (operators.fnArray[i] === pdfjs.OPS.paintImageXObject) {
+          const name: string = operators.argsArray[i][0];
+          // Images shared across pages live in commonObjs
+          const objects = name.startsWith('g_') ? page.commonObjs : page.objs;
+          image = await new Promise<PDFImage>(resolve => objects.get(name, resolve));
+        } else if (operators.fnArray[i] === pdfjs.OPS.paintInlineImageXObject) {
+          image = operators.argsArray[i][0];
+        }
+
+        if (
+          image &&
+          image.width >= MIN_PAGE_IMAGE_SIDE &&
+          image.height >= MIN_PAGE_IMAGE_SIDE &&
+          (!largest || image.width * image.height > largest.width * largest.height)
+        ) {
+          largest = image;
+        }
+      }
+
+      const pnm = largest ? imageToPNM(largest) : null;
+      if (pnm) images.set(pageIndex, pnm);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return images;
+}
+
+/**
+ * Recognize text in images (PNG, JPEG or PNM) with a single Tesseract worker
+ */
+export async function recognizeImages(images: Buffer[]): Promise<OcrResult[]> {
+  if (images.length === 0) return [];
+
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker(process.env.OCR_LANGUAGES || 'eng', undefined, {
+    cachePath: path.join(os.tmpdir(), 'tesseract'),
+    ...(process.env.OCR_LANG_PATH && { langPath: process.env.OCR_LANG_PATH }),
+  });
+
+  try {
+    const results: OcrResult[] = [];
+    // Sequential: recognition is CPU-bound, so parallel jobs on one worker gain nothing
+    for (const image of images) {
+      const { data } = await worker.recognize(image);
+      results.push({
+        text: data.text
+          .replace(/[ \t]{2,}/g, ' ')
+          .replace(/\n{3,}/g, '\n\n')
+          .trim(),
+        confidence: Math.round(data.confidence),
+      });
+    }
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * OCR the given PDF pages (0-based), up to OCR_MAX_PAGES. Pages without a
+ * usable image are left out of the result.
+ */
+export async function recognizePDFPages(buffer: Buffer, pageIndexes: number[]): Promise<Map<number, OcrResult>> {
+  const images = await extractPDFPageImages(buffer, pageIndexes.slice(0, OCR_MAX_PAGES));
+  const imagePages = Array.from(images.keys());
+  const results = await recognizeImages(imagePages.map(pageIndex => images.get(pageIndex)!));
+
+  return new Map(imagePages.map((pageIndex, i) => [pageIndex, results[i]]));
+}
@@ -0,0 +1,115 @@
+import { prisma } from './prisma';
+import type { SearchResult } from './vector-search';
+
+/**
+ * Parent-child retrieval
+ *
+ * Chunks are kept small so their embeddings stay specific, but a few hundred
+ * characters are often too little for the model to interpret. Each chunk
+ * stores a parent window (see chunkHierarchically), and search results are
+ * expanded to it before they reach the model. Overlapping windows in a
+ * document are merged into the highest-ranked result, and the others point
+ * at it, so no text is sent twice. Results keep their own chunk ID, content
+ * and offsets, so citations still point at the chunk that matched.
+ */
+
+export interface ParentWindow {
+  documentId: string;
+  start: number;
+  end: number;
+}
+
+interface WindowGroup extends ParentWindow {
+  members: number[]; // Indexes into the results, in rank order
+}
+
+/**
+ * Merge overlapping or touching windows of the same document. Each merged
+ * window goes to its highest-ranked result; the other results in it get
+ * parentMergedInto set to that result's chunk ID.
+ *
+ * @param results - Search results in rank order
+ * @param windows - Parent window of each result, by chunk ID
+ */
+export function mergeParentWindows(
+  results: SearchResult[],
+  windows: Map<string, ParentWindow>
+): SearchResult[] {
+  // Groups stay disjoint, so a window absorbs every group it touches in one pass
+  let groups: WindowGroup[] = [];
+  results.forEach((result, index) => {
+    const window = windows.get(result.chunkId);
+    if (!window) return;
+
+    let group: WindowGroup = { ...window, members: [index] };
+    const touching = groups.filter(other =>
+      other.documentId === group.documentId && other.start <= group.end && group.start <= other.end
+    );
+    for (const other of touching) {
+      group = {
+        documentId: group.documentId,
+        start: Math.min(group.start, other.start),
+        end: Math.max(group.end, other.end),
+        members: [...other.members, ...group.members],
+      };
+    }
+    groups = [...groups.filter(other => !touching.includes(other)), group];
+  });
+
+  const merged = results.map(result => ({ ...result }));
+  for (const group of groups) {
+    const [lead, ...rest] = [...group.members].sort((a, b) => a - b);
+    merged[lead].parentStartOffset = group.start;
+    merged[lead].parentEndOffset = group.end;
+    for (const index of rest) {
+      merged[index].parentMergedInto = merged[lead].chunkId;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Attach each result's parent window text, merging overlapping windows.
+ * Chunks indexed without a parent window are returned unchanged.
+ */
+export async function expandToParentWindows(results: SearchResult[]): Promise<SearchResult[]> {
+  if (results.length === 0) return results;
+
+  const chunks: Array<{
+    id: string;
+    documentId: string;
+    parentStartOffset: number | null;
+    parentEndOffset: number | null;
+  }> = await prisma.documentChunk.findMany({
+    where: { id: { in: results.map(result => result.chunkId) }, parentStartOffset: { not: null } },
+    select: { id: true, documentId: true, parentStartOffset: true, parentEndOffset: true },
+  });
+  if (chunks.length === 0) return results;
+
+  const documents: Array<{ id: string; extractedText: string | null }> = await prisma.document.findMany({
+    where: { id: { in: Array.from(new Set(chunks.map(chunk => chunk.documentId))) } },
+    select: { id: true, extractedText: true },
+  });
+  const texts = new Map(documents.map(document => [document.id, document.extractedText ?? '']));
+
+  // Windows that no longer fit the text (e.g. a replaced extraction) are skipped
+  const windows = new Map<string, ParentWindow>();
+  for (const chunk of chunks) {
+    const textLength = texts.get(chunk.documentId)?.length ?? 0;
+    if (
+      chunk.parentStartOffset !== null &&
+      chunk.parentEndOffset !== null &&
+      chunk.parentStartOffset < chunk.parentEndOffset &&
+      chunk.parentEndOffset <= textLength
+    ) {
+      windows.set(chunk.id, { documentId: chunk.documentId, start: chunk.parentStartOffset, end: chunk.parentEndOffset });
+    }
+  }
+
+  return mergeParentWindows(results, windows).map(result =>
+    result.parentStartOffset != null && result.parentEndOffset != null
+      ? { ...result, parentContent: texts.get(result.documentId)?.slice(result.parentStartOffset, result.parentEndOffset) }
+      : result
+  );
+}
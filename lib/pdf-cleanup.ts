@@ -0,0 +1,194 @@
+/**
+ * PDF text cleanup
+ *
+ * pdf2json reports positioned text runs, not lines. layoutPDFPage rebuilds
+ * each page's lines from their positions (blank lines between paragraphs),
+ * then cleanupPDFPages removes what repeats in the page margins — running
+ * headers, footers and page numbers — and rejoins words hyphenated across
+ * line breaks. Pages are cleaned as a list so callers can keep page offsets.
+ */
+
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number; // Top of the run in pdf2json page units, growing downwards
+}
+
+export interface PDFCleanupResult {
+  pages: string[];
+  removedLines: number;
+  rejoinedWords: number;
+}
+
+// Runs whose tops are this close (page units, ~4pt) share a line
+const LINE_TOLERANCE = 0.25;
+// A gap this many times the page's line spacing starts a paragraph
+const PARAGRAPH_GAP_RATIO = 1.5;
+// Lines at each edge of a page that may be a header or footer
+const MARGIN_LINES = 2;
+// Share of pages a margin line has to repeat on to count as a header/footer
+const MIN_REPEAT_RATIO = 0.5;
+
+const ROMAN_NUMERAL = /^[ivxlcdm]+$/i;
+const HYPHENATED_END = /[A-Za-z\u00C0-\u024F]-$/;
+const LOWERCASE_START = /^[a-z\u00DF-\u00F6\u00F8-\u00FF]/;
+
+/**
+ * Page text with one line per row of runs and a blank line wherever the
+ * vertical gap suggests a new paragraph
+ */
+export function layoutPDFPage(runs: PositionedText[]): string {
+  const sorted = runs
+    .filter(run => run.text.trim().length > 0)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+
+  const rows: Array<{ y: number; runs: PositionedText[] }> = [];
+  for (const run of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && run.y - row.y <= LINE_TOLERANCE) {
+      row.runs.push(run);
+    } else {
+      rows.push({ y: run.y, runs: [run] });
+    }
+  }
+
+  const gaps = rows.slice(1).map((row, index) => row.y - rows[index].y);
+  // Tightest spacing on the page; headers and paragraph gaps only widen it
+  const lineSpacing = gaps.length > 0 ? Math.min(...gaps) : 0;
+
+  return rows.map((row, index) => {
+    const line = row.runs
+      .sort((a, b) => a.x - b.x)
+      .map(run => run.text)
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const isParagraphStart = index > 0 && gaps[index - 1] > lineSpacing * PARAGRAPH_GAP_RATIO;
+    return isParagraphStart ? `\n${line}` : line;
+  }).join('\n');
+}
+
+/**
+ * Key under which margin lines are compared across pages: page numbers
+ * ("Page 3 of 12", "iv") must match their counterparts on other pages
+ */
+function marginKey(line: string): string {
+  const normalized = line.toLowerCase().replace(/\s+/g, ' ').trim();
+  return ROMAN_NUMERAL.test(normalized) ? '#' : normalized.replace(/\d+/g, '#');
+}
+
+function contentIndexes(lines: string[]): number[] {
+  return lines.flatMap((line, index) => line.trim().length > 0 ? [index] : []);
+}
+
+function marginIndexes(lines: string[]): number[] {
+  const indexes = contentIndexes(lines);
+  return Array.from(new Set([...indexes.slice(0, MARGIN_LINES), ...indexes.slice(-MARGIN_LINES)]));
+}
+
+/**
+ * Margin lines that repeat on enough pages to be running headers or footers
+ */
+function findRepeatedMarginLines(pages: string[][]): Set<string> {
+  const pagesWithText = pages.filter(lines => contentIndexes(lines).length > 0).length;
+  if (pagesWithText < 2) return new Set();
+
+  const pageCounts = new Map<string, number>();
+  for (const lines of pages) {
+    const keys = new Set(marginIndexes(lines).map(index => marginKey(lines[index])));
+    keys.forEach(key => pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1));
+  }
+
+  const minPages = Math.max(2, Math.ceil(pagesWithText * MIN_REPEAT_RATIO));
+  return new Set(Array.from(pageCounts).flatMap(([key, count]) => count >= minPages ? [key] : []));
+}
+
+/**
+ * Remove repeated lines working inwards from each edge of the page, so a
+ * body line that happens to match a header is kept
+ */
+function stripMargins(lines: string[], repeated: Set<string>): { lines: string[]; removed: number } {
+  const indexes = contentIndexes(lines);
+  const remove = new Set<number>();
+
+  for (const edge of [indexes.slice(0, MARGIN_LINES), indexes.slice(-MARGIN_LINES).reverse()]) {
+    for (const index of edge) {
+      if (!repeated.has(marginKey(lines[index]))) break;
+      remove.add(index);
+    }
+  }
+
+  return { lines: lines.filter((_, index) => !remove.has(index)), removed: remove.size };
+}
+
+/**
+ * Move the rest of a hyphenated word from the start of `next` onto `line`
+ *
+ * @returns The joined lines, or null when `line` doesn't end mid-word
+ */
+function rejoinHyphenation(line: string, next: string): [string, string] | null {
+  const trimmedNext = next.trimStart();
+  if (!HYPHENATED_END.test(line.trimEnd()) || !LOWERCASE_START.test(trimmedNext)) {
+    return null;
+  }
+
+  const [fragment] = trimmedNext.split(/\s/, 1);
+  const rest = trimmedNext.slice(fragment.length).trimStart();
+  return [line.trimEnd().slice(0, -1) + fragment, rest];
+}
+
+function rejoinPageHyphenation(lines: string[]): { lines: string[]; rejoined: number } {
+  const result = [...lines];
+  let rejoined = 0;
+
+  for (let index = 0; index < result.length - 1; index++) {
+    const joined = rejoinHyphenation(result[index], result[index + 1]);
+    if (joined) {
+      [result[index], result[index + 1]] = joined;
+      rejoined++;
+    }
+  }
+
+  return { lines: result.filter((line, index) => line.length > 0 || lines[index].length === 0), rejoined };
+}
+
+/**
+ * Remove running headers, footers and page numbers and rejoin hyphenated
+ * words. Returns one entry per input page; a word hyphenated across a page
+ * break moves to the earlier page.
+ */
+export function cleanupPDFPages(pageTexts: string[]): PDFCleanupResult {
+  const pages = pageTexts.map(text => text.split('\n').map(line => line.trimEnd()));
+  const repeated = findRepeatedMarginLines(pages);
+  let removedLines = 0;
+  let rejoinedWords = 0;
+
+  const cleaned = pages.map(lines => {
+    const stripped = stripMargins(lines, repeated);
+    const dehyphenated = rejoinPageHyphenation(stripped.lines);
+    removedLines += stripped.removed;
+    rejoinedWords += dehyphenated.rejoined;
+    return dehyphenated.lines;
+  });
+
+  // Words split across a page break
+  for (let index = 0; index < cleaned.length - 1; index++) {
+    const current = contentIndexes(cleaned[index]);
+    const next = contentIndexes(cleaned[index + 1]);
+    if (current.length === 0 || next.length === 0) continue;
+
+    const last = current[current.length - 1];
+    const first = next[0];
+    const joined = rejoinHyphenation(cleaned[index][last], cleaned[index + 1][first]);
+    if (joined) {
+      [cleaned[index][last], cleaned[index + 1][first]] = joined;
+      rejoinedWords++;
+    }
+  }
+
+  return {
+    pages: cleaned.map(lines => lines.join('\n').trim()),
+    removedLines,
+    rejoinedWords,
+  };
+}
@@ -0,0 +1,244 @@
+import { detectTranscript, parseTranscriptTurns } from './transcript-chunking';
+import type {
+  PiiCategory,
+  PiiDetectorName,
+  PiiDictionaryEntry,
+} from './types/pii';
+
+/**
+ * PII detection and term replacement
+ *
+ * Detectors find personal data in text as entities (the exact string and its
+ * category). Redaction then replaces every occurrence of each entity, so a
+ * name found once, e.g. as a transcript speaker label, is also caught where
+ * it appears mid-sentence. Nothing here touches the database; pseudonym
+ * assignment lives in lib/pii-redaction.ts.
+ *
+ * There is no bundled NER model: detectors are patterns, transcript structure
+ * and the study's dictionary. To add a detector (e.g. a local NER model), add
+ * it to PII_DETECTORS and its name to PII_DETECTOR_NAMES.
+ */
+
+export interface PiiEntity {
+  text: string;
+  category: PiiCategory;
+}
+
+export interface PiiDetector {
+  name: PiiDetectorName;
+  detect(text: string, dictionary: PiiDictionaryEntry[]): PiiEntity[];
+}
+
+/**
+ * A replaced range of the input text, in input coordinates
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  replacementLength: number;
+}
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+// Grouped digits with an optional country code or area code in parentheses:
+// "+44 20 7946 0958", "(555) 123-4567", "555.123.4567"
+const PHONE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}\b/g;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+const NAME = String.raw`[A-Z][a-z'\-]+(?: [A-Z][a-z'\-]+)?`;
+const INTRODUCTION = new RegExp(String.raw`\b(?:[Mm]y name is|[Mm]y name's|[Cc]all me) (${NAME})`, 'g');
+const TITLED_NAME = new RegExp(String.raw`\b(?:Mr|Mrs|Ms|Mx|Dr|Prof)\.? ${NAME}`, 'g');
+const COMPANY = /\b[A-Z][\w&'-]*(?: [A-Z][\w&'-]*){0,3},? (?:Inc|Ltd|LLC|GmbH|Corp|Corporation|PLC|AG|BV|Pty Ltd)\b/g;
+
+// Speaker labels that are roles or codes rather than names
+const GENERIC_SPEAKER = /^(interviewer|interviewee|moderator|facilitator|researcher|host|participant|respondent|speaker|customer|user|guest|note|notes|q|a|i|r|p|int|unknown)\b/i;
+const NAMED_SPEAKER = new RegExp(String.raw`^(?:(?:Mr|Mrs|Ms|Mx|Dr|Prof)\.? )?[A-Z][a-z'\-]+(?: [A-Z][a-z'\-]+){0,2}$`);
+
+// Letters that can sit inside a word; a term only matches between non-word characters
+const WORD_CHAR = /[A-Za-z0-9_\u00C0-\u024F]/;
+
+function matchAll(text: string, pattern: RegExp, group = 0): Array<{ value: string; index: number }> {
+  const matches: Array<{ value: string; index: number }> = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    matches.push({ value: match[group], index: match.index });
+  }
+  return matches;
+}
+
+export const PII_DETECTORS: PiiDetector[] = [
+  {
+    name: 'email',
+    detect: text => matchAll(text, EMAIL).map(({ value }) => ({ text: value, category: 'email' })),
+  },
+  {
+    name: 'phone',
+    detect: text => matchAll(text, PHONE)
+      .filter(({ value, index }) => {
+        const digits = value.replace(/\D/g, '').length;
+        // Part of a longer number (an ID, an amount) rather than a phone number
+        const embedded = /\d/.test(text[index - 1] ?? '');
+        return !embedded && digits >= MIN_PHONE_DIGITS && digits <= MAX_PHONE_DIGITS;
+      })
+      .map(({ value }) => ({ text: value, category: 'phone' })),
+  },
+  {
+    name: 'speakers',
+    detect: text => {
+      if (!detectTranscript(text)) return [];
+      const speakers = new Set(parseTranscriptTurns(text.replace(/\r\n?/g, '\n'))
+        .map(turn => turn.speaker)
+        .filter((speaker): speaker is string =>
+          !!speaker && NAMED_SPEAKER.test(speaker) && !GENERIC_SPEAKER.test(speaker)
+        ));
+      return Array.from(speakers).map(speaker => ({ text: speaker, category: 'person' }));
+    },
+  },
+  {
+    name: 'names',
+    detect: text => [
+      ...matchAll(text, INTRODUCTION, 1),
+      ...matchAll(text, TITLED_NAME),
+    ].map(({ value }) => ({ text: value, category: 'person' })),
+  },
+  {
+    name: 'organizations',
+    detect: text => matchAll(text, COMPANY).map(({ value }) => ({ text: value, category: 'organization' })),
+  },
+  {
+    name: 'dictionary',
+    detect: (_text, dictionary) => dictionary.map(entry => ({ text: entry.term.trim(), category: entry.category })),
+  },
+];
+
+/**
+ * Distinct entities found by the enabled detectors; the first detector to
+ * report a string decides its category
+ */
+export function detectPii(
+  text: string,
+  detectors: PiiDetectorName[],
+  dictionary: PiiDictionaryEntry[] = []
+): PiiEntity[] {
+  const entities = new Map<string, PiiEntity>();
+
+  for (const detector of PII_DETECTORS) {
+    if (!detectors.includes(detector.name)) continue;
+    for (const entity of detector.detect(text, dictionary)) {
+      if (entity.text.length > 0 && !entities.has(entity.text)) {
+        entities.set(entity.text, entity);
+      }
+    }
+  }
+
+  return Array.from(entities.values());
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isTermBoundary(text: string, start: number, end: number): boolean {
+  const before = text[start - 1];
+  const after = text[end];
+  return !(before && WORD_CHAR.test(before) && WORD_CHAR.test(text[start])) &&
+    !(after && WORD_CHAR.test(after) && WORD_CHAR.test(text[end - 1]));
+}
+
+/**
+ * Replace every whole-word occurrence of each term, longest terms first
+ */
+export function replaceTerms(text: string, terms: Map<string, string>): { text: string; edits: TextEdit[] } {
+  const keys = Array.from(terms.keys())
+    .filter(term => term.length > 0)
+    .sort((a, b) => b.length - a.length);
+  if (keys.length === 0) return { text, edits: [] };
+
+  const pattern = new RegExp(keys.map(escapeRegExp).join('|'), 'g');
+  const edits: TextEdit[] = [];
+  let result = '';
+  let lastEnd = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const start = match.index;
+    const longest = match[0];
+    // The longest term here may run into a word ("Jo Ann" in "Jo Annabel")
+    // while a shorter one ("Jo") still ends on a boundary
+    const term = isTermBoundary(text, start, start + longest.length)
+      ? longest
+      : keys.find(key =>
+        key.length < longest.length &&
+        text.startsWith(key, start) &&
+        isTermBoundary(text, start, start + key.length)
+      );
+    if (!term) {
+      pattern.lastIndex = start + 1;
+      continue;
+    }
+
+    const end = start + term.length;
+    const replacement = terms.get(term)!;
+    result += text.slice(lastEnd, start) + replacement;
+    edits.push({ start, end, replacementLength: replacement.length });
+    lastEnd = end;
+    pattern.lastIndex = end;
+  }
+
+  return { text: result + text.slice(lastEnd), edits };
+}
+
+/**
+ * Position in the edited text of an offset in the original; offsets inside a
+ * replaced range map into its replacement
+ */
+export function mapOffset(edits: TextEdit[], offset: number): number {
+  let shift = 0;
+  for (const edit of edits) {
+    if (edit.end <= offset) {
+      shift += edit.replacementLength - (edit.end - edit.start);
+    } else {
+      if (edit.start < offset) {
+        return edit.start + shift + Math.min(offset - edit.start, edit.replacementLength);
+      }
+      break;
+    }
+  }
+  return offset + shift;
+}
+
+function toLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Readable stand-in for the index-th value of a category in a study:
+ * "Participant A", "Company B", "[Email 3]", "[Phone 1]"
+ */
+export function formatPseudonym(category: PiiCategory, index: number): string {
+  switch (category) {
+    case 'person':
+      return `Participant ${toLetters(index)}`;
+    case 'organization':
+      return `Company ${toLetters(index)}`;
+    case 'email':
+      return `[Email ${index + 1}]`;
+    case 'phone':
+      return `[Phone ${index + 1}]`;
+  }
+}
+
+/**
+ * Mask email addresses and phone numbers in free text that has no study
+ * context, such as error messages sent to analytics
+ */
+export function scrubPii(text: string): string {
+  return text.replace(EMAIL, '[email]').replace(PHONE, match =>
+    match.replace(/\D/g, '').length >= MIN_PHONE_DIGITS ? '[phone]' : match
+  );
+}
@@ -0,0 +1,210 @@
+import { prisma } from './prisma';
+import { detectPii, formatPseudonym, mapOffset, replaceTerms, type PiiEntity, type TextEdit } from './pii-detection';
+import type { SurveyRecord } from './survey-import';
+import {
+  isPiiDetectorName,
+  isPiiDictionary,
+  isPiiDisplay,
+  PII_DETECTOR_NAMES,
+  type PiiCategory,
+  type PseudonymEntry,
+  type StudyPrivacySettings,
+} from './types/pii';
+
+/**
+ * PII redaction
+ *
+ * When a study has redaction enabled, the ingestion pipeline pseudonymizes
+ * each document's extracted text before it is chunked: names, companies,
+ * email addresses and phone numbers become stand-ins such as "Participant A"
+ * that are stable across the study. Chunks, embeddings, model prompts and
+ * summaries therefore only ever see the pseudonyms, while answers still read
+ * naturally.
+ *
+ * The mapping is kept per study (Pseudonym), so it is reversible: the viewer
+ * restores the original text when the study's display setting asks for it.
+ * Only the ranges redaction actually replaced (Document.redactedRanges) are
+ * restored; a pseudonym such as "Participant A" can also occur in the source
+ * as a plain speaker label, which must stay as it is. Every value already
+ * mapped in the study is redacted in later documents too, even where no
+ * detector would have found it.
+ */
+
+// Retries when a concurrent document claims the same pseudonym first
+const MAX_ASSIGN_ATTEMPTS = 3;
+
+export interface RedactableText {
+  text: string;
+  pageOffsets: number[];
+  surveyRecords: SurveyRecord[];
+}
+
+interface StudyPrivacyRecord {
+  piiRedaction: boolean;
+  piiDetectors: string[];
+  piiDictionary: unknown;
+  piiDisplay: string;
+}
+
+export const STUDY_PRIVACY_SELECT = {
+  piiRedaction: true,
+  piiDetectors: true,
+  piiDictionary: true,
+  piiDisplay: true,
+} as const;
+
+export function toStudyPrivacySettings(study: StudyPrivacyRecord): StudyPrivacySettings {
+  return {
+    redaction: study.piiRedaction,
+    detectors: study.piiDetectors.filter(isPiiDetectorName),
+    dictionary: isPiiDictionary(study.piiDictionary) ? study.piiDictionary : [],
+    display: isPiiDisplay(study.piiDisplay) ? study.piiDisplay : 'original',
+  };
+}
+
+const DEFAULT_PRIVACY_SETTINGS: StudyPrivacySettings = {
+  redaction: false,
+  detectors: [...PII_DETECTOR_NAMES],
+  dictionary: [],
+  display: 'original',
+};
+
+export async function getStudyPrivacySettings(studyId: string): Promise<StudyPrivacySettings> {
+  const study: StudyPrivacyRecord | null = await prisma.study.findUnique({
+    where: { id: studyId },
+    select: STUDY_PRIVACY_SELECT,
+  });
+
+  return study ? toStudyPrivacySettings(study) : DEFAULT_PRIVACY_SETTINGS;
+}
+
+export async function getStudyPseudonyms(studyId: string): Promise<PseudonymEntry[]> {
+  const pseudonyms: Array<{ category: string; original: string; pseudonym: string }> = await prisma.pseudonym.findMany({
+    where: { studyId },
+    select: { category: true, original: true, pseudonym: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return pseudonyms.map(entry => ({ ...entry, category: entry.category as PiiCategory }));
+}
+
+/**
+ * Give every entity the study hasn't seen a pseudonym, numbering on from the
+ * study's existing ones
+ *
+ * @returns All of the study's pseudonyms
+ */
+async function assignPseudonyms(studyId: string, entities: PiiEntity[]): Promise<PseudonymEntry[]> {
+  for (let attempt = 0; attempt < MAX_ASSIGN_ATTEMPTS; attempt++) {
+    const existing = await getStudyPseudonyms(studyId);
+    const known = new Set(existing.map(entry => entry.original));
+    const missing = entities.filter(entity => !known.has(entity.text));
+    if (missing.length === 0) {
+      return existing;
+    }
+
+    const counts = new Map<PiiCategory, number>();
+    existing.forEach(entry => counts.set(entry.category, (counts.get(entry.category) ?? 0) + 1));
+
+    // A row that lost a race for its pseudonym is skipped and retried
+    await prisma.pseudonym.createMany({
+      data: missing.map(entity => {
+        const index = counts.get(entity.category) ?? 0;
+        counts.set(entity.category, index + 1);
+        return {
+          studyId,
+          category: entity.category,
+          original: entity.text,
+          pseudonym: formatPseudonym(entity.category, index),
+        };
+      }),
+      skipDuplicates: true,
+    });
+  }
+
+  throw new Error('Could not assign pseudonyms; too many concurrent documents in this study');
+}
+
+function replaceInRecord(record: SurveyRecord, terms: Map<string, string>, edits: TextEdit[]): SurveyRecord {
+  return {
+    respondentId: replaceTerms(record.respondentId, terms).text,
+    attributes: Object.fromEntries(
+      Object.entries(record.attributes).map(([key, value]) => [key, replaceTerms(value, terms).text])
+    ),
+    startOffset: mapOffset(edits, record.startOffset),
+    endOffset: mapOffset(edits, record.endOffset),
+  };
+}
+
+/**
+ * Start/end pairs of each replacement in the edited text
+ */
+function toRedactedRanges(edits: TextEdit[]): number[] {
+  let shift = 0;
+  return edits.flatMap(edit => {
+    const start = edit.start + shift;
+    shift += edit.replacementLength - (edit.end - edit.start);
+    return [start, start + edit.replacementLength];
+  });
+}
+
+/**
+ * Replace personal data in a document's text with the study's pseudonyms,
+ * keeping page offsets and survey response ranges pointing at the same text
+ */
+export async function pseudonymizeText(
+  studyId: string,
+  input: RedactableText,
+  settings: StudyPrivacySettings
+): Promise<RedactableText & { redactedRanges: number[]; replacementCount: number }> {
+  // Respondent IDs and attributes (e.g. a company column) are searched too
+  const searchable = [
+    input.text,
+    ...input.surveyRecords.flatMap(record => [record.respondentId, ...Object.values(record.attributes)]),
+  ].join('\n');
+
+  const pseudonyms = await assignPseudonyms(studyId, detectPii(searchable, settings.detectors, settings.dictionary));
+  const terms = new Map(pseudonyms.map(entry => [entry.original, entry.pseudonym]));
+  const { text, edits } = replaceTerms(input.text, terms);
+
+  return {
+    text,
+    pageOffsets: input.pageOffsets.map(offset => mapOffset(edits, offset)),
+    surveyRecords: input.surveyRecords.map(record => replaceInRecord(record, terms, edits)),
+    redactedRanges: toRedactedRanges(edits),
+    replacementCount: edits.length,
+  };
+}
+
+/**
+ * Put the original values back into a pseudonymized document's text
+ *
+ * @param redactedRanges - The document's redactedRanges; nothing outside
+ * them is touched
+ * @returns The restored text and a mapping of offsets in the pseudonymized
+ * text to offsets in it (for highlights and page markers)
+ */
+export function restorePseudonyms(
+  text: string,
+  pseudonyms: PseudonymEntry[],
+  redactedRanges: number[]
+): { text: string; mapOffset: (offset: number) => number } {
+  const originals = new Map(pseudonyms.map(entry => [entry.pseudonym, entry.original]));
+  const edits: TextEdit[] = [];
+  let restored = '';
+  let lastEnd = 0;
+
+  for (let index = 0; index + 1 < redactedRanges.length; index += 2) {
+    const start = redactedRanges[index];
+    const end = redactedRanges[index + 1];
+    // Ranges that no longer fit the text or hold a pseudonym are left as they are
+    const original = start >= lastEnd && end <= text.length ? originals.get(text.slice(start, end)) : undefined;
+    if (original === undefined) continue;
+
+    restored += text.slice(lastEnd, start) + original;
+    edits.push({ start, end, replacementLength: original.length });
+    lastEnd = end;
+  }
+
+  return { text: restored + text.slice(lastEnd), mapOffset: offset => mapOffset(edits, offset) };
+}
@@ -22,8 +22,11 @@ You have access to these search capabilities within the current study:
 **search_all_documents**
 - Description: Search across all uploaded documents
 - Required: query (string)
-- Optional: limit (number, 1-5), minSimilarity (number, 0-1)
+- Optional: limit (number, 1-5), minSimilarity (number, 0-1), mode ("semantic" | "keyword" | "hybrid", default "hybrid")
 - Example: { "query": "main themes", "limit": 5, "minSimilarity": 0.05 }
+- Use mode "keyword" for exact product names, participant IDs (e.g. "P7") or verbatim quotes
+- Optional: filter ({ tags?: string[], attributes?: { [key]: value } }) to search only documents with those tags and attributes from the study context
+- Example: { "query": "onboarding", "filter": { "tags": ["churned"], "attributes": { "Segment": "Enterprise" } } }
 - Use when: Broad analysis, pattern identification, exploring themes across all materials
 
 **find_document_ids**
@@ -31,12 +34,13 @@ You have access to these search capabilities within the current study:
 - Required: documentNames (array of strings - use exact or partial filenames)
 - Returns: Mapping of filenames → document IDs
 - Example: { "documentNames": ["interview.txt", "Smith"] } → Returns document IDs
+- Folder names work too: { "documentNames": ["round 2 interviews"] } returns the IDs of every document in that folder
 - Use when: User mentions specific document names, or you need to search specific documents
 
 **search_specific_documents**
 - Description: Search within specific documents only
 - Required: query (string), documentIds (array of document ID strings in "cmg..." format)
-- Optional: limit (number, 1-5), minSimilarity (number, 0-1)
+- Optional: limit (number, 1-5), minSimilarity (number, 0-1), mode ("semantic" | "keyword" | "hybrid"), filter
 - **CRITICAL**: documentIds MUST be document IDs (from find_document_ids), NOT filenames
 - Example: { "query": "pain points", "documentIds": ["cmg6yu2rt00g3ptql"], "limit": 3 }
 - Use when: Focused analysis within particular documents
@@ -39,6 +39,7 @@ const outputFormatting: PromptSection = {
 2. **First mention numbering**: [1], [2], [3]... in order of first appearance
 3. **Multiple sources**: \`^[Doc1.pdf]^[Doc2.pdf]\` for multi-source claims
 4. **Do NOT cite** general knowledge or your synthesis statements
+5. **Survey responses**: passages labelled "— Respondent 412" are cited by respondent: \`^[Respondent 412]\`
 
 **Citation Examples:**
 
@@ -0,0 +1,62 @@
+/**
+ * Reciprocal Rank Fusion
+ *
+ * Merges ranked result lists from different retrievers into a single list.
+ * Each chunk scores sum(1 / (k + rank)) across the lists it appears in, so
+ * chunks found by several retrievers rise to the top without having to
+ * compare cosine similarities against full-text ranks directly.
+ */
+
+import type { SearchResult, SearchRetriever } from './vector-search';
+
+export interface RankedList {
+  retriever: SearchRetriever;
+  results: SearchResult[];
+}
+
+export interface RankFusionOptions {
+  limit: number;
+  k: number; // Damping constant; 60 is the value from the original RRF paper
+}
+
+export const DEFAULT_RANK_FUSION_OPTIONS: RankFusionOptions = {
+  limit: 5,
+  k: 60,
+};
+
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  options: Partial<RankFusionOptions> = {}
+): SearchResult[] {
+  const config = { ...DEFAULT_RANK_FUSION_OPTIONS, ...options };
+  const fused = new Map<string, SearchResult & { fusionScore: number; matchedBy: SearchRetriever[] }>();
+
+  for (const list of lists) {
+    list.results.forEach((result, index) => {
+      const contribution = 1 / (config.k + index + 1);
+      const existing = fused.get(result.chunkId);
+
+      if (!existing) {
+        fused.set(result.chunkId, {
+          ...result,
+          fusionScore: contribution,
+          matchedBy: [list.retriever],
+        });
+        return;
+      }
+
+      existing.fusionScore += contribution;
+      if (!existing.matchedBy.includes(list.retriever)) {
+        existing.matchedBy.push(list.retriever);
+      }
+      // Prefer the semantic similarity for display since it is comparable across queries
+      if (list.retriever === 'semantic') {
+        existing.similarity = result.similarity;
+      }
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.fusionScore - a.fusionScore)
+    .slice(0, config.limit);
+}
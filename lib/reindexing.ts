@@ -0,0 +1,443 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { CHILD_CHUNKING_OPTIONS, chunkHierarchically, findPageNumber, isChunkingStrategy, type DocumentChunk } from './document-chunking';
+import { generateBatchEmbeddings, getActiveEmbeddingModel, serializeEmbedding } from './embeddings';
+import { getVectorIndex } from './vector-index';
+import { chunkSurveyRecords, parseSurveyRecords, type SurveyRecord } from './survey-import';
+import { contextualizeChunk, generateDocumentContext, isContextualEmbeddingEnabled } from './contextual-embeddings';
+import type { EmbeddingModelInfo } from './types/embeddings';
+
+/**
+ * Re-chunking and re-embedding of existing studies
+ *
+ * Rebuilds every READY document's chunks from Document.extractedText using the
+ * current CHILD_CHUNKING_OPTIONS (plus the document's chunking strategy),
+ * embedding provider and the study's contextual embedding setting. Each
+ * document's new chunk set is fully embedded before it replaces the old one in a single
+ * transaction, so a failure partway through leaves that document (and every
+ * document after it) on its previous chunks.
+ *
+ * Jobs are resumable: documents are processed in id order and the job stores
+ * the last document it finished. Starting a job for a study with an unfinished
+ * job resumes that job instead of starting over, as long as the job targets
+ * the active embedding model and chunking options.
+ */
+
+// A RUNNING job that hasn't reported progress for this long is assumed dead
+const STALE_JOB_MS = 10 * 60 * 1000; // 10 minutes
+// Swapping a large document's chunks and writing their vectors outlasts Prisma's 5s default
+const SWAP_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+export type ReindexJobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface ReindexJobProgress {
+  jobId: string;
+  studyId: string;
+  status: ReindexJobStatus;
+  totalDocuments: number;
+  processedDocuments: number;
+  progress: number; // 0-100
+  error: string | null;
+  target: {
+    embeddingProvider: string;
+    embeddingModel: string;
+    embeddingDimensions: number;
+    chunkSize: number;
+    overlapSize: number;
+  };
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+interface ReindexJobRecord {
+  id: string;
+  studyId: string;
+  status: ReindexJobStatus;
+  totalDocuments: number;
+  processedDocuments: number;
+  lastDocumentId: string | null;
+  embeddingProvider: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  chunkSize: number;
+  overlapSize: number;
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export function formatReindexJobProgress(job: ReindexJobRecord): ReindexJobProgress {
+  return {
+    jobId: job.id,
+    studyId: job.studyId,
+    status: job.status,
+    totalDocuments: job.totalDocuments,
+    processedDocuments: job.processedDocuments,
+    progress: job.totalDocuments > 0
+      ? Math.round((job.processedDocuments / job.totalDocuments) * 100)
+      : 100,
+    error: job.error,
+    target: {
+      embeddingProvider: job.embeddingProvider,
+      embeddingModel: job.embeddingModel,
+      embeddingDimensions: job.embeddingDimensions,
+      chunkSize: job.chunkSize,
+      overlapSize: job.overlapSize,
+    },
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Whether a RUNNING job has stopped reporting progress (e.g. the process died)
+ */
+export function isReindexJobStale(job: Pick<ReindexJobRecord, 'status' | 'updatedAt'>, now: Date = new Date()): boolean {
+  return job.status === 'RUNNING' && now.getTime() - job.updatedAt.getTime() > STALE_JOB_MS;
+}
+
+/**
+ * Latest job for a study, if any
+ */
+export async function getLatestReindexJob(studyId: string): Promise<ReindexJobRecord | null> {
+  return prisma.reindexJob.findFirst({
+    where: { studyId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Whether a job targets the configuration a new job would use. Resuming a job
+ * for another target would leave the study split between the two.
+ */
+function matchesActiveTarget(job: ReindexJobRecord): boolean {
+  const target = getActiveEmbeddingModel();
+  return job.embeddingProvider === target.provider &&
+    job.embeddingModel === target.model &&
+    job.embeddingDimensions === target.dimensions &&
+    job.chunkSize === CHILD_CHUNKING_OPTIONS.chunkSize &&
+    job.overlapSize === CHILD_CHUNKING_OPTIONS.overlapSize;
+}
+
+/**
+ * Prisma's error for a transaction that lost a serialization conflict
+ */
+function isTransactionConflict(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2034';
+}
+
+/**
+ * Create a reindex job for a study, or return its unfinished job so it resumes.
+ * An unfinished job for an older embedding or chunking configuration is
+ * retired and a fresh one created. Throws if a job for the study is actively
+ * running or another request is starting one.
+ */
+export async function startReindexJob(studyId: string): Promise<ReindexJobRecord> {
+  try {
+    // Serializable, so two concurrent starts can't both find no job and create one each
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const latest: ReindexJobRecord | null = await tx.reindexJob.findFirst({
+        where: { studyId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (latest?.status === 'RUNNING' && !isReindexJobStale(latest)) {
+        throw new Error('A reindex job is already running for this study');
+      }
+
+      if (latest && latest.status !== 'COMPLETED') {
+        if (matchesActiveTarget(latest)) {
+          return tx.reindexJob.update({
+            where: { id: latest.id },
+            data: { status: 'PENDING', error: null },
+          });
+        }
+
+        await tx.reindexJob.update({
+          where: { id: latest.id },
+          data: { status: 'FAILED', error: 'Superseded: the embedding or chunking configuration changed' },
+        });
+      }
+
+      const totalDocuments = await tx.document.count({
+        where: {
+          studyId,
+          status: 'READY',
+          extractedText: { not: null },
+        },
+      });
+
+      const target = getActiveEmbeddingModel();
+
+      return tx.reindexJob.create({
+        data: {
+          studyId,
+          totalDocuments,
+          embeddingProvider: target.provider,
+          embeddingModel: target.model,
+          embeddingDimensions: target.dimensions,
+          chunkSize: CHILD_CHUNKING_OPTIONS.chunkSize,
+          overlapSize: CHILD_CHUNKING_OPTIONS.overlapSize,
+        },
+      });
+    }, { isolationLevel: 'Serializable' });
+  } catch (error) {
+    if (isTransactionConflict(error)) {
+      throw new Error('A reindex job is already being started for this study');
+    }
+    throw error;
+  }
+}
+
+export interface ReindexDocumentOptions {
+  chunkingStrategy?: string | null; // Document.chunkingStrategy; null/unknown auto-detects
+  pageOffsets?: number[]; // Document.pageOffsets, for chunk page numbers
+  surveyRecords?: SurveyRecord[]; // Document.surveyRecords; one chunk per response when set
+  // Owner of the document; when set, chunks whose exact content the user
+  // already has embedded with the active model reuse that embedding
+  userId?: string;
+  // Document context header (lib/contextual-embeddings) each chunk is embedded
+  // with; stored on the document alongside the chunks
+  embeddingContext?: string | null;
+}
+
+/**
+ * Stored embeddings, by chunk content, of the user's READY documents that
+ * were embedded with the given model
+ */
+async function findReusableEmbeddings(
+  contents: string[],
+  userId: string,
+  model: EmbeddingModelInfo
+): Promise<Map<string, Buffer | Uint8Array>> {
+  const existing: Array<{ content: string; embedding: Buffer | Uint8Array | null }> =
+    await prisma.documentChunk.findMany({
+      where: {
+        content: { in: Array.from(new Set(contents)) },
+        embedding: { not: null },
+        embeddingProvider: model.provider,
+        embeddingModel: model.model,
+        embeddingDimensions: model.dimensions,
+        contextualized: false,
+        document: { status: 'READY', study: { userId } },
+      },
+      select: { content: true, embedding: true },
+    });
+
+  return new Map(existing.map(chunk => [chunk.content, chunk.embedding!]));
+}
+
+/**
+ * Embeddings for each chunk content, serialized for storage, reusing the
+ * user's existing ones where possible
+ */
+async function embedChunkContents(
+  contents: string[],
+  userId?: string
+): Promise<{ embeddings: Array<Buffer | Uint8Array>; model: EmbeddingModelInfo }> {
+  const activeModel = getActiveEmbeddingModel();
+  const reusable = userId
+    ? await findReusableEmbeddings(contents, userId, activeModel)
+    : new Map<string, Buffer | Uint8Array>();
+
+  const missing = Array.from(new Set(contents.filter(content => !reusable.has(content))));
+  if (missing.length === 0) {
+    return { embeddings: contents.map(content => reusable.get(content)!), model: activeModel };
+  }
+
+  const embeddingResult = await generateBatchEmbeddings(missing);
+  const generated = new Map(missing.map((content, index) => [
+    content,
+    serializeEmbedding(embeddingResult.embeddings[index]),
+  ]));
+
+  return {
+    embeddings: contents.map(content => generated.get(content) ?? reusable.get(content)!),
+    model: embeddingResult.model,
+  };
+}
+
+/**
+ * IDs of the document's current chunks that the new chunk set keeps, by
+ * position in `chunks`. Citations store chunk IDs, so a chunk whose content is
+ * unchanged keeps its ID (preferring one at the same offset when the same
+ * content appears more than once) and its citations keep resolving.
+ */
+async function matchPreviousChunkIds(
+  documentId: string,
+  chunks: DocumentChunk[]
+): Promise<Array<string | undefined>> {
+  const previous: Array<{ id: string; content: string; startOffset: number | null }> =
+    await prisma.documentChunk.findMany({
+      where: { documentId },
+      select: { id: true, content: true, startOffset: true },
+    });
+
+  const unused = [...previous];
+  return chunks.map(chunk => {
+    const sameOffset = unused.findIndex(candidate =>
+      candidate.content === chunk.content && candidate.startOffset === (chunk.startPosition ?? null)
+    );
+    const index = sameOffset !== -1 ? sameOffset : unused.findIndex(candidate => candidate.content === chunk.content);
+    return index === -1 ? undefined : unused.splice(index, 1)[0].id;
+  });
+}
+
+/**
+ * Rebuild one document's chunks and swap them in atomically. Unchanged chunks
+ * keep their IDs (see matchPreviousChunkIds).
+ *
+ * @returns Number of chunks the document now has
+ */
+export async function reindexDocument(
+  documentId: string,
+  extractedText: string,
+  options: ReindexDocumentOptions = {}
+): Promise<number> {
+  const { chunkingStrategy, pageOffsets = [], surveyRecords = [], userId, embeddingContext } = options;
+  const chunks = surveyRecords.length > 0
+    ? chunkSurveyRecords(extractedText, surveyRecords)
+    : chunkHierarchically(extractedText, {
+      strategy: isChunkingStrategy(chunkingStrategy) ? chunkingStrategy : 'auto',
+    });
+
+  // Embed before touching the database so a provider failure changes nothing.
+  // Contextual embeddings are specific to the document, so none are reused.
+  const embeddingResult = embeddingContext
+    ? await embedChunkContents(chunks.map(chunk => contextualizeChunk(embeddingContext, chunk.content)))
+    : await embedChunkContents(chunks.map(chunk => chunk.content), userId);
+
+  const previousIds = await matchPreviousChunkIds(documentId, chunks);
+
+  const chunkData = chunks.map((chunk, index) => ({
+    ...(previousIds[index] && { id: previousIds[index] }),
+    content: chunk.content,
+    chunkIndex: chunk.chunkIndex,
+    documentId,
+    embedding: embeddingResult.embeddings[index],
+    embeddingProvider: embeddingResult.model.provider,
+    embeddingModel: embeddingResult.model.model,
+    embeddingDimensions: embeddingResult.model.dimensions,
+    contextualized: !!embeddingContext,
+    speakers: chunk.speakers ?? [],
+    startTimestamp: chunk.startTimestamp ?? null,
+    endTimestamp: chunk.endTimestamp ?? null,
+    startOffset: chunk.startPosition ?? null,
+    endOffset: chunk.endPosition ?? null,
+    parentStartOffset: chunk.parentStartPosition ?? null,
+    parentEndOffset: chunk.parentEndPosition ?? null,
+    startPage: chunk.startPosition !== undefined ? findPageNumber(pageOffsets, chunk.startPosition) ?? null : null,
+    // endPosition is exclusive, so the last character decides the end page
+    endPage: chunk.endPosition !== undefined ? findPageNumber(pageOffsets, chunk.endPosition - 1) ?? null : null,
+    respondentId: chunk.respondentId ?? null,
+    attributes: chunk.attributes ?? undefined,
+  }));
+
+  // The vector index is written in the same transaction, so the document is
+  // never left with chunks that search can't find
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.documentChunk.deleteMany({ where: { documentId } });
+    await tx.documentChunk.createMany({ data: chunkData });
+    if (embeddingContext) {
+      await tx.document.update({ where: { id: documentId }, data: { embeddingContext } });
+    }
+    await getVectorIndex().indexDocument(documentId, tx);
+  }, { timeout: SWAP_TRANSACTION_TIMEOUT_MS });
+
+  return chunks.length;
+}
+
+/**
+ * Process a job's remaining documents, resuming after lastDocumentId.
+ * On failure the job is marked FAILED and can be resumed with startReindexJob.
+ */
+export async function runReindexJob(
+  jobId: string,
+  onProgress?: (progress: ReindexJobProgress) => void
+): Promise<ReindexJobProgress> {
+  let job: ReindexJobRecord = await prisma.reindexJob.update({
+    where: { id: jobId },
+    data: { status: 'RUNNING', error: null },
+  });
+
+  try {
+    const contextual = await isContextualEmbeddingEnabled(job.studyId);
+    const documents: Array<{
+      id: string;
+      fileName: string;
+      extractedText: string | null;
+      chunkingStrategy: string | null;
+      pageOffsets: number[];
+      surveyRecords: unknown;
+      embeddingContext: string | null;
+    }> =
+      await prisma.document.findMany({
+        where: {
+          studyId: job.studyId,
+          status: 'READY',
+          extractedText: { not: null },
+          ...(job.lastDocumentId && { id: { gt: job.lastDocumentId } }),
+        },
+        select: {
+          id: true,
+          fileName: true,
+          extractedText: true,
+          chunkingStrategy: true,
+          pageOffsets: true,
+          surveyRecords: true,
+          embeddingContext: true,
+        },
+        orderBy: { id: 'asc' },
+      });
+
+    for (const document of documents) {
+      const text = document.extractedText ?? '';
+      // The text is unchanged since ingestion, so a stored context still fits it
+      const embeddingContext = contextual
+        ? document.embeddingContext ?? await generateDocumentContext(document.id, text)
+        : undefined;
+      const chunkCount = await reindexDocument(document.id, text, {
+        chunkingStrategy: document.chunkingStrategy,
+        pageOffsets: document.pageOffsets,
+        surveyRecords: parseSurveyRecords(document.surveyRecords),
+        ...(embeddingContext && { embeddingContext }),
+      });
+      console.log(`Reindexed ${document.fileName}: ${chunkCount} chunks`);
+
+      job = await prisma.reindexJob.update({
+        where: { id: jobId },
+        data: {
+          processedDocuments: { increment: 1 },
+          lastDocumentId: document.id,
+          // Documents uploaded after the job started extend the total
+          totalDocuments: Math.max(job.totalDocuments, job.processedDocuments + 1),
+        },
+      });
+
+      onProgress?.(formatReindexJobProgress(job));
+    }
+
+    job = await prisma.reindexJob.update({
+      where: { id: jobId },
+      data: { status: 'COMPLETED', completedAt: new Date() },
+    });
+
+    return formatReindexJobProgress(job);
+
+  } catch (error) {
+    console.error(`Reindex job ${jobId} failed:`, error);
+
+    job = await prisma.reindexJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+
+    return formatReindexJobProgress(job);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Browser side of resumable uploads (see lib/resumable-upload.ts)
+ *
+ * Sends a file to /api/upload/resumable in chunks. A failed chunk is retried
+ * from the offset the server reports, and the uploadId is remembered in
+ * localStorage per study and file, so picking the same file again after a
+ * reload or a failed batch resumes the upload instead of restarting it.
+ */
+
+import { calculateRetryDelay, sleep } from "./error-handling";
+import { RESUMABLE_CHUNK_SIZE } from "./constants";
+import type { UploadSessionStatus } from "./resumable-upload";
+
+// Attempts per chunk before giving up on network errors and 5xx responses
+const MAX_CHUNK_ATTEMPTS = 5;
+
+export interface ResumableUploadOptions {
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Files above one chunk are uploaded resumably
+ */
+export function shouldUploadResumably(file: File): boolean {
+  return file.size > RESUMABLE_CHUNK_SIZE;
+}
+
+function getResumeKey(file: File, studyId: string): string {
+  return `resumable-upload:${studyId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function getResumeStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null; // Storage disabled
+  }
+}
+
+/**
+ * Forget a finished upload once a batch has claimed it
+ */
+export function clearResumableUpload(file: File, studyId: string): void {
+  getResumeStorage()?.removeItem(getResumeKey(file, studyId));
+}
+
+class ChunkRequestError extends Error {
+  constructor(message: string, public status: number, public offset?: number) {
+    super(message);
+    this.name = 'ChunkRequestError';
+  }
+}
+
+async function requestUploadStatus(url: string, init: RequestInit): Promise<UploadSessionStatus> {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ChunkRequestError(data.error || `HTTP ${response.status}`, response.status, data.offset);
+  }
+  return data as UploadSessionStatus;
+}
+
+async function startOrResumeSession(file: File, studyId: string, signal?: AbortSignal): Promise<UploadSessionStatus> {
+  const storage = getResumeStorage();
+  const resumeKey = getResumeKey(file, studyId);
+  const previousId = storage?.getItem(resumeKey);
+
+  if (previousId) {
+    try {
+      return await requestUploadStatus(`/api/upload/resumable/${previousId}`, { signal });
+    } catch (error) {
+      if (!(error instanceof ChunkRequestError) || error.status !== 404) throw error;
+      storage?.removeItem(resumeKey); // Expired or cleaned up; start over
+    }
+  }
+
+  const session = await requestUploadStatus('/api/upload/resumable', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ studyId, fileName: file.name, fileType: file.type, fileSize: file.size }),
+    signal,
+  });
+  storage?.setItem(resumeKey, session.uploadId);
+  return session;
+}
+
+/**
+ * Upload a file in chunks, resuming any earlier attempt; resolves to the
+ * uploadId to pass to the batch upload
+ */
+export async function uploadFileResumably(
+  file: File,
+  studyId: string,
+  options: ResumableUploadOptions = {}
+): Promise<string> {
+  const { onProgress, signal } = options;
+  let session = await startOrResumeSession(file, studyId, signal);
+  const url = `/api/upload/resumable/${session.uploadId}`;
+  let attempt = 0;
+
+  onProgress?.(session.offset, file.size);
+
+  while (session.status !== 'completed') {
+    // An empty chunk at the end asks the server to finish reassembly
+    const chunk = file.slice(session.offset, session.offset + session.chunkSize);
+
+    try {
+      session = await requestUploadStatus(url, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/offset+octet-stream',
+          'Upload-Offset': String(session.offset),
+        },
+        body: chunk,
+        signal,
+      });
+      attempt = 0;
+      onProgress?.(session.offset, file.size);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+
+      // Out of sync (e.g. a chunk landed but its response was lost): continue
+      // from the server's offset
+      if (error instanceof ChunkRequestError && error.status === 409 && error.offset !== undefined) {
+        session = { ...session, offset: error.offset };
+        continue;
+      }
+      if (error instanceof ChunkRequestError && error.status < 500) {
+        if (error.status === 404) clearResumableUpload(file, studyId);
+        throw error;
+      }
+
+      attempt++;
+      if (attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+      await sleep(calculateRetryDelay(attempt));
+      // The failed request may still have landed; ask where to continue
+      session = await requestUploadStatus(url, { signal }).catch(() => session);
+    }
+  }
+
+  return session.uploadId;
+}
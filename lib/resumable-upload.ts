@@ -0,0 +1,209 @@
+/**
+ * Resumable uploads
+ *
+ * Large files are uploaded in chunks so a flaky connection costs one chunk,
+ * not the whole file:
+ *
+ *   POST   /api/upload/resumable             declare the file, get an uploadId
+ *   PATCH  /api/upload/resumable/[uploadId]  send bytes at Upload-Offset
+ *   GET    /api/upload/resumable/[uploadId]  current offset, to resume
+ *   DELETE /api/upload/resumable/[uploadId]  abandon the upload
+ *
+ * When the last chunk arrives the file is reassembled in storage and the
+ * session becomes COMPLETED; the batch upload endpoint then turns it into a
+ * document by uploadId. Sessions that stop receiving chunks expire and are
+ * garbage-collected by cleanupAbandonedUploads.
+ */
+
+import { prisma } from "./prisma";
+import { deleteAssembledUpload, getResumableBackend } from "./file-storage/resumable";
+import { RESUMABLE_CHUNK_SIZE } from "./constants";
+
+// An upload with no chunk for this long is abandoned
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export interface UploadSessionRecord {
+  id: string;
+  userId: string;
+  studyId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  offset: number;
+  status: 'UPLOADING' | 'COMPLETED';
+  storageType: string;
+  storagePath: string | null;
+  storageUrl: string | null;
+  expiresAt: Date;
+}
+
+/**
+ * What clients see of a session
+ */
+export interface UploadSessionStatus {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  offset: number;
+  status: 'uploading' | 'completed';
+  chunkSize: number;
+  expiresAt: string;
+}
+
+export class UploadSessionError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public offset?: number // Current offset, for offset mismatches
+  ) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+export function toUploadSessionStatus(session: UploadSessionRecord): UploadSessionStatus {
+  return {
+    uploadId: session.id,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    offset: session.offset,
+    status: session.status === 'COMPLETED' ? 'completed' : 'uploading',
+    chunkSize: RESUMABLE_CHUNK_SIZE,
+    expiresAt: session.expiresAt.toISOString(),
+  };
+}
+
+export async function createUploadSession(input: {
+  userId: string;
+  studyId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  storageType: string;
+}): Promise<UploadSessionRecord> {
+  return prisma.uploadSession.create({
+    data: {
+      ...input,
+      expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+    },
+  });
+}
+
+/**
+ * A session owned by the user; expired sessions are treated as gone
+ */
+export async function getUploadSession(uploadId: string, userId: string): Promise<UploadSessionRecord> {
+  const session: UploadSessionRecord | null = await prisma.uploadSession.findUnique({
+    where: { id: uploadId },
+  });
+
+  if (!session || session.userId !== userId || session.expiresAt < new Date()) {
+    throw new UploadSessionError('Upload not found or expired', 404);
+  }
+
+  return session;
+}
+
+/**
+ * Write a chunk at the client's offset and advance the session
+ *
+ * The offset must match what the server has received; on a mismatch the
+ * client is told the real offset and resumes from there. Completes the
+ * upload when the chunk reaches the declared size.
+ */
+export async function appendUploadChunk(
+  session: UploadSessionRecord,
+  offset: number,
+  chunk: Buffer
+): Promise<UploadSessionRecord> {
+  if (session.status === 'COMPLETED') {
+    throw new UploadSessionError('Upload is already complete', 409, session.offset);
+  }
+  if (offset !== session.offset) {
+    throw new UploadSessionError(`Offset mismatch: expected ${session.offset}`, 409, session.offset);
+  }
+  if (chunk.length > RESUMABLE_CHUNK_SIZE) {
+    throw new UploadSessionError(`Chunks must be at most ${RESUMABLE_CHUNK_SIZE / (1024 * 1024)}MB`, 413, session.offset);
+  }
+  if (chunk.length === 0 && offset < session.fileSize) {
+    throw new UploadSessionError('Chunk is empty', 400, session.offset);
+  }
+  if (offset + chunk.length > session.fileSize) {
+    throw new UploadSessionError('Chunk runs past the declared file size', 400, session.offset);
+  }
+
+  const backend = getResumableBackend(session.storageType);
+  const nextOffset = offset + chunk.length;
+
+  // An empty chunk at the end retries a reassembly that failed after the
+  // last bytes were received
+  if (chunk.length > 0) {
+    await backend.writeChunk(session.id, offset, chunk);
+
+    // Only advance from the offset this chunk was written at, so two
+    // requests racing with the same chunk can't both count it
+    const advanced = await prisma.uploadSession.updateMany({
+      where: { id: session.id, offset, status: 'UPLOADING' },
+      data: {
+        offset: nextOffset,
+        expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+      },
+    });
+    if (advanced.count === 0) {
+      const current = await getUploadSession(session.id, session.userId);
+      throw new UploadSessionError(`Offset mismatch: expected ${current.offset}`, 409, current.offset);
+    }
+  }
+
+  if (nextOffset < session.fileSize) {
+    return { ...session, offset: nextOffset };
+  }
+
+  const stored = await backend.complete(session.id, session.fileSize, session.fileName, session.studyId);
+  return prisma.uploadSession.update({
+    where: { id: session.id },
+    data: {
+      offset: nextOffset,
+      status: 'COMPLETED',
+      storagePath: stored.pathname,
+      storageUrl: stored.url,
+    },
+  });
+}
+
+/**
+ * Abandon an upload and remove its partial data
+ */
+export async function abortUploadSession(session: UploadSessionRecord): Promise<void> {
+  await prisma.uploadSession.delete({ where: { id: session.id } });
+
+  if (session.status === 'UPLOADING') {
+    await getResumableBackend(session.storageType).discard(session.id);
+  } else {
+    await deleteAssembledUpload(session);
+  }
+}
+
+/**
+ * Completed sessions for a batch, verified to belong to the user and study
+ */
+export async function getCompletedUploads(
+  uploadIds: string[],
+  userId: string,
+  studyId: string
+): Promise<UploadSessionRecord[]> {
+  if (uploadIds.length === 0) {
+    return [];
+  }
+
+  const sessions: UploadSessionRecord[] = await prisma.uploadSession.findMany({
+    where: { id: { in: uploadIds }, userId, studyId, status: 'COMPLETED' },
+  });
+
+  const missing = uploadIds.filter(id => !sessions.some(session => session.id === id));
+  if (missing.length > 0) {
+    throw new UploadSessionError(`Uploads not found or incomplete: ${missing.join(', ')}`, 400);
+  }
+
+  return sessions;
+}
@@ -0,0 +1,356 @@
+import JSZip from 'jszip';
+import { chunkText, type ChunkingOptions, type DocumentChunk } from './document-chunking';
+
+/**
+ * Spreadsheet survey import
+ *
+ * CSV and XLSX survey exports are read into a table and, using a column
+ * mapping chosen at upload time, turned into one text block per response row:
+ *
+ *   Respondent 412 (Segment: SMB, Plan: Pro)
+ *   What frustrates you most?: Exports take forever.
+ *
+ * Each block's character range is stored as a SurveyRecord so chunking can
+ * keep every response in its own chunk, tagged with the respondent and their
+ * attributes. Runs in the browser too (the upload dialog reads headers).
+ */
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface SurveyColumnMapping {
+  responseColumns: string[]; // Open-ended answers; each becomes a "Column: answer" line
+  respondentIdColumn?: string | null; // Falls back to the row number
+  attributeColumns?: string[]; // Segment, plan, ... attached to every chunk of the response
+}
+
+export interface SurveyRecord {
+  respondentId: string;
+  attributes: Record<string, string>;
+  startOffset: number; // Character range of the response in the extracted text
+  endOffset: number;
+}
+
+const RESPONDENT_ID_HEADER = /^(respondent|response|participant|user|record)?[\s_-]*id$/i;
+
+/**
+ * Spreadsheet format implied by a file's MIME type or extension, if any
+ */
+export function getSpreadsheetFormat(mimeType: string, fileName: string): SpreadsheetFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  if (mimeType.includes('spreadsheetml') || extension === 'xlsx') return 'xlsx';
+  if (mimeType === 'text/csv' || extension === 'csv') return 'csv';
+  return null;
+}
+
+/**
+ * Parse RFC 4180 CSV. The delimiter (comma, semicolon or tab) is taken from
+ * whichever appears most often in the first line.
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, ''); // Byte order mark
+  const firstLine = input.slice(0, input.indexOf('\n') === -1 ? input.length : input.indexOf('\n'));
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Concatenated <t> runs of a shared or inline string
+function readStringItem(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map(match => decodeXmlEntities(match[1]))
+    .join('');
+}
+
+// "AB12" -> 27
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/\d+$/, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook as rows of cell text
+ */
+export async function parseXLSX(data: Uint8Array | ArrayBuffer): Promise<string[][]> {
+  const zip = await JSZip.loadAsync(data);
+
+  // First sheet in workbook order, resolved through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await zip.file('xl/workbook.xml')?.async('string');
+  const relationships = await zip.file('xl/_rels/workbook.xml.rels')?.async('string');
+  const firstSheetRelId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (firstSheetRelId && relationships) {
+    const target = relationships.match(new RegExp(`<Relationship\\b[^>]*Id="${firstSheetRelId}"[^>]*Target="([^"]+)"`))?.[1]
+      ?? relationships.match(new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${firstSheetRelId}"`))?.[1];
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = await zip.file(sheetPath)?.async('string');
+  if (!sheet) {
+    throw new Error('Workbook has no worksheets');
+  }
+
+  const sharedStringsXml = await zip.file('xl/sharedStrings.xml')?.async('string');
+  const sharedStrings = sharedStringsXml
+    ? Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(match => readStringItem(match[1]))
+    : [];
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's' && rawValue !== undefined) {
+        value = sharedStrings[parseInt(rawValue, 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readStringItem(body);
+      } else if (rawValue !== undefined) {
+        value = decodeXmlEntities(rawValue);
+      }
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read a spreadsheet into headers and data rows. Empty rows are dropped,
+ * blank headers become "Column N" and duplicate headers get a suffix.
+ */
+export async function readSpreadsheet(
+  data: Uint8Array | ArrayBuffer,
+  format: SpreadsheetFormat
+): Promise<SpreadsheetTable> {
+  const rawRows = format === 'xlsx'
+    ? await parseXLSX(data)
+    : parseCSV(new TextDecoder('utf-8').decode(data));
+
+  const rows = rawRows
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell.length > 0));
+
+  if (rows.length === 0) {
+    return { headers: [], rows: [] };
+  }
+
+  const seen = new Map<string, number>();
+  const headers = rows[0].map((header, index) => {
+    const base = header || `Column ${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  return { headers, rows: rows.slice(1) };
+}
+
+export function isSurveyColumnMapping(value: unknown): value is SurveyColumnMapping {
+  if (!value || typeof value !== 'object') return false;
+  const mapping = value as Record<string, unknown>;
+  const isStringArray = (item: unknown) => Array.isArray(item) && item.every(entry => typeof entry === 'string');
+
+  return (
+    isStringArray(mapping.responseColumns) &&
+    (mapping.respondentIdColumn === undefined || mapping.respondentIdColumn === null || typeof mapping.respondentIdColumn === 'string') &&
+    (mapping.attributeColumns === undefined || isStringArray(mapping.attributeColumns))
+  );
+}
+
+/**
+ * Default mapping when none was chosen: an "ID"-like column identifies the
+ * respondent and every other column is treated as a response
+ */
+export function inferSurveyMapping(headers: string[]): SurveyColumnMapping {
+  const respondentIdColumn = headers.find(header => RESPONDENT_ID_HEADER.test(header.trim())) ?? null;
+  return {
+    responseColumns: headers.filter(header => header !== respondentIdColumn),
+    respondentIdColumn,
+    attributeColumns: [],
+  };
+}
+
+/**
+ * Columns named in the mapping that the spreadsheet doesn't have
+ */
+export function findMissingColumns(mapping: SurveyColumnMapping, headers: string[]): string[] {
+  const named = [
+    ...mapping.responseColumns,
+    ...(mapping.attributeColumns ?? []),
+    ...(mapping.respondentIdColumn ? [mapping.respondentIdColumn] : []),
+  ];
+  return named.filter(column => !headers.includes(column));
+}
+
+export function formatRespondentLabel(respondentId: string): string {
+  return `Respondent ${respondentId}`;
+}
+
+/**
+ * "Segment: SMB, Plan: Pro"
+ */
+export function formatSurveyAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes)
+    .map(([column, value]) => `${column}: ${value}`)
+    .join(', ');
+}
+
+/**
+ * Build the document text and per-response records. Rows without any
+ * response text are skipped.
+ */
+export function buildSurveyText(
+  table: SpreadsheetTable,
+  mapping: SurveyColumnMapping
+): { text: string; records: SurveyRecord[] } {
+  const columnOf = (name: string) => table.headers.indexOf(name);
+  const responseColumns = mapping.responseColumns.filter(column => columnOf(column) !== -1);
+  const attributeColumns = (mapping.attributeColumns ?? []).filter(column => columnOf(column) !== -1);
+  const idColumn = mapping.respondentIdColumn ? columnOf(mapping.respondentIdColumn) : -1;
+
+  let text = '';
+  const records: SurveyRecord[] = [];
+
+  table.rows.forEach((cells, rowIndex) => {
+    // Chunking normalizes line endings, so the offsets must be taken on
+    // normalized text too; quoted CSV cells and XLSX cells can hold CRLFs
+    const row = cells.map(cell => cell.replace(/\r\n?/g, '\n'));
+    const answers = responseColumns
+      .map(column => ({ column, answer: row[columnOf(column)] ?? '' }))
+      .filter(({ answer }) => answer.length > 0);
+    if (answers.length === 0) return;
+
+    const respondentId = (idColumn !== -1 && row[idColumn]) || String(rowIndex + 1);
+    const attributes: Record<string, string> = {};
+    attributeColumns.forEach(column => {
+      const value = row[columnOf(column)];
+      if (value) attributes[column] = value;
+    });
+
+    const heading = Object.keys(attributes).length > 0
+      ? `${formatRespondentLabel(respondentId)} (${formatSurveyAttributes(attributes)})`
+      : formatRespondentLabel(respondentId);
+    // Single-question surveys don't need the question repeated on every answer
+    const body = responseColumns.length === 1
+      ? answers[0].answer
+      : answers.map(({ column, answer }) => `${column}: ${answer}`).join('\n');
+
+    if (text.length > 0) text += '\n\n';
+    const startOffset = text.length;
+    text += `${heading}\n${body}`;
+    records.push({ respondentId, attributes, startOffset, endOffset: text.length });
+  });
+
+  return { text, records };
+}
+
+/**
+ * Validate survey records read back from Document.surveyRecords
+ */
+export function parseSurveyRecords(value: unknown): SurveyRecord[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((record): record is SurveyRecord =>
+    !!record &&
+    typeof record.respondentId === 'string' &&
+    typeof record.startOffset === 'number' &&
+    typeof record.endOffset === 'number' &&
+    !!record.attributes && typeof record.attributes === 'object'
+  );
+}
+
+/**
+ * One chunk per response; responses longer than chunkSize are split with
+ * plain-text chunking and every piece keeps the respondent and attributes
+ */
+export function chunkSurveyRecords(
+  text: string,
+  records: SurveyRecord[],
+  options: Partial<ChunkingOptions> = {}
+): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+
+  for (const record of records) {
+    const recordText = text.slice(record.startOffset, record.endOffset);
+    const pieces = chunkText(recordText, { ...options, strategy: 'text' });
+
+    for (const piece of pieces) {
+      chunks.push({
+        content: piece.content,
+        chunkIndex: chunks.length,
+        startPosition: record.startOffset + (piece.startPosition ?? 0),
+        endPosition: record.startOffset + (piece.endPosition ?? recordText.length),
+        respondentId: record.respondentId,
+        attributes: record.attributes,
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,274 @@
+import type { ChunkingOptions, DocumentChunk } from './document-chunking';
+
+/**
+ * Transcript-aware chunking
+ *
+ * Interview transcripts are split into speaker turns (`Interviewer:`, `P3:`,
+ * `[00:12:31] P3:` ...), turns are grouped into question/answer exchanges, and
+ * exchanges are packed into chunks so an answer is never separated from the
+ * question that prompted it. Chunks carry the speakers and timestamps they
+ * cover. Exchanges are self-contained, so unlike plain-text chunking there is
+ * no character overlap between chunks.
+ */
+
+export interface TranscriptTurn {
+  speaker?: string;
+  timestamp?: string;
+  endTimestamp?: string; // From "[start - end]" labels (caption files)
+  startPosition: number;
+  endPosition: number;
+}
+
+const TIMESTAMP = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?`;
+// A timestamp or a "start - end" / "start --> end" range
+const TIME_RANGE = String.raw`(${TIMESTAMP})(?:\s*(?:-->|[-–])\s*(${TIMESTAMP}))?`;
+// Short capitalised label: "Interviewer", "P3", "Participant 12", "Dr. Smith"
+const SPEAKER = String.raw`[A-Z][A-Za-z0-9.'\-]*(?: [A-Za-z0-9.'\-]+){0,3}`;
+
+const TIMESTAMP_THEN_SPEAKER = new RegExp(String.raw`^\s*[\[(]?${TIME_RANGE}[\])]?\s*[-–—]?\s*(${SPEAKER})\s*:(?:\s|$)`);
+const SPEAKER_THEN_TIMESTAMP = new RegExp(String.raw`^\s*(${SPEAKER})\s*[\[(](${TIMESTAMP})[\])]\s*:(?:\s|$)`);
+const SPEAKER_ONLY = new RegExp(String.raw`^\s*(${SPEAKER})\s*:(?:\s|$)`);
+const TIMESTAMP_ONLY = new RegExp(String.raw`^\s*[\[(]${TIME_RANGE}[\])](?:\s|$)`);
+
+const INTERVIEWER_LABEL = /^(interviewer|moderator|facilitator|researcher|host|q|i|int)\b/i;
+
+// Fraction of non-empty lines that must open a turn for auto-detection
+const MIN_LABELLED_LINE_RATIO = 0.4;
+const MIN_LABELLED_LINES = 3;
+
+type TurnLabel = Pick<TranscriptTurn, 'speaker' | 'timestamp' | 'endTimestamp'>;
+
+function parseTurnLabel(line: string): TurnLabel | null {
+  let match = line.match(TIMESTAMP_THEN_SPEAKER);
+  if (match) return { timestamp: match[1], ...(match[2] && { endTimestamp: match[2] }), speaker: match[3].trim() };
+
+  match = line.match(SPEAKER_THEN_TIMESTAMP);
+  if (match) return { speaker: match[1].trim(), timestamp: match[2] };
+
+  match = line.match(SPEAKER_ONLY);
+  if (match) return { speaker: match[1].trim() };
+
+  match = line.match(TIMESTAMP_ONLY);
+  if (match) return { timestamp: match[1], ...(match[2] && { endTimestamp: match[2] }) };
+
+  return null;
+}
+
+function normalizeText(text: string): string {
+  // Same normalization as chunkText so positions line up
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .trim();
+}
+
+/**
+ * Split normalized transcript text into turns. Lines without a label continue
+ * the previous turn; text before the first label becomes an unlabelled turn.
+ */
+export function parseTranscriptTurns(text: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let position = 0;
+
+  for (const line of text.split('\n')) {
+    const label = parseTurnLabel(line);
+
+    if (label || turns.length === 0) {
+      if (turns.length > 0) {
+        turns[turns.length - 1].endPosition = position;
+      }
+      turns.push({ ...label, startPosition: position, endPosition: position + line.length });
+    }
+
+    position += line.length + 1; // account for the newline
+  }
+
+  if (turns.length > 0) {
+    turns[turns.length - 1].endPosition = text.length;
+  }
+
+  // Drop whitespace-only turns
+  return turns.filter(turn => text.slice(turn.startPosition, turn.endPosition).trim().length > 0);
+}
+
+/**
+ * Whether text looks like a speaker-labelled or timestamped transcript
+ */
+export function detectTranscript(text: string): boolean {
+  const lines = normalizeText(text).split('\n').filter(line => line.trim().length > 0);
+  if (lines.length === 0) return false;
+
+  const labels = lines.map(parseTurnLabel).filter((label): label is NonNullable<typeof label> => label !== null);
+  if (labels.length < MIN_LABELLED_LINES || labels.length / lines.length < MIN_LABELLED_LINE_RATIO) {
+    return false;
+  }
+
+  // Either several distinct speakers or a consistently timestamped transcript
+  const speakers = new Set(labels.map(label => label.speaker?.toLowerCase()).filter(Boolean));
+  const timestamped = labels.filter(label => label.timestamp).length;
+  return speakers.size >= 2 || timestamped >= MIN_LABELLED_LINES;
+}
+
+/**
+ * Group turns into question/answer exchanges. With recognisable interviewer
+ * labels, every interviewer turn after an answer starts a new exchange;
+ * otherwise any turn ending in a question mark does.
+ */
+export function groupTurnsIntoExchanges(text: string, turns: TranscriptTurn[]): TranscriptTurn[][] {
+  const hasInterviewerLabels = turns.some(turn => turn.speaker && INTERVIEWER_LABEL.test(turn.speaker));
+
+  const isQuestion = (turn: TranscriptTurn) => hasInterviewerLabels
+    ? !!turn.speaker && INTERVIEWER_LABEL.test(turn.speaker)
+    : text.slice(turn.startPosition, turn.endPosition).trim().endsWith('?');
+
+  const exchanges: TranscriptTurn[][] = [];
+  let current: TranscriptTurn[] = [];
+  let currentHasAnswer = false;
+
+  for (const turn of turns) {
+    const question = isQuestion(turn);
+
+    if (question && currentHasAnswer) {
+      exchanges.push(current);
+      current = [];
+      currentHasAnswer = false;
+    }
+
+    current.push(turn);
+    if (!question) currentHasAnswer = true;
+  }
+
+  if (current.length > 0) {
+    exchanges.push(current);
+  }
+
+  return exchanges;
+}
+
+/**
+ * Split an oversized turn at sentence (or failing that, word) boundaries
+ */
+function splitLongTurn(text: string, turn: TranscriptTurn, chunkSize: number): TranscriptTurn[] {
+  const pieces: TranscriptTurn[] = [];
+  let start = turn.startPosition;
+
+  while (turn.endPosition - start > chunkSize) {
+    const limit = start + chunkSize;
+    const window = text.slice(start, limit);
+
+    let cut = Math.max(
+      window.lastIndexOf('. '),
+      window.lastIndexOf('? '),
+      window.lastIndexOf('! '),
+      window.lastIndexOf('\n')
+    );
+    if (cut < chunkSize / 2) {
+      cut = window.lastIndexOf(' ');
+    }
+    const end = cut > 0 ? start + cut + 1 : limit;
+
+    pieces.push({ ...turn, startPosition: start, endPosition: end });
+    start = end;
+  }
+
+  pieces.push({ ...turn, startPosition: start, endPosition: turn.endPosition });
+  return pieces;
+}
+
+function buildChunk(text: string, turns: TranscriptTurn[], chunkIndex: number): DocumentChunk {
+  const raw = text.slice(turns[0].startPosition, turns[turns.length - 1].endPosition);
+  const content = raw.trim();
+  // Positions cover the trimmed content exactly
+  const startPosition = turns[0].startPosition + (raw.length - raw.trimStart().length);
+  const endPosition = startPosition + content.length;
+  const speakers = [...new Set(turns.map(turn => turn.speaker).filter((speaker): speaker is string => !!speaker))];
+  const timestamps = turns.map(turn => turn.timestamp).filter((timestamp): timestamp is string => !!timestamp);
+  // Prefer the last turn's own end time; otherwise the last turn's start
+  const lastEnd = turns[turns.length - 1].endTimestamp;
+
+  return {
+    content,
+    chunkIndex,
+    startPosition,
+    endPosition,
+    speakers,
+    startTimestamp: timestamps[0],
+    endTimestamp: lastEnd ?? (timestamps.length > 1 ? timestamps[timestamps.length - 1] : undefined),
+  };
+}
+
+/**
+ * Chunk a transcript, keeping question/answer exchanges together where they
+ * fit within chunkSize. Returns an empty array when no turns are found.
+ */
+export function chunkTranscript(text: string, config: ChunkingOptions): DocumentChunk[] {
+  const cleanText = normalizeText(text);
+  if (cleanText.length === 0) return [];
+
+  const turns = parseTranscriptTurns(cleanText);
+  const exchanges = groupTurnsIntoExchanges(cleanText, turns);
+
+  const chunks: DocumentChunk[] = [];
+  let pending: TranscriptTurn[] = [];
+
+  const span = (parts: TranscriptTurn[]) =>
+    parts.length === 0 ? 0 : parts[parts.length - 1].endPosition - parts[0].startPosition;
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    const chunk = buildChunk(cleanText, pending, chunks.length);
+    if (chunk.content.length > 0) chunks.push(chunk);
+    pending = [];
+  };
+
+  for (const exchange of exchanges) {
+    if (span([...pending, ...exchange]) <= config.chunkSize) {
+      pending.push(...exchange);
+      continue;
+    }
+
+    flush();
+
+    if (span(exchange) <= config.chunkSize) {
+      pending.push(...exchange);
+      continue;
+    }
+
+    // Exchange too long for one chunk: fall back to packing individual turns
+    for (const turn of exchange) {
+      const pieces = span([turn]) > config.chunkSize
+        ? splitLongTurn(cleanText, turn, config.chunkSize)
+        : [turn];
+
+      for (const piece of pieces) {
+        if (span([...pending, piece]) > config.chunkSize) flush();
+        pending.push(piece);
+      }
+    }
+    flush();
+  }
+
+  flush();
+
+  // Fold a tiny trailing chunk into its predecessor when it still fits
+  if (chunks.length > 1) {
+    const last = chunks[chunks.length - 1];
+    const previous = chunks[chunks.length - 2];
+    if (
+      last.content.length < config.minChunkSize &&
+      last.endPosition! - previous.startPosition! <= config.chunkSize
+    ) {
+      chunks.splice(chunks.length - 2, 2, {
+        content: cleanText.slice(previous.startPosition, last.endPosition),
+        chunkIndex: previous.chunkIndex,
+        startPosition: previous.startPosition,
+        endPosition: last.endPosition,
+        speakers: [...new Set([...(previous.speakers ?? []), ...(last.speakers ?? [])])],
+        startTimestamp: previous.startTimestamp ?? last.startTimestamp,
+        endTimestamp: last.endTimestamp ?? last.startTimestamp ?? previous.endTimestamp,
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,194 @@
+/**
+ * Transcript file formats
+ *
+ * Parses caption files (WebVTT, SRT) and speaker-labelled exports from
+ * transcription tools (Otter, Zoom) into speaker turns, then renders them as
+ * `[start - end] Speaker: text` lines that transcript chunking understands.
+ * Consecutive captions from the same speaker are merged into one turn.
+ */
+
+export interface SpeakerTurn {
+  speaker?: string;
+  start?: string; // "hh:mm:ss"
+  end?: string;
+  text: string;
+}
+
+export type TranscriptFormat = 'vtt' | 'srt';
+
+// Captions from the same speaker are merged up to this length, so long
+// monologues keep some timestamps to navigate by
+const MAX_MERGED_TURN_LENGTH = 600;
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const VOICE_TAG = /^<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+const INLINE_SPEAKER = /^(?:>>\s*)?([A-Z][\w.'-]*(?: [A-Z0-9][\w.'-]*){0,3}):\s+/;
+const BRACKETED_SPEAKER = /^\[([^\]\n]{1,40})\]\s*/;
+
+// Otter: "Jane Doe  0:03" / Zoom: "[Jane Doe] 10:03:15" on a line of its own
+const EXPORT_HEADER = /^\s*\[?([^\n[\]:.,?!]{1,60}?)\]?\s+(\d{1,2}:\d{2}(?::\d{2})?)\s*$/;
+const MIN_EXPORT_HEADERS = 2;
+// Share of non-empty lines that must be headers (exports alternate header and text)
+const MIN_EXPORT_HEADER_RATIO = 0.3;
+
+/**
+ * "00:01:02.500", "1:02,5" or "01:02" to "hh:mm:ss"
+ */
+export function normalizeTimestamp(timestamp: string): string {
+  const parts = timestamp.split(/[.,]/)[0].split(':').map(part => parseInt(part, 10));
+  while (parts.length < 3) parts.unshift(0);
+  return parts.map(part => String(part).padStart(2, '0')).join(':');
+}
+
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '') // Styling and timestamp tags
+    .replace(/\{\\[^}]*\}/g, '') // SSA-style overrides seen in some SRT files
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Speaker named in a caption's text (voice tag, "Name:" or "[Name]" prefix),
+ * and the text without it
+ */
+function splitCaptionSpeaker(rawText: string): { speaker?: string; text: string } {
+  const voice = rawText.match(VOICE_TAG);
+  if (voice) {
+    return { speaker: voice[1].trim(), text: stripMarkup(rawText) };
+  }
+
+  const text = stripMarkup(rawText);
+  const labelled = text.match(INLINE_SPEAKER) ?? text.match(BRACKETED_SPEAKER);
+  if (labelled) {
+    return { speaker: labelled[1].trim(), text: text.slice(labelled[0].length).trim() };
+  }
+
+  return { text };
+}
+
+/**
+ * Merge consecutive captions from the same speaker into turns
+ */
+export function mergeCaptions(captions: SpeakerTurn[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  for (const caption of captions) {
+    if (!caption.text) continue;
+    const previous = turns[turns.length - 1];
+
+    if (
+      previous &&
+      previous.speaker === caption.speaker &&
+      previous.text.length + caption.text.length < MAX_MERGED_TURN_LENGTH
+    ) {
+      previous.text = `${previous.text} ${caption.text}`;
+      previous.end = caption.end ?? previous.end;
+    } else {
+      turns.push({ ...caption });
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Parse cues from WebVTT or SRT text. Both are blocks separated by blank
+ * lines with a "start --> end" timing line; anything else (WEBVTT header,
+ * NOTE/STYLE/REGION blocks, cue numbers) is skipped.
+ */
+function parseCaptionBlocks(text: string): SpeakerTurn[] {
+  const blocks = text
+    .replace(/^\uFEFF/, '') // Byte order mark
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/);
+
+  const captions: SpeakerTurn[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const timing = lines[timingIndex].match(CUE_TIMING)!;
+    const { speaker, text: captionText } = splitCaptionSpeaker(lines.slice(timingIndex + 1).join('\n'));
+
+    captions.push({
+      speaker,
+      start: normalizeTimestamp(timing[1]),
+      end: normalizeTimestamp(timing[2]),
+      text: captionText,
+    });
+  }
+
+  return mergeCaptions(captions);
+}
+
+export function parseWebVTT(text: string): SpeakerTurn[] {
+  return parseCaptionBlocks(text);
+}
+
+export function parseSRT(text: string): SpeakerTurn[] {
+  return parseCaptionBlocks(text);
+}
+
+/**
+ * Parse transcription-tool text exports where each turn starts with a line
+ * holding only the speaker and a timestamp (Otter, Zoom). Returns null when
+ * the text doesn't look like one.
+ */
+export function parseTranscriptExport(text: string): SpeakerTurn[] | null {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const turns: SpeakerTurn[] = [];
+  let current: SpeakerTurn | null = null;
+
+  for (const line of lines) {
+    const header = line.match(EXPORT_HEADER);
+    if (header) {
+      current = { speaker: header[1].trim(), start: normalizeTimestamp(header[2]), text: '' };
+      turns.push(current);
+    } else if (current && line.trim()) {
+      current.text = current.text ? `${current.text} ${line.trim()}` : line.trim();
+    }
+  }
+
+  const nonEmptyLines = lines.filter(line => line.trim()).length;
+  if (turns.length < MIN_EXPORT_HEADERS || turns.length / nonEmptyLines < MIN_EXPORT_HEADER_RATIO) {
+    return null;
+  }
+
+  // Each turn ends where the next begins
+  turns.forEach((turn, index) => {
+    turn.end = turns[index + 1]?.start;
+  });
+
+  return turns.filter(turn => turn.text.length > 0);
+}
+
+/**
+ * Render turns as "[start - end] Speaker: text" lines, one turn per line
+ */
+export function formatSpeakerTurns(turns: SpeakerTurn[]): string {
+  return turns
+    .map(turn => {
+      const time = turn.start
+        ? `[${turn.end && turn.end !== turn.start ? `${turn.start} - ${turn.end}` : turn.start}] `
+        : '';
+      const speaker = turn.speaker ? `${turn.speaker}: ` : '';
+      return `${time}${speaker}${turn.text}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Transcript format implied by a file's MIME type or extension, if any
+ */
+export function getTranscriptFormat(mimeType: string, fileName: string): TranscriptFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  if (mimeType.includes('vtt') || extension === 'vtt') return 'vtt';
+  if (mimeType.includes('subrip') || extension === 'srt') return 'srt';
+  return null;
+}
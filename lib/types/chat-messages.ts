@@ -3,7 +3,8 @@
  * Used across client (useMessages hook) and server (API routes, message history)
  */
 
-import { CitationMap } from './citations';
+import { CitationMap, QuoteVerification } from './citations';
+import type { PersistedSearchResult } from '@/lib/llm-tools/search-result-store';
 
 /**
  * Database message structure (from Prisma)
@@ -16,6 +17,7 @@ export interface DatabaseMessage {
   toolCalls?: PersistedToolCall[] | null;
   messageParts?: AISDKv5MessagePart[] | null;
   citations?: CitationMap | null;
+  quoteVerifications?: QuoteVerification[] | null;
 }
 
 /**
@@ -37,6 +39,7 @@ export interface AISDKMessage {
   >;
   createdAt: Date;
   citations?: CitationMap;
+  quoteVerifications?: QuoteVerification[];
 }
 
 /**
@@ -64,6 +67,7 @@ export interface PersistedToolCall {
   timestamp: number;
   query?: string;
   resultCount?: number;
+  results?: PersistedSearchResult[]; // Chunks a search tool returned, without their text
 }
 
 /**
@@ -0,0 +1,136 @@
+/**
+ * Chat Scope Types
+ *
+ * A user can pin a chat to part of a study: a folder, a hand-picked set of
+ * documents and/or a saved tag and attribute filter. Every search the chat
+ * runs is limited to the documents matching all of them.
+ */
+
+import {
+  describeMetadataFilter,
+  hasMetadataFilter,
+  isDocumentAttributes,
+  matchesMetadataFilter,
+  parseDocumentAttributes,
+  parseDocumentTags,
+  type DocumentAttributes,
+  type DocumentMetadataFilter,
+} from './document-metadata';
+import { isInFolder, parseFolderPath } from './folders';
+
+export interface ChatScope {
+  folderPath?: string | null;
+  documentIds?: string[]; // Pinned documents; empty leaves every document in
+  filter?: DocumentMetadataFilter;
+}
+
+export const MAX_PINNED_DOCUMENTS = 100;
+
+export function hasChatScope(scope?: ChatScope | null): scope is ChatScope {
+  return !!scope && (!!scope.folderPath || (scope.documentIds?.length ?? 0) > 0 || hasMetadataFilter(scope.filter));
+}
+
+/**
+ * The scope stored on a Chat record (folderPath, scopeDocumentIds, scopeTags,
+ * scopeAttributes)
+ */
+export function chatScopeFromRecord(chat: {
+  folderPath?: string | null;
+  scopeDocumentIds?: string[];
+  scopeTags?: string[];
+  scopeAttributes?: unknown;
+}): ChatScope {
+  return {
+    folderPath: chat.folderPath ?? null,
+    documentIds: chat.scopeDocumentIds ?? [],
+    filter: {
+      tags: chat.scopeTags ?? [],
+      attributes: isDocumentAttributes(chat.scopeAttributes) ? chat.scopeAttributes : {},
+    },
+  };
+}
+
+/**
+ * Validate a scope change from a request body. Only the fields present are
+ * returned; null clears the folder or the filter.
+ *
+ * @returns null when any field is malformed
+ */
+export function parseChatScope(value: unknown): ChatScope | null {
+  if (!value || typeof value !== 'object') return null;
+  const body = value as Record<string, unknown>;
+  const scope: ChatScope = {};
+
+  if (body.folderPath !== undefined) {
+    const folderPath = parseFolderPath(body.folderPath);
+    if (folderPath === undefined) return null;
+    scope.folderPath = folderPath;
+  }
+
+  if (body.documentIds !== undefined) {
+    if (!Array.isArray(body.documentIds) || !body.documentIds.every(id => typeof id === 'string')) return null;
+    const documentIds = [...new Set(body.documentIds)];
+    if (documentIds.length > MAX_PINNED_DOCUMENTS) return null;
+    scope.documentIds = documentIds;
+  }
+
+  if (body.filter !== undefined) {
+    const filter = (body.filter ?? {}) as Record<string, unknown>;
+    if (typeof filter !== 'object' || Array.isArray(filter)) return null;
+    const tags = parseDocumentTags(filter.tags ?? []);
+    const attributes = parseDocumentAttributes(filter.attributes ?? {});
+    if (!tags || !attributes) return null;
+    scope.filter = { tags, attributes };
+  }
+
+  return scope;
+}
+
+/**
+ * Whether a document is inside the scope; an empty scope holds every document
+ */
+export function isInChatScope(
+  document: { id: string; folderPath?: string | null; tags?: string[]; attributes?: DocumentAttributes | null },
+  scope: ChatScope
+): boolean {
+  if (scope.folderPath && !isInFolder(document.folderPath, scope.folderPath)) return false;
+  if (scope.documentIds?.length && !scope.documentIds.includes(document.id)) return false;
+  if (hasMetadataFilter(scope.filter)) {
+    return matchesMetadataFilter({ tags: document.tags ?? [], attributes: document.attributes ?? {} }, scope.filter);
+  }
+  return true;
+}
+
+/**
+ * 'the "Round 2" folder, documents tagged #churned, 2 pinned documents ("a.txt", "b.txt")'.
+ * Pinned documents are only named when `documentNames` has them.
+ */
+export function describeChatScope(scope: ChatScope, documentNames: Record<string, string> = {}): string {
+  const parts: string[] = [];
+  if (scope.folderPath) parts.push(`the "${scope.folderPath}" folder`);
+  if (hasMetadataFilter(scope.filter)) parts.push(describeMetadataFilter(scope.filter));
+
+  const pinned = scope.documentIds ?? [];
+  if (pinned.length > 0) {
+    const names = pinned.map(id => documentNames[id]).filter(Boolean);
+    const label = `${pinned.length} pinned document${pinned.length === 1 ? '' : 's'}`;
+    parts.push(names.length > 0 ? `${label} (${names.map(name => `"${name}"`).join(', ')})` : label);
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * Stable key for caching per scope
+ */
+export function chatScopeKey(scope: ChatScope): string {
+  const attributes = Object.entries(scope.filter?.attributes ?? {})
+    .map(([key, value]) => `${key.toLowerCase()}=${value.toLowerCase()}`)
+    .sort();
+  return [
+    scope.folderPath?.toLowerCase() ?? '',
+    [...(scope.documentIds ?? [])].sort().join(','),
+    [...(scope.filter?.tags ?? [])].sort().join(','),
+    attributes.join(','),
+  ].join('|');
+}
@@ -11,6 +11,18 @@
 export interface CitationData {
   documentId: string;
   documentName: string;
+  matchedBy?: Array<'semantic' | 'keyword'>; // Retriever(s) that surfaced the cited passages
+  speakers?: string[]; // Transcripts: who speaks in the retrieved passages
+  timestamps?: string[]; // Transcripts: start times of the retrieved passages
+  respondents?: string[]; // Surveys: respondent IDs of the retrieved responses
+  label?: string; // Citation text when it names a respondent ("Respondent 412") rather than the document
+  // Location of the top retrieved passage, for jumping to it in the source
+  chunkId?: string;
+  pageNumber?: number; // 1-based page the passage starts on (PDFs)
+  endPageNumber?: number; // Set when the passage runs onto later pages
+  startOffset?: number; // Character range in the document's extracted text
+  endOffset?: number;
+  chunkIds?: string[]; // Every retrieved passage from this document, for highlighting
 }
 
 /**
@@ -28,6 +40,26 @@ export interface CitationMap {
   [citationNumber: string]: CitationData;
 }
 
+/**
+ * How closely a quoted passage in a response matches the study's sources
+ * - exact: appears word for word (ignoring case, punctuation and whitespace)
+ * - paraphrased: most of its words appear in order in one passage
+ * - not_found: no passage comes close
+ */
+export type QuoteVerdict = 'exact' | 'paraphrased' | 'not_found';
+
+/**
+ * Verification result for one quoted passage in an assistant message
+ */
+export interface QuoteVerification {
+  quote: string; // Quoted text as written in the response
+  verdict: QuoteVerdict;
+  similarity: number; // 0-1 share of the quote's words found in order in the best passage
+  documentId?: string; // Best matching passage, when one was close enough
+  documentName?: string;
+  chunkId?: string;
+}
+
 /**
  * Citation information with position in text
  * Used for frontend rendering
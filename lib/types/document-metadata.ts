@@ -0,0 +1,193 @@
+/**
+ * Document Metadata Types
+ *
+ * Researcher-defined tags ("churned", "wave-2") and key/value attributes
+ * (Segment: Enterprise) on documents. Search tools take them as a filter so
+ * a question can be answered from the matching participants only.
+ */
+
+export type DocumentAttributes = Record<string, string>;
+
+/**
+ * Documents must have every tag and match every attribute; keys, values and
+ * tags compare case-insensitively
+ */
+export interface DocumentMetadataFilter {
+  tags?: string[];
+  attributes?: DocumentAttributes;
+}
+
+/**
+ * A change to the tags and attributes of one or more documents. `tags` and
+ * `attributes` replace the current values; the other fields edit them.
+ */
+export interface DocumentMetadataUpdate {
+  tags?: string[];
+  attributes?: DocumentAttributes;
+  addTags?: string[];
+  removeTags?: string[];
+  setAttributes?: DocumentAttributes;
+  removeAttributes?: string[];
+}
+
+export const MAX_DOCUMENT_TAGS = 20;
+export const MAX_DOCUMENT_ATTRIBUTES = 20;
+export const MAX_METADATA_TEXT_LENGTH = 64; // Per tag, attribute key and value
+
+function cleanText(value: string): string {
+  return value.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Tags are stored lowercased so "Churned" and "churned" are one tag
+ */
+export function normalizeTag(tag: string): string {
+  return cleanText(tag).toLowerCase();
+}
+
+export function isDocumentAttributes(value: unknown): value is DocumentAttributes {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value).every(entry => typeof entry === 'string')
+  );
+}
+
+/**
+ * Validate and normalize a tag list; null when it is malformed or too long
+ */
+export function parseDocumentTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(tag => typeof tag === 'string')) return null;
+
+  const tags = [...new Set(value.map(normalizeTag).filter(Boolean))];
+  if (tags.length > MAX_DOCUMENT_TAGS || tags.some(tag => tag.length > MAX_METADATA_TEXT_LENGTH)) {
+    return null;
+  }
+  return tags;
+}
+
+/**
+ * Validate and trim an attribute map, dropping empty keys and values; null
+ * when it is malformed or too long
+ */
+export function parseDocumentAttributes(value: unknown): DocumentAttributes | null {
+  if (!isDocumentAttributes(value)) return null;
+
+  const attributes: DocumentAttributes = {};
+  for (const [rawKey, rawValue] of Object.entries(value)) {
+    const key = cleanText(rawKey);
+    const text = cleanText(rawValue);
+    if (!key || !text) continue;
+    if (key.length > MAX_METADATA_TEXT_LENGTH || text.length > MAX_METADATA_TEXT_LENGTH) return null;
+    attributes[key] = text;
+  }
+
+  return Object.keys(attributes).length > MAX_DOCUMENT_ATTRIBUTES ? null : attributes;
+}
+
+/**
+ * Validate a metadata update from a request body; null when any field is malformed
+ */
+export function parseDocumentMetadataUpdate(value: unknown): DocumentMetadataUpdate | null {
+  if (!value || typeof value !== 'object') return null;
+  const body = value as Record<string, unknown>;
+  const update: DocumentMetadataUpdate = {};
+
+  for (const field of ['tags', 'addTags', 'removeTags'] as const) {
+    if (body[field] === undefined) continue;
+    const tags = parseDocumentTags(body[field]);
+    if (!tags) return null;
+    update[field] = tags;
+  }
+
+  for (const field of ['attributes', 'setAttributes'] as const) {
+    if (body[field] === undefined) continue;
+    const attributes = parseDocumentAttributes(body[field]);
+    if (!attributes) return null;
+    update[field] = attributes;
+  }
+
+  if (body.removeAttributes !== undefined) {
+    if (!Array.isArray(body.removeAttributes) || !body.removeAttributes.every(key => typeof key === 'string')) {
+      return null;
+    }
+    update.removeAttributes = body.removeAttributes.map(cleanText).filter(Boolean);
+  }
+
+  return update;
+}
+
+function findKey(attributes: DocumentAttributes, key: string): string | undefined {
+  const wanted = key.toLowerCase();
+  return Object.keys(attributes).find(existing => existing.toLowerCase() === wanted);
+}
+
+/**
+ * The tags and attributes a document ends up with after `update`, or null
+ * when they would exceed the limits
+ */
+export function applyMetadataUpdate(
+  current: { tags: string[]; attributes: DocumentAttributes },
+  update: DocumentMetadataUpdate
+): { tags: string[]; attributes: DocumentAttributes } | null {
+  const removedTags = new Set(update.removeTags ?? []);
+  const tags = [...new Set([...(update.tags ?? current.tags), ...(update.addTags ?? [])])]
+    .filter(tag => !removedTags.has(tag));
+
+  const attributes = { ...(update.attributes ?? current.attributes) };
+  // An existing key keeps its spelling when set with different case
+  for (const [key, value] of Object.entries(update.setAttributes ?? {})) {
+    attributes[findKey(attributes, key) ?? key] = value;
+  }
+  for (const key of update.removeAttributes ?? []) {
+    const existing = findKey(attributes, key);
+    if (existing) delete attributes[existing];
+  }
+
+  if (tags.length > MAX_DOCUMENT_TAGS || Object.keys(attributes).length > MAX_DOCUMENT_ATTRIBUTES) {
+    return null;
+  }
+  return { tags, attributes };
+}
+
+export function hasMetadataFilter(filter?: DocumentMetadataFilter | null): filter is DocumentMetadataFilter {
+  return !!filter && (
+    (filter.tags?.length ?? 0) > 0 ||
+    Object.keys(filter.attributes ?? {}).length > 0
+  );
+}
+
+export function matchesMetadataFilter(
+  document: { tags: string[]; attributes: DocumentAttributes },
+  filter: DocumentMetadataFilter
+): boolean {
+  const tags = new Set(document.tags);
+  if (!(filter.tags ?? []).every(tag => tags.has(normalizeTag(tag)))) return false;
+
+  return Object.entries(filter.attributes ?? {}).every(([key, value]) => {
+    const existing = findKey(document.attributes, cleanText(key));
+    return existing !== undefined &&
+      document.attributes[existing].toLowerCase() === cleanText(value).toLowerCase();
+  });
+}
+
+/**
+ * "Segment: Enterprise, Wave: 2 · #churned", or an empty string
+ */
+export function formatDocumentMetadata(metadata: { tags?: string[]; attributes?: DocumentAttributes | null }): string {
+  const attributes = Object.entries(metadata.attributes ?? {}).map(([key, value]) => `${key}: ${value}`).join(', ');
+  const tags = (metadata.tags ?? []).map(tag => `#${tag}`).join(' ');
+  return [attributes, tags].filter(Boolean).join(' · ');
+}
+
+/**
+ * "documents tagged #churned with Segment: Enterprise", for search results
+ */
+export function describeMetadataFilter(filter: DocumentMetadataFilter): string {
+  const parts = [];
+  if (filter.tags?.length) parts.push(`tagged ${filter.tags.map(tag => `#${normalizeTag(tag)}`).join(' ')}`);
+  const attributes = Object.entries(filter.attributes ?? {});
+  if (attributes.length > 0) parts.push(`with ${attributes.map(([key, value]) => `${key}: ${value}`).join(', ')}`);
+  return `documents ${parts.join(' ')}`;
+}
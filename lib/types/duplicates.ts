@@ -0,0 +1,38 @@
+/**
+ * Duplicate Document Types
+ *
+ * How an upload relates to an earlier document of the same user, as found by
+ * lib/document-dedup and reported in upload statuses and the document list.
+ */
+
+export type DuplicateKind = 'exact' | 'text' | 'near';
+
+export interface DuplicateMatch {
+  documentId: string;
+  fileName: string;
+  studyId: string;
+  studyName: string;
+  kind: DuplicateKind;
+  overlap?: number; // Share of sampled chunks matched (near duplicates)
+}
+
+// What a batch upload does with exact duplicates: store and flag them, or leave them out
+export type DuplicateHandling = 'warn' | 'skip';
+
+export function isDuplicateHandling(value: unknown): value is DuplicateHandling {
+  return value === 'warn' || value === 'skip';
+}
+
+/**
+ * Short description for the UI, e.g. "Same text as interview.pdf in Onboarding"
+ */
+export function describeDuplicate(match: DuplicateMatch, currentStudyId?: string): string {
+  const relation = {
+    exact: 'Same file as',
+    text: 'Same text as',
+    near: 'Mostly matches',
+  }[match.kind];
+  const location = match.studyId !== currentStudyId ? ` in ${match.studyName}` : '';
+
+  return `${relation} ${match.fileName}${location}`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Embedding provider types
+ *
+ * Every embedding stored on a DocumentChunk is tagged with the provider,
+ * model and dimension that produced it, so vectors from different models
+ * are never compared with each other.
+ */
+
+export type EmbeddingProviderName = 'voyage' | 'local';
+
+/**
+ * Whether the text being embedded is a search query or stored content.
+ * Some providers (Voyage) embed the two slightly differently.
+ */
+export type EmbeddingInputType = 'query' | 'document';
+
+export interface EmbeddingModelInfo {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+}
+
+export interface EmbeddingResult {
+  embedding: number[];
+  index?: number;
+}
+
+export interface BatchEmbeddingResult {
+  embeddings: number[][];
+  usage: {
+    totalTokens: number;
+  };
+  model: EmbeddingModelInfo;
+}
+
+export interface EmbeddingProvider {
+  readonly info: EmbeddingModelInfo;
+
+  embed(texts: string[], inputType?: EmbeddingInputType): Promise<BatchEmbeddingResult>;
+}
@@ -0,0 +1,64 @@
+/**
+ * Document Extractor Types
+ *
+ * Interface for the per-format text extractors behind extractTextFromBuffer,
+ * and the format-specific metadata they record.
+ */
+
+import type { DocumentProcessingResult, ExtractionOptions } from '../document-processing';
+
+export type DocumentFormat =
+  | 'pdf'
+  | 'docx'
+  | 'doc'
+  | 'pptx'
+  | 'odt'
+  | 'odp'
+  | 'rtf'
+  | 'html'
+  | 'eml'
+  | 'xlsx'
+  | 'csv'
+  | 'vtt'
+  | 'srt'
+  | 'image'
+  | 'text';
+
+export interface DocumentExtractor {
+  format: DocumentFormat;
+  mimeTypes: string[];
+  extensions: string[]; // Lowercase, without the dot
+
+  /**
+   * Recognize the file from its content (magic bytes, or a leading marker for
+   * text formats). Omitted for formats with no reliable signature (CSV, SRT,
+   * plain text), which are only matched by extension or MIME type.
+   */
+  detect?(buffer: Buffer): boolean;
+
+  extract(buffer: Buffer, options: ExtractionOptions): Promise<DocumentProcessingResult>;
+}
+
+/**
+ * Headers of an uploaded .eml message, kept alongside its body text
+ */
+export interface EmailHeaders {
+  from?: string;
+  to?: string;
+  cc?: string;
+  subject?: string;
+  date?: string; // As sent, e.g. "Tue, 3 Sep 2024 10:15:00 +0200"
+  messageId?: string;
+}
+
+/**
+ * Type guard for Document.emailHeaders
+ */
+export function isEmailHeaders(value: unknown): value is EmailHeaders {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value).every(header => typeof header === 'string')
+  );
+}
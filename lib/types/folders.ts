@@ -0,0 +1,138 @@
+/**
+ * Study Folder Types
+ *
+ * Documents are organized into folders (named collections) through their
+ * "/"-separated folderPath, so "Round 2/Interviews" sits inside "Round 2".
+ * A folder exists while it holds documents; there is no separate folder record.
+ */
+
+export const MAX_FOLDER_DEPTH = 5;
+export const MAX_FOLDER_NAME_LENGTH = 64; // Per path segment
+
+/**
+ * Normalize a folder path from user input: segments are trimmed and empty ones
+ * dropped, so " Round 2 / Interviews/" becomes "Round 2/Interviews".
+ *
+ * @returns null for an empty path (outside any folder), undefined when the
+ * path is malformed, too deep or has an overlong segment
+ */
+export function parseFolderPath(value: unknown): string | null | undefined {
+  if (value === null) return null;
+  if (typeof value !== 'string') return undefined;
+
+  const segments = value
+    .split(/[/\\]/)
+    .map(segment => segment.trim().replace(/\s+/g, ' '))
+    .filter(Boolean);
+
+  if (segments.length === 0) return null;
+  if (segments.length > MAX_FOLDER_DEPTH || segments.some(segment => segment.length > MAX_FOLDER_NAME_LENGTH)) {
+    return undefined;
+  }
+  return segments.join('/');
+}
+
+/**
+ * "Interviews" for "Round 2/Interviews"
+ */
+export function getFolderName(folderPath: string): string {
+  return folderPath.slice(folderPath.lastIndexOf('/') + 1);
+}
+
+export function getFolderDepth(folderPath: string): number {
+  return folderPath.split('/').length - 1;
+}
+
+/**
+ * "Round 2" for "Round 2/Interviews"; null for a top-level folder
+ */
+export function getParentFolder(folderPath: string): string | null {
+  const index = folderPath.lastIndexOf('/');
+  return index === -1 ? null : folderPath.slice(0, index);
+}
+
+/**
+ * Whether a document in `documentFolder` belongs to `folderPath`, directly or
+ * through a subfolder. Folder names compare case-insensitively.
+ */
+export function isInFolder(documentFolder: string | null | undefined, folderPath: string): boolean {
+  if (!documentFolder) return false;
+  const folder = documentFolder.toLowerCase();
+  const wanted = folderPath.toLowerCase();
+  return folder === wanted || folder.startsWith(`${wanted}/`);
+}
+
+/**
+ * Every folder holding documents, with the folders above them, sorted so
+ * each folder directly follows its parent
+ */
+export function listFolderPaths(documents: Array<{ folderPath?: string | null }>): string[] {
+  const folders = new Set<string>();
+  for (const document of documents) {
+    if (!document.folderPath) continue;
+    const segments = document.folderPath.split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+      folders.add(segments.slice(0, depth).join('/'));
+    }
+  }
+
+  // Compare segment by segment so "Round 1/Notes" sorts before "Round 10"
+  return [...folders].sort((a, b) => {
+    const left = a.split('/');
+    const right = b.split('/');
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+      const order = left[i].localeCompare(right[i], undefined, { numeric: true, sensitivity: 'base' });
+      if (order !== 0) return order;
+    }
+    return left.length - right.length;
+  });
+}
+
+// Words people put around a collection name: "the round 2 folder"
+const LEADING_WORDS = /^(the|my|our|all)\s+/;
+const TRAILING_WORDS = /\s+(folder|collection|documents|files)$/;
+
+function normalizeFolderName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(LEADING_WORDS, '')
+    .replace(TRAILING_WORDS, '');
+}
+
+function containsWords(text: string, words: string): boolean {
+  return words.length > 0 && ` ${text} `.includes(` ${words} `);
+}
+
+/**
+ * Resolve how a researcher refers to a collection ("the round 2 interviews")
+ * to one of the study's folders. An exact name or path wins; otherwise the
+ * folder whose name covers the most of the query.
+ *
+ * @returns The folder path, or null when no folder matches
+ */
+export function resolveFolderName(query: string, folderPaths: string[]): string | null {
+  const wanted = normalizeFolderName(query);
+  if (!wanted) return null;
+
+  const folders = folderPaths.map(folderPath => ({
+    folderPath,
+    path: normalizeFolderName(folderPath.replace(/\//g, ' ')),
+    name: normalizeFolderName(getFolderName(folderPath)),
+  }));
+
+  const exact = folders.find(folder => folder.path === wanted) ?? folders.find(folder => folder.name === wanted);
+  if (exact) return exact.folderPath;
+
+  let best: { folderPath: string; score: number } | null = null;
+  for (const folder of folders) {
+    const score =
+      containsWords(wanted, folder.path) ? folder.path.length :
+      containsWords(wanted, folder.name) ? folder.name.length :
+      wanted.length >= 3 && containsWords(folder.name, wanted) ? wanted.length :
+      0;
+    if (score > (best?.score ?? 0)) best = { folderPath: folder.folderPath, score };
+  }
+  return best?.folderPath ?? null;
+}
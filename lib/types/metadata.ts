@@ -2,6 +2,8 @@
  * Metadata types for hybrid search and LLM function calling
  */
 
+import type { DocumentAttributes } from './document-metadata';
+
 export interface DocumentMetadata {
   id: string;
   fileName: string;
@@ -12,6 +14,9 @@ export interface DocumentMetadata {
   chunkCount: number;
   wordCount?: number;
   hasEmbeddings: boolean;
+  folderPath?: string | null;
+  tags?: string[];
+  attributes?: DocumentAttributes;
 }
 
 export interface StudyMetadata {
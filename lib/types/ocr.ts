@@ -0,0 +1,29 @@
+/**
+ * OCR Types
+ *
+ * Recognition confidence recorded for documents whose text came from OCR
+ * (scanned PDF pages and image uploads).
+ */
+
+/**
+ * Tesseract confidence (0-100) for one OCR'd page; images are page 1
+ */
+export interface OcrPageConfidence {
+  pageNumber: number;
+  confidence: number;
+}
+
+/**
+ * Type guard for Document.ocrPages
+ */
+export function isOcrPageConfidenceList(value: unknown): value is OcrPageConfidence[] {
+  return (
+    Array.isArray(value) &&
+    value.every(page =>
+      page &&
+      typeof page === 'object' &&
+      typeof page.pageNumber === 'number' &&
+      typeof page.confidence === 'number'
+    )
+  );
+}
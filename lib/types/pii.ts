@@ -0,0 +1,72 @@
+/**
+ * PII Redaction Types
+ *
+ * Per-study settings for pseudonymizing personal data in document text before
+ * it is chunked, embedded or sent to a model (see lib/pii-redaction.ts).
+ */
+
+export type PiiCategory = 'person' | 'organization' | 'email' | 'phone';
+
+export const PII_DETECTOR_NAMES = ['email', 'phone', 'speakers', 'names', 'organizations', 'dictionary'] as const;
+
+export type PiiDetectorName = typeof PII_DETECTOR_NAMES[number];
+
+export const PII_DETECTOR_LABELS: Record<PiiDetectorName, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  speakers: 'Named transcript speakers',
+  names: 'Introductions and titles ("my name is", "Dr.")',
+  organizations: 'Company names (Inc, Ltd, GmbH...)',
+  dictionary: 'Study dictionary',
+};
+
+/**
+ * A name or company that is always redacted in the study
+ */
+export interface PiiDictionaryEntry {
+  term: string;
+  category: Extract<PiiCategory, 'person' | 'organization'>;
+}
+
+// Whether the UI shows documents as uploaded or with pseudonyms
+export type PiiDisplay = 'original' | 'pseudonymized';
+
+export interface StudyPrivacySettings {
+  redaction: boolean; // Pseudonymize documents processed while enabled
+  detectors: PiiDetectorName[];
+  dictionary: PiiDictionaryEntry[];
+  display: PiiDisplay;
+}
+
+/**
+ * One original value and the pseudonym that replaces it throughout a study
+ */
+export interface PseudonymEntry {
+  category: PiiCategory;
+  original: string;
+  pseudonym: string;
+}
+
+export function isPiiDetectorName(value: unknown): value is PiiDetectorName {
+  return typeof value === 'string' && (PII_DETECTOR_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Type guard for Study.piiDictionary
+ */
+export function isPiiDictionary(value: unknown): value is PiiDictionaryEntry[] {
+  return (
+    Array.isArray(value) &&
+    value.every(entry =>
+      entry &&
+      typeof entry === 'object' &&
+      typeof entry.term === 'string' &&
+      entry.term.trim().length > 0 &&
+      (entry.category === 'person' || entry.category === 'organization')
+    )
+  );
+}
+
+export function isPiiDisplay(value: unknown): value is PiiDisplay {
+  return value === 'original' || value === 'pseudonymized';
+}
@@ -0,0 +1,46 @@
+/**
+ * Vector index types
+ *
+ * A vector index answers top-k similarity queries over DocumentChunk
+ * embeddings. Backends are selected at runtime (see lib/vector-index).
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { SearchResult } from '../vector-search';
+import type { EmbeddingModelInfo } from './embeddings';
+
+export type VectorIndexBackendName = 'brute-force' | 'pgvector';
+
+/**
+ * Scoping and ranking parameters for a single similarity query
+ */
+export interface VectorSearchQuery {
+  userId: string;
+  limit: number;
+  minSimilarity: number;
+  studyId?: string;
+  documentIds?: string[];
+  excludeChunkId?: string;
+  /**
+   * Only consider chunks embedded with this model. Vectors from other
+   * models live in a different space and would produce meaningless scores.
+   */
+  embeddingModel?: EmbeddingModelInfo;
+}
+
+export interface VectorIndex {
+  readonly name: VectorIndexBackendName;
+
+  /**
+   * Return the `limit` most similar chunks to the query embedding,
+   * highest similarity first, dropping anything below `minSimilarity`
+   */
+  search(queryEmbedding: number[], query: VectorSearchQuery): Promise<SearchResult[]>;
+
+  /**
+   * Make a document's freshly stored chunks searchable.
+   * Called after chunks and embeddings have been written; pass the
+   * transaction that wrote them so they become searchable in the same commit.
+   */
+  indexDocument(documentId: string, tx?: Prisma.TransactionClient): Promise<void>;
+}
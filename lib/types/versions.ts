@@ -0,0 +1,45 @@
+/**
+ * Document Version Types
+ *
+ * Replacing a document's file keeps its ID and archives the previous version
+ * (see lib/document-versions.ts), so citations made against an older version
+ * still open the text they quoted.
+ */
+
+/**
+ * One version of a document, for the viewer's version picker
+ */
+export interface DocumentVersionSummary {
+  version: number;
+  fileName: string;
+  fileSize: number;
+  createdAt: string; // When the version became current (ISO)
+  current: boolean;
+}
+
+/**
+ * Where a chunk of an archived version sat in that version's text
+ */
+export interface ArchivedChunk {
+  id: string;
+  content: string;
+  startOffset: number | null;
+  endOffset: number | null;
+}
+
+/**
+ * Type guard for DocumentVersion.chunks
+ */
+export function isArchivedChunkList(value: unknown): value is ArchivedChunk[] {
+  return (
+    Array.isArray(value) &&
+    value.every(chunk =>
+      chunk &&
+      typeof chunk === 'object' &&
+      typeof chunk.id === 'string' &&
+      typeof chunk.content === 'string' &&
+      (chunk.startOffset === null || typeof chunk.startOffset === 'number') &&
+      (chunk.endOffset === null || typeof chunk.endOffset === 'number')
+    )
+  );
+}
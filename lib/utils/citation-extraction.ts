@@ -1,5 +1,8 @@
-import { SearchResult, findRelevantChunks } from '@/lib/vector-search';
-import { CitationMap } from '@/lib/types/citations';
+import { SearchResult, SearchRetriever, findRelevantChunks } from '@/lib/vector-search';
+import type { SearchResultStore } from '@/lib/llm-tools/search-result-store';
+import { CitationData, CitationMap, QuoteVerification } from '@/lib/types/citations';
+import { extractQuotes, verifyQuote, type QuoteSource } from '@/lib/utils/quote-verification';
+import { formatRespondentLabel } from '@/lib/survey-import';
 
 /**
  * Citation Extraction Utilities
@@ -8,6 +11,28 @@ import { CitationMap } from '@/lib/types/citations';
  * search results to prevent hallucinated citations.
  */
 
+/**
+ * Order "m:ss" / "h:mm:ss" timestamps chronologically
+ */
+function compareTimestamps(a: string, b: string): number {
+  const toSeconds = (timestamp: string) =>
+    timestamp.split(/[.,]/)[0].split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return toSeconds(a) - toSeconds(b);
+}
+
+/**
+ * Chunk id, page and character range of a passage, omitting unknown fields
+ */
+function getPassageLocation(passage: SearchResult): Partial<CitationData> {
+  return {
+    chunkId: passage.chunkId,
+    ...(passage.startPage != null && { pageNumber: passage.startPage }),
+    ...(passage.endPage != null && passage.endPage !== passage.startPage && { endPageNumber: passage.endPage }),
+    ...(passage.startOffset != null && { startOffset: passage.startOffset }),
+    ...(passage.endOffset != null && { endOffset: passage.endOffset }),
+  };
+}
+
 /**
  * Extract citations from LLM response content
  * Validates citations against search results (strict mode)
@@ -25,13 +50,55 @@ export function extractCitationsFromContent(
   // Regex to find citation syntax: ^[DocumentName.pdf]
   const citationRegex = /\^\[([^\]]+)\]/g;
 
-  // Build document lookup from search results for validation
-  const validDocuments = new Map<string, { documentId: string; documentName: string }>();
-  searchResults.forEach(result => {
-    validDocuments.set(result.documentName, {
-      documentId: result.documentId,
-      documentName: result.documentName
+  // Build lookup of valid citation texts from search results: document names,
+  // plus "Respondent 412" labels for survey responses
+  const validDocuments = new Map<string, {
+    documentId: string;
+    documentName: string;
+    label?: string;
+    matchedBy: Set<SearchRetriever>;
+    speakers: Set<string>;
+    timestamps: Set<string>;
+    respondents: Set<string>;
+    passage: SearchResult; // First (highest-ranked) passage from the document
+    chunkIds: Set<string>;
+  }>();
+  const addValidCitation = (key: string, result: SearchResult, label?: string) => {
+    const existing = validDocuments.get(key);
+    const matchedBy = existing?.matchedBy ?? new Set<SearchRetriever>();
+    result.matchedBy?.forEach(retriever => matchedBy.add(retriever));
+
+    // Transcript passages: remember who spoke and when
+    const speakers = existing?.speakers ?? new Set<string>();
+    result.speakers?.forEach(speaker => speakers.add(speaker));
+    const timestamps = existing?.timestamps ?? new Set<string>();
+    if (result.startTimestamp) timestamps.add(result.startTimestamp);
+
+    // Survey passages: remember which respondents answered
+    const respondents = existing?.respondents ?? new Set<string>();
+    if (result.respondentId) respondents.add(result.respondentId);
+
+    validDocuments.set(key, {
+      documentId: existing?.documentId ?? result.documentId,
+      documentName: existing?.documentName ?? result.documentName,
+      ...(label && { label }),
+      matchedBy,
+      speakers,
+      timestamps,
+      respondents,
+      passage: existing?.passage ?? result,
+      chunkIds: (existing?.chunkIds ?? new Set<string>()).add(result.chunkId),
     });
+  };
+  searchResults.forEach(result => addValidCitation(result.documentName, result));
+  searchResults.forEach(result => {
+    if (!result.respondentId) return;
+    const label = formatRespondentLabel(result.respondentId);
+    // A respondent ID shared by two surveys resolves to the higher-ranked one
+    const existing = validDocuments.get(label);
+    if (!existing || (existing.label && existing.documentId === result.documentId)) {
+      addValidCitation(label, result, label);
+    }
   });
 
   // PHASE 1: Collect all unique valid citations from content
@@ -62,7 +129,14 @@ export function extractCitationsFromContent(
 
     citationMap[citationNumber.toString()] = {
       documentId: docInfo.documentId,
-      documentName: docInfo.documentName
+      documentName: docInfo.documentName,
+      ...(docInfo.label && { label: docInfo.label }),
+      ...(docInfo.matchedBy.size > 0 && { matchedBy: Array.from(docInfo.matchedBy).sort() }),
+      ...(docInfo.speakers.size > 0 && { speakers: Array.from(docInfo.speakers) }),
+      ...(docInfo.timestamps.size > 0 && { timestamps: Array.from(docInfo.timestamps).sort(compareTimestamps) }),
+      ...(docInfo.respondents.size > 0 && { respondents: Array.from(docInfo.respondents) }),
+      ...getPassageLocation(docInfo.passage),
+      chunkIds: Array.from(docInfo.chunkIds),
     };
   });
 
@@ -70,75 +144,98 @@ export function extractCitationsFromContent(
 }
 
 /**
- * Extract search results from all tool calls by re-running searches
- * Since AI SDK serializes tool outputs, we re-execute searches using the original inputs
+ * Collect the search results the model was shown in a message's tool calls
+ * Results were recorded by the search tools at execution time, so no search
+ * is re-run and citations point at exactly the chunks the model saw.
  *
  * @param toolCalls - Array of persisted tool calls from message
- * @param studyId - Study ID for scoping searches
- * @returns Array of all SearchResults from search tools
+ * @param resultStore - Per-request store the search tools recorded into
+ * @returns Array of all SearchResults from search tools, deduplicated by chunk
  */
-export async function extractSearchResultsFromToolCalls(
+export function extractSearchResultsFromToolCalls(
   toolCalls: Array<{
+    toolCallId: string;
     toolName: string;
-    input?: Record<string, unknown>;
   }>,
-  studyId: string
-): Promise<SearchResult[]> {
-  const searchToolCalls = toolCalls.filter(t => t.toolName.startsWith('search_'));
+  resultStore: SearchResultStore
+): SearchResult[] {
+  const searchToolCallIds = toolCalls
+    .filter(t => t.toolName.startsWith('search_'))
+    .map(t => t.toolCallId);
 
-  // Build array of search promises for parallel execution
-  const searchPromises = searchToolCalls.map(async (tc) => {
-    try {
-      if (!tc.input) {
-        return { success: false, results: [], toolName: tc.toolName };
-      }
-
-      const query = tc.input.query as string;
-      const limit = (tc.input.limit as number) || 10;
-      const minSimilarity = (tc.input.minSimilarity as number) || 0.1;
-
-      if (!query) {
-        return { success: false, results: [], toolName: tc.toolName };
-      }
+  return resultStore.collect(searchToolCallIds);
+}
 
-      // Re-run the search to get SearchResult[] objects
-      const searchOptions = {
-        studyId,
-        limit,
-        minSimilarity,
-        ...(tc.toolName === 'search_specific_documents' && tc.input.documentIds
-          ? { documentIds: tc.input.documentIds as string[] }
-          : {})
-      };
+/**
+ * Passages a quote can be verified against: the matched chunks first, so an
+ * exact match is attributed to the chunk itself, then the parent windows the
+ * model was shown, attributed to the chunk they were returned for
+ */
+function listQuoteSources(results: SearchResult[]): QuoteSource[] {
+  return [
+    ...results,
+    ...results
+      .filter(result => result.parentContent)
+      .map(result => ({ ...result, content: result.parentContent as string })),
+  ];
+}
 
-      const results = await findRelevantChunks(query, searchOptions);
+// Study-wide lookups per response; each one embeds the quote and runs a hybrid
+// search before the message is saved
+const MAX_QUOTE_FALLBACK_SEARCHES = 3;
 
-      return { success: true, results, toolName: tc.toolName };
+/**
+ * Verify every quoted passage in a response against the chunks the tool calls
+ * returned. Quotes without an exact match there are searched for across the
+ * whole study (or the chat's scope), since the model may quote passages
+ * retrieved in earlier turns. Those searches run one at a time, for the first
+ * MAX_QUOTE_FALLBACK_SEARCHES such quotes only.
+ *
+ * @param content - The LLM response text
+ * @param searchResults - Search results from the message's tool calls
+ * @param studyId - Study ID for the fallback search
+ * @param scopeDocumentIds - The chat scope's documents; undefined for the whole study
+ * @returns One verification per quote, in text order
+ */
+export async function verifyQuotesInContent(
+  content: string,
+  searchResults: SearchResult[],
+  studyId: string,
+  scopeDocumentIds?: string[]
+): Promise<QuoteVerification[]> {
+  const sources = listQuoteSources(searchResults);
+  const verifications: QuoteVerification[] = [];
+  let fallbackSearches = 0;
 
-    } catch (error) {
-      return { success: false, results: [], toolName: tc.toolName, error };
+  for (const { text } of extractQuotes(content)) {
+    const verification = verifyQuote(text, sources);
+    if (
+      verification.verdict === 'exact' ||
+      scopeDocumentIds?.length === 0 ||
+      fallbackSearches >= MAX_QUOTE_FALLBACK_SEARCHES
+    ) {
+      verifications.push(verification);
+      continue;
     }
-  });
-
-  // Execute all searches in parallel
-  const searchResponses = await Promise.all(searchPromises);
 
-  // Flatten and deduplicate results from successful searches
-  const allResults: SearchResult[] = [];
-  const seenChunkIds = new Set<string>();
-
-  searchResponses.forEach(response => {
-    if (response.success && response.results.length > 0) {
-      response.results.forEach((result) => {
-        if (!seenChunkIds.has(result.chunkId)) {
-          allResults.push(result);
-          seenChunkIds.add(result.chunkId);
-        }
+    fallbackSearches++;
+    try {
+      const studyResults = await findRelevantChunks(text, {
+        studyId,
+        documentIds: scopeDocumentIds,
+        limit: 5,
+        minSimilarity: 0.1,
+        mode: 'hybrid',
       });
+      const studyVerification = verifyQuote(text, listQuoteSources(studyResults));
+      verifications.push(studyVerification.similarity > verification.similarity ? studyVerification : verification);
+    } catch (error) {
+      console.error('[Citations] Study-wide quote lookup failed:', error);
+      verifications.push(verification);
     }
-  });
+  }
 
-  return allResults;
+  return verifications;
 }
 
 /**
@@ -1,4 +1,4 @@
-import { CitationMap, CitationInfo } from '@/lib/types/citations';
+import { CitationData, CitationMap, CitationInfo } from '@/lib/types/citations';
 
 /**
  * Citation Parsing Utilities
@@ -7,6 +7,14 @@ import { CitationMap, CitationInfo } from '@/lib/types/citations';
  * and converting to renderable components.
  */
 
+/**
+ * Text a citation is written with: the document name, or the respondent
+ * label for survey responses cited by respondent
+ */
+export function getCitationKey(data: CitationData): string {
+  return data.label ?? data.documentName;
+}
+
 /**
  * Parse citation syntax from markdown content
  * Returns array of citation occurrences with positions
@@ -28,7 +36,7 @@ export function parseCitationPositions(
 
     // Find citation number from map by matching document name
     const entry = Object.entries(citationMap).find(
-      ([, data]) => data.documentName === documentName
+      ([, data]) => getCitationKey(data) === documentName
     );
 
     if (entry) {
@@ -61,7 +69,7 @@ export function replaceCitationsWithNumbers(
     /\^\[([^\]]+)\]/g,
     (match, docName) => {
       const entry = Object.entries(citationMap).find(
-        ([, data]) => data.documentName === docName
+        ([, data]) => getCitationKey(data) === docName
       );
       if (!entry) return match;
 
@@ -84,7 +92,7 @@ export function createDocumentNameLookup(
   const lookup = new Map<string, { citationNumber: number; documentId: string }>();
 
   Object.entries(citationMap).forEach(([num, data]) => {
-    lookup.set(data.documentName, {
+    lookup.set(getCitationKey(data), {
       citationNumber: parseInt(num),
       documentId: data.documentId
     });
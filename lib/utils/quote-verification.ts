@@ -0,0 +1,225 @@
+import type { QuoteVerdict, QuoteVerification } from '@/lib/types/citations';
+
+/**
+ * Quote Verification Utilities
+ *
+ * Finds passages an assistant response presents as quotes ("…", “…” and
+ * markdown blockquotes) and checks them against source chunks, so quotes the
+ * model invented or reworded can be flagged. Pure functions shared by the chat
+ * route (verification) and MarkdownRenderer (flagging).
+ */
+
+// Quotes shorter than this are usually terms or titles, not quoted passages
+export const MIN_QUOTE_WORDS = 4;
+
+// Share of the quote's words that must appear in order for a paraphrase
+export const PARAPHRASE_THRESHOLD = 0.6;
+
+export interface ExtractedQuote {
+  text: string; // Quote as written, without quote marks or blockquote markers
+  start: number; // Character range in the response, quote marks included
+  end: number;
+}
+
+export interface QuoteSource {
+  content: string;
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+}
+
+/**
+ * Lower-case words with punctuation, quote styles and whitespace normalized away
+ */
+export function normalizeQuoteText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\^\[[^\]]*\]/g, ' ') // Citation markers
+    .replace(/[‘’ʼ`]/g, "'")
+    .replace(/[^\p{L}\p{N}']+/gu, ' ')
+    .replace(/(^|\s)'+|'+(?=\s|$)/g, '$1') // Apostrophes used as quote marks
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function countWords(text: string): number {
+  const normalized = normalizeQuoteText(text);
+  return normalized ? normalized.split(' ').length : 0;
+}
+
+/**
+ * Blank out fenced and inline code so quotes inside it are ignored.
+ * Keeps character positions intact.
+ */
+function maskCode(content: string): string {
+  return content.replace(/```[\s\S]*?(```|$)|`[^`\n]*`/g, match => match.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Find quoted passages in a response: inline "…" and “…” quotes plus
+ * markdown blockquotes (consecutive "> " lines form one quote).
+ * Quotes under MIN_QUOTE_WORDS words are skipped; results are in text order.
+ */
+export function extractQuotes(content: string): ExtractedQuote[] {
+  const masked = maskCode(content);
+  const quotes: ExtractedQuote[] = [];
+
+  const inlineRegex = /"([^"\n]+)"|“([^“”\n]+)”/g;
+  let match;
+  while ((match = inlineRegex.exec(masked)) !== null) {
+    const text = (match[1] ?? match[2]).trim();
+    if (countWords(text) >= MIN_QUOTE_WORDS) {
+      quotes.push({ text, start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  const blockquoteRegex = /^[ \t]*>.*(?:\n[ \t]*>.*)*/gm;
+  while ((match = blockquoteRegex.exec(masked)) !== null) {
+    const text = match[0]
+      .split('\n')
+      .map(line => line.replace(/^[ \t]*>[ \t]?/, ''))
+      .join(' ')
+      .replace(/\s+(?:--|[—–])\s*(?:\S+\s*){1,5}$/, '') // Trailing attribution ("— P3")
+      .replace(/^["“]|["”]$/g, '')
+      .trim();
+
+    // A blockquote that is itself one inline quote is already covered
+    const start = match.index;
+    const end = start + match[0].length;
+    const covered = quotes.some(quote => quote.start >= start && quote.end <= end &&
+      normalizeQuoteText(quote.text) === normalizeQuoteText(text));
+    if (!covered && countWords(text) >= MIN_QUOTE_WORDS) {
+      quotes.push({ text, start, end });
+    }
+  }
+
+  return quotes.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Length of the longest common subsequence of two word lists
+ */
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1] + 1
+        : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Share of the quote's words that appear in order within some stretch of the
+ * source about one and a half times the quote's length
+ */
+export function quoteSimilarity(quote: string, source: string): number {
+  const quoteWords = normalizeQuoteText(quote).split(' ').filter(Boolean);
+  const sourceWords = normalizeQuoteText(source).split(' ').filter(Boolean);
+  if (quoteWords.length === 0 || sourceWords.length === 0) return 0;
+
+  const windowSize = Math.ceil(quoteWords.length * 1.5);
+  const step = Math.max(1, Math.floor(quoteWords.length / 4));
+  let best = 0;
+
+  for (let start = 0; start === 0 || start + quoteWords.length <= sourceWords.length; start += step) {
+    const window = sourceWords.slice(start, start + windowSize);
+    best = Math.max(best, longestCommonSubsequence(quoteWords, window) / quoteWords.length);
+    if (best === 1 || start + windowSize >= sourceWords.length) break;
+  }
+
+  return best;
+}
+
+/**
+ * Whether every fragment of the quote (split at ellipses) appears verbatim,
+ * in order, in the source
+ */
+function containsQuote(quote: string, source: string): boolean {
+  const normalizedSource = ` ${normalizeQuoteText(source)} `;
+  const fragments = quote
+    .split(/\[?(?:\.\.\.|…)\]?/)
+    .map(fragment => normalizeQuoteText(fragment))
+    .filter(Boolean);
+  if (fragments.length === 0) return false;
+
+  let from = 0;
+  for (const fragment of fragments) {
+    const index = normalizedSource.indexOf(` ${fragment} `, from);
+    if (index === -1) return false;
+    from = index + fragment.length + 1;
+  }
+  return true;
+}
+
+/**
+ * Classify a quote against source passages. Exact matches win outright;
+ * otherwise the most similar passage decides between paraphrased and not found.
+ */
+export function verifyQuote(quote: string, sources: QuoteSource[]): QuoteVerification {
+  let bestSource: QuoteSource | undefined;
+  let bestSimilarity = 0;
+
+  for (const source of sources) {
+    if (containsQuote(quote, source.content)) {
+      return {
+        quote,
+        verdict: 'exact',
+        similarity: 1,
+        documentId: source.documentId,
+        documentName: source.documentName,
+        chunkId: source.chunkId,
+      };
+    }
+
+    const similarity = quoteSimilarity(quote, source.content);
+    if (similarity > bestSimilarity) {
+      bestSimilarity = similarity;
+      bestSource = source;
+    }
+  }
+
+  const verdict: QuoteVerdict = bestSimilarity >= PARAPHRASE_THRESHOLD ? 'paraphrased' : 'not_found';
+  return {
+    quote,
+    verdict,
+    similarity: Math.round(bestSimilarity * 100) / 100,
+    ...(verdict === 'paraphrased' && bestSource && {
+      documentId: bestSource.documentId,
+      documentName: bestSource.documentName,
+      chunkId: bestSource.chunkId,
+    }),
+  };
+}
+
+/**
+ * Insert an inline marker after every quote that was not verified word for
+ * word, for MarkdownRenderer to render as a warning. Quotes are located by
+ * re-extracting them from the content, so markers land after the closing
+ * quote mark (or at the end of the blockquote).
+ */
+export function markUnverifiedQuotes(content: string, verifications: QuoteVerification[]): string {
+  const unverified = new Map(
+    verifications
+      .filter(verification => verification.verdict !== 'exact')
+      .map(verification => [normalizeQuoteText(verification.quote), verification])
+  );
+  if (unverified.size === 0) return content;
+
+  let marked = content;
+  extractQuotes(content)
+    .reverse()
+    .forEach(quote => {
+      const verification = unverified.get(normalizeQuoteText(quote.text));
+      if (!verification) return;
+      const marker = `<span data-quote-verdict="${verification.verdict}" data-quote-similarity="${verification.similarity}"></span>`;
+      marked = marked.slice(0, quote.end) + marker + marked.slice(quote.end);
+    });
+
+  return marked;
+}
@@ -0,0 +1,179 @@
+/**
+ * Brute-force vector index
+ *
+ * Loads every candidate chunk embedding and scores it in Node. This is the
+ * reference implementation other backends are tested against, and the
+ * fallback when no database-side index is available.
+ */
+
+import { prisma } from '../prisma';
+import { deserializeEmbedding } from '../embeddings/serialization';
+import type { SearchResult } from '../vector-search';
+import type { VectorIndex, VectorSearchQuery } from '../types/vector-index';
+
+export interface CandidateChunk {
+  id: string;
+  content: string;
+  chunkIndex: number;
+  embedding: Buffer | Uint8Array | null;
+  speakers?: string[];
+  startTimestamp?: string | null;
+  endTimestamp?: string | null;
+  startOffset?: number | null;
+  endOffset?: number | null;
+  startPage?: number | null;
+  endPage?: number | null;
+  respondentId?: string | null;
+  attributes?: Record<string, string> | null;
+  document: {
+    id: string;
+    fileName: string;
+  };
+}
+
+export function cosineSimilarity(vectorA: number[], vectorB: number[]): number {
+  if (vectorA.length !== vectorB.length) {
+    throw new Error('Vectors must have the same length');
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < vectorA.length; i++) {
+    dotProduct += vectorA[i] * vectorB[i];
+    normA += vectorA[i] * vectorA[i];
+    normB += vectorB[i] * vectorB[i];
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  
+  if (magnitude === 0) {
+    return 0; // Handle zero vectors
+  }
+
+  return dotProduct / magnitude;
+}
+
+/**
+ * Score candidate chunks against a query embedding and return the top results
+ */
+export function rankChunksBySimilarity(
+  queryEmbedding: number[],
+  chunks: CandidateChunk[],
+  options: { limit: number; minSimilarity: number }
+): SearchResult[] {
+  const results: SearchResult[] = [];
+
+  for (const chunk of chunks) {
+    if (!chunk.embedding) continue;
+
+    try {
+      const chunkEmbedding = deserializeEmbedding(chunk.embedding);
+      const similarity = cosineSimilarity(queryEmbedding, chunkEmbedding);
+
+      if (similarity >= options.minSimilarity) {
+        results.push({
+          chunkId: chunk.id,
+          content: chunk.content,
+          similarity,
+          documentId: chunk.document.id,
+          documentName: chunk.document.fileName,
+          chunkIndex: chunk.chunkIndex,
+          speakers: chunk.speakers,
+          startTimestamp: chunk.startTimestamp,
+          endTimestamp: chunk.endTimestamp,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset,
+          startPage: chunk.startPage,
+          endPage: chunk.endPage,
+          respondentId: chunk.respondentId,
+          attributes: chunk.attributes,
+        });
+      }
+    } catch (error) {
+      console.warn(`Failed to process chunk ${chunk.id}:`, error);
+      // Continue processing other chunks
+    }
+  }
+
+  // Sort by similarity (highest first) and limit results
+  results.sort((a, b) => b.similarity - a.similarity);
+  return results.slice(0, options.limit);
+}
+
+export const bruteForceVectorIndex: VectorIndex = {
+  name: 'brute-force',
+
+  async search(queryEmbedding: number[], query: VectorSearchQuery): Promise<SearchResult[]> {
+    const whereClause: {
+      document: {
+        study: {
+          userId: string;
+        };
+        studyId?: string;
+      };
+      embedding: {
+        not: null;
+      };
+      documentId?: {
+        in: string[];
+      };
+      id?: {
+        not: string;
+      };
+      embeddingProvider?: string;
+      embeddingModel?: string;
+      embeddingDimensions?: number;
+    } = {
+      document: {
+        study: {
+          userId: query.userId, // Ensure user scoping
+        },
+      },
+      embedding: {
+        not: null, // Only get chunks with embeddings
+      },
+    };
+
+    if (query.studyId) {
+      whereClause.document.studyId = query.studyId;
+    }
+
+    if (query.documentIds && query.documentIds.length > 0) {
+      whereClause.documentId = {
+        in: query.documentIds,
+      };
+    }
+
+    if (query.excludeChunkId) {
+      whereClause.id = {
+        not: query.excludeChunkId,
+      };
+    }
+
+    if (query.embeddingModel) {
+      whereClause.embeddingProvider = query.embeddingModel.provider;
+      whereClause.embeddingModel = query.embeddingModel.model;
+      whereClause.embeddingDimensions = query.embeddingModel.dimensions;
+    }
+
+    const chunks: CandidateChunk[] = await prisma.documentChunk.findMany({
+      where: whereClause,
+      include: {
+        document: {
+          select: {
+            id: true,
+            fileName: true,
+          },
+        },
+      },
+    });
+
+    return rankChunksBySimilarity(queryEmbedding, chunks, query);
+  },
+
+  async indexDocument(): Promise<void> {
+    // Nothing to do: embeddings are read straight from DocumentChunk.embedding
+  },
+};
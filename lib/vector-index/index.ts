@@ -0,0 +1,36 @@
+/**
+ * Vector Index Selection
+ *
+ * Picks the similarity search backend used by lib/vector-search.
+ *
+ * Backend priority:
+ * 1. VECTOR_INDEX_BACKEND env var ('brute-force' | 'pgvector')
+ * 2. Default: brute-force (works on any Postgres without extensions)
+ */
+
+import type { VectorIndex, VectorIndexBackendName } from '../types/vector-index';
+import { bruteForceVectorIndex } from './brute-force';
+import { pgVectorIndex } from './pgvector';
+
+const VECTOR_INDEX_BACKENDS: Record<VectorIndexBackendName, VectorIndex> = {
+  'brute-force': bruteForceVectorIndex,
+  pgvector: pgVectorIndex,
+};
+
+export function getVectorIndex(): VectorIndex {
+  const configured = process.env.VECTOR_INDEX_BACKEND as VectorIndexBackendName | undefined;
+
+  if (!configured) {
+    return bruteForceVectorIndex;
+  }
+
+  const backend = VECTOR_INDEX_BACKENDS[configured];
+  if (!backend) {
+    console.warn(`Unknown VECTOR_INDEX_BACKEND "${configured}", falling back to brute-force`);
+    return bruteForceVectorIndex;
+  }
+
+  return backend;
+}
+
+export { bruteForceVectorIndex, pgVectorIndex };
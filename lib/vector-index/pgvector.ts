@@ -0,0 +1,228 @@
+/**
+ * pgvector index
+ *
+ * Mirrors each chunk's embedding into the `embeddingVector` column and lets
+ * Postgres rank candidates with the cosine distance operator, so an HNSW
+ * index can answer top-k queries without a full table scan.
+ *
+ * Filters are applied to the candidates the HNSW scan returns, so a search
+ * scoped to one study or a few documents can come back short. Each search
+ * runs in a transaction that widens `hnsw.ef_search` for its limit and, on
+ * pgvector 0.8+, lets the scan continue until enough rows pass the filters.
+ *
+ * Requires the `vector` extension and the index created by
+ * `npm run db:vector-index`.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { deserializeEmbedding } from '../embeddings/serialization';
+import type { SearchResult } from '../vector-search';
+import type { VectorIndex, VectorSearchQuery } from '../types/vector-index';
+
+// Must match the embeddingVector column type in prisma/schema.prisma
+export const PGVECTOR_DIMENSIONS = 1536;
+
+// pgvector's default ef_search and the largest value it accepts
+const MIN_EF_SEARCH = 40;
+const MAX_EF_SEARCH = 1000;
+const EF_SEARCH_PER_RESULT = 10;
+// Chunks per UPDATE when mirroring embeddings; keeps each statement a few MB
+const INDEX_BATCH_SIZE = 100;
+
+// Cached per process; the extension version doesn't change under a running app
+let iterativeScanSupported: Promise<boolean> | null = null;
+
+interface PgVectorRow {
+  chunkId: string;
+  content: string;
+  chunkIndex: number;
+  speakers: string[];
+  startTimestamp: string | null;
+  endTimestamp: string | null;
+  startOffset: number | null;
+  endOffset: number | null;
+  startPage: number | null;
+  endPage: number | null;
+  respondentId: string | null;
+  attributes: Record<string, string> | null;
+  documentId: string;
+  documentName: string;
+  similarity: number;
+}
+
+/**
+ * Format an embedding as a pgvector text literal, e.g. "[0.1,0.2,0.3]"
+ */
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+/**
+ * HNSW candidate pool for a search returning `limit` rows, with headroom for
+ * rows the WHERE filters drop
+ */
+export function getEfSearch(limit: number): number {
+  return Math.min(MAX_EF_SEARCH, Math.max(MIN_EF_SEARCH, Math.ceil(limit) * EF_SEARCH_PER_RESULT));
+}
+
+/**
+ * Whether the installed pgvector has iterative index scans (0.8.0+)
+ */
+export function supportsIterativeScan(version: string | null | undefined): boolean {
+  const [major, minor] = (version ?? '').split('.').map(part => parseInt(part, 10));
+  if (Number.isNaN(major) || Number.isNaN(minor)) return false;
+  return major > 0 || minor >= 8;
+}
+
+function hasIterativeScan(): Promise<boolean> {
+  if (!iterativeScanSupported) {
+    const lookup: Promise<boolean> = prisma
+      .$queryRaw`SELECT extversion FROM pg_extension WHERE extname = 'vector'`
+      .then((rows: Array<{ extversion: string }>) => supportsIterativeScan(rows[0]?.extversion))
+      .catch(() => {
+        // Try again on the next search rather than caching a transient failure
+        iterativeScanSupported = null;
+        return false;
+      });
+    iterativeScanSupported = lookup;
+    return lookup;
+  }
+  return iterativeScanSupported;
+}
+
+/**
+ * Transaction-local planner settings for a search; set_config(..., true)
+ * behaves like SET LOCAL but takes bind parameters
+ */
+export function buildPgVectorSearchSettings(limit: number, iterativeScan: boolean): Prisma.Sql[] {
+  const settings = [
+    Prisma.sql`SELECT set_config('hnsw.ef_search', ${String(getEfSearch(limit))}, true)`,
+  ];
+  if (iterativeScan) {
+    // strict_order keeps results in exact distance order, as ORDER BY promises
+    settings.push(Prisma.sql`SELECT set_config('hnsw.iterative_scan', 'strict_order', true)`);
+  }
+  return settings;
+}
+
+export function buildPgVectorSearchQuery(queryEmbedding: number[], query: VectorSearchQuery): Prisma.Sql {
+  const vector = toVectorLiteral(queryEmbedding);
+
+  const filters: Prisma.Sql[] = [
+    Prisma.sql`s."userId" = ${query.userId}`,
+    Prisma.sql`c."embeddingVector" IS NOT NULL`,
+  ];
+
+  if (query.studyId) {
+    filters.push(Prisma.sql`d."studyId" = ${query.studyId}`);
+  }
+
+  if (query.documentIds && query.documentIds.length > 0) {
+    filters.push(Prisma.sql`c."documentId" IN (${Prisma.join(query.documentIds)})`);
+  }
+
+  if (query.excludeChunkId) {
+    filters.push(Prisma.sql`c."id" <> ${query.excludeChunkId}`);
+  }
+
+  if (query.embeddingModel) {
+    filters.push(Prisma.sql`c."embeddingProvider" = ${query.embeddingModel.provider}`);
+    filters.push(Prisma.sql`c."embeddingModel" = ${query.embeddingModel.model}`);
+    filters.push(Prisma.sql`c."embeddingDimensions" = ${query.embeddingModel.dimensions}`);
+  }
+
+  // Order by raw distance so the planner can use the HNSW index;
+  // minSimilarity is applied afterwards for the same reason
+  return Prisma.sql`
+    SELECT
+      c."id" AS "chunkId",
+      c."content" AS "content",
+      c."chunkIndex" AS "chunkIndex",
+      c."speakers" AS "speakers",
+      c."startTimestamp" AS "startTimestamp",
+      c."endTimestamp" AS "endTimestamp",
+      c."startOffset" AS "startOffset",
+      c."endOffset" AS "endOffset",
+      c."startPage" AS "startPage",
+      c."endPage" AS "endPage",
+      c."respondentId" AS "respondentId",
+      c."attributes" AS "attributes",
+      d."id" AS "documentId",
+      d."fileName" AS "documentName",
+      1 - (c."embeddingVector" <=> ${vector}::vector) AS "similarity"
+    FROM "DocumentChunk" c
+    JOIN "Document" d ON d."id" = c."documentId"
+    JOIN "Study" s ON s."id" = d."studyId"
+    WHERE ${Prisma.join(filters, ' AND ')}
+    ORDER BY c."embeddingVector" <=> ${vector}::vector
+    LIMIT ${query.limit}
+  `;
+}
+
+/**
+ * One UPDATE writing the vector column of several chunks
+ */
+export function buildPgVectorIndexUpdate(rows: Array<{ id: string; vector: string }>): Prisma.Sql {
+  const values = rows.map(row => Prisma.sql`(${row.id}, ${row.vector})`);
+  return Prisma.sql`
+    UPDATE "DocumentChunk" AS c
+    SET "embeddingVector" = v."vector"::vector
+    FROM (VALUES ${Prisma.join(values)}) AS v("id", "vector")
+    WHERE c."id" = v."id"
+  `;
+}
+
+export const pgVectorIndex: VectorIndex = {
+  name: 'pgvector',
+
+  async search(queryEmbedding: number[], query: VectorSearchQuery): Promise<SearchResult[]> {
+    const settings = buildPgVectorSearchSettings(query.limit, await hasIterativeScan());
+    const rows: PgVectorRow[] = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      for (const setting of settings) {
+        await tx.$queryRaw(setting);
+      }
+      return tx.$queryRaw(buildPgVectorSearchQuery(queryEmbedding, query));
+    });
+
+    return rows
+      .map((row: PgVectorRow) => ({
+        chunkId: row.chunkId,
+        content: row.content,
+        similarity: Number(row.similarity),
+        documentId: row.documentId,
+        documentName: row.documentName,
+        chunkIndex: row.chunkIndex,
+        speakers: row.speakers,
+        startTimestamp: row.startTimestamp,
+        endTimestamp: row.endTimestamp,
+        startOffset: row.startOffset,
+        endOffset: row.endOffset,
+        startPage: row.startPage,
+        endPage: row.endPage,
+        respondentId: row.respondentId,
+        attributes: row.attributes,
+      }))
+      .filter((result: SearchResult) => result.similarity >= query.minSimilarity);
+  },
+
+  async indexDocument(documentId: string, tx?: Prisma.TransactionClient): Promise<void> {
+    const db = tx ?? prisma;
+
+    // Chunks from models with another dimension can't be stored in the
+    // fixed-size column; they stay unindexed until re-embedded
+    const chunks: { id: string; embedding: Buffer | Uint8Array | null }[] =
+      await db.documentChunk.findMany({
+        where: { documentId, embedding: { not: null }, embeddingDimensions: PGVECTOR_DIMENSIONS },
+        select: { id: true, embedding: true },
+      });
+
+    const rows = chunks.flatMap(chunk => chunk.embedding
+      ? [{ id: chunk.id, vector: toVectorLiteral(deserializeEmbedding(chunk.embedding)) }]
+      : []);
+
+    for (let start = 0; start < rows.length; start += INDEX_BATCH_SIZE) {
+      await db.$executeRaw(buildPgVectorIndexUpdate(rows.slice(start, start + INDEX_BATCH_SIZE)));
+    }
+  },
+};
@@ -1,6 +1,28 @@
 import { prisma } from './prisma';
-import { generateEmbedding, deserializeEmbedding } from './voyage-embeddings';
+import { generateEmbedding, deserializeEmbedding } from './embeddings';
 import { getCurrentUserId } from './auth';
+import { getVectorIndex } from './vector-index';
+import { findKeywordMatches } from './keyword-search';
+import { reciprocalRankFusion } from './rank-fusion';
+import { expandToParentWindows } from './parent-windows';
+import { formatRespondentLabel, formatSurveyAttributes } from './survey-import';
+import { findDocumentsMatchingFilter } from './document-metadata';
+import { hasMetadataFilter, type DocumentMetadataFilter } from './types/document-metadata';
+import type { EmbeddingModelInfo } from './types/embeddings';
+
+export { cosineSimilarity } from './vector-index/brute-force';
+
+/**
+ * Retrievers that can contribute a chunk to a result list
+ */
+export type SearchRetriever = 'semantic' | 'keyword';
+
+/**
+ * semantic: embedding similarity only
+ * keyword: Postgres full-text only
+ * hybrid: both, merged with reciprocal rank fusion
+ */
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
 
 export interface SearchResult {
   chunkId: string;
@@ -9,43 +31,45 @@ export interface SearchResult {
   documentId: string;
   documentName: string;
   chunkIndex: number;
+  matchedBy?: SearchRetriever[]; // Which retriever(s) returned this chunk
+  fusionScore?: number; // Reciprocal rank fusion score (hybrid mode only)
+  // Transcript chunks only
+  speakers?: string[];
+  startTimestamp?: string | null;
+  endTimestamp?: string | null;
+  // Character range in Document.extractedText and the pages it spans
+  startOffset?: number | null;
+  endOffset?: number | null;
+  startPage?: number | null;
+  endPage?: number | null;
+  // Survey chunks only: the response row's respondent and attribute columns
+  respondentId?: string | null;
+  attributes?: Record<string, string> | null;
+  // Parent-child retrieval: the window shown to the model around the chunk
+  parentContent?: string;
+  parentStartOffset?: number | null;
+  parentEndOffset?: number | null;
+  parentMergedInto?: string; // Chunk ID of the higher-ranked result whose window contains this one
 }
 
 export interface SearchOptions {
   limit: number;
   minSimilarity: number;
+  mode: SearchMode;
   studyId?: string;
   documentIds?: string[];
+  filter?: DocumentMetadataFilter; // Only documents with these tags and attributes
 }
 
 export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
   limit: 5,
   minSimilarity: 0.1,
+  mode: 'semantic',
 };
 
-export function cosineSimilarity(vectorA: number[], vectorB: number[]): number {
-  if (vectorA.length !== vectorB.length) {
-    throw new Error('Vectors must have the same length');
-  }
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < vectorA.length; i++) {
-    dotProduct += vectorA[i] * vectorB[i];
-    normA += vectorA[i] * vectorA[i];
-    normB += vectorB[i] * vectorB[i];
-  }
-
-  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
-  
-  if (magnitude === 0) {
-    return 0; // Handle zero vectors
-  }
-
-  return dotProduct / magnitude;
-}
+// Each retriever over-fetches in hybrid mode so fusion has overlap to work with
+const HYBRID_CANDIDATE_MULTIPLIER = 3;
+const MIN_HYBRID_CANDIDATES = 20;
 
 export async function findRelevantChunks(
   query: string,
@@ -56,98 +80,78 @@ export async function findRelevantChunks(
   if (!userId) return [];
 
   try {
-    // Generate embedding for the query
-    const queryEmbeddingResult = await generateEmbedding(query);
-    const queryEmbedding = queryEmbeddingResult.embedding;
-
-    // Build database query filters
-    const whereClause: {
-      document: {
-        study: {
-          userId: string;
-        };
-        studyId?: string;
-      };
-      embedding: {
-        not: null;
-      };
-      documentId?: {
-        in: string[];
-      };
-    } = {
-      document: {
-        study: {
-          userId: userId, // Ensure user scoping
-        },
-      },
-      embedding: {
-        not: null, // Only get chunks with embeddings
-      },
-    };
-
-    // Add study filter if provided
-    if (config.studyId) {
-      whereClause.document.studyId = config.studyId;
+    // The metadata filter narrows the search to the documents that match it
+    if (hasMetadataFilter(config.filter)) {
+      config.documentIds = await findDocumentsMatchingFilter(userId, config.filter, config);
+      if (config.documentIds.length === 0) return [];
     }
 
-    // Add document filter if provided
-    if (config.documentIds && config.documentIds.length > 0) {
-      whereClause.documentId = {
-        in: config.documentIds,
-      };
-    }
+    // Matches are small chunks; the model is shown their parent windows
+    return await expandToParentWindows(await findMatches(query, userId, config));
 
-    // Fetch all chunks with embeddings
-    const chunks = await prisma.documentChunk.findMany({
-      where: whereClause,
-      include: {
-        document: {
-          select: {
-            id: true,
-            fileName: true,
-          },
-        },
-      },
+  } catch (error) {
+    console.error('Error in findRelevantChunks:', error);
+    throw new Error(`Vector search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+async function findMatches(
+  query: string,
+  userId: string,
+  config: SearchOptions
+): Promise<SearchResult[]> {
+  if (config.mode === 'keyword') {
+    return findKeywordMatches(query, {
+      userId,
+      limit: config.limit,
+      studyId: config.studyId,
+      documentIds: config.documentIds,
     });
+  }
 
-    if (chunks.length === 0) {
-      return [];
-    }
+  if (config.mode === 'hybrid') {
+    const candidateLimit = Math.max(config.limit * HYBRID_CANDIDATE_MULTIPLIER, MIN_HYBRID_CANDIDATES);
+    const [semanticResults, keywordResults] = await Promise.all([
+      findSemanticMatches(query, userId, { ...config, limit: candidateLimit }),
+      findKeywordMatches(query, {
+        userId,
+        limit: candidateLimit,
+        studyId: config.studyId,
+        documentIds: config.documentIds,
+      }),
+    ]);
+
+    return reciprocalRankFusion(
+      [
+        { retriever: 'semantic', results: semanticResults },
+        { retriever: 'keyword', results: keywordResults },
+      ],
+      { limit: config.limit }
+    );
+  }
 
-    // Calculate similarities
-    const results: SearchResult[] = [];
-
-    for (const chunk of chunks) {
-      if (!chunk.embedding) continue;
-
-      try {
-        const chunkEmbedding = deserializeEmbedding(chunk.embedding);
-        const similarity = cosineSimilarity(queryEmbedding, chunkEmbedding);
-
-        if (similarity >= config.minSimilarity) {
-          results.push({
-            chunkId: chunk.id,
-            content: chunk.content,
-            similarity,
-            documentId: chunk.document.id,
-            documentName: chunk.document.fileName,
-            chunkIndex: chunk.chunkIndex,
-          });
-        }
-      } catch (error) {
-        console.warn(`Failed to process chunk ${chunk.id}:`, error);
-        // Continue processing other chunks
-      }
-    }
+  return findSemanticMatches(query, userId, config);
+}
 
-    // Sort by similarity (highest first) and limit results
-    results.sort((a, b) => b.similarity - a.similarity);
-    return results.slice(0, config.limit);
+async function findSemanticMatches(
+  query: string,
+  userId: string,
+  options: SearchOptions
+): Promise<SearchResult[]> {
+  // Generate embedding for the query
+  const queryEmbeddingResult = await generateEmbedding(query);
+  const queryEmbedding = queryEmbeddingResult.embedding;
+
+  const results = await getVectorIndex().search(queryEmbedding, {
+    userId, // Ensure user scoping
+    limit: options.limit,
+    minSimilarity: options.minSimilarity,
+    studyId: options.studyId,
+    documentIds: options.documentIds,
+    embeddingModel: queryEmbeddingResult.model, // Skip chunks embedded with another model
+  });
 
-  } catch (error) {
-    console.error('Error in findRelevantChunks:', error);
-    throw new Error(`Vector search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  return results.map((result): SearchResult => ({ ...result, matchedBy: ['semantic'] }));
 }
 
 export async function findSimilarChunks(
@@ -185,7 +189,12 @@ export async function findSimilarChunks(
     return findRelevantChunksWithEmbedding(
       sourceEmbedding,
       { ...config, studyId },
-      chunkId // Exclude the source chunk itself
+      chunkId, // Exclude the source chunk itself
+      {
+        provider: sourceChunk.embeddingProvider,
+        model: sourceChunk.embeddingModel,
+        dimensions: sourceChunk.embeddingDimensions,
+      }
     );
 
   } catch (error) {
@@ -197,92 +206,65 @@ export async function findSimilarChunks(
 async function findRelevantChunksWithEmbedding(
   queryEmbedding: number[],
   options: SearchOptions,
-  excludeChunkId?: string
+  excludeChunkId?: string,
+  embeddingModel?: EmbeddingModelInfo
 ): Promise<SearchResult[]> {
   const userId = await getCurrentUserId();
   if (!userId) return [];
 
-  const whereClause: {
-    document: {
-      study: {
-        userId: string;
-      };
-      studyId?: string;
-    };
-    embedding: {
-      not: null;
-    };
-    documentId?: {
-      in: string[];
-    };
-    id?: {
-      not: string;
-    };
-  } = {
-    document: {
-      study: {
-        userId: userId,
-      },
-    },
-    embedding: {
-      not: null,
-    },
-  };
-
-  if (options.studyId) {
-    whereClause.document.studyId = options.studyId;
-  }
-
-  if (options.documentIds && options.documentIds.length > 0) {
-    whereClause.documentId = {
-      in: options.documentIds,
-    };
-  }
-
-  if (excludeChunkId) {
-    whereClause.id = {
-      not: excludeChunkId,
-    };
-  }
-
-  const chunks = await prisma.documentChunk.findMany({
-    where: whereClause,
-    include: {
-      document: {
-        select: {
-          id: true,
-          fileName: true,
-        },
-      },
-    },
+  return getVectorIndex().search(queryEmbedding, {
+    userId,
+    limit: options.limit,
+    minSimilarity: options.minSimilarity,
+    studyId: options.studyId,
+    documentIds: options.documentIds,
+    excludeChunkId,
+    embeddingModel,
   });
+}
 
-  const results: SearchResult[] = [];
-
-  for (const chunk of chunks) {
-    if (!chunk.embedding) continue;
-
-    try {
-      const chunkEmbedding = deserializeEmbedding(chunk.embedding);
-      const similarity = cosineSimilarity(queryEmbedding, chunkEmbedding);
+/**
+ * "P3, Interviewer @ 00:12:31–00:14:02" for transcript chunks, null otherwise
+ */
+export function formatSpeakerAttribution(
+  result: Pick<SearchResult, 'speakers' | 'startTimestamp' | 'endTimestamp'>
+): string | null {
+  const speakers = result.speakers?.length ? result.speakers.join(', ') : null;
+  const timestamps = result.startTimestamp
+    ? [result.startTimestamp, result.endTimestamp].filter(Boolean).join('–')
+    : null;
+
+  if (speakers && timestamps) return `${speakers} @ ${timestamps}`;
+  return speakers ?? timestamps;
+}
 
-      if (similarity >= options.minSimilarity) {
-        results.push({
-          chunkId: chunk.id,
-          content: chunk.content,
-          similarity,
-          documentId: chunk.document.id,
-          documentName: chunk.document.fileName,
-          chunkIndex: chunk.chunkIndex,
-        });
-      }
-    } catch (error) {
-      console.warn(`Failed to process chunk ${chunk.id}:`, error);
-    }
-  }
+/**
+ * "Respondent 412 (Segment: SMB, Plan: Pro)" for survey chunks, null otherwise
+ */
+export function formatRespondentAttribution(
+  result: Pick<SearchResult, 'respondentId' | 'attributes'>
+): string | null {
+  if (!result.respondentId) return null;
+
+  const label = formatRespondentLabel(result.respondentId);
+  return result.attributes && Object.keys(result.attributes).length > 0
+    ? `${label} (${formatSurveyAttributes(result.attributes)})`
+    : label;
+}
 
-  results.sort((a, b) => b.similarity - a.similarity);
-  return results.slice(0, options.limit);
+/**
+ * Text of a result as shown to the model: its parent window when it has one,
+ * or the chunk with a pointer to the earlier result whose window contains it
+ */
+export function formatPassageText(result: SearchResult, results: SearchResult[]): string {
+  if (result.parentContent) return result.parentContent.trim();
+
+  const containing = result.parentMergedInto
+    ? results.findIndex(other => other.chunkId === result.parentMergedInto)
+    : -1;
+  return containing === -1
+    ? result.content.trim()
+    : `${result.content.trim()}\n(In context in passage ${containing + 1} above)`;
 }
 
 export function formatSearchResults(results: SearchResult[]): string {
@@ -293,7 +275,9 @@ export function formatSearchResults(results: SearchResult[]): string {
   return results
     .map((result, index) => {
       const similarityPercent = Math.round(result.similarity * 100);
-      return `[${index + 1}] ${result.documentName} (${similarityPercent}% match)\n${result.content.trim()}\n`;
+      const attribution = formatSpeakerAttribution(result) ?? formatRespondentAttribution(result);
+      const header = `[${index + 1}] ${result.documentName} (${similarityPercent}% match)${attribution ? ` — ${attribution}` : ''}`;
+      return `${header}\n${formatPassageText(result, results)}\n`;
     })
     .join('\n---\n\n');
 }
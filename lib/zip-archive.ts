@@ -0,0 +1,225 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { validateFile } from './file-storage';
+import { ACCEPTED_FILE_TYPES, ARCHIVE_FILE_EXTENSIONS, ARCHIVE_FILE_TYPES, MAX_FILE_SIZE } from './constants';
+
+/**
+ * ZIP archive uploads
+ *
+ * A .zip uploaded to the batch endpoint is expanded server-side into one
+ * file per supported entry, each checked with validateFile like a loose
+ * upload. Entries that can't become documents (hidden files, unsupported
+ * types, unsafe paths, oversized files) are skipped and reported per entry.
+ *
+ * Zip bombs: entries are inflated as streams and abandoned as soon as they
+ * pass the per-file limit, and the archive is rejected once its expanded
+ * total passes maxExpandedSize, whatever sizes the headers claim.
+ *
+ * Path traversal: entry names are only used as metadata (files are stored
+ * under generated names), but entries with absolute paths or ".." segments
+ * are still rejected rather than normalized.
+ */
+
+export interface ArchiveLimits {
+  maxEntries: number; // Entries in the archive, folders included
+  maxFiles: number; // Documents one archive can add
+  maxFileSize: number; // Per expanded entry, as for loose uploads
+  maxExpandedSize: number; // All accepted entries together
+}
+
+export const ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 2000,
+  maxFiles: 100,
+  maxFileSize: MAX_FILE_SIZE,
+  maxExpandedSize: 100 * 1024 * 1024,
+};
+
+export interface ArchiveFile {
+  file: File;
+  path: string; // Normalized path inside the archive, e.g. "Round 1/p04.vtt"
+  folderPath: string | null; // "Round 1"; null at the archive root
+}
+
+export interface SkippedArchiveEntry {
+  archive: string; // Name of the uploaded .zip
+  path: string;
+  reason: string;
+}
+
+export interface ExpandedArchive {
+  files: ArchiveFile[];
+  skipped: SkippedArchiveEntry[];
+}
+
+/**
+ * The archive as a whole can't be expanded (not a zip, too many entries,
+ * expands past the size limit)
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// OS metadata that rides along in zipped folders
+const SYSTEM_FILES = new Set(['thumbs.db', 'desktop.ini', 'icon\r']);
+
+const SYMLINK_MODE = 0o120000;
+const FILE_TYPE_MASK = 0o170000;
+
+export function isZipArchive(file: { name: string; type: string }): boolean {
+  const extension = `.${file.name.toLowerCase().split('.').pop()}`;
+  return (ARCHIVE_FILE_TYPES as readonly string[]).includes(file.type) ||
+    (ARCHIVE_FILE_EXTENSIONS as readonly string[]).includes(extension);
+}
+
+/**
+ * Path of an archive entry as stored on its document, e.g. "Round 1/p04.vtt"
+ */
+export function joinArchivePath(folderPath: string | null | undefined, fileName: string): string {
+  return folderPath ? `${folderPath}/${fileName}` : fileName;
+}
+
+/**
+ * Normalized entry path, or null when it is absolute or climbs out of the
+ * archive root
+ */
+export function normalizeEntryPath(rawPath: string): string | null {
+  const unixPath = rawPath.replace(/\\/g, '/');
+  if (unixPath.startsWith('/') || /^[a-zA-Z]:/.test(unixPath)) return null;
+
+  const segments = unixPath.split('/').filter(segment => segment && segment !== '.');
+  if (segments.includes('..')) return null;
+
+  return segments.join('/');
+}
+
+function getMimeType(fileName: string): string {
+  const extension = `.${fileName.toLowerCase().split('.').pop()}`;
+  return Object.entries(ACCEPTED_FILE_TYPES).find(([, extensions]) => extensions.includes(extension))?.[0] ?? '';
+}
+
+/**
+ * Inflate an entry, giving up as soon as it passes maxBytes
+ */
+function inflateEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.pause();
+        stream.removeAllListeners();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Expand an uploaded .zip into validated files and a report of skipped entries
+ */
+export async function expandZipArchive(
+  archiveName: string,
+  buffer: Buffer,
+  limits: ArchiveLimits = ARCHIVE_LIMITS
+): Promise<ExpandedArchive> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ArchiveError('File is not a valid ZIP archive');
+  }
+
+  const entries = Object.values(zip.files);
+  if (entries.length > limits.maxEntries) {
+    throw new ArchiveError(`Archive has too many entries (max ${limits.maxEntries})`);
+  }
+
+  const files: ArchiveFile[] = [];
+  const skipped: SkippedArchiveEntry[] = [];
+  let expandedSize = 0;
+
+  const skip = (entryPath: string, reason: string) => {
+    skipped.push({ archive: archiveName, path: entryPath, reason });
+  };
+
+  for (const entry of entries) {
+    if (entry.dir) continue;
+
+    const rawPath = entry.unsafeOriginalName ?? entry.name;
+    const entryPath = normalizeEntryPath(rawPath);
+    if (entryPath === null) {
+      skip(rawPath, 'Unsafe path');
+      continue;
+    }
+
+    const segments = entryPath.split('/');
+    const fileName = segments[segments.length - 1];
+
+    if (
+      segments.some(segment => segment.startsWith('.') || segment === '__MACOSX') ||
+      SYSTEM_FILES.has(fileName.toLowerCase())
+    ) {
+      skip(entryPath, 'Hidden or system file');
+      continue;
+    }
+
+    if (typeof entry.unixPermissions === 'number' && (entry.unixPermissions & FILE_TYPE_MASK) === SYMLINK_MODE) {
+      skip(entryPath, 'Symbolic link');
+      continue;
+    }
+
+    if (isZipArchive({ name: fileName, type: '' })) {
+      skip(entryPath, 'Nested archives are not expanded');
+      continue;
+    }
+
+    // Check the type before inflating anything
+    const mimeType = getMimeType(fileName);
+    const typeCheck = validateFile(new File([], fileName, { type: mimeType }));
+    if (!typeCheck.valid) {
+      skip(entryPath, 'Unsupported file type');
+      continue;
+    }
+
+    if (files.length >= limits.maxFiles) {
+      skip(entryPath, `Archive file limit reached (max ${limits.maxFiles} files)`);
+      continue;
+    }
+
+    const remaining = limits.maxExpandedSize - expandedSize;
+    const data = await inflateEntry(entry, Math.min(limits.maxFileSize, remaining));
+    if (data === null) {
+      if (limits.maxFileSize <= remaining) {
+        skip(entryPath, `File size exceeds ${Math.round(limits.maxFileSize / (1024 * 1024))}MB limit`);
+        continue;
+      }
+      throw new ArchiveError(`Archive expands to more than ${Math.round(limits.maxExpandedSize / (1024 * 1024))}MB`);
+    }
+    expandedSize += data.length;
+
+    const file = new File([new Uint8Array(data)], fileName, {
+      type: mimeType,
+      lastModified: entry.date.getTime(),
+    });
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      skip(entryPath, validation.error ?? 'Invalid file');
+      continue;
+    }
+
+    const folderPath = path.posix.dirname(entryPath);
+    files.push({ file, path: entryPath, folderPath: folderPath === '.' ? null : folderPath });
+  }
+
+  return { files, skipped };
+}
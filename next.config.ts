@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ["pdf2json"],
+  serverExternalPackages: ["pdf2json", "pdfjs-dist", "tesseract.js"],
   async rewrites() {
     return [
       {
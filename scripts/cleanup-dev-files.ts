@@ -107,6 +107,9 @@ async function cleanupOrphanedFiles(options: CleanupOptions, userId: string) {
   const studyDirs = readdirSync(devUploadsPath);
   
   for (const studyDir of studyDirs) {
+    // .partial holds resumable uploads in progress; cleanupAbandonedUploads owns it
+    if (studyDir.startsWith('.')) continue;
+
     const studyPath = join(devUploadsPath, studyDir);
     if (statSync(studyPath).isDirectory()) {
       const files = readdirSync(studyPath);
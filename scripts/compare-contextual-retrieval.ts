@@ -0,0 +1,110 @@
+#!/usr/bin/env tsx
+
+/**
+ * Compare retrieval with raw and contextual chunk embeddings
+ *
+ * Ranks a study's chunks for each query with the embeddings it has and with
+ * the other kind, embedded in memory (see lib/contextual-embeddings). Nothing
+ * is written, so it is safe to run before enabling contextual embeddings.
+ *
+ * Queries come from --query flags or a JSON file of
+ * [{ "query": "...", "expectedDocuments": ["interview-3.txt"] }]; queries with
+ * expected documents (IDs or file names) are scored for hit rate and MRR.
+ *
+ * Usage:
+ *   npx tsx scripts/compare-contextual-retrieval.ts --study=<study-id> --query="..." [--query="..."] [--limit=5]
+ *   npx tsx scripts/compare-contextual-retrieval.ts --study=<study-id> --queries=queries.json
+ */
+
+import { readFileSync } from "fs";
+import { prisma } from "../lib/prisma";
+import { getActiveEmbeddingModel } from "../lib/embeddings";
+import {
+  compareContextualRetrieval,
+  type RetrievalComparisonQuery,
+  type RetrievalMetrics,
+  type RetrievalRun,
+} from "../lib/contextual-embeddings";
+
+function readQueries(args: string[]): RetrievalComparisonQuery[] {
+  const queries: RetrievalComparisonQuery[] = args
+    .filter(arg => arg.startsWith('--query='))
+    .map(arg => ({ query: arg.slice('--query='.length) }));
+
+  const file = args.find(arg => arg.startsWith('--queries='))?.split('=')[1];
+  if (file) {
+    const parsed: unknown = JSON.parse(readFileSync(file, 'utf8'));
+    if (!Array.isArray(parsed) || !parsed.every(entry => typeof entry?.query === 'string')) {
+      throw new Error(`${file} must be a list of { query, expectedDocuments? }`);
+    }
+    queries.push(...parsed);
+  }
+
+  return queries.filter(entry => entry.query.trim());
+}
+
+function formatRun(label: string, run: RetrievalRun): string[] {
+  const rank = run.firstRelevantRank ? ` (first expected at #${run.firstRelevantRank})` : '';
+  return [
+    `   ${label}${rank}`,
+    ...run.results.map((result, index) =>
+      `     ${index + 1}. ${result.fileName} #${result.chunkIndex} (${result.similarity.toFixed(3)})`
+    ),
+  ];
+}
+
+function formatMetrics(metrics: RetrievalMetrics | null): string {
+  return metrics
+    ? `hit rate ${(metrics.hitRate * 100).toFixed(0)}%, MRR ${metrics.mrr.toFixed(3)}`
+    : 'no expected documents given';
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const studyId = args.find(arg => arg.startsWith('--study='))?.split('=')[1];
+  const limit = Number(args.find(arg => arg.startsWith('--limit='))?.split('=')[1] ?? 5);
+
+  let queries: RetrievalComparisonQuery[];
+  try {
+    queries = readQueries(args);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (!studyId || queries.length === 0 || !Number.isInteger(limit) || limit < 1) {
+    console.error("❌ Specify a study and at least one query");
+    console.error("Usage: npx tsx scripts/compare-contextual-retrieval.ts --study=<study-id> (--query=\"...\" | --queries=<file.json>) [--limit=5]");
+    process.exit(1);
+  }
+
+  const active = getActiveEmbeddingModel();
+  console.log(`🔍 Comparing raw and contextual embeddings with ${active.provider}/${active.model}`);
+  console.log('─'.repeat(50));
+
+  try {
+    const report = await compareContextualRetrieval(studyId, queries, { limit });
+    console.log(`Ranked ${report.chunkCount} chunks for ${report.queries.length} queries (top ${report.limit})`);
+
+    for (const comparison of report.queries) {
+      console.log(`\n❓ ${comparison.query}  [overlap ${(comparison.overlap * 100).toFixed(0)}%]`);
+      console.log(formatRun('Raw', comparison.raw).join('\n'));
+      console.log(formatRun('Contextual', comparison.contextual).join('\n'));
+    }
+
+    console.log('\n' + '─'.repeat(50));
+    console.log(`Mean overlap: ${(report.summary.meanOverlap * 100).toFixed(0)}%`);
+    console.log(`Raw:        ${formatMetrics(report.summary.raw)}`);
+    console.log(`Contextual: ${formatMetrics(report.summary.contextual)}`);
+  } catch (error) {
+    console.error("❌ Comparison failed:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if this script is executed directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+
+/**
+ * Standalone ingestion worker
+ *
+ * Processes queued document ingestion jobs outside the web server. Use with
+ * INGESTION_WORKER=external on hosts where the web process can't run
+ * background work.
+ *
+ * Usage:
+ *   npx tsx scripts/ingestion-worker.ts          # run until stopped
+ *   npx tsx scripts/ingestion-worker.ts --once   # drain the queue and exit
+ */
+
+import { prisma } from "../lib/prisma";
+import { drainIngestionQueue, recoverOrphanedIngestion, RECOVERY_INTERVAL_MS, sweepOrphanedIngestion } from "../lib/ingestion";
+import { cleanupAbandonedUploads } from "../lib/file-storage/cleanup";
+
+const POLL_INTERVAL_MS = 5000;
+
+async function main() {
+  const once = process.argv.includes('--once');
+  let stopping = false;
+
+  process.on('SIGINT', () => { stopping = true; });
+  process.on('SIGTERM', () => { stopping = true; });
+
+  try {
+    console.log("🔧 Ingestion worker starting");
+
+    const recovery = await recoverOrphanedIngestion();
+    console.log(`♻️  Recovery: ${recovery.requeuedJobs} requeued, ${recovery.failedJobs} failed, ${recovery.enqueuedDocuments} documents enqueued, ${recovery.failedDocuments} documents failed`);
+
+    const uploadCleanup = await cleanupAbandonedUploads();
+    console.log(`🧹 Upload cleanup: ${uploadCleanup.deletedCount} abandoned uploads removed`);
+
+    let lastSweepAt = Date.now();
+
+    do {
+      // Jobs orphaned shortly before this worker started are only stale later
+      if (Date.now() - lastSweepAt >= RECOVERY_INTERVAL_MS) {
+        await sweepOrphanedIngestion();
+        lastSweepAt = Date.now();
+      }
+
+      const processed = await drainIngestionQueue();
+      if (processed > 0) {
+        console.log(`✅ Processed ${processed} jobs`);
+      }
+
+      if (!once && !stopping) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    } while (!once && !stopping);
+
+    console.log("👋 Ingestion worker stopped");
+  } catch (error) {
+    console.error("❌ Ingestion worker failed:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if this script is executed directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+
+/**
+ * Re-chunk and re-embed existing studies
+ *
+ * Run after changing CHILD_CHUNKING_OPTIONS or the embedding provider/model.
+ * Rebuilds each study's chunks from Document.extractedText. Interrupted or
+ * failed jobs resume where they stopped the next time the script runs.
+ *
+ * Usage:
+ *   npx tsx scripts/reindex-studies.ts --study=<study-id>
+ *   npx tsx scripts/reindex-studies.ts --all [--stale-only]
+ */
+
+import { prisma } from "../lib/prisma";
+import { getActiveEmbeddingModel } from "../lib/embeddings";
+import { runReindexJob, startReindexJob } from "../lib/reindexing";
+
+interface ReindexOptions {
+  studyId?: string;
+  all: boolean;
+  staleOnly: boolean;
+}
+
+async function findStudyIds(options: ReindexOptions): Promise<string[]> {
+  if (options.studyId) {
+    return [options.studyId];
+  }
+
+  if (!options.staleOnly) {
+    const studies: Array<{ id: string }> = await prisma.study.findMany({
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return studies.map(study => study.id);
+  }
+
+  // Only studies with chunks embedded by a model other than the active one
+  const active = getActiveEmbeddingModel();
+  const studies: Array<{ id: string }> = await prisma.study.findMany({
+    where: {
+      documents: {
+        some: {
+          chunks: {
+            some: {
+              NOT: {
+                embeddingProvider: active.provider,
+                embeddingModel: active.model,
+                embeddingDimensions: active.dimensions,
+              },
+            },
+          },
+        },
+      },
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return studies.map(study => study.id);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const options: ReindexOptions = {
+    studyId: args.find(arg => arg.startsWith('--study='))?.split('=')[1],
+    all: args.includes('--all'),
+    staleOnly: args.includes('--stale-only'),
+  };
+
+  if (!options.studyId && !options.all) {
+    console.error("❌ Specify a study to reindex");
+    console.error("Usage: npx tsx scripts/reindex-studies.ts --study=<study-id> | --all [--stale-only]");
+    process.exit(1);
+  }
+
+  const active = getActiveEmbeddingModel();
+  console.log(`🔄 Reindexing with ${active.provider}/${active.model} (${active.dimensions} dimensions)`);
+  console.log('─'.repeat(50));
+
+  let failures = 0;
+
+  try {
+    const studyIds = await findStudyIds(options);
+    console.log(`Found ${studyIds.length} studies to reindex`);
+
+    for (const studyId of studyIds) {
+      const job = await startReindexJob(studyId);
+      console.log(`\n📚 Study ${studyId} (job ${job.id}, ${job.processedDocuments}/${job.totalDocuments} already done)`);
+
+      const result = await runReindexJob(job.id, (progress) => {
+        console.log(`   ${progress.processedDocuments}/${progress.totalDocuments} documents (${progress.progress}%)`);
+      });
+
+      if (result.status === 'COMPLETED') {
+        console.log(`✅ Study ${studyId} reindexed`);
+      } else {
+        failures++;
+        console.error(`❌ Study ${studyId} failed: ${result.error}`);
+        console.error("   Existing chunks were left in place; re-run to resume");
+      }
+    }
+  } catch (error) {
+    console.error("❌ Reindex failed:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+// Run if this script is executed directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,56 @@
+/**
+ * Vector index setup script
+ * Creates the pgvector HNSW index and backfills `embeddingVector`
+ * for chunks that were embedded before the pgvector backend was enabled.
+ * Also creates the full-text GIN index used by keyword search.
+ *
+ * Run after `prisma db push` with VECTOR_INDEX_BACKEND=pgvector.
+ */
+
+import { prisma } from "../lib/prisma";
+import { pgVectorIndex } from "../lib/vector-index/pgvector";
+import { KEYWORD_SEARCH_LANGUAGE } from "../lib/keyword-search";
+
+async function setupVectorIndex() {
+  try {
+    console.log("🚀 Setting up pgvector index...");
+
+    await prisma.$executeRawUnsafe(`CREATE EXTENSION IF NOT EXISTS vector`);
+    await prisma.$executeRawUnsafe(`
+      CREATE INDEX IF NOT EXISTS "DocumentChunk_embeddingVector_hnsw_idx"
+      ON "DocumentChunk" USING hnsw ("embeddingVector" vector_cosine_ops)
+    `);
+    console.log("✅ HNSW index ready");
+
+    await prisma.$executeRawUnsafe(`
+      CREATE INDEX IF NOT EXISTS "DocumentChunk_content_fts_idx"
+      ON "DocumentChunk" USING gin (to_tsvector('${KEYWORD_SEARCH_LANGUAGE}'::regconfig, "content"))
+    `);
+    console.log("✅ Full-text index ready");
+
+    // Backfill documents that still have chunks without a vector mirror
+    const documents: { documentId: string }[] = await prisma.$queryRaw`
+      SELECT DISTINCT "documentId"
+      FROM "DocumentChunk"
+      WHERE "embedding" IS NOT NULL AND "embeddingVector" IS NULL
+    `;
+
+    console.log(`📄 Backfilling ${documents.length} document(s)`);
+    for (const [index, { documentId }] of documents.entries()) {
+      await pgVectorIndex.indexDocument(documentId);
+      console.log(`  [${index + 1}/${documents.length}] ${documentId}`);
+    }
+
+    console.log("✅ Vector index setup complete!");
+  } catch (error) {
+    console.error("❌ Vector index setup failed:", error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run if this script is executed directly
+if (require.main === module) {
+  setupVectorIndex();
+}
@@ -0,0 +1,94 @@
+/**
+ * Text-layer PDF fixtures for extraction tests
+ *
+ * Each page is a list of lines placed at a y position in points from the
+ * bottom of a US Letter page (792pt tall), the way a word processor lays out
+ * running headers, body text and footers.
+ */
+
+export interface FixtureLine {
+  y: number;
+  text: string;
+}
+
+const PAGE_HEIGHT = 792;
+// pdf2json fails to find the cross-reference table of very small files
+const MIN_FILE_SIZE = 70000;
+
+function escapePDFString(text: string): string {
+  return text.replace(/[\\()]/g, '\\$&');
+}
+
+export function buildTextPDF(pages: FixtureLine[][]): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  pages.forEach((lines, index) => {
+    const content = `BT /F1 11 Tf ${lines.map(line => `1 0 0 1 72 ${line.y} Tm (${escapePDFString(line.text)}) Tj`).join(' ')} ET`;
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = `%PDF-1.4\n%${'x'.repeat(MIN_FILE_SIZE)}\n`;
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Body lines from the top of the page at 14pt leading, with an extra gap
+ * before each paragraph
+ */
+function body(paragraphs: string[][]): FixtureLine[] {
+  const lines: FixtureLine[] = [];
+  let y = 700;
+  for (const paragraph of paragraphs) {
+    for (const text of paragraph) {
+      lines.push({ y, text });
+      y -= 14;
+    }
+    y -= 14;
+  }
+  return lines;
+}
+
+/**
+ * Three-page report with a running header, "Page n of 3" footers and words
+ * hyphenated across lines and across a page break
+ */
+export const reportPDF = (): Buffer => buildTextPDF([
+  [
+    { y: 760, text: 'CONFIDENTIAL - Acme Research 2025' },
+    ...body([
+      ['Participants described onboarding as con-', 'fusing and slow.'],
+      ['Most teams invited colleagues within a week.'],
+    ]),
+    { y: 40, text: 'Page 1 of 3' },
+  ],
+  [
+    { y: 760, text: 'CONFIDENTIAL - Acme Research 2025' },
+    ...body([
+      ['Pricing came up in every interview, usually in the context of seat-based billing and budget approval cy-'],
+    ]),
+    { y: 40, text: 'Page 2 of 3' },
+  ],
+  [
+    { y: 760, text: 'CONFIDENTIAL - Acme Research 2025' },
+    ...body([
+      ['cles that stall expansion. Procurement teams', 'asked for annual invoices.'],
+      ['Self-serve upgrades were rare.'],
+    ]),
+    { y: 40, text: 'Page 3 of 3' },
+  ],
+]);
@@ -334,6 +334,7 @@ export const createMockHooks = () => ({
     createNewChat: vi.fn(),
     generateTitle: vi.fn(),
     generateTitleInBackground: vi.fn(),
+    updateChatScope: vi.fn(),
     refetchChats: vi.fn(),
   })),
 
@@ -376,6 +377,7 @@ export const createMockUseChatManager = (overrides: MockUseChatManagerOptions =
   createNewChat: vi.fn(),
   generateTitle: vi.fn(),
   generateTitleInBackground: vi.fn(),
+  updateChatScope: vi.fn(),
   refetchChats: vi.fn(),
 });
 
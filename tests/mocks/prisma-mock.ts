@@ -0,0 +1,19 @@
+import { vi } from 'vitest';
+
+// Prisma client mock access
+//
+// Tests mock the client with vi.mock('@/lib/prisma', () => ({ prisma: { ... } }))
+// and read it back through asMockPrisma to reach the vi.fn() methods with types.
+
+export type MockFn = ReturnType<typeof vi.fn>;
+export type MockModel = Record<string, MockFn>;
+
+/**
+ * The mocked client, typed with its models (e.g. 'document') and client
+ * methods (e.g. '$transaction')
+ */
+export function asMockPrisma<Model extends string, ClientMethod extends `$${string}` = never>(
+  prisma: unknown
+): Record<Model, MockModel> & Record<ClientMethod, MockFn> {
+  return prisma as Record<Model, MockModel> & Record<ClientMethod, MockFn>;
+}
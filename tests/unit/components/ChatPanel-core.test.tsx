@@ -57,6 +57,7 @@ describe('ChatPanel Core Functionality', () => {
       isGeneratingTitle: false,
       createNewChat: vi.fn(),
       generateTitleInBackground: vi.fn(),
+      updateChatScope: vi.fn(),
     });
 
     mockUseMessages.mockReturnValue({
@@ -126,6 +127,7 @@ describe('ChatPanel Core Functionality', () => {
         isGeneratingTitle: false,
         createNewChat: vi.fn(),
         generateTitleInBackground: vi.fn(),
+        updateChatScope: vi.fn(),
       });
 
       renderWithProviders(<ChatPanel studyId={studyId} />);
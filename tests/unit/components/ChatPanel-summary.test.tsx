@@ -77,6 +77,7 @@ describe('ChatPanel - Summary Feature', () => {
       isGeneratingTitle: false,
       createNewChat: vi.fn(),
       generateTitleInBackground: vi.fn(),
+      updateChatScope: vi.fn(),
     },
     useMessages: {
       messages: [],
@@ -66,6 +66,7 @@ describe('ChatPanel User Workflows', () => {
       createNewChat: vi.fn(),
       generateTitle: vi.fn(),
       generateTitleInBackground: vi.fn(),
+      updateChatScope: vi.fn(),
       refetchChats: vi.fn(),
     });
 
@@ -130,6 +131,10 @@ describe('ChatPanel User Workflows', () => {
       error: null,
       deleteDocument: vi.fn(),
       renameDocument: vi.fn(),
+      updateChunkingStrategy: vi.fn(),
+      replaceDocumentFile: vi.fn(),
+      updateDocumentMetadata: vi.fn(),
+      moveDocuments: vi.fn(),
       refreshDocuments: vi.fn(),
       addDocument: vi.fn(),
       mutate: vi.fn(),
@@ -180,6 +185,7 @@ describe('ChatPanel User Workflows', () => {
         createNewChat: mockCreateNewChat,
         generateTitle: vi.fn(),
         generateTitleInBackground: vi.fn(),
+        updateChatScope: vi.fn(),
         refetchChats: vi.fn(),
       });
 
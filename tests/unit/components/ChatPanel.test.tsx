@@ -36,6 +36,7 @@ vi.mock('@/lib/hooks/useChatManager', () => ({
     isGeneratingTitle: false,
     createNewChat: vi.fn(),
     generateTitleInBackground: vi.fn(),
+    updateChatScope: vi.fn(),
   })),
 }));
 
@@ -244,6 +245,7 @@ describe('ChatPanel', () => {
       isGeneratingTitle: false,
       createNewChat: vi.fn(),
       generateTitleInBackground: vi.fn(),
+      updateChatScope: vi.fn(),
     });
 
     const { useMessages } = await import('@/lib/hooks/useMessages');
@@ -359,6 +361,7 @@ describe('ChatPanel', () => {
       isGeneratingTitle: false,
       createNewChat: vi.fn(),
       generateTitleInBackground: vi.fn(),
+      updateChatScope: vi.fn(),
     });
 
     const { useMessages } = await import('@/lib/hooks/useMessages');
@@ -392,6 +395,7 @@ describe('ChatPanel', () => {
       isGeneratingTitle: false,
       createNewChat: vi.fn(),
       generateTitleInBackground: vi.fn(),
+      updateChatScope: vi.fn(),
     });
 
     renderWithProviders(<ChatPanel studyId={studyId} />);
@@ -622,6 +626,7 @@ describe('ChatPanel', () => {
       createNewChat: vi.fn(),
       generateTitle: vi.fn(),
       generateTitleInBackground: vi.fn(),
+      updateChatScope: vi.fn(),
       refetchChats: vi.fn(),
     });
 
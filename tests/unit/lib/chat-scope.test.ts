@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    document: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/auth', () => ({
+  getCurrentUserId: vi.fn(),
+}));
+
+vi.mock('@/lib/embeddings', () => ({
+  getActiveEmbeddingModel: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import { resolveChatScopeDocumentIds } from '@/lib/chat-scope';
+import { searchSpecificDocuments } from '@/lib/llm-tools/search-tools';
+import {
+  chatScopeFromRecord,
+  chatScopeKey,
+  describeChatScope,
+  hasChatScope,
+  isInChatScope,
+  parseChatScope,
+} from '@/lib/types/chat-scope';
+
+const mockPrisma = asMockPrisma<'document'>(prisma);
+
+const documents: Array<{ id: string; folderPath: string; tags: string[]; attributes: Record<string, string> | null }> = [
+  { id: 'doc-1', folderPath: 'Round 1', tags: ['churned'], attributes: { Segment: 'Enterprise' } },
+  { id: 'doc-2', folderPath: 'Round 2/Interviews', tags: ['churned'], attributes: { Segment: 'SMB' } },
+  { id: 'doc-3', folderPath: 'Round 2/Surveys', tags: [], attributes: null },
+  { id: 'doc-4', folderPath: 'Round 20', tags: ['churned'], attributes: {} },
+];
+
+describe('chat-scope', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.document.findMany.mockResolvedValue(documents);
+  });
+
+  describe('parseChatScope', () => {
+    it('should return only the fields a request changes', () => {
+      expect(parseChatScope({ folderPath: ' Round 2/ ' })).toEqual({ folderPath: 'Round 2' });
+      expect(parseChatScope({ documentIds: ['doc-1', 'doc-1'], filter: null })).toEqual({
+        documentIds: ['doc-1'],
+        filter: { tags: [], attributes: {} },
+      });
+      expect(parseChatScope({ filter: { tags: ['Churned'], attributes: { Segment: 'SMB' } } })).toEqual({
+        filter: { tags: ['churned'], attributes: { Segment: 'SMB' } },
+      });
+    });
+
+    it('should reject malformed scopes', () => {
+      expect(parseChatScope(null)).toBeNull();
+      expect(parseChatScope({ folderPath: 3 })).toBeNull();
+      expect(parseChatScope({ documentIds: 'doc-1' })).toBeNull();
+      expect(parseChatScope({ documentIds: Array.from({ length: 101 }, (_, i) => `doc-${i}`) })).toBeNull();
+      expect(parseChatScope({ filter: { attributes: { Segment: 5 } } })).toBeNull();
+    });
+  });
+
+  describe('isInChatScope', () => {
+    it('should hold every document when the scope is empty', () => {
+      const scope = chatScopeFromRecord({ folderPath: null, scopeDocumentIds: [], scopeTags: [], scopeAttributes: {} });
+
+      expect(hasChatScope(scope)).toBe(false);
+      expect(documents.every(doc => isInChatScope(doc, scope))).toBe(true);
+    });
+
+    it('should require a document to match the folder, pins and filter together', () => {
+      const scope = { folderPath: 'Round 2', filter: { tags: ['churned'], attributes: {} } };
+
+      expect(documents.filter(doc => isInChatScope(doc, scope)).map(doc => doc.id)).toEqual(['doc-2']);
+      expect(isInChatScope(documents[1], { ...scope, documentIds: ['doc-3'] })).toBe(false);
+    });
+  });
+
+  describe('describeChatScope', () => {
+    it('should describe each part of the scope', () => {
+      const scope = {
+        folderPath: 'Round 2',
+        documentIds: ['doc-2', 'doc-3'],
+        filter: { tags: ['churned'], attributes: {} },
+      };
+
+      expect(describeChatScope(scope, { 'doc-2': 'globex.txt', 'doc-3': 'initech.txt' })).toBe(
+        'the "Round 2" folder, documents tagged #churned, 2 pinned documents ("globex.txt", "initech.txt")'
+      );
+      expect(describeChatScope({ documentIds: ['doc-1'] })).toBe('1 pinned document');
+    });
+
+    it('should key equal scopes the same way', () => {
+      expect(chatScopeKey({ documentIds: ['doc-2', 'doc-1'], filter: { tags: [], attributes: { Segment: 'SMB' } } }))
+        .toBe(chatScopeKey({ documentIds: ['doc-1', 'doc-2'], filter: { tags: [], attributes: { segment: 'smb' } } }));
+    });
+  });
+
+  describe('resolveChatScopeDocumentIds', () => {
+    it('should leave unscoped chats unrestricted', async () => {
+      expect(await resolveChatScopeDocumentIds('study-1', {})).toBeUndefined();
+      expect(mockPrisma.document.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return documents in the folder and its subfolders', async () => {
+      expect(await resolveChatScopeDocumentIds('study-1', { folderPath: 'Round 2' })).toEqual(['doc-2', 'doc-3']);
+    });
+
+    it('should only load pinned documents of the study', async () => {
+      await resolveChatScopeDocumentIds('study-1', { documentIds: ['doc-1'] });
+
+      expect(mockPrisma.document.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { studyId: 'study-1', id: { in: ['doc-1'] } },
+      }));
+    });
+  });
+
+  describe('search enforcement', () => {
+    it('should refuse to search documents outside the chat scope', async () => {
+      await expect(
+        searchSpecificDocuments('pricing', 'study-1', ['doc-1', 'doc-4'], { scope: { folderPath: 'Round 2' } })
+      ).rejects.toThrow('None of the specified documents are in this chat\'s scope');
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/vector-search', () => ({
+  findRelevantChunks: vi.fn(),
+}));
+
+import { findRelevantChunks } from '@/lib/vector-search';
+import { verifyQuotesInContent } from '@/lib/utils/citation-extraction';
+
+const CONTENT = [
+  'One said "the dashboard numbers never match finance".',
+  'Another said "onboarding took three weeks for the whole team".',
+  'A third said "nobody explained where the templates live".',
+  'A fourth said "pricing felt fair for what we actually use".',
+].join('\n\n');
+
+describe('citation-extraction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(findRelevantChunks).mockResolvedValue([]);
+  });
+
+  describe('verifyQuotesInContent', () => {
+    it('should search the study for a few unmatched quotes, one at a time', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      vi.mocked(findRelevantChunks).mockImplementation(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await Promise.resolve();
+        running--;
+        return [];
+      });
+
+      const verifications = await verifyQuotesInContent(CONTENT, [], 'study-1');
+
+      expect(verifications).toHaveLength(4);
+      expect(verifications.every(verification => verification.verdict === 'not_found')).toBe(true);
+      expect(findRelevantChunks).toHaveBeenCalledTimes(3);
+      expect(maxRunning).toBe(1);
+    });
+
+    it('should not search outside an empty chat scope', async () => {
+      await verifyQuotesInContent(CONTENT, [], 'study-1', []);
+
+      expect(findRelevantChunks).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    document: {
+      findUnique: vi.fn(),
+    },
+    documentChunk: {
+      findMany: vi.fn(),
+    },
+    pseudonym: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('ai', () => ({ generateText: vi.fn() }));
+vi.mock('@ai-sdk/anthropic', () => ({ anthropic: vi.fn() }));
+
+vi.mock('@/lib/embeddings', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/embeddings')>('@/lib/embeddings');
+  return {
+    ...actual,
+    generateBatchEmbeddings: vi.fn(),
+    generateEmbedding: vi.fn(),
+    getActiveEmbeddingModel: () => ({ provider: 'local', model: 'hashed-bow-v1', dimensions: 2 }),
+  };
+});
+
+import { generateText } from 'ai';
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import { generateBatchEmbeddings, generateEmbedding, serializeEmbedding } from '@/lib/embeddings';
+import {
+  compareContextualRetrieval,
+  contextualizeChunk,
+  findFirstRelevantRank,
+  findParticipants,
+  formatDocumentContext,
+  generateDocumentContext,
+  MAX_CONTEXT_LENGTH,
+  rankChunks,
+  summarizeRetrieval,
+} from '@/lib/contextual-embeddings';
+
+const mockPrisma = asMockPrisma<'document' | 'documentChunk' | 'pseudonym'>(prisma);
+
+describe('contextual-embeddings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(generateText).mockResolvedValue({ text: ' Ops lead at Acme on\nonboarding pain. ' } as never);
+    mockPrisma.pseudonym.findMany.mockResolvedValue([]);
+  });
+
+  describe('formatDocumentContext', () => {
+    it('should list what the document is and who is in it', () => {
+      expect(formatDocumentContext({
+        fileName: 'acme.txt',
+        folderPath: 'Round 2',
+        participants: ['Interviewer', 'Dana'],
+        attributes: { Segment: 'Enterprise' },
+        emailHeaders: { subject: 'Re: onboarding' },
+        summary: 'Ops lead at Acme on onboarding pain.',
+      })).toBe([
+        'Document: acme.txt (folder: Round 2)',
+        'Participants: Interviewer, Dana',
+        'Segment: Enterprise',
+        'Subject: Re: onboarding',
+        'Summary: Ops lead at Acme on onboarding pain.',
+      ].join('\n'));
+    });
+
+    it('should keep the header short', () => {
+      const context = formatDocumentContext({ fileName: 'a.txt', summary: 'word '.repeat(500) });
+      expect(context.length).toBeLessThanOrEqual(MAX_CONTEXT_LENGTH);
+      expect(context.endsWith('...')).toBe(true);
+    });
+
+    it('should prepend the header to the embedded text only when there is one', () => {
+      expect(contextualizeChunk('Document: a.txt', 'yeah, that was the worst part')).toBe(
+        'Document: a.txt\n\nyeah, that was the worst part'
+      );
+      expect(contextualizeChunk(null, 'text')).toBe('text');
+    });
+  });
+
+  describe('findParticipants', () => {
+    it('should list transcript speakers once, in order', () => {
+      expect(findParticipants('Interviewer: Hi\nDana: Hello\nInterviewer: So\nDana: Yes')).toEqual(['Interviewer', 'Dana']);
+      expect(findParticipants('Plain notes with no speakers.')).toEqual([]);
+    });
+  });
+
+  describe('generateDocumentContext', () => {
+    it('should combine document metadata with a summary of the text', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({
+        fileName: 'acme.txt',
+        folderPath: null,
+        attributes: { Segment: 'Enterprise' },
+        emailHeaders: null,
+        piiRedacted: false,
+      });
+
+      const context = await generateDocumentContext('doc-1', 'Interviewer: Hi\nDana: Hello\nInterviewer: So\nDana: Yes');
+
+      expect(context).toBe(
+        'Document: acme.txt\nParticipants: Interviewer, Dana\nSegment: Enterprise\nSummary: Ops lead at Acme on onboarding pain.'
+      );
+    });
+
+    it('should fall back to metadata when the summary fails and leave email headers out of redacted documents', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({
+        fileName: 'thread.eml',
+        folderPath: null,
+        attributes: null,
+        emailHeaders: { from: 'Dana Smith <dana@acme.com>', subject: 'Pricing' },
+        piiRedacted: true,
+      });
+      vi.mocked(generateText).mockRejectedValue(new Error('overloaded'));
+
+      expect(await generateDocumentContext('doc-1', 'Some text')).toBe('Document: thread.eml');
+    });
+
+    it('should give file and folder names and attributes the study\'s pseudonyms in redacted documents', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({
+        studyId: 'study-1',
+        fileName: 'Dana Reyes interview.txt',
+        folderPath: 'Acme Corp',
+        attributes: { Contact: 'Dana Reyes' },
+        emailHeaders: null,
+        piiRedacted: true,
+      });
+      mockPrisma.pseudonym.findMany.mockResolvedValue([
+        { category: 'person', original: 'Dana Reyes', pseudonym: 'Participant A' },
+        { category: 'organization', original: 'Acme Corp', pseudonym: 'Company A' },
+      ]);
+
+      const context = await generateDocumentContext('doc-1', 'Some text');
+
+      expect(context).toContain('Document: Participant A interview.txt (folder: Company A)');
+      expect(context).toContain('Contact: Participant A');
+      expect(context).not.toContain('Dana');
+      expect(vi.mocked(generateText).mock.calls[0][0].prompt).toContain('"Participant A interview.txt"');
+    });
+  });
+
+  describe('retrieval metrics', () => {
+    const chunks = [
+      { id: 'c1', documentId: 'doc-1', fileName: 'a.txt', chunkIndex: 0, embedding: [1, 0] },
+      { id: 'c2', documentId: 'doc-2', fileName: 'b.txt', chunkIndex: 0, embedding: [0.6, 0.8] },
+      { id: 'c3', documentId: 'doc-2', fileName: 'b.txt', chunkIndex: 1, embedding: [0, 1] },
+    ];
+
+    it('should rank chunks by similarity', () => {
+      expect(rankChunks([0, 1], chunks, 2).map(chunk => chunk.id)).toEqual(['c3', 'c2']);
+    });
+
+    it('should score hit rate and MRR on queries with expected documents', () => {
+      const ranked = rankChunks([1, 0], chunks, 3);
+
+      expect(findFirstRelevantRank(ranked, ['B.TXT'])).toBe(2);
+      expect(findFirstRelevantRank(ranked, ['doc-9'])).toBeNull();
+      expect(summarizeRetrieval(
+        [{ query: 'a', expectedDocuments: ['doc-2'] }, { query: 'b', expectedDocuments: ['doc-9'] }, { query: 'c' }],
+        [{ results: [], firstRelevantRank: 2 }, { results: [], firstRelevantRank: null }, { results: [], firstRelevantRank: null }]
+      )).toEqual({ hitRate: 0.5, mrr: 0.25 });
+      expect(summarizeRetrieval([{ query: 'c' }], [{ results: [], firstRelevantRank: null }])).toBeNull();
+    });
+  });
+
+  describe('compareContextualRetrieval', () => {
+    it('should embed the missing kind in memory and compare rankings', async () => {
+      mockPrisma.documentChunk.findMany.mockResolvedValue([
+        {
+          id: 'c1', content: 'yeah, that was the worst part', chunkIndex: 0, documentId: 'doc-1',
+          embedding: serializeEmbedding([1, 0]), contextualized: false,
+          document: { fileName: 'a.txt', extractedText: 'text', embeddingContext: 'Document: a.txt' },
+        },
+        {
+          id: 'c2', content: 'pricing was fine', chunkIndex: 0, documentId: 'doc-2',
+          embedding: serializeEmbedding([0, 1]), contextualized: false,
+          document: { fileName: 'b.txt', extractedText: 'text', embeddingContext: 'Document: b.txt' },
+        },
+      ]);
+      vi.mocked(generateBatchEmbeddings).mockResolvedValue({
+        embeddings: [[0, 1], [1, 0]],
+        usage: { totalTokens: 2 },
+        model: { provider: 'local', model: 'hashed-bow-v1', dimensions: 2 },
+      });
+      vi.mocked(generateEmbedding).mockResolvedValue({
+        embedding: [0, 1],
+        model: { provider: 'local', model: 'hashed-bow-v1', dimensions: 2 },
+      });
+
+      const report = await compareContextualRetrieval('study-1', [{ query: 'worst part', expectedDocuments: ['a.txt'] }], { limit: 1 });
+
+      expect(generateBatchEmbeddings).toHaveBeenCalledWith([
+        'Document: a.txt\n\nyeah, that was the worst part',
+        'Document: b.txt\n\npricing was fine',
+      ]);
+      expect(report.queries[0].raw.results.map(chunk => chunk.id)).toEqual(['c2']);
+      expect(report.queries[0].contextual.results.map(chunk => chunk.id)).toEqual(['c1']);
+      expect(report.summary.raw).toEqual({ hitRate: 0, mrr: 0 });
+      expect(report.summary.contextual).toEqual({ hitRate: 1, mrr: 1 });
+      expect(report.summary.meanOverlap).toBe(0);
+    });
+  });
+});
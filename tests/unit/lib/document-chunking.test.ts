@@ -3,8 +3,14 @@ import {
   chunkText, 
   validateChunks, 
   mergeOverlappingChunks,
+  findPageNumber,
+  assignParentWindows,
+  chunkHierarchically,
+  CHILD_CHUNKING_OPTIONS,
   DEFAULT_CHUNKING_OPTIONS,
-  type ChunkingOptions 
+  MAX_PARENT_WINDOW_SIZE,
+  type ChunkingOptions,
+  type DocumentChunk
 } from '@/lib/document-chunking';
 
 describe('document-chunking', () => {
@@ -335,4 +341,76 @@ describe('document-chunking', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('chunk positions', () => {
+    it('should map positions exactly onto chunk content', () => {
+      const text = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} about research.`).join(' ');
+      const chunks = chunkText(text, { chunkSize: 300, overlapSize: 50 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => {
+        expect(text.slice(chunk.startPosition, chunk.endPosition)).toBe(chunk.content);
+      });
+    });
+  });
+
+  describe('parent windows', () => {
+    it('should index small chunks that each sit inside their parent window', () => {
+      const paragraph = Array.from({ length: 12 }, (_, i) => `Point ${i} about the onboarding checklist.`).join(' ');
+      const text = `${paragraph}\n\n${paragraph}\n\n${paragraph}`;
+      const chunks = chunkHierarchically(text);
+
+      expect(chunks.length).toBeGreaterThan(3);
+      chunks.forEach(chunk => {
+        expect(chunk.content.length).toBeLessThanOrEqual(CHILD_CHUNKING_OPTIONS.chunkSize);
+        expect(chunk.parentStartPosition).toBeLessThanOrEqual(chunk.startPosition!);
+        expect(chunk.parentEndPosition).toBeGreaterThanOrEqual(chunk.endPosition!);
+        expect(chunk.parentEndPosition! - chunk.parentStartPosition!).toBeLessThanOrEqual(MAX_PARENT_WINDOW_SIZE);
+        const window = text.slice(chunk.parentStartPosition, chunk.parentEndPosition);
+        expect(window).toBe(window.trim());
+      });
+    });
+
+    it('should return the whole speaker turn for transcript chunks', () => {
+      const answer = 'We spent the first month just getting permissions sorted, which nobody expected. '.repeat(8).trim();
+      const text = `Interviewer: How was setup?\nDana: ${answer}\nInterviewer: And after that?\nDana: Much better.`;
+      const chunks = chunkHierarchically(text);
+      const inAnswer = chunks.find(chunk => chunk.startPosition! > text.indexOf('Dana:') + 100)!;
+
+      const window = text.slice(inAnswer.parentStartPosition, inAnswer.parentEndPosition);
+      expect(window).toContain(`Dana: ${answer}`);
+    });
+
+    it('should widen to neighbouring chunks only while the window fits', () => {
+      const text = 'a'.repeat(30) + ' ' + 'b'.repeat(30) + ' ' + 'c'.repeat(30);
+      const chunks: DocumentChunk[] = [
+        { content: 'a'.repeat(30), chunkIndex: 0, startPosition: 0, endPosition: 30 },
+        { content: 'b'.repeat(30), chunkIndex: 1, startPosition: 31, endPosition: 61 },
+        { content: 'c'.repeat(30), chunkIndex: 2, startPosition: 62, endPosition: 92 },
+      ];
+
+      const [, middle] = assignParentWindows(text, chunks, [], 70);
+      expect(middle).toMatchObject({ parentStartPosition: 0, parentEndPosition: 61 });
+
+      const [, clamped] = assignParentWindows(text, chunks, [{ start: 0, end: 92 }], 50);
+      expect(clamped.parentEndPosition! - clamped.parentStartPosition!).toBeLessThanOrEqual(50);
+      expect(clamped.parentStartPosition).toBeLessThanOrEqual(31);
+      expect(clamped.parentEndPosition).toBeGreaterThanOrEqual(61);
+    });
+  });
+
+  describe('findPageNumber', () => {
+    it('should return the page containing an offset', () => {
+      const pageOffsets = [0, 100, 250];
+
+      expect(findPageNumber(pageOffsets, 0)).toBe(1);
+      expect(findPageNumber(pageOffsets, 99)).toBe(1);
+      expect(findPageNumber(pageOffsets, 100)).toBe(2);
+      expect(findPageNumber(pageOffsets, 999)).toBe(3);
+    });
+
+    it('should return undefined without page data', () => {
+      expect(findPageNumber([], 10)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    document: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    documentChunk: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+const mockSearch = vi.fn();
+vi.mock('@/lib/vector-index', () => ({
+  getVectorIndex: () => ({ search: mockSearch }),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import { serializeEmbedding } from '@/lib/embeddings';
+import {
+  findDuplicateByHash,
+  findNearDuplicate,
+  getDuplicateFields,
+  hashContent,
+  hashText,
+  normalizeTextForHash,
+} from '@/lib/document-dedup';
+import { describeDuplicate } from '@/lib/types/duplicates';
+
+const mockPrisma = asMockPrisma<'document' | 'documentChunk'>(prisma);
+
+const earlierDocument = {
+  id: 'doc-0',
+  fileName: 'interview.docx',
+  studyId: 'study-0',
+  study: { name: 'Onboarding' },
+};
+
+function chunk(id: string) {
+  return {
+    id,
+    embedding: serializeEmbedding([0.1, 0.2]),
+    embeddingProvider: 'local',
+    embeddingModel: 'hashed-bow-v1',
+    embeddingDimensions: 2,
+  };
+}
+
+function searchHit(documentId: string) {
+  return { chunkId: `${documentId}-chunk`, documentId, similarity: 0.99 };
+}
+
+describe('document-dedup', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('hashing', () => {
+    it('should ignore case, Unicode form and whitespace when hashing text', () => {
+      expect(normalizeTextForHash('  Café\r\n\tINTERVIEW  ')).toBe('café interview');
+      expect(hashText('Café  Interview')).toBe(hashText('café\ninterview'));
+      expect(hashText('interview one')).not.toBe(hashText('interview two'));
+    });
+
+    it('should hash bytes as hex SHA-256', () => {
+      expect(hashContent(Buffer.from('hello'))).toBe(
+        '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+      );
+    });
+  });
+
+  describe('findDuplicateByHash', () => {
+    it('should look in all of the user\'s studies, skipping failed documents', async () => {
+      mockPrisma.document.findFirst.mockResolvedValue(earlierDocument);
+
+      const match = await findDuplicateByHash('user-1', { contentHash: 'abc' });
+
+      expect(mockPrisma.document.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { contentHash: 'abc', study: { userId: 'user-1' }, status: { not: 'FAILED' } },
+        orderBy: { uploadedAt: 'asc' },
+      }));
+      expect(match).toEqual({
+        documentId: 'doc-0',
+        fileName: 'interview.docx',
+        studyId: 'study-0',
+        studyName: 'Onboarding',
+        kind: 'exact',
+      });
+    });
+
+    it('should report text matches and exclude the document itself', async () => {
+      mockPrisma.document.findFirst.mockResolvedValue(earlierDocument);
+
+      const match = await findDuplicateByHash('user-1', { textHash: 'def' }, 'doc-1');
+
+      expect(mockPrisma.document.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ textHash: 'def', id: { not: 'doc-1' } }),
+      }));
+      expect(match?.kind).toBe('text');
+    });
+  });
+
+  describe('findNearDuplicate', () => {
+    it('should match the document most sampled chunks closely resemble', async () => {
+      mockPrisma.documentChunk.findMany.mockResolvedValue([chunk('c1'), chunk('c2'), chunk('c3'), chunk('c4'), chunk('c5')]);
+      mockSearch
+        .mockResolvedValueOnce([searchHit('doc-0'), searchHit('doc-1')])
+        .mockResolvedValueOnce([searchHit('doc-0')])
+        .mockResolvedValueOnce([searchHit('doc-0'), searchHit('doc-9')])
+        .mockResolvedValueOnce([searchHit('doc-0')])
+        .mockResolvedValueOnce([]);
+      mockPrisma.document.findUnique.mockResolvedValue(earlierDocument);
+
+      const match = await findNearDuplicate('doc-1', 'user-1');
+
+      expect(mockSearch).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({
+        userId: 'user-1',
+        excludeChunkId: 'c1',
+        embeddingModel: { provider: 'local', model: 'hashed-bow-v1', dimensions: 2 },
+      }));
+      expect(mockPrisma.document.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'doc-0' } }));
+      expect(match).toMatchObject({ documentId: 'doc-0', kind: 'near', overlap: 0.8 });
+    });
+
+    it('should not match when too few chunks overlap', async () => {
+      mockPrisma.documentChunk.findMany.mockResolvedValue([chunk('c1'), chunk('c2')]);
+      mockSearch
+        .mockResolvedValueOnce([searchHit('doc-0')])
+        .mockResolvedValueOnce([searchHit('doc-5')]);
+
+      expect(await findNearDuplicate('doc-1', 'user-1')).toBeNull();
+      expect(mockPrisma.document.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should sample evenly across long documents', async () => {
+      mockPrisma.documentChunk.findMany.mockResolvedValue(
+        Array.from({ length: 10 }, (_, index) => chunk(`c${index}`))
+      );
+      mockSearch.mockResolvedValue([]);
+
+      await findNearDuplicate('doc-1', 'user-1', { sampleSize: 5, minSimilarity: 0.95, minOverlap: 0.8 });
+
+      expect(mockSearch.mock.calls.map(([, options]) => options.excludeChunkId)).toEqual(['c0', 'c2', 'c4', 'c6', 'c8']);
+    });
+  });
+
+  describe('reporting', () => {
+    it('should only set duplicate fields for a match', () => {
+      expect(getDuplicateFields(null)).toEqual({});
+      expect(getDuplicateFields({
+        documentId: 'doc-0',
+        fileName: 'a.pdf',
+        studyId: 'study-0',
+        studyName: 'Onboarding',
+        kind: 'near',
+        overlap: 0.9,
+      })).toEqual({ duplicateOfId: 'doc-0', duplicateKind: 'near', duplicateOverlap: 0.9 });
+    });
+
+    it('should name the other study only when it differs', () => {
+      const match = { documentId: 'doc-0', fileName: 'a.pdf', studyId: 'study-0', studyName: 'Onboarding', kind: 'text' as const };
+
+      expect(describeDuplicate(match, 'study-0')).toBe('Same text as a.pdf');
+      expect(describeDuplicate(match, 'study-1')).toBe('Same text as a.pdf in Onboarding');
+    });
+  });
+});
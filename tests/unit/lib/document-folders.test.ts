@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    document: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/auth', () => ({
+  getCurrentUserId: vi.fn(),
+}));
+
+vi.mock('@/lib/embeddings', () => ({
+  getActiveEmbeddingModel: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import { getCurrentUserId } from '@/lib/auth';
+import { moveDocumentsToFolder } from '@/lib/document-folders';
+import { findDocumentIdsByNames } from '@/lib/data';
+import { formatDocumentLookupResult } from '@/lib/llm-tools/search-tools';
+import {
+  getParentFolder,
+  isInFolder,
+  listFolderPaths,
+  parseFolderPath,
+  resolveFolderName,
+} from '@/lib/types/folders';
+
+const mockPrisma = asMockPrisma<'document'>(prisma);
+
+const documents = [
+  { id: 'doc-1', fileName: 'acme.txt', status: 'READY', folderPath: 'Round 1' },
+  { id: 'doc-2', fileName: 'globex.txt', status: 'READY', folderPath: 'Round 2/Interviews' },
+  { id: 'doc-3', fileName: 'initech.txt', status: 'READY', folderPath: 'Round 2/Surveys' },
+  { id: 'doc-4', fileName: 'umbrella.txt', status: 'READY', folderPath: 'Round 20' },
+  { id: 'doc-5', fileName: 'notes.txt', status: 'READY', folderPath: null },
+];
+
+describe('document-folders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getCurrentUserId).mockResolvedValue('user-1');
+  });
+
+  describe('folder paths', () => {
+    it('should normalize folder paths from user input', () => {
+      expect(parseFolderPath(' Round 2 / Interviews/')).toBe('Round 2/Interviews');
+      expect(parseFolderPath('  ')).toBeNull();
+      expect(parseFolderPath(null)).toBeNull();
+      expect(parseFolderPath(3)).toBeUndefined();
+      expect(parseFolderPath('a/b/c/d/e/f')).toBeUndefined();
+    });
+
+    it('should match documents in a folder and its subfolders only', () => {
+      expect(isInFolder('Round 2/Interviews', 'round 2')).toBe(true);
+      expect(isInFolder('Round 2', 'Round 2')).toBe(true);
+      expect(isInFolder('Round 20', 'Round 2')).toBe(false);
+      expect(isInFolder(null, 'Round 2')).toBe(false);
+    });
+
+    it('should list every folder after its parent', () => {
+      expect(listFolderPaths(documents)).toEqual([
+        'Round 1',
+        'Round 2',
+        'Round 2/Interviews',
+        'Round 2/Surveys',
+        'Round 20',
+      ]);
+      expect(getParentFolder('Round 2/Interviews')).toBe('Round 2');
+      expect(getParentFolder('Round 2')).toBeNull();
+    });
+  });
+
+  describe('resolveFolderName', () => {
+    const folders = listFolderPaths(documents);
+
+    it('should resolve how researchers refer to a collection', () => {
+      expect(resolveFolderName('the round 2 interviews', folders)).toBe('Round 2/Interviews');
+      expect(resolveFolderName('Round 2 folder', folders)).toBe('Round 2');
+      expect(resolveFolderName('surveys', folders)).toBe('Round 2/Surveys');
+      expect(resolveFolderName('all the round 1 transcripts', folders)).toBe('Round 1');
+    });
+
+    it('should not match unrelated names', () => {
+      expect(resolveFolderName('pricing.pdf', folders)).toBeNull();
+      expect(resolveFolderName('the', folders)).toBeNull();
+    });
+  });
+
+  describe('moveDocumentsToFolder', () => {
+    it('should move only documents of the study', async () => {
+      mockPrisma.document.updateMany.mockResolvedValue({ count: 2 });
+
+      const moved = await moveDocumentsToFolder('study-1', ['doc-1', 'doc-5'], 'Round 3');
+
+      expect(moved).toBe(2);
+      expect(mockPrisma.document.updateMany).toHaveBeenCalledWith({
+        where: { studyId: 'study-1', id: { in: ['doc-1', 'doc-5'] } },
+        data: { folderPath: 'Round 3', embeddingContext: null },
+      });
+    });
+  });
+
+  describe('findDocumentIdsByNames', () => {
+    it('should resolve a collection name to every document in it', async () => {
+      mockPrisma.document.findMany.mockResolvedValue(documents);
+
+      const result = await findDocumentIdsByNames(['the round 2 documents', 'acme.txt'], 'study-1');
+
+      expect(result.collections).toEqual([
+        { query: 'the round 2 documents', folderPath: 'Round 2', documentCount: 2 },
+      ]);
+      expect(result.found.map(doc => doc.id)).toEqual(['doc-2', 'doc-3', 'doc-1']);
+      expect(result.notFound).toEqual([]);
+      expect(formatDocumentLookupResult(result)).toContain('matched the folder "Round 2" (2 document(s))');
+    });
+
+    it('should only look inside the documents a chat is scoped to', async () => {
+      mockPrisma.document.findMany.mockResolvedValue(documents);
+
+      const result = await findDocumentIdsByNames(['acme.txt'], 'study-1', ['doc-2', 'doc-3']);
+
+      expect(result.found).toEqual([]);
+      expect(result.notFound).toEqual(['acme.txt']);
+      expect(result.availableDocuments).toEqual(['globex.txt', 'initech.txt']);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    document: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import { DocumentMetadataError, findDocumentsMatchingFilter, updateDocumentMetadata } from '@/lib/document-metadata';
+import {
+  applyMetadataUpdate,
+  describeMetadataFilter,
+  formatDocumentMetadata,
+  hasMetadataFilter,
+  matchesMetadataFilter,
+  parseDocumentAttributes,
+  parseDocumentMetadataUpdate,
+  parseDocumentTags,
+} from '@/lib/types/document-metadata';
+
+const mockPrisma = asMockPrisma<'document', '$transaction'>(prisma);
+
+const documents: Array<{ id: string; fileName: string; tags: string[]; attributes: Record<string, string> | null }> = [
+  { id: 'doc-1', fileName: 'acme.txt', tags: ['churned'], attributes: { Segment: 'Enterprise', Wave: '1' } },
+  { id: 'doc-2', fileName: 'globex.txt', tags: ['active'], attributes: { Segment: 'Enterprise' } },
+  { id: 'doc-3', fileName: 'initech.txt', tags: ['churned'], attributes: { Segment: 'SMB' } },
+  { id: 'doc-4', fileName: 'legacy.txt', tags: [], attributes: null },
+];
+
+describe('document-metadata', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  describe('parsing', () => {
+    it('should normalize and dedupe tags', () => {
+      expect(parseDocumentTags([' Churned ', 'churned', 'Wave  2', ''])).toEqual(['churned', 'wave 2']);
+      expect(parseDocumentTags('churned')).toBeNull();
+      expect(parseDocumentTags(['x'.repeat(65)])).toBeNull();
+    });
+
+    it('should trim attributes and drop empty entries', () => {
+      expect(parseDocumentAttributes({ ' Segment ': ' Enterprise ', Plan: '  ' })).toEqual({ Segment: 'Enterprise' });
+      expect(parseDocumentAttributes({ Segment: 3 })).toBeNull();
+      expect(parseDocumentAttributes(['Segment'])).toBeNull();
+    });
+
+    it('should reject updates with malformed fields', () => {
+      expect(parseDocumentMetadataUpdate({ addTags: ['Pilot'], removeAttributes: ['Plan'] }))
+        .toEqual({ addTags: ['pilot'], removeAttributes: ['Plan'] });
+      expect(parseDocumentMetadataUpdate({ setAttributes: 'Segment=SMB' })).toBeNull();
+      expect(parseDocumentMetadataUpdate({ removeAttributes: [1] })).toBeNull();
+    });
+  });
+
+  describe('applyMetadataUpdate', () => {
+    const current = { tags: ['churned', 'pilot'], attributes: { Segment: 'SMB', Plan: 'Pro' } };
+
+    it('should replace tags and attributes', () => {
+      expect(applyMetadataUpdate(current, { tags: ['active'], attributes: { Wave: '2' } }))
+        .toEqual({ tags: ['active'], attributes: { Wave: '2' } });
+    });
+
+    it('should add and remove tags and attributes, keeping the spelling of existing keys', () => {
+      expect(applyMetadataUpdate(current, {
+        addTags: ['wave 2', 'churned'],
+        removeTags: ['pilot'],
+        setAttributes: { segment: 'Enterprise' },
+        removeAttributes: ['PLAN'],
+      })).toEqual({ tags: ['churned', 'wave 2'], attributes: { Segment: 'Enterprise' } });
+    });
+
+    it('should refuse updates that exceed the tag limit', () => {
+      const addTags = Array.from({ length: 20 }, (_, index) => `tag ${index}`);
+      expect(applyMetadataUpdate(current, { addTags })).toBeNull();
+    });
+  });
+
+  describe('filters', () => {
+    it('should match tags and attributes case-insensitively', () => {
+      const document = { tags: ['churned'], attributes: { Segment: 'Enterprise' } };
+
+      expect(matchesMetadataFilter(document, { tags: ['Churned'], attributes: { segment: 'enterprise' } })).toBe(true);
+      expect(matchesMetadataFilter(document, { attributes: { Segment: 'SMB' } })).toBe(false);
+      expect(matchesMetadataFilter(document, { attributes: { Wave: '1' } })).toBe(false);
+    });
+
+    it('should treat empty filters as no filter', () => {
+      expect(hasMetadataFilter({ tags: [], attributes: {} })).toBe(false);
+      expect(hasMetadataFilter(undefined)).toBe(false);
+      expect(hasMetadataFilter({ tags: ['churned'] })).toBe(true);
+    });
+
+    it('should describe documents and filters for the model', () => {
+      expect(formatDocumentMetadata(documents[0])).toBe('Segment: Enterprise, Wave: 1 · #churned');
+      expect(formatDocumentMetadata({ tags: [] })).toBe('');
+      expect(describeMetadataFilter({ tags: ['Churned'], attributes: { Segment: 'Enterprise' } }))
+        .toBe('documents tagged #churned with Segment: Enterprise');
+    });
+  });
+
+  describe('findDocumentsMatchingFilter', () => {
+    it('should return the study documents that match every condition', async () => {
+      mockPrisma.document.findMany.mockResolvedValue(documents);
+
+      const ids = await findDocumentsMatchingFilter('user-1', {
+        tags: ['churned'],
+        attributes: { Segment: 'Enterprise' },
+      }, { studyId: 'study-1' });
+
+      expect(ids).toEqual(['doc-1']);
+      expect(mockPrisma.document.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { study: { userId: 'user-1' }, studyId: 'study-1' },
+      }));
+    });
+
+    it('should stay within the documents it was given', async () => {
+      mockPrisma.document.findMany.mockResolvedValue([documents[2]]);
+
+      await findDocumentsMatchingFilter('user-1', { tags: ['churned'] }, { documentIds: ['doc-3'] });
+
+      expect(mockPrisma.document.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { study: { userId: 'user-1' }, id: { in: ['doc-3'] } },
+      }));
+    });
+  });
+
+  describe('updateDocumentMetadata', () => {
+    it('should update every selected document in one transaction', async () => {
+      mockPrisma.document.findMany.mockResolvedValue(documents.slice(0, 2));
+
+      const updated = await updateDocumentMetadata('study-1', ['doc-1', 'doc-2'], { addTags: ['wave 2'] });
+
+      expect(updated).toBe(2);
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { tags: ['churned', 'wave 2'], attributes: { Segment: 'Enterprise', Wave: '1' } },
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop the stored embedding context when attributes change', async () => {
+      mockPrisma.document.findMany.mockResolvedValue(documents.slice(0, 1));
+
+      await updateDocumentMetadata('study-1', ['doc-1'], { setAttributes: { Wave: '2' } });
+
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: expect.objectContaining({ attributes: { Segment: 'Enterprise', Wave: '2' }, embeddingContext: null }),
+      });
+    });
+
+    it('should write nothing when a document would exceed the limits', async () => {
+      mockPrisma.document.findMany.mockResolvedValue(documents.slice(0, 1));
+      const addTags = Array.from({ length: 20 }, (_, index) => `tag ${index}`);
+
+      await expect(updateDocumentMetadata('study-1', ['doc-1'], { addTags })).rejects.toThrow(DocumentMetadataError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
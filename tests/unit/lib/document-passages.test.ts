@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { buildDocumentSegments, getPassageWithContext, locateChunk, validateStoredRange } from '@/lib/document-passages';
+
+const TEXT = 'Intro words here. The participant said onboarding was confusing. Closing words follow.';
+
+describe('document-passages', () => {
+  describe('locateChunk', () => {
+    it('should use stored offsets', () => {
+      expect(locateChunk(TEXT, { content: 'ignored', startOffset: 18, endOffset: 64 })).toEqual({ start: 18, end: 64 });
+    });
+
+    it('should search for content when offsets are missing', () => {
+      const content = 'onboarding was confusing.';
+      const location = locateChunk(TEXT, { content, startOffset: null, endOffset: null });
+
+      expect(location).not.toBeNull();
+      expect(TEXT.slice(location!.start, location!.end)).toBe(content);
+    });
+
+    it('should return null when the chunk is no longer in the text', () => {
+      expect(locateChunk(TEXT, { content: 'missing', startOffset: null, endOffset: null })).toBeNull();
+      expect(locateChunk(TEXT, { content: 'missing', startOffset: 10, endOffset: 9999 })).toBeNull();
+    });
+  });
+
+  describe('validateStoredRange', () => {
+    it('should accept a stored range only while it fits the text', () => {
+      expect(validateStoredRange('0123456789', 2, 5)).toEqual({ start: 2, end: 5 });
+      expect(validateStoredRange('0123456789', 2, 11)).toBeNull();
+      expect(validateStoredRange('0123456789', 5, 5)).toBeNull();
+      expect(validateStoredRange('0123456789', null, 5)).toBeNull();
+      expect(validateStoredRange('0123456789', 1.5, 5)).toBeNull();
+    });
+  });
+
+  describe('getPassageWithContext', () => {
+    it('should split text into before, passage and after', () => {
+      const result = getPassageWithContext(TEXT, 18, 64, [0, 40], 10);
+
+      expect(result.passage).toBe('The participant said onboarding was confusing.');
+      expect(result.before).toBe('here. ');
+      expect(result.after).toBe(' Closing');
+      expect(result.startPage).toBe(1);
+      expect(result.endPage).toBe(2);
+    });
+
+    it('should leave pages undefined without page data', () => {
+      const result = getPassageWithContext(TEXT, 0, 5);
+
+      expect(result.startPage).toBeUndefined();
+      expect(result.before).toBe('');
+    });
+  });
+
+  describe('buildDocumentSegments', () => {
+    it('should split at highlight boundaries and merge overlaps', () => {
+      const segments = buildDocumentSegments(100, [
+        { chunkId: 'a', start: 10, end: 40 },
+        { chunkId: 'b', start: 30, end: 60 },
+      ]);
+
+      expect(segments.map(segment => [segment.start, segment.end, segment.chunkIds])).toEqual([
+        [0, 10, []],
+        [10, 30, ['a']],
+        [30, 40, ['a', 'b']],
+        [40, 60, ['b']],
+        [60, 100, []],
+      ]);
+    });
+
+    it('should mark where pages start', () => {
+      const segments = buildDocumentSegments(100, [], [0, 50]);
+
+      expect(segments).toEqual([
+        { start: 0, end: 50, chunkIds: [], page: 1 },
+        { start: 50, end: 100, chunkIds: [], page: 2 },
+      ]);
+    });
+
+    it('should ignore highlights outside the text', () => {
+      const segments = buildDocumentSegments(20, [{ chunkId: 'a', start: 30, end: 40 }]);
+
+      expect(segments).toEqual([{ start: 0, end: 20, chunkIds: [] }]);
+    });
+  });
+});
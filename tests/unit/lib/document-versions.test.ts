@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    document: {
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+    documentChunk: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    documentVersion: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import {
+  getArchivedStoragePaths,
+  getDocumentVersionText,
+  listDocumentVersions,
+  replaceDocumentFile,
+} from '@/lib/document-versions';
+import { isArchivedChunkList } from '@/lib/types/versions';
+
+const mockPrisma = asMockPrisma<'document' | 'documentChunk' | 'documentVersion', '$transaction'>(prisma);
+
+const replacedAt = new Date('2025-03-01T10:00:00Z');
+
+const currentDocument = {
+  id: 'doc-1',
+  version: 2,
+  versionCreatedAt: replacedAt,
+  fileName: 'interview-v2.txt',
+  fileSize: 200,
+  storageUrl: '/uploads/interview-v2.txt',
+  storageType: 'filesystem',
+  extractedText: 'Revised interview text.',
+  pageOffsets: [],
+  piiRedacted: false,
+  redactedRanges: [],
+};
+
+const archivedVersion = {
+  version: 1,
+  fileName: 'interview.txt',
+  storageUrl: '/uploads/interview.txt',
+  storageType: 'filesystem',
+  extractedText: 'Original interview text.',
+  pageOffsets: [],
+  piiRedacted: false,
+  redactedRanges: [],
+  chunks: [{ id: 'old-chunk', content: 'Original interview text.', startOffset: 0, endOffset: 24 }],
+};
+
+describe('document-versions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((run: (tx: typeof mockPrisma) => unknown) => run(mockPrisma));
+  });
+
+  describe('replaceDocumentFile', () => {
+    it('should archive the current version with its chunks, drop them from the index and make the new file current', async () => {
+      mockPrisma.document.findUniqueOrThrow.mockResolvedValue({
+        version: 1,
+        versionCreatedAt: new Date('2025-01-01T00:00:00Z'),
+        fileName: 'interview.txt',
+        fileType: 'text/plain',
+        fileSize: 100,
+        storagePath: 'uploads/interview.txt',
+        storageUrl: '/uploads/interview.txt',
+        storageType: 'filesystem',
+        extractedText: 'Original interview text.',
+        pageOffsets: [],
+        piiRedacted: true,
+        redactedRanges: [9, 22],
+      });
+      mockPrisma.documentChunk.findMany.mockResolvedValue(archivedVersion.chunks);
+
+      const version = await replaceDocumentFile('doc-1', {
+        fileName: 'interview-v2.txt',
+        fileType: 'text/plain',
+        fileSize: 200,
+        storagePath: 'uploads/interview-v2.txt',
+        storageUrl: '/uploads/interview-v2.txt',
+        storageType: 'filesystem',
+        contentHash: 'abc',
+      }, { text: 'Revised interview text.' }, null);
+
+      expect(version).toBe(2);
+      expect(mockPrisma.documentVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          documentId: 'doc-1',
+          version: 1,
+          storagePath: 'uploads/interview.txt',
+          piiRedacted: true,
+          redactedRanges: [9, 22],
+          chunks: archivedVersion.chunks,
+          createdAt: new Date('2025-01-01T00:00:00Z'),
+        }),
+      });
+      // Old chunks would apply their offsets to the new text
+      expect(mockPrisma.documentChunk.deleteMany).toHaveBeenCalledWith({ where: { documentId: 'doc-1' } });
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: expect.objectContaining({
+          fileName: 'interview-v2.txt',
+          contentHash: 'abc',
+          version: 2,
+          status: 'PROCESSING',
+          extractedText: 'Revised interview text.',
+          piiRedacted: false,
+          redactedRanges: [],
+          textHash: null,
+          duplicateOfId: null,
+          embeddingContext: null,
+        }),
+      });
+    });
+  });
+
+  describe('getDocumentVersionText', () => {
+    it('should return the current version when the document was never replaced', async () => {
+      const result = await getDocumentVersionText({ ...currentDocument, version: 1 }, { chunkIds: ['old-chunk'] });
+
+      expect(result).toMatchObject({ version: 1, current: true, chunks: null });
+      expect(mockPrisma.documentVersion.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return an explicitly requested archived version', async () => {
+      mockPrisma.documentVersion.findUnique.mockResolvedValue(archivedVersion);
+
+      const result = await getDocumentVersionText(currentDocument, { version: 1 });
+
+      expect(result).toMatchObject({ version: 1, current: false, extractedText: 'Original interview text.' });
+      expect(mockPrisma.documentVersion.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { documentId_version: { documentId: 'doc-1', version: 1 } },
+      }));
+    });
+
+    it('should return the version that was current when a message was generated', async () => {
+      mockPrisma.documentVersion.findFirst.mockResolvedValue(archivedVersion);
+
+      const before = await getDocumentVersionText(currentDocument, { at: new Date('2025-02-01T00:00:00Z') });
+      const after = await getDocumentVersionText(currentDocument, { at: new Date('2025-04-01T00:00:00Z') });
+
+      expect(before).toMatchObject({ version: 1, current: false });
+      expect(after).toMatchObject({ version: 2, current: true });
+      expect(mockPrisma.documentVersion.findFirst).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve chunks that are no longer current to the archived version holding them', async () => {
+      mockPrisma.documentChunk.count.mockResolvedValue(0);
+      mockPrisma.documentVersion.findMany.mockResolvedValue([archivedVersion]);
+
+      const result = await getDocumentVersionText(currentDocument, { chunkIds: ['old-chunk'] });
+
+      expect(result).toMatchObject({ version: 1, chunks: archivedVersion.chunks });
+    });
+
+    it('should keep the current version for chunks it still has', async () => {
+      mockPrisma.documentChunk.count.mockResolvedValue(1);
+
+      const result = await getDocumentVersionText(currentDocument, { chunkIds: ['new-chunk'] });
+
+      expect(result).toMatchObject({ version: 2, current: true });
+      expect(mockPrisma.documentVersion.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listDocumentVersions', () => {
+    it('should list the current version before archived ones', async () => {
+      mockPrisma.documentVersion.findMany.mockResolvedValue([
+        { version: 1, fileName: 'interview.txt', fileSize: 100, createdAt: new Date('2025-01-01T00:00:00Z') },
+      ]);
+
+      const versions = await listDocumentVersions(currentDocument);
+
+      expect(versions).toEqual([
+        { version: 2, fileName: 'interview-v2.txt', fileSize: 200, createdAt: replacedAt.toISOString(), current: true },
+        { version: 1, fileName: 'interview.txt', fileSize: 100, createdAt: '2025-01-01T00:00:00.000Z', current: false },
+      ]);
+    });
+  });
+
+  describe('getArchivedStoragePaths', () => {
+    it('should skip versions without a stored file', async () => {
+      mockPrisma.documentVersion.findMany.mockResolvedValue([{ storagePath: 'uploads/a.txt' }, { storagePath: null }]);
+
+      expect(await getArchivedStoragePaths('doc-1')).toEqual(['uploads/a.txt']);
+    });
+  });
+
+  describe('isArchivedChunkList', () => {
+    it('should reject malformed chunk snapshots', () => {
+      expect(isArchivedChunkList(archivedVersion.chunks)).toBe(true);
+      expect(isArchivedChunkList([{ id: 'x', content: 'y', startOffset: '0', endOffset: null }])).toBe(false);
+      expect(isArchivedChunkList(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  getEmbeddingProvider,
+  generateEmbedding,
+  generateBatchEmbeddings,
+  createLocalEmbeddingProvider,
+  createVoyageEmbeddingProvider,
+} from '@/lib/embeddings';
+import { tokenize, embedTextLocally, LOCAL_EMBEDDING_MODEL } from '@/lib/embeddings/local';
+import { cosineSimilarity } from '@/lib/vector-index/brute-force';
+
+describe('embeddings', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('local provider', () => {
+    it('should tokenize case- and accent-insensitively', () => {
+      expect(tokenize('Café PRICING, p7!')).toEqual(['cafe', 'pricing', 'p7']);
+    });
+
+    it('should produce deterministic, normalized vectors', () => {
+      const a = embedTextLocally('users struggle with onboarding', 64);
+      const b = embedTextLocally('users struggle with onboarding', 64);
+
+      expect(a).toEqual(b);
+      expect(a).toHaveLength(64);
+      const norm = Math.sqrt(a.reduce((sum, value) => sum + value * value, 0));
+      expect(norm).toBeCloseTo(1, 6);
+    });
+
+    it('should return a zero vector for text without tokens', () => {
+      expect(embedTextLocally('  ...  ', 8)).toEqual(new Array(8).fill(0));
+    });
+
+    it('should rank overlapping text above unrelated text', async () => {
+      const provider = createLocalEmbeddingProvider(256);
+      const { embeddings } = await provider.embed([
+        'pricing is too expensive for small teams',
+        'the expensive pricing put small teams off',
+        'weather was sunny during the field visit',
+      ]);
+
+      const related = cosineSimilarity(embeddings[0], embeddings[1]);
+      const unrelated = cosineSimilarity(embeddings[0], embeddings[2]);
+      expect(related).toBeGreaterThan(unrelated);
+    });
+
+    it('should report its model info on every result', async () => {
+      const provider = createLocalEmbeddingProvider(32);
+      const result = await provider.embed(['hello']);
+
+      expect(result.model).toEqual({ provider: 'local', model: LOCAL_EMBEDDING_MODEL, dimensions: 32 });
+      expect(result.usage.totalTokens).toBe(1);
+    });
+  });
+
+  describe('voyage provider', () => {
+    it('should not require VOYAGE_API_KEY until embedding', async () => {
+      delete process.env.VOYAGE_API_KEY;
+
+      const provider = createVoyageEmbeddingProvider('voyage-large-2');
+      expect(provider.info).toEqual({ provider: 'voyage', model: 'voyage-large-2', dimensions: 1536 });
+      await expect(provider.embed(['hello'])).rejects.toThrow('VOYAGE_API_KEY');
+    });
+
+    it('should reject unknown models', () => {
+      expect(() => createVoyageEmbeddingProvider('voyage-unknown')).toThrow('Unsupported Voyage embedding model');
+    });
+  });
+
+  describe('getEmbeddingProvider', () => {
+    it('should default to voyage', () => {
+      delete process.env.EMBEDDING_PROVIDER;
+      expect(getEmbeddingProvider().info.provider).toBe('voyage');
+    });
+
+    it('should select the local provider from EMBEDDING_PROVIDER', () => {
+      process.env.EMBEDDING_PROVIDER = 'local';
+      process.env.LOCAL_EMBEDDING_DIMENSIONS = '128';
+
+      expect(getEmbeddingProvider().info).toEqual({
+        provider: 'local',
+        model: LOCAL_EMBEDDING_MODEL,
+        dimensions: 128,
+      });
+    });
+
+    it('should fall back to voyage for unknown providers', () => {
+      process.env.EMBEDDING_PROVIDER = 'openai';
+      expect(getEmbeddingProvider().info.provider).toBe('voyage');
+    });
+
+    it('should embed queries and documents through the configured provider', async () => {
+      process.env.EMBEDDING_PROVIDER = 'local';
+      process.env.LOCAL_EMBEDDING_DIMENSIONS = '16';
+
+      const query = await generateEmbedding('onboarding');
+      const batch = await generateBatchEmbeddings(['onboarding', 'pricing']);
+
+      expect(query.embedding).toHaveLength(16);
+      expect(query.model.provider).toBe('local');
+      expect(batch.embeddings).toHaveLength(2);
+      expect(batch.embeddings[0]).toEqual(query.embedding);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { extractTextFromBuffer } from '@/lib/document-processing';
+import { getDocumentExtractor } from '@/lib/extractors';
+import { decodeHeaderValue } from '@/lib/extractors/eml';
+import { htmlToText } from '@/lib/extractors/html';
+import { rtfToText } from '@/lib/extractors/rtf';
+
+const PRESENTATION_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+function shape(text: string, placeholder?: string): string {
+  return [
+    '<p:sp><p:nvSpPr><p:nvPr>',
+    placeholder ? `<p:ph type="${placeholder}"/>` : '',
+    '</p:nvPr></p:nvSpPr><p:txBody>',
+    text.split('\n').map(line => `<a:p><a:r><a:t>${line}</a:t></a:r></a:p>`).join(''),
+    '</p:txBody></p:sp>',
+  ].join('');
+}
+
+async function buildPPTX(): Promise<Buffer> {
+  const zip = new JSZip();
+  // Slide 2 is listed first, so presentation order differs from part names
+  zip.file('ppt/presentation.xml', '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>');
+  zip.file('ppt/_rels/presentation.xml.rels', [
+    '<Relationships>',
+    `<Relationship Id="rId2" Type="${PRESENTATION_REL}/slide" Target="slides/slide1.xml"/>`,
+    `<Relationship Id="rId3" Type="${PRESENTATION_REL}/slide" Target="slides/slide2.xml"/>`,
+    '</Relationships>',
+  ].join(''));
+  zip.file('ppt/slides/slide2.xml', `<p:sld><p:cSld><p:spTree>${shape('Research goals', 'title')}${shape('Why do teams churn?\nWho buys &amp; who uses?')}</p:spTree></p:cSld></p:sld>`);
+  zip.file('ppt/slides/_rels/slide2.xml.rels', `<Relationships><Relationship Id="rId1" Type="${PRESENTATION_REL}/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>`);
+  zip.file('ppt/notesSlides/notesSlide1.xml', [
+    '<p:notes><p:cSld><p:spTree>',
+    shape('', 'sldImg'),
+    shape('Mention the Q3 interviews', 'body'),
+    '<p:sp><p:nvSpPr><p:nvPr><p:ph type="sldNum"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:fld id="{1}" type="slidenum"><a:t>1</a:t></a:fld></a:p></p:txBody></p:sp>',
+    '</p:spTree></p:cSld></p:notes>',
+  ].join(''));
+  zip.file('ppt/slides/slide1.xml', `<p:sld><p:cSld><p:spTree>${shape('Findings', 'title')}${shape('Onboarding is the top complaint')}</p:spTree></p:cSld></p:sld>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+async function buildOpenDocument(mimeType: string, body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', mimeType, { compression: 'STORE' });
+  zip.file('content.xml', `<office:document-content><office:body>${body}</office:body></office:document-content>`);
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+const EMAIL = [
+  'Return-Path: <maya@example.com>',
+  'From: Maya Chen <maya@example.com>',
+  'To: research@example.com',
+  'Subject: =?UTF-8?B?UmU6IFBpbG90IGZlZWRiYWNr?=',
+  '  =?UTF-8?Q?_=E2=80=94_round_2?=',
+  'Date: Tue, 3 Sep 2024 10:15:00 +0200',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary=inner',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'The pilot users found exporting caf=C3=A9 data confusing and asked for a=',
+  ' shortcut.',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<p>The pilot users found exporting data confusing.</p>',
+  '--inner--',
+  '--outer',
+  'Content-Type: text/plain; name="notes.txt"',
+  'Content-Disposition: attachment; filename="notes.txt"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('Attached notes should not be indexed').toString('base64'),
+  '--outer--',
+  '',
+].join('\r\n');
+
+describe('document extractors', () => {
+  describe('getDocumentExtractor', () => {
+    it('should pick the extractor from magic bytes over the MIME type', async () => {
+      const pptx = await buildPPTX();
+      const rtf = Buffer.from('{\\rtf1\\ansi Hello}');
+
+      expect(getDocumentExtractor(pptx, 'application/pdf', 'deck.pdf')?.format).toBe('pptx');
+      expect(getDocumentExtractor(rtf, 'application/msword', 'notes.doc')?.format).toBe('rtf');
+      expect(getDocumentExtractor(Buffer.from('<!DOCTYPE html><p>Hi</p>'), 'text/plain', 'page.txt')?.format).toBe('html');
+      expect(getDocumentExtractor(Buffer.from(EMAIL), '', 'message')?.format).toBe('eml');
+    });
+
+    it('should fall back to extension, then MIME type, for formats without a signature', () => {
+      const text = Buffer.from('id,answer\n1,Slow');
+
+      expect(getDocumentExtractor(text, 'application/vnd.ms-excel', 'survey.csv')?.format).toBe('csv');
+      expect(getDocumentExtractor(text, 'text/plain', 'export')?.format).toBe('text');
+      expect(getDocumentExtractor(text, 'text/x-log', 'server.log')?.format).toBe('text');
+      expect(getDocumentExtractor(Buffer.from([0, 1, 2]), 'application/octet-stream', 'blob.bin')).toBeNull();
+    });
+
+    it('should not mistake notes that start with "From:" for an email', () => {
+      const notes = Buffer.from('From: Jane (PM)\nSubject: onboarding\n\nShe struggled with invites.');
+
+      expect(getDocumentExtractor(notes, 'text/plain', 'notes.txt')?.format).toBe('text');
+    });
+
+    it('should route legacy Word files away from mammoth', async () => {
+      const ole = Buffer.concat([
+        Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+        Buffer.alloc(504),
+        Buffer.from('WordDocument', 'utf16le'),
+      ]);
+
+      expect(getDocumentExtractor(ole, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'old.docx')?.format).toBe('doc');
+      expect(await extractTextFromBuffer(ole, 'application/msword', 'old.doc')).toMatchObject({
+        success: false,
+        error: 'Failed to extract text from DOC',
+      });
+    });
+  });
+
+  describe('PPTX', () => {
+    it('should extract slides in presentation order with speaker notes', async () => {
+      const result = await extractTextFromBuffer(await buildPPTX(), '', 'deck.pptx');
+
+      expect(result).toMatchObject({ metadata: { pageCount: 2 } });
+      if ('error' in result) throw new Error(result.error);
+      expect(result.text).toBe([
+        'Slide 1: Research goals',
+        '',
+        'Why do teams churn?\nWho buys & who uses?',
+        '',
+        'Speaker notes:\nMention the Q3 interviews',
+        '',
+        'Slide 2: Findings',
+        '',
+        'Onboarding is the top complaint',
+      ].join('\n'));
+      expect(result.text.slice(result.metadata!.pageOffsets![1])).toMatch(/^Slide 2: Findings/);
+    });
+  });
+
+  describe('OpenDocument', () => {
+    it('should read ODT paragraphs, headings, spaces and line breaks', async () => {
+      const odt = await buildOpenDocument(
+        'application/vnd.oasis.opendocument.text',
+        '<office:text><text:h text:outline-level="1">Field notes</text:h><text:p>Participant<text:s text:c="2"/>4 said:<text:line-break/>&quot;too slow&quot;</text:p><office:annotation><text:p>reviewer comment</text:p></office:annotation></office:text>'
+      );
+
+      const result = await extractTextFromBuffer(odt, 'application/octet-stream', 'notes.odt');
+
+      expect(result).toMatchObject({ text: 'Field notes\nParticipant 4 said:\n"too slow"' });
+    });
+
+    it('should read ODP pages as slides with notes', async () => {
+      const odp = await buildOpenDocument(
+        'application/vnd.oasis.opendocument.presentation',
+        '<office:presentation><draw:page draw:name="p1"><draw:frame presentation:class="title"><draw:text-box><text:p>Recap</text:p></draw:text-box></draw:frame><draw:frame><draw:text-box><text:p>Three themes</text:p></draw:text-box></draw:frame><presentation:notes><draw:frame><draw:text-box><text:p>Keep it short</text:p></draw:text-box></draw:frame></presentation:notes></draw:page></office:presentation>'
+      );
+
+      const result = await extractTextFromBuffer(odp, '', 'recap.odp');
+
+      expect(result).toMatchObject({
+        text: 'Slide 1: Recap\n\nThree themes\n\nSpeaker notes:\nKeep it short',
+        metadata: { pageCount: 1, pageOffsets: [0] },
+      });
+    });
+  });
+
+  describe('rtfToText', () => {
+    it('should decode escapes and skip non-text destinations', () => {
+      const rtf = '{\\rtf1\\ansi\\ansicpg1252{\\fonttbl{\\f0 Arial;}}{\\*\\generator Word}\\pard Caf\\\'e9 visit\\par\\uc1\\u8220?quoted\\u8221?\\tab end\\par}';
+
+      expect(rtfToText(rtf)).toBe('Café visit\n“quoted” end');
+    });
+  });
+
+  describe('htmlToText', () => {
+    it('should keep paragraph structure and drop scripts and styles', () => {
+      const html = '<html><head><title>Readout</title><style>p{}</style></head><body><script>track()</script><h1>Readout</h1><p>Users&nbsp;love <b>search</b>.</p><ul><li>Fast</li><li>Accurate</li></ul></body></html>';
+
+      expect(htmlToText(html)).toBe('Readout\n\nUsers love search.\n\n• Fast\n• Accurate');
+    });
+  });
+
+  describe('EML', () => {
+    it('should keep headers as metadata and index the plain-text body only', async () => {
+      const result = await extractTextFromBuffer(Buffer.from(EMAIL), 'message/rfc822', 'feedback.eml');
+
+      expect(result).toMatchObject({
+        text: 'The pilot users found exporting café data confusing and asked for a shortcut.',
+        metadata: {
+          email: {
+            from: 'Maya Chen <maya@example.com>',
+            to: 'research@example.com',
+            subject: 'Re: Pilot feedback — round 2',
+            date: 'Tue, 3 Sep 2024 10:15:00 +0200',
+          },
+        },
+      });
+    });
+
+    it('should decode encoded-word headers in other charsets', () => {
+      expect(decodeHeaderValue('=?ISO-8859-1?Q?Fran=E7ois?= Dupont')).toBe('François Dupont');
+    });
+  });
+});
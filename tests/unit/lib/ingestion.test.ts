@@ -0,0 +1,480 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    ingestionJob: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    document: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    documentChunk: {
+      count: vi.fn(),
+    },
+    uploadBatch: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/reindexing', () => ({ reindexDocument: vi.fn() }));
+vi.mock('@/lib/document-dedup', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/document-dedup')>('@/lib/document-dedup');
+  return {
+    ...actual,
+    findDuplicateByHash: vi.fn().mockResolvedValue(null),
+    findNearDuplicate: vi.fn().mockResolvedValue(null),
+  };
+});
+vi.mock('@/lib/pii-redaction', () => ({
+  getStudyPrivacySettings: vi.fn(),
+  pseudonymizeText: vi.fn(),
+}));
+vi.mock('@/lib/contextual-embeddings', () => ({
+  isContextualEmbeddingEnabled: vi.fn(),
+  generateDocumentContext: vi.fn(),
+}));
+vi.mock('@/lib/document-processing', () => ({ extractTextFromBuffer: vi.fn() }));
+vi.mock('@/lib/file-storage', () => ({ readStoredFile: vi.fn() }));
+vi.mock('@/lib/metadata-collector', () => ({ invalidateStudyMetadataOnDocumentChange: vi.fn() }));
+vi.mock('@/lib/summary-generation', () => ({ generateStudySummary: vi.fn().mockResolvedValue(null) }));
+vi.mock('@/lib/analytics/server-analytics', () => ({
+  trackDocumentUploadEvent: vi.fn(),
+  trackBatchUploadEvent: vi.fn(),
+  trackErrorEvent: vi.fn(),
+  trackStudyEvent: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import { reindexDocument } from '@/lib/reindexing';
+import { extractTextFromBuffer } from '@/lib/document-processing';
+import { readStoredFile } from '@/lib/file-storage';
+import { findDuplicateByHash, findNearDuplicate, hashText } from '@/lib/document-dedup';
+import { getStudyPrivacySettings, pseudonymizeText } from '@/lib/pii-redaction';
+import { generateDocumentContext, isContextualEmbeddingEnabled } from '@/lib/contextual-embeddings';
+import {
+  claimNextIngestionJob,
+  failIngestionJob,
+  getRetryDelayMs,
+  touchIngestionJob,
+} from '@/lib/ingestion/queue';
+import { processIngestionJob } from '@/lib/ingestion/processor';
+import { recoverOrphanedIngestion } from '@/lib/ingestion/recovery';
+import { syncBatchProgress } from '@/lib/ingestion/completion';
+import type { IngestionJob } from '@/lib/ingestion';
+
+const mockPrisma = asMockPrisma<'ingestionJob' | 'document' | 'documentChunk' | 'uploadBatch'>(prisma);
+
+function makeJob(overrides: Partial<IngestionJob> = {}): IngestionJob {
+  return {
+    id: 'job-1',
+    documentId: 'doc-1',
+    batchId: null,
+    userId: 'user-1',
+    status: 'RUNNING',
+    attempts: 1,
+    maxAttempts: 3,
+    runAfter: new Date(),
+    lockedAt: new Date(),
+    lastError: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const storedDocument = {
+  id: 'doc-1',
+  fileName: 'interview.txt',
+  fileType: 'text/plain',
+  fileSize: 100,
+  studyId: 'study-1',
+  extractedText: null,
+  storageType: 'filesystem',
+  storagePath: '/tmp/interview.txt',
+  storageUrl: '/api/files/study-1/interview.txt',
+  chunkingStrategy: null,
+  pageOffsets: [],
+};
+
+describe('ingestion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.ingestionJob.update.mockResolvedValue({});
+    mockPrisma.document.update.mockResolvedValue({});
+    mockPrisma.documentChunk.count.mockResolvedValue(0);
+    vi.mocked(getStudyPrivacySettings).mockResolvedValue({
+      redaction: false,
+      detectors: [],
+      dictionary: [],
+      display: 'original',
+    });
+    vi.mocked(isContextualEmbeddingEnabled).mockResolvedValue(false);
+  });
+
+  describe('queue', () => {
+    it('should back off exponentially up to a cap', () => {
+      expect(getRetryDelayMs(1)).toBe(5000);
+      expect(getRetryDelayMs(2)).toBe(10000);
+      expect(getRetryDelayMs(3)).toBe(20000);
+      expect(getRetryDelayMs(20)).toBe(5 * 60 * 1000);
+    });
+
+    it('should skip jobs claimed by another worker', async () => {
+      mockPrisma.ingestionJob.findFirst
+        .mockResolvedValueOnce(makeJob({ id: 'job-1', status: 'QUEUED', attempts: 0 }))
+        .mockResolvedValueOnce(makeJob({ id: 'job-2', status: 'QUEUED', attempts: 0 }));
+      mockPrisma.ingestionJob.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      const job = await claimNextIngestionJob();
+
+      expect(job?.id).toBe('job-2');
+      expect(job?.status).toBe('RUNNING');
+      expect(job?.attempts).toBe(1);
+    });
+
+    it('should return null when nothing is runnable', async () => {
+      mockPrisma.ingestionJob.findFirst.mockResolvedValue(null);
+      expect(await claimNextIngestionJob()).toBeNull();
+    });
+
+    it('should requeue retryable failures with backoff', async () => {
+      const requeued = await failIngestionJob(makeJob({ attempts: 1 }), 'timeout', true);
+
+      expect(requeued).toBe(true);
+      expect(mockPrisma.ingestionJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'QUEUED', lastError: 'timeout', runAfter: expect.any(Date) }),
+      });
+    });
+
+    it('should refresh the lock of a job that is still running', async () => {
+      await touchIngestionJob('job-1');
+
+      expect(mockPrisma.ingestionJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'RUNNING' },
+        data: { lockedAt: expect.any(Date) },
+      });
+    });
+
+    it('should fail permanently when attempts are exhausted or the error is not retryable', async () => {
+      expect(await failIngestionJob(makeJob({ attempts: 3 }), 'timeout', true)).toBe(false);
+      expect(await failIngestionJob(makeJob({ attempts: 1 }), 'bad file', false)).toBe(false);
+      expect(mockPrisma.ingestionJob.update).toHaveBeenLastCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'FAILED', lastError: 'bad file' }),
+      });
+    });
+  });
+
+  describe('processIngestionJob', () => {
+    it('should extract, index and mark the document ready', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue(storedDocument);
+      vi.mocked(readStoredFile).mockResolvedValue(Buffer.from('hello'));
+      vi.mocked(extractTextFromBuffer).mockResolvedValue({ text: 'hello' } as never);
+      vi.mocked(reindexDocument).mockResolvedValue(1);
+
+      await processIngestionJob(makeJob());
+
+      expect(reindexDocument).toHaveBeenCalledWith('doc-1', 'hello', {
+        chunkingStrategy: null,
+        pageOffsets: [],
+        surveyRecords: [],
+        userId: 'user-1',
+      });
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { status: 'READY', textHash: hashText('hello') },
+      });
+      expect(mockPrisma.ingestionJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'SUCCEEDED' }),
+      });
+    });
+
+    it('should reuse text extracted during upload', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({
+        ...storedDocument,
+        extractedText: 'already here',
+        chunkingStrategy: 'transcript',
+        pageOffsets: [0, 120],
+        surveyRecords: [],
+      });
+      vi.mocked(reindexDocument).mockResolvedValue(1);
+
+      await processIngestionJob(makeJob());
+
+      expect(readStoredFile).not.toHaveBeenCalled();
+      expect(reindexDocument).toHaveBeenCalledWith('doc-1', 'already here', {
+        chunkingStrategy: 'transcript',
+        pageOffsets: [0, 120],
+        surveyRecords: [],
+        userId: 'user-1',
+      });
+    });
+
+    it('should flag a document whose text the user already has', async () => {
+      const duplicate = {
+        documentId: 'doc-0',
+        fileName: 'interview.pdf',
+        studyId: 'study-1',
+        studyName: 'Onboarding',
+        kind: 'text' as const,
+      };
+      mockPrisma.document.findUnique.mockResolvedValue({ ...storedDocument, extractedText: 'same words' });
+      vi.mocked(findDuplicateByHash).mockResolvedValueOnce(duplicate);
+      vi.mocked(reindexDocument).mockResolvedValue(1);
+
+      await processIngestionJob(makeJob());
+
+      expect(findDuplicateByHash).toHaveBeenCalledWith('user-1', { textHash: hashText('same words') }, 'doc-1');
+      expect(findNearDuplicate).not.toHaveBeenCalled();
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: expect.objectContaining({ status: 'READY', duplicateOfId: 'doc-0', duplicateKind: 'text' }),
+      });
+    });
+
+    it('should not look for duplicates again for an exact duplicate', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({ ...storedDocument, extractedText: 'text', duplicateOfId: 'doc-0' });
+      vi.mocked(reindexDocument).mockResolvedValue(1);
+
+      await processIngestionJob(makeJob());
+
+      expect(findDuplicateByHash).not.toHaveBeenCalled();
+      expect(findNearDuplicate).not.toHaveBeenCalled();
+    });
+
+    it('should pseudonymize the text before indexing when the study redacts PII', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({ ...storedDocument, extractedText: 'Hi, I am Dana' });
+      vi.mocked(getStudyPrivacySettings).mockResolvedValue({
+        redaction: true,
+        detectors: ['names'],
+        dictionary: [],
+        display: 'original',
+      });
+      vi.mocked(pseudonymizeText).mockResolvedValue({
+        text: 'Hi, I am Participant A',
+        pageOffsets: [],
+        surveyRecords: [],
+        redactedRanges: [9, 22],
+        replacementCount: 1,
+      });
+      vi.mocked(reindexDocument).mockResolvedValue(1);
+
+      await processIngestionJob(makeJob());
+
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: {
+          extractedText: 'Hi, I am Participant A',
+          pageOffsets: [],
+          piiRedacted: true,
+          redactedRanges: [9, 22],
+          textHash: hashText('Hi, I am Dana'),
+        },
+      });
+      expect(reindexDocument).toHaveBeenCalledWith('doc-1', 'Hi, I am Participant A', expect.any(Object));
+      expect(findDuplicateByHash).toHaveBeenCalledWith('user-1', { textHash: hashText('Hi, I am Dana') }, 'doc-1');
+    });
+
+    it('should embed chunks with the document context when the study uses contextual embeddings', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({ ...storedDocument, extractedText: 'P1: it was the worst part' });
+      vi.mocked(isContextualEmbeddingEnabled).mockResolvedValue(true);
+      vi.mocked(generateDocumentContext).mockResolvedValue('Document: interview.txt\nParticipants: P1');
+      vi.mocked(reindexDocument).mockResolvedValue(1);
+
+      await processIngestionJob(makeJob());
+
+      expect(generateDocumentContext).toHaveBeenCalledWith('doc-1', 'P1: it was the worst part');
+      expect(reindexDocument).toHaveBeenCalledWith('doc-1', 'P1: it was the worst part', expect.objectContaining({
+        embeddingContext: 'Document: interview.txt\nParticipants: P1',
+      }));
+    });
+
+    it('should not redact a document twice', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({
+        ...storedDocument,
+        extractedText: 'Hi, I am Participant A',
+        piiRedacted: true,
+        textHash: 'original-hash',
+      });
+      vi.mocked(reindexDocument).mockResolvedValue(1);
+
+      await processIngestionJob(makeJob());
+
+      expect(pseudonymizeText).not.toHaveBeenCalled();
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { status: 'READY', textHash: 'original-hash' },
+      });
+    });
+
+    it('should fail immediately when text cannot be extracted', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue(storedDocument);
+      vi.mocked(readStoredFile).mockResolvedValue(Buffer.from(''));
+      vi.mocked(extractTextFromBuffer).mockResolvedValue({ error: 'scanned PDF' } as never);
+
+      await processIngestionJob(makeJob({ attempts: 1 }));
+
+      expect(mockPrisma.ingestionJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+    });
+
+    it('should keep a re-chunked document\'s text and chunks when the job fails for good', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({ ...storedDocument, extractedText: 'indexed text' });
+      mockPrisma.documentChunk.count.mockResolvedValue(4);
+      vi.mocked(reindexDocument).mockRejectedValue(new Error('embedding provider down'));
+
+      await processIngestionJob(makeJob({ attempts: 3 }));
+
+      expect(mockPrisma.ingestionJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'FAILED', lastError: 'embedding provider down' }),
+      });
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { status: 'READY' },
+      });
+      expect(mockPrisma.document.update).not.toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ extractedText: expect.anything() }),
+      }));
+    });
+
+    it('should keep the document processing while a retry is scheduled', async () => {
+      mockPrisma.document.findUnique.mockResolvedValue({ ...storedDocument, extractedText: 'text' });
+      vi.mocked(reindexDocument).mockRejectedValue(new Error('rate limited'));
+
+      await processIngestionJob(makeJob({ attempts: 1 }));
+
+      expect(mockPrisma.ingestionJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'QUEUED' }),
+      });
+      expect(mockPrisma.document.update).not.toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'FAILED' }),
+      }));
+    });
+  });
+
+  describe('syncBatchProgress', () => {
+    it('should finalize the batch once every job has settled', async () => {
+      mockPrisma.uploadBatch.findUnique.mockResolvedValue({
+        id: 'batch-1',
+        studyId: 'study-1',
+        userId: 'user-1',
+        totalFiles: 2,
+        createdAt: new Date(),
+        metadata: { fileNames: ['a.txt', 'b.txt'] },
+        ingestionJobs: [
+          { status: 'SUCCEEDED', lastError: null, document: { id: 'doc-1', fileName: 'a.txt' } },
+          { status: 'FAILED', lastError: 'bad file', document: { id: 'doc-2', fileName: 'b.txt' } },
+        ],
+      });
+      mockPrisma.uploadBatch.updateMany.mockResolvedValue({ count: 1 });
+
+      await syncBatchProgress('batch-1');
+
+      expect(mockPrisma.uploadBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: { completedFiles: 1, failedFiles: 1 },
+      });
+      expect(mockPrisma.uploadBatch.updateMany).toHaveBeenCalledWith({
+        where: { id: 'batch-1', status: 'PROCESSING' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          metadata: expect.objectContaining({
+            fileResults: [
+              { fileName: 'a.txt', documentId: 'doc-1' },
+              { fileName: 'b.txt', error: 'bad file' },
+            ],
+          }),
+        }),
+      });
+    });
+
+    it('should leave the batch processing while jobs are pending', async () => {
+      mockPrisma.uploadBatch.findUnique.mockResolvedValue({
+        id: 'batch-1',
+        createdAt: new Date(),
+        ingestionJobs: [
+          { status: 'SUCCEEDED', lastError: null, document: { id: 'doc-1', fileName: 'a.txt' } },
+          { status: 'QUEUED', lastError: null, document: { id: 'doc-2', fileName: 'b.txt' } },
+        ],
+      });
+
+      await syncBatchProgress('batch-1');
+
+      expect(mockPrisma.uploadBatch.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recoverOrphanedIngestion', () => {
+    it('should requeue stuck jobs and enqueue documents that never got one', async () => {
+      mockPrisma.ingestionJob.findMany.mockResolvedValue([
+        { id: 'job-1', documentId: 'doc-1', batchId: null, attempts: 1, maxAttempts: 3 },
+      ]);
+      mockPrisma.document.findMany.mockResolvedValue([
+        { id: 'doc-2', batchId: null, storagePath: '/tmp/b.txt', storageUrl: null, study: { userId: 'user-1' } },
+        { id: 'doc-3', batchId: null, storagePath: null, storageUrl: null, study: { userId: 'user-1' } },
+      ]);
+      mockPrisma.ingestionJob.create.mockResolvedValue({});
+
+      const result = await recoverOrphanedIngestion();
+
+      expect(result).toEqual({ requeuedJobs: 1, failedJobs: 0, enqueuedDocuments: 1, failedDocuments: 1 });
+      expect(mockPrisma.ingestionJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ documentId: 'doc-2', userId: 'user-1' }),
+      });
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-3' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+    });
+
+    it('should only pick up jobs whose lock has gone stale', async () => {
+      mockPrisma.ingestionJob.findMany.mockResolvedValue([]);
+      mockPrisma.document.findMany.mockResolvedValue([]);
+      const now = new Date('2025-01-01T12:00:00Z');
+
+      await recoverOrphanedIngestion(now);
+
+      expect(mockPrisma.ingestionJob.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'RUNNING', lockedAt: { lt: new Date('2025-01-01T11:55:00Z') } },
+      }));
+    });
+
+    it('should fail stuck jobs that are out of attempts', async () => {
+      mockPrisma.ingestionJob.findMany.mockResolvedValue([
+        { id: 'job-1', documentId: 'doc-1', batchId: null, attempts: 3, maxAttempts: 3 },
+      ]);
+      mockPrisma.document.findMany.mockResolvedValue([]);
+
+      const result = await recoverOrphanedIngestion();
+
+      expect(result.failedJobs).toBe(1);
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: expect.objectContaining({ status: 'FAILED' }),
+      });
+    });
+  });
+});
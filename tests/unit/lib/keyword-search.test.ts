@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+  },
+}));
+
+// Use the real SQL template helpers without a generated client
+vi.mock('@prisma/client', async () => {
+  const runtime = await vi.importActual<typeof import('@prisma/client/runtime/library')>('@prisma/client/runtime/library');
+  return {
+    Prisma: {
+      sql: runtime.sqltag,
+      join: runtime.join,
+      raw: runtime.raw,
+    },
+  };
+});
+
+import { buildKeywordSearchQuery } from '@/lib/keyword-search';
+
+describe('keyword-search', () => {
+  describe('buildKeywordSearchQuery', () => {
+    it('should inline the text search configuration so it matches the GIN index', () => {
+      const sql = buildKeywordSearchQuery('onboarding P7', { userId: 'user-1', studyId: 'study-1', limit: 5 });
+
+      expect(sql.sql).toContain(`to_tsvector('english'::regconfig, c."content")`);
+      expect(sql.sql).toContain(`websearch_to_tsquery('english'::regconfig,`);
+      expect(sql.values).not.toContain('english');
+      expect(sql.values).toEqual(expect.arrayContaining(['onboarding P7', 'user-1', 'study-1']));
+    });
+  });
+});
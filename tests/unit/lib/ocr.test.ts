@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createWorker } from 'tesseract.js';
+import { averageOcrConfidence, findSparsePages, imageToPNM } from '@/lib/ocr';
+import { extractTextFromBuffer, extractTextFromPDF } from '@/lib/document-processing';
+
+vi.mock('tesseract.js', () => ({
+  createWorker: vi.fn(),
+}));
+
+const recognize = vi.fn();
+
+/**
+ * Single-page PDF whose only content is an uncompressed grey image, i.e. a
+ * scan without a text layer
+ */
+function buildScannedPDF(width = 240, height = 240): Buffer {
+  const pixels = Buffer.alloc(width * height * 3, 0xcc);
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  const offsets: number[] = [];
+  let length = parts[0].length;
+  const add = (part: Buffer | string) => {
+    const buffer = typeof part === 'string' ? Buffer.from(part) : part;
+    parts.push(buffer);
+    length += buffer.length;
+  };
+  const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+  [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`,
+  ].forEach((object, index) => {
+    offsets.push(length);
+    add(`${index + 1} 0 obj\n${object}\nendobj\n`);
+  });
+
+  offsets.push(length);
+  add(`4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Length ${pixels.length} >>\nstream\n`);
+  add(pixels);
+  add('\nendstream\nendobj\n');
+
+  offsets.push(length);
+  add(`5 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  add(`xref\n0 6\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`);
+  add(`trailer\n<< /Size 6 /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return Buffer.concat(parts);
+}
+
+describe('ocr', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createWorker).mockResolvedValue({ recognize, terminate: vi.fn() } as never);
+  });
+
+  describe('findSparsePages', () => {
+    it('should flag pages with little or no text layer', () => {
+      const pages = ['', '  12  ', 'A full paragraph of interview notes that clearly came from a text layer.'];
+
+      expect(findSparsePages(pages)).toEqual([0, 1]);
+    });
+  });
+
+  describe('averageOcrConfidence', () => {
+    it('should average page confidences', () => {
+      expect(averageOcrConfidence([{ pageNumber: 1, confidence: 90 }, { pageNumber: 3, confidence: 45 }])).toBe(68);
+      expect(averageOcrConfidence([])).toBeNull();
+    });
+  });
+
+  describe('imageToPNM', () => {
+    it('should drop the alpha channel of RGBA images', () => {
+      const pnm = imageToPNM({ width: 1, height: 1, kind: 3, data: new Uint8ClampedArray([10, 20, 30, 255]) });
+
+      expect(pnm?.toString('latin1')).toBe('P6\n1 1\n255\n\x0a\x14\x1e');
+    });
+
+    it('should invert 1-bit images into PBM', () => {
+      const pnm = imageToPNM({ width: 8, height: 1, kind: 1, data: new Uint8Array([0b11110000]) });
+
+      expect(pnm?.subarray(-1)[0]).toBe(0b00001111);
+    });
+  });
+
+  describe('extractTextFromPDF', () => {
+    it('should OCR scanned pages and record their confidence', async () => {
+      recognize.mockResolvedValue({ data: { text: 'Consent form signed\n\n\n\nby  participant 7', confidence: 61.4 } });
+
+      const result = await extractTextFromPDF(buildScannedPDF());
+
+      expect(result).toMatchObject({
+        text: 'Consent form signed\n\nby participant 7',
+        metadata: { pageCount: 1, pageOffsets: [0], ocr: { confidence: 61, pages: [{ pageNumber: 1, confidence: 61 }] } },
+      });
+      const image: Buffer = recognize.mock.calls[0][0];
+      expect(image.subarray(0, 15).toString('latin1')).toBe('P6\n240 240\n255\n');
+    });
+
+    it('should report a scan OCR could not read', async () => {
+      recognize.mockResolvedValue({ data: { text: '', confidence: 0 } });
+
+      const result = await extractTextFromPDF(buildScannedPDF());
+
+      expect(result).toMatchObject({ success: false, error: 'PDF contains no extractable text' });
+    });
+  });
+
+  describe('image uploads', () => {
+    it('should OCR PNG and JPEG files', async () => {
+      recognize.mockResolvedValue({ data: { text: 'Whiteboard: pricing is confusing', confidence: 88 } });
+
+      const result = await extractTextFromBuffer(Buffer.from('jpeg bytes'), 'image/jpeg', 'whiteboard.jpg');
+
+      expect(result).toMatchObject({
+        text: 'Whiteboard: pricing is confusing',
+        metadata: { ocr: { confidence: 88, pages: [{ pageNumber: 1, confidence: 88 }] } },
+      });
+    });
+  });
+});
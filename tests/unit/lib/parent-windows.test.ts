@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    document: {
+      findMany: vi.fn(),
+    },
+    documentChunk: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import { expandToParentWindows, mergeParentWindows, type ParentWindow } from '@/lib/parent-windows';
+import type { SearchResult } from '@/lib/vector-search';
+
+const mockPrisma = asMockPrisma<'document' | 'documentChunk'>(prisma);
+
+const TEXT = 'Intro paragraph.\n\nSetup took a month. Permissions were the worst part.\n\nPricing was fine.';
+
+function result(chunkId: string, documentId = 'doc-1'): SearchResult {
+  return {
+    chunkId,
+    content: `Content ${chunkId}`,
+    similarity: 0.5,
+    documentId,
+    documentName: `${documentId}.txt`,
+    chunkIndex: 0,
+  };
+}
+
+describe('parent-windows', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('mergeParentWindows', () => {
+    it('should give overlapping windows to the highest-ranked result', () => {
+      const windows = new Map<string, ParentWindow>([
+        ['a', { documentId: 'doc-1', start: 50, end: 100 }],
+        ['b', { documentId: 'doc-2', start: 0, end: 40 }],
+        ['c', { documentId: 'doc-1', start: 0, end: 60 }],
+        ['d', { documentId: 'doc-1', start: 200, end: 240 }],
+      ]);
+
+      const merged = mergeParentWindows([result('a'), result('b', 'doc-2'), result('c'), result('d')], windows);
+
+      expect(merged[0]).toMatchObject({ parentStartOffset: 0, parentEndOffset: 100 });
+      expect(merged[0].parentMergedInto).toBeUndefined();
+      expect(merged[1]).toMatchObject({ parentStartOffset: 0, parentEndOffset: 40 });
+      expect(merged[2]).toMatchObject({ parentMergedInto: 'a', content: 'Content c' });
+      expect(merged[2].parentStartOffset).toBeUndefined();
+      expect(merged[3]).toMatchObject({ parentStartOffset: 200, parentEndOffset: 240 });
+    });
+
+    it('should join groups that a later window bridges', () => {
+      const windows = new Map<string, ParentWindow>([
+        ['a', { documentId: 'doc-1', start: 0, end: 10 }],
+        ['b', { documentId: 'doc-1', start: 20, end: 30 }],
+        ['c', { documentId: 'doc-1', start: 5, end: 25 }],
+      ]);
+
+      const merged = mergeParentWindows([result('a'), result('b'), result('c')], windows);
+
+      expect(merged[0]).toMatchObject({ parentStartOffset: 0, parentEndOffset: 30 });
+      expect(merged.slice(1).map(r => r.parentMergedInto)).toEqual(['a', 'a']);
+    });
+  });
+
+  describe('expandToParentWindows', () => {
+    it('should attach the window text and keep the matched chunk for citations', async () => {
+      const start = TEXT.indexOf('Setup');
+      const end = TEXT.indexOf('\n\nPricing');
+      mockPrisma.documentChunk.findMany.mockResolvedValue([
+        { id: 'a', documentId: 'doc-1', parentStartOffset: start, parentEndOffset: end },
+      ]);
+      mockPrisma.document.findMany.mockResolvedValue([{ id: 'doc-1', extractedText: TEXT }]);
+
+      const [expanded, unchanged] = await expandToParentWindows([
+        { ...result('a'), content: 'Permissions were the worst part.', startOffset: 39, endOffset: 71 },
+        result('legacy'),
+      ]);
+
+      expect(expanded).toMatchObject({
+        chunkId: 'a',
+        content: 'Permissions were the worst part.',
+        startOffset: 39,
+        parentContent: 'Setup took a month. Permissions were the worst part.',
+      });
+      expect(unchanged.parentContent).toBeUndefined();
+    });
+
+    it('should skip windows that no longer fit the document text', async () => {
+      mockPrisma.documentChunk.findMany.mockResolvedValue([
+        { id: 'a', documentId: 'doc-1', parentStartOffset: 0, parentEndOffset: TEXT.length + 10 },
+      ]);
+      mockPrisma.document.findMany.mockResolvedValue([{ id: 'doc-1', extractedText: TEXT }]);
+
+      const [expanded] = await expandToParentWindows([result('a')]);
+
+      expect(expanded.parentContent).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { cleanupPDFPages, layoutPDFPage } from '@/lib/pdf-cleanup';
+import { extractTextFromPDF } from '@/lib/document-processing';
+import { buildTextPDF, reportPDF } from '../../fixtures/pdf-documents';
+
+describe('pdf-cleanup', () => {
+  describe('layoutPDFPage', () => {
+    it('should group runs into lines and separate paragraphs', () => {
+      const text = layoutPDFPage([
+        { text: 'world', x: 10, y: 5 },
+        { text: 'Hello', x: 4, y: 5.05 },
+        { text: 'again', x: 4, y: 5.875 },
+        { text: 'New paragraph', x: 4, y: 7.625 },
+        { text: '   ', x: 4, y: 8 },
+      ]);
+
+      expect(text).toBe('Hello world\nagain\n\nNew paragraph');
+    });
+  });
+
+  describe('cleanupPDFPages', () => {
+    it('should remove headers and page numbers that repeat across pages', () => {
+      const result = cleanupPDFPages([
+        'Acme Research\nFirst page body.\n- 1 -',
+        'Acme Research\nSecond page body.\n- 2 -',
+        'Acme Research\nThird page body.\n- 3 -',
+      ]);
+
+      expect(result.pages).toEqual(['First page body.', 'Second page body.', 'Third page body.']);
+      expect(result.removedLines).toBe(6);
+    });
+
+    it('should treat roman numeral page numbers alike', () => {
+      const result = cleanupPDFPages(['Preface text.\nii', 'More preface.\niii', 'Contents.\niv']);
+
+      expect(result.pages).toEqual(['Preface text.', 'More preface.', 'Contents.']);
+    });
+
+    it('should keep margin lines that only appear once', () => {
+      const result = cleanupPDFPages(['Introduction\nBody one.', 'Methods\nBody two.']);
+
+      expect(result.pages).toEqual(['Introduction\nBody one.', 'Methods\nBody two.']);
+      expect(result.removedLines).toBe(0);
+    });
+
+    it('should leave single-page documents alone', () => {
+      expect(cleanupPDFPages(['Title\nBody\n1']).pages).toEqual(['Title\nBody\n1']);
+    });
+
+    it('should keep body lines that match a header', () => {
+      const result = cleanupPDFPages([
+        'Summary\nOne\nTwo\nSummary\nThree\nFour',
+        'Summary\nFive\nSix\nSeven\nEight',
+      ]);
+
+      expect(result.pages[0]).toBe('One\nTwo\nSummary\nThree\nFour');
+    });
+
+    it('should rejoin words hyphenated at line breaks', () => {
+      const result = cleanupPDFPages(['The onboard-\ning flow was\nhard to follow for first-\nTime users.']);
+
+      expect(result.pages).toEqual(['The onboarding\nflow was\nhard to follow for first-\nTime users.']);
+      expect(result.rejoinedWords).toBe(1);
+    });
+
+    it('should move a word hyphenated across a page break onto the earlier page', () => {
+      const result = cleanupPDFPages(['Budget approval cy-', 'cles stall expansion.']);
+
+      expect(result.pages).toEqual(['Budget approval cycles', 'stall expansion.']);
+    });
+  });
+
+  describe('extractTextFromPDF', () => {
+    it('should strip running headers and footers and rejoin hyphenation', async () => {
+      const result = await extractTextFromPDF(reportPDF());
+
+      expect(result).toMatchObject({
+        text: [
+          'Participants described onboarding as confusing\nand slow.',
+          '',
+          'Most teams invited colleagues within a week.',
+          '',
+          'Pricing came up in every interview, usually in the context of seat-based billing and budget approval cycles',
+          '',
+          'that stall expansion. Procurement teams\nasked for annual invoices.',
+          '',
+          'Self-serve upgrades were rare.',
+        ].join('\n'),
+        metadata: { pageCount: 3 },
+      });
+    });
+
+    it('should keep page offsets pointing at the start of each cleaned page', async () => {
+      const result = await extractTextFromPDF(reportPDF());
+      if (!('text' in result)) throw new Error(result.error);
+
+      const offsets = result.metadata!.pageOffsets!;
+      expect(offsets).toHaveLength(3);
+      expect(result.text.slice(offsets[1]).startsWith('Pricing came up')).toBe(true);
+      expect(result.text.slice(offsets[2]).startsWith('that stall expansion.')).toBe(true);
+    });
+
+    it('should keep text on a PDF with a single page', async () => {
+      const result = await extractTextFromPDF(buildTextPDF([
+        [{ y: 760, text: 'Interview notes' }, { y: 700, text: 'Sam prefers email.' }, { y: 40, text: '1' }],
+      ]));
+
+      expect(result).toMatchObject({ text: 'Interview notes\nSam prefers email.\n\n1' });
+    });
+  });
+});
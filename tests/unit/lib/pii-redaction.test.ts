@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    pseudonym: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import { detectPii, formatPseudonym, mapOffset, replaceTerms, scrubPii } from '@/lib/pii-detection';
+import { pseudonymizeText, restorePseudonyms } from '@/lib/pii-redaction';
+import { PII_DETECTOR_NAMES, type StudyPrivacySettings } from '@/lib/types/pii';
+
+const mockPrisma = asMockPrisma<'pseudonym'>(prisma);
+
+const allDetectors = [...PII_DETECTOR_NAMES];
+
+const settings: StudyPrivacySettings = {
+  redaction: true,
+  detectors: allDetectors,
+  dictionary: [],
+  display: 'original',
+};
+
+describe('pii-redaction', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('detectPii', () => {
+    it('should find emails, phone numbers, introductions and companies', () => {
+      const text = 'My name is Dana Reyes. I work at Acme Widgets Inc and you can reach me at dana@acme.io or (555) 123-4567.';
+
+      expect(detectPii(text, allDetectors)).toEqual([
+        { text: 'dana@acme.io', category: 'email' },
+        { text: '(555) 123-4567', category: 'phone' },
+        { text: 'Dana Reyes', category: 'person' },
+        { text: 'Acme Widgets Inc', category: 'organization' },
+      ]);
+    });
+
+    it('should treat named transcript speakers as people but not roles', () => {
+      const text = 'Interviewer: How do you plan sprints?\nSam Ortiz: Mostly in a spreadsheet.\nInterviewer: Why?\nSam Ortiz: Habit.';
+
+      expect(detectPii(text, ['speakers'])).toEqual([{ text: 'Sam Ortiz', category: 'person' }]);
+    });
+
+    it('should ignore numbers that are not phone numbers', () => {
+      expect(detectPii('Order 2024-11-05 cost 1,250 and ID 98765432101234567', ['phone'])).toEqual([]);
+    });
+
+    it('should only run the enabled detectors and include the dictionary', () => {
+      const text = 'Ask Dr. Patel or email patel@clinic.org';
+
+      expect(detectPii(text, ['dictionary'], [{ term: 'Globex', category: 'organization' }])).toEqual([
+        { text: 'Globex', category: 'organization' },
+      ]);
+      expect(detectPii(text, ['email']).map(entity => entity.text)).toEqual(['patel@clinic.org']);
+    });
+  });
+
+  describe('replaceTerms', () => {
+    it('should replace whole words only, longest terms first', () => {
+      const terms = new Map([['Ann', 'Participant A'], ['Ann Lee', 'Participant B']]);
+
+      expect(replaceTerms('Ann Lee met Ann and Annabel.', terms).text)
+        .toBe('Participant B met Participant A and Annabel.');
+    });
+
+    it('should fall back to a shorter term when the longest runs into a word', () => {
+      const terms = new Map([['Jo Ann', 'Participant A'], ['Jo', 'Participant B']]);
+
+      expect(replaceTerms('Jo Annabel and Jo Ann.', terms).text)
+        .toBe('Participant B Annabel and Participant A.');
+    });
+
+    it('should map offsets in the original text to the edited text', () => {
+      const { text, edits } = replaceTerms('Hi Bo, bye Bo.', new Map([['Bo', 'Participant A']]));
+
+      expect(text).toBe('Hi Participant A, bye Participant A.');
+      expect(mapOffset(edits, 0)).toBe(0);
+      expect(mapOffset(edits, 5)).toBe(16);
+      expect(text.slice(mapOffset(edits, 7), mapOffset(edits, 14))).toBe('bye Participant A.');
+    });
+  });
+
+  describe('formatPseudonym', () => {
+    it('should letter people and companies and number contact details', () => {
+      expect(formatPseudonym('person', 0)).toBe('Participant A');
+      expect(formatPseudonym('person', 26)).toBe('Participant AA');
+      expect(formatPseudonym('organization', 1)).toBe('Company B');
+      expect(formatPseudonym('email', 2)).toBe('[Email 3]');
+      expect(formatPseudonym('phone', 0)).toBe('[Phone 1]');
+    });
+  });
+
+  describe('pseudonymizeText', () => {
+    it('should number new values after the study\'s existing pseudonyms', async () => {
+      mockPrisma.pseudonym.findMany
+        .mockResolvedValueOnce([{ category: 'person', original: 'Sam Ortiz', pseudonym: 'Participant A' }])
+        .mockResolvedValueOnce([
+          { category: 'person', original: 'Sam Ortiz', pseudonym: 'Participant A' },
+          { category: 'person', original: 'Dana Reyes', pseudonym: 'Participant B' },
+        ]);
+
+      const result = await pseudonymizeText('study-1', {
+        text: 'My name is Dana Reyes.\n\nSam Ortiz referred me.',
+        pageOffsets: [0, 24],
+        surveyRecords: [],
+      }, settings);
+
+      expect(mockPrisma.pseudonym.createMany).toHaveBeenCalledWith({
+        data: [{ studyId: 'study-1', category: 'person', original: 'Dana Reyes', pseudonym: 'Participant B' }],
+        skipDuplicates: true,
+      });
+      expect(result.text).toBe('My name is Participant B.\n\nParticipant A referred me.');
+      expect(result.pageOffsets).toEqual([0, 27]);
+      expect(result.redactedRanges).toEqual([11, 24, 27, 40]);
+      expect(result.replacementCount).toBe(2);
+    });
+
+    it('should redact survey respondent IDs and attributes', async () => {
+      const pseudonyms = [{ category: 'email', original: 'kim@example.com', pseudonym: '[Email 1]' }];
+      mockPrisma.pseudonym.findMany.mockResolvedValue(pseudonyms);
+
+      const result = await pseudonymizeText('study-1', {
+        text: 'Too slow.',
+        pageOffsets: [],
+        surveyRecords: [{ respondentId: 'kim@example.com', attributes: { plan: 'Pro' }, startOffset: 0, endOffset: 9 }],
+      }, settings);
+
+      expect(mockPrisma.pseudonym.createMany).not.toHaveBeenCalled();
+      expect(result.surveyRecords).toEqual([
+        { respondentId: '[Email 1]', attributes: { plan: 'Pro' }, startOffset: 0, endOffset: 9 },
+      ]);
+    });
+
+    it('should give up when pseudonyms keep being claimed concurrently', async () => {
+      mockPrisma.pseudonym.findMany.mockResolvedValue([]);
+
+      await expect(pseudonymizeText('study-1', {
+        text: 'Email jo@example.com',
+        pageOffsets: [],
+        surveyRecords: [],
+      }, settings)).rejects.toThrow('Could not assign pseudonyms');
+      expect(mockPrisma.pseudonym.createMany).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('restorePseudonyms', () => {
+    it('should put original values back and map offsets into the restored text', () => {
+      const restored = restorePseudonyms('Participant A said hi.', [
+        { category: 'person', original: 'Sam', pseudonym: 'Participant A' },
+      ], [0, 13]);
+
+      expect(restored.text).toBe('Sam said hi.');
+      expect(restored.mapOffset(14)).toBe(4);
+    });
+
+    it('should leave text that only looks like a pseudonym alone', () => {
+      const text = 'Participant A: Hi.\nParticipant A: Sam here.';
+      const restored = restorePseudonyms(text, [
+        { category: 'person', original: 'Sam Ortiz', pseudonym: 'Participant A' },
+      ], [19, 32]);
+
+      expect(restored.text).toBe('Participant A: Hi.\nSam Ortiz: Sam here.');
+    });
+  });
+
+  describe('scrubPii', () => {
+    it('should mask contact details in free text', () => {
+      expect(scrubPii('Failed for jo@example.com at +44 20 7946 0958 (chunk 12)'))
+        .toBe('Failed for [email] at [phone] (chunk 12)');
+    });
+  });
+});
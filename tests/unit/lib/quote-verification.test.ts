@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractQuotes,
+  markUnverifiedQuotes,
+  normalizeQuoteText,
+  quoteSimilarity,
+  verifyQuote,
+  type QuoteSource,
+} from '@/lib/utils/quote-verification';
+
+const SOURCES: QuoteSource[] = [
+  {
+    chunkId: 'chunk_1',
+    documentId: 'doc_1',
+    documentName: 'Interview-3.pdf',
+    content: "P3: Honestly, I don't trust the dashboard anymore. The numbers never match what finance sends us, so I keep my own spreadsheet.",
+  },
+  {
+    chunkId: 'chunk_2',
+    documentId: 'doc_2',
+    documentName: 'Interview-5.pdf',
+    content: 'P5: Onboarding took about three weeks because nobody explained where the templates live.',
+  },
+];
+
+describe('quote-verification', () => {
+  describe('normalizeQuoteText', () => {
+    it('should ignore case, punctuation, curly quotes and citation markers', () => {
+      expect(normalizeQuoteText('I Don’t trust  the “dashboard”!^[Interview-3.pdf]'))
+        .toBe("i don't trust the dashboard");
+    });
+  });
+
+  describe('extractQuotes', () => {
+    it('should find straight and curly inline quotes', () => {
+      const content = 'One participant said "I keep my own spreadsheet" and another said “nobody explained where the templates live”.';
+      expect(extractQuotes(content).map(quote => quote.text)).toEqual([
+        'I keep my own spreadsheet',
+        'nobody explained where the templates live',
+      ]);
+    });
+
+    it('should skip short quotes and quotes inside code', () => {
+      const content = 'The "dashboard" view and `"a quoted string in code"` are not quotes.';
+      expect(extractQuotes(content)).toEqual([]);
+    });
+
+    it('should treat consecutive blockquote lines as one quote without attribution', () => {
+      const content = 'Summary:\n\n> The numbers never match what finance sends us,\n> so I keep my own spreadsheet. — P3\n\nMore text.';
+      const quotes = extractQuotes(content);
+
+      expect(quotes).toHaveLength(1);
+      expect(quotes[0].text).toBe('The numbers never match what finance sends us, so I keep my own spreadsheet.');
+      expect(content.slice(quotes[0].end, quotes[0].end + 2)).toBe('\n\n');
+    });
+
+    it('should not count a quoted blockquote twice', () => {
+      const content = '> "I don\'t trust the dashboard anymore" — P3';
+      expect(extractQuotes(content)).toHaveLength(1);
+    });
+  });
+
+  describe('quoteSimilarity', () => {
+    it('should score the share of quote words found in order', () => {
+      expect(quoteSimilarity('the numbers never match finance', SOURCES[0].content)).toBe(1);
+      expect(quoteSimilarity('completely unrelated words here', SOURCES[0].content)).toBe(0);
+    });
+  });
+
+  describe('verifyQuote', () => {
+    it('should mark verbatim quotes as exact', () => {
+      const result = verifyQuote("I don't trust the dashboard anymore.", SOURCES);
+
+      expect(result.verdict).toBe('exact');
+      expect(result.chunkId).toBe('chunk_1');
+      expect(result.documentName).toBe('Interview-3.pdf');
+    });
+
+    it('should match quotes with ellipses fragment by fragment', () => {
+      const result = verifyQuote('Onboarding took about three weeks … nobody explained where the templates live', SOURCES);
+      expect(result.verdict).toBe('exact');
+    });
+
+    it('should mark reworded quotes as paraphrased', () => {
+      const result = verifyQuote('Onboarding took roughly three weeks since nobody explained the templates', SOURCES);
+
+      expect(result.verdict).toBe('paraphrased');
+      expect(result.chunkId).toBe('chunk_2');
+      expect(result.similarity).toBeGreaterThanOrEqual(0.6);
+      expect(result.similarity).toBeLessThan(1);
+    });
+
+    it('should mark invented quotes as not found', () => {
+      const result = verifyQuote('I would happily pay twice as much for this tool', SOURCES);
+
+      expect(result.verdict).toBe('not_found');
+      expect(result.chunkId).toBeUndefined();
+    });
+
+    it('should report not found without sources', () => {
+      expect(verifyQuote('I keep my own spreadsheet', []).verdict).toBe('not_found');
+    });
+  });
+
+  describe('markUnverifiedQuotes', () => {
+    it('should insert a marker after unverified quotes only', () => {
+      const content = 'P3 said "I keep my own spreadsheet" but P5 said "I would happily pay twice as much".';
+      const marked = markUnverifiedQuotes(content, [
+        { quote: 'I keep my own spreadsheet', verdict: 'exact', similarity: 1 },
+        { quote: 'I would happily pay twice as much', verdict: 'not_found', similarity: 0.2 },
+      ]);
+
+      expect(marked).toBe(
+        'P3 said "I keep my own spreadsheet" but P5 said "I would happily pay twice as much"' +
+        '<span data-quote-verdict="not_found" data-quote-similarity="0.2"></span>.'
+      );
+    });
+
+    it('should leave content unchanged when every quote is exact', () => {
+      const content = 'P3 said "I keep my own spreadsheet".';
+      expect(markUnverifiedQuotes(content, [
+        { quote: 'I keep my own spreadsheet', verdict: 'exact', similarity: 1 },
+      ])).toBe(content);
+    });
+  });
+});
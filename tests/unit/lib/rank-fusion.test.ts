@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { reciprocalRankFusion, DEFAULT_RANK_FUSION_OPTIONS } from '@/lib/rank-fusion';
+import type { SearchResult } from '@/lib/vector-search';
+
+function result(chunkId: string, similarity: number): SearchResult {
+  return {
+    chunkId,
+    content: `Content ${chunkId}`,
+    similarity,
+    documentId: `doc-${chunkId}`,
+    documentName: `${chunkId}.txt`,
+    chunkIndex: 0,
+  };
+}
+
+describe('rank-fusion', () => {
+  describe('reciprocalRankFusion', () => {
+    it('should rank chunks found by both retrievers above single-retriever hits', () => {
+      const fused = reciprocalRankFusion([
+        { retriever: 'semantic', results: [result('a', 0.9), result('shared', 0.8)] },
+        { retriever: 'keyword', results: [result('b', 0.7), result('shared', 0.6)] },
+      ], { limit: 10 });
+
+      expect(fused[0].chunkId).toBe('shared');
+      expect(fused[0].matchedBy).toEqual(['semantic', 'keyword']);
+      expect(fused.map(r => r.chunkId)).toEqual(expect.arrayContaining(['a', 'b']));
+    });
+
+    it('should score with 1 / (k + rank)', () => {
+      const fused = reciprocalRankFusion([
+        { retriever: 'semantic', results: [result('a', 0.9)] },
+      ]);
+
+      expect(fused[0].fusionScore).toBeCloseTo(1 / (DEFAULT_RANK_FUSION_OPTIONS.k + 1), 10);
+    });
+
+    it('should keep the semantic similarity for chunks matched by both retrievers', () => {
+      const fused = reciprocalRankFusion([
+        { retriever: 'keyword', results: [result('shared', 0.3)] },
+        { retriever: 'semantic', results: [result('shared', 0.85)] },
+      ]);
+
+      expect(fused[0].similarity).toBe(0.85);
+    });
+
+    it('should record keyword-only matches', () => {
+      const fused = reciprocalRankFusion([
+        { retriever: 'semantic', results: [] },
+        { retriever: 'keyword', results: [result('P7', 0.4)] },
+      ]);
+
+      expect(fused).toHaveLength(1);
+      expect(fused[0].matchedBy).toEqual(['keyword']);
+    });
+
+    it('should apply the limit after fusion', () => {
+      const fused = reciprocalRankFusion([
+        { retriever: 'semantic', results: [result('a', 0.9), result('b', 0.8), result('c', 0.7)] },
+      ], { limit: 2 });
+
+      expect(fused.map(r => r.chunkId)).toEqual(['a', 'b']);
+    });
+
+    it('should return an empty list when no retriever matched', () => {
+      expect(reciprocalRankFusion([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    reindexJob: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    document: {
+      count: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    study: {
+      findUnique: vi.fn(),
+    },
+    documentChunk: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+const indexDocument = vi.fn();
+vi.mock('@/lib/vector-index', () => ({
+  getVectorIndex: () => ({ indexDocument }),
+}));
+
+vi.mock('@/lib/embeddings', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/embeddings')>('@/lib/embeddings');
+  return {
+    ...actual,
+    generateBatchEmbeddings: vi.fn(),
+    getActiveEmbeddingModel: () => ({ provider: 'local', model: 'hashed-bow-v1', dimensions: 8 }),
+  };
+});
+
+import { prisma } from '@/lib/prisma';
+import { generateBatchEmbeddings, serializeEmbedding } from '@/lib/embeddings';
+import {
+  isReindexJobStale,
+  reindexDocument,
+  runReindexJob,
+  startReindexJob,
+} from '@/lib/reindexing';
+
+const mockPrisma = prisma as unknown as {
+  reindexJob: Record<'findFirst' | 'create' | 'update', ReturnType<typeof vi.fn>>;
+  document: Record<'count' | 'findMany' | 'update', ReturnType<typeof vi.fn>>;
+  study: Record<'findUnique', ReturnType<typeof vi.fn>>;
+  documentChunk: Record<'findMany' | 'deleteMany' | 'createMany', ReturnType<typeof vi.fn>>;
+  $transaction: ReturnType<typeof vi.fn>;
+};
+
+function makeJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job-1',
+    studyId: 'study-1',
+    status: 'PENDING',
+    totalDocuments: 2,
+    processedDocuments: 0,
+    lastDocumentId: null,
+    embeddingProvider: 'local',
+    embeddingModel: 'hashed-bow-v1',
+    embeddingDimensions: 8,
+    chunkSize: 400,
+    overlapSize: 80,
+    error: null,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+describe('reindexing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(generateBatchEmbeddings).mockImplementation(async (texts: string[]) => ({
+      embeddings: texts.map(() => [0.1, 0.2]),
+      usage: { totalTokens: texts.length },
+      model: { provider: 'local', model: 'hashed-bow-v1', dimensions: 2 },
+    }));
+    mockPrisma.$transaction.mockImplementation(async (operations: unknown) =>
+      typeof operations === 'function' ? operations(mockPrisma) : []
+    );
+    mockPrisma.documentChunk.findMany.mockResolvedValue([]);
+    indexDocument.mockResolvedValue(undefined);
+  });
+
+  describe('reindexDocument', () => {
+    it('should swap the chunk set in a single transaction', async () => {
+      const count = await reindexDocument('doc-1', 'Some interview text.');
+
+      expect(count).toBe(1);
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.documentChunk.deleteMany).toHaveBeenCalledWith({ where: { documentId: 'doc-1' } });
+      // Vectors are written by the same transaction as the chunks
+      expect(indexDocument).toHaveBeenCalledWith('doc-1', mockPrisma);
+      expect(mockPrisma.documentChunk.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({
+          documentId: 'doc-1',
+          chunkIndex: 0,
+          embeddingProvider: 'local',
+          embeddingDimensions: 2,
+        })],
+      });
+    });
+
+    it('should store speaker and timestamp metadata for transcripts', async () => {
+      await reindexDocument('doc-1', '[00:01] Interviewer: Why?\n[00:04] P3: Because.', { chunkingStrategy: 'transcript' });
+
+      expect(mockPrisma.documentChunk.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({
+          speakers: ['Interviewer', 'P3'],
+          startTimestamp: '00:01',
+          endTimestamp: '00:04',
+        })],
+      });
+    });
+
+    it('should store character offsets and page numbers', async () => {
+      const text = 'First page text.\n\nSecond page text.';
+      await reindexDocument('doc-1', text, { pageOffsets: [0, 18] });
+
+      expect(mockPrisma.documentChunk.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({
+          startOffset: 0,
+          endOffset: text.length,
+          startPage: 1,
+          endPage: 2,
+        })],
+      });
+    });
+
+    it('should store each chunk\'s parent window', async () => {
+      const text = 'Sentence about onboarding and the first week of setup. '.repeat(12).trim();
+      await reindexDocument('doc-1', text);
+
+      const [{ data }] = mockPrisma.documentChunk.createMany.mock.calls[0];
+      expect(data.length).toBeGreaterThan(1);
+      for (const chunk of data) {
+        expect(chunk.parentStartOffset).toBeLessThanOrEqual(chunk.startOffset);
+        expect(chunk.parentEndOffset).toBeGreaterThanOrEqual(chunk.endOffset);
+      }
+    });
+
+    it('should reuse the user\'s stored embeddings for identical chunks', async () => {
+      const stored = serializeEmbedding([0.5, 0.5]);
+      mockPrisma.documentChunk.findMany.mockResolvedValue([{ content: 'Some interview text.', embedding: stored }]);
+
+      await reindexDocument('doc-1', 'Some interview text.', { userId: 'user-1' });
+
+      expect(mockPrisma.documentChunk.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          embeddingModel: 'hashed-bow-v1',
+          document: { status: 'READY', study: { userId: 'user-1' } },
+        }),
+      }));
+      expect(generateBatchEmbeddings).not.toHaveBeenCalled();
+      expect(mockPrisma.documentChunk.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ embedding: stored, embeddingDimensions: 8 })],
+      });
+    });
+
+    it('should embed only the chunks without a stored embedding', async () => {
+      mockPrisma.documentChunk.findMany.mockResolvedValue([]);
+
+      await reindexDocument('doc-1', 'Some interview text.', { userId: 'user-1' });
+
+      expect(generateBatchEmbeddings).toHaveBeenCalledWith(['Some interview text.']);
+    });
+
+    it('should embed chunks with the document context but store the raw content', async () => {
+      await reindexDocument('doc-1', 'Some interview text.', { userId: 'user-1', embeddingContext: 'Document: a.txt' });
+
+      expect(mockPrisma.documentChunk.findMany).not.toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ embedding: { not: null } }),
+      }));
+      expect(generateBatchEmbeddings).toHaveBeenCalledWith(['Document: a.txt\n\nSome interview text.']);
+      expect(mockPrisma.documentChunk.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ content: 'Some interview text.', contextualized: true })],
+      });
+      expect(mockPrisma.document.update).toHaveBeenCalledWith({
+        where: { id: 'doc-1' },
+        data: { embeddingContext: 'Document: a.txt' },
+      });
+    });
+
+    it('should keep the IDs of chunks whose content is unchanged', async () => {
+      mockPrisma.documentChunk.findMany.mockResolvedValue([
+        { id: 'chunk-old', content: 'Some interview text.', startOffset: 0 },
+        { id: 'chunk-gone', content: 'Text that was removed.', startOffset: 21 },
+      ]);
+
+      await reindexDocument('doc-1', 'Some interview text.');
+
+      expect(mockPrisma.documentChunk.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ id: 'chunk-old', content: 'Some interview text.' })],
+      });
+    });
+
+    it('should leave existing chunks alone when embedding fails', async () => {
+      vi.mocked(generateBatchEmbeddings).mockRejectedValue(new Error('provider down'));
+
+      await expect(reindexDocument('doc-1', 'Some text')).rejects.toThrow('provider down');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startReindexJob', () => {
+    it('should resume an unfinished job instead of creating a new one', async () => {
+      mockPrisma.reindexJob.findFirst.mockResolvedValue(makeJob({ status: 'FAILED', lastDocumentId: 'doc-1' }));
+      mockPrisma.reindexJob.update.mockResolvedValue(makeJob({ lastDocumentId: 'doc-1' }));
+
+      const job = await startReindexJob('study-1');
+
+      expect(job.lastDocumentId).toBe('doc-1');
+      expect(mockPrisma.reindexJob.create).not.toHaveBeenCalled();
+    });
+
+    it('should start over when the unfinished job targets another configuration', async () => {
+      mockPrisma.reindexJob.findFirst.mockResolvedValue(makeJob({ status: 'FAILED', chunkSize: 1000, overlapSize: 200 }));
+      mockPrisma.document.count.mockResolvedValue(3);
+      mockPrisma.reindexJob.create.mockResolvedValue(makeJob({ id: 'job-2' }));
+
+      const job = await startReindexJob('study-1');
+
+      expect(job.id).toBe('job-2');
+      expect(mockPrisma.reindexJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'FAILED', error: expect.stringContaining('Superseded') }),
+      });
+    });
+
+    it('should start a new job after the last one completed', async () => {
+      mockPrisma.reindexJob.findFirst.mockResolvedValue(makeJob({ status: 'COMPLETED' }));
+      mockPrisma.document.count.mockResolvedValue(3);
+      mockPrisma.reindexJob.create.mockResolvedValue(makeJob({ id: 'job-2' }));
+
+      await startReindexJob('study-1');
+
+      expect(mockPrisma.reindexJob.findFirst).toHaveBeenCalledWith({
+        where: { studyId: 'study-1' },
+        orderBy: { createdAt: 'desc' },
+      });
+      expect(mockPrisma.reindexJob.create).toHaveBeenCalled();
+      expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { isolationLevel: 'Serializable' });
+    });
+
+    it('should refuse a start that loses a race with a concurrent one', async () => {
+      mockPrisma.$transaction.mockRejectedValue(Object.assign(new Error('write conflict'), { code: 'P2034' }));
+
+      await expect(startReindexJob('study-1')).rejects.toThrow('already being started');
+    });
+
+    it('should refuse to start while a job is actively running', async () => {
+      mockPrisma.reindexJob.findFirst.mockResolvedValue(makeJob({ status: 'RUNNING', updatedAt: new Date() }));
+
+      await expect(startReindexJob('study-1')).rejects.toThrow('already running');
+    });
+
+    it('should record the target model and chunking options on new jobs', async () => {
+      mockPrisma.reindexJob.findFirst.mockResolvedValue(null);
+      mockPrisma.document.count.mockResolvedValue(3);
+      mockPrisma.reindexJob.create.mockResolvedValue(makeJob());
+
+      await startReindexJob('study-1');
+
+      expect(mockPrisma.reindexJob.create).toHaveBeenCalledWith({
+        data: {
+          studyId: 'study-1',
+          totalDocuments: 3,
+          embeddingProvider: 'local',
+          embeddingModel: 'hashed-bow-v1',
+          embeddingDimensions: 8,
+          chunkSize: 400,
+          overlapSize: 80,
+        },
+      });
+    });
+  });
+
+  describe('runReindexJob', () => {
+    it('should resume after the last processed document', async () => {
+      mockPrisma.reindexJob.update.mockResolvedValue(makeJob({ status: 'RUNNING', lastDocumentId: 'doc-1', processedDocuments: 1 }));
+      mockPrisma.document.findMany.mockResolvedValue([]);
+
+      await runReindexJob('job-1');
+
+      expect(mockPrisma.document.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: { gt: 'doc-1' } }),
+        orderBy: { id: 'asc' },
+      }));
+    });
+
+    it('should report progress and complete', async () => {
+      let processed = 0;
+      mockPrisma.reindexJob.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => {
+        if (data.processedDocuments) processed++;
+        return makeJob({ status: data.status ?? 'RUNNING', processedDocuments: processed });
+      });
+      mockPrisma.document.findMany.mockResolvedValue([
+        { id: 'doc-1', fileName: 'a.txt', extractedText: 'First document.' },
+        { id: 'doc-2', fileName: 'b.txt', extractedText: 'Second document.' },
+      ]);
+
+      const progress: number[] = [];
+      const result = await runReindexJob('job-1', p => progress.push(p.progress));
+
+      expect(progress).toEqual([50, 100]);
+      expect(result.status).toBe('COMPLETED');
+    });
+
+    it('should reuse stored document context when the study uses contextual embeddings', async () => {
+      mockPrisma.reindexJob.update.mockResolvedValue(makeJob({ status: 'RUNNING' }));
+      mockPrisma.study.findUnique.mockResolvedValue({ contextualEmbeddings: true });
+      mockPrisma.document.findMany.mockResolvedValue([
+        { id: 'doc-1', fileName: 'a.txt', extractedText: 'First document.', embeddingContext: 'Document: a.txt' },
+      ]);
+
+      await runReindexJob('job-1');
+
+      expect(generateBatchEmbeddings).toHaveBeenCalledWith(['Document: a.txt\n\nFirst document.']);
+    });
+
+    it('should mark the job failed and keep the cursor when a document fails', async () => {
+      mockPrisma.reindexJob.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) =>
+        makeJob({ status: data.status ?? 'RUNNING', error: data.error ?? null })
+      );
+      mockPrisma.document.findMany.mockResolvedValue([
+        { id: 'doc-1', fileName: 'a.txt', extractedText: 'First document.' },
+      ]);
+      vi.mocked(generateBatchEmbeddings).mockRejectedValue(new Error('rate limited'));
+
+      const result = await runReindexJob('job-1');
+
+      expect(result.status).toBe('FAILED');
+      expect(result.error).toBe('rate limited');
+      expect(mockPrisma.reindexJob.update).not.toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ lastDocumentId: 'doc-1' }),
+      }));
+    });
+  });
+
+  describe('isReindexJobStale', () => {
+    it('should only treat long-silent running jobs as stale', () => {
+      const now = new Date('2025-01-01T01:00:00Z');
+      expect(isReindexJobStale({ status: 'RUNNING', updatedAt: new Date('2025-01-01T00:00:00Z') }, now)).toBe(true);
+      expect(isReindexJobStale({ status: 'RUNNING', updatedAt: new Date('2025-01-01T00:59:00Z') }, now)).toBe(false);
+      expect(isReindexJobStale({ status: 'FAILED', updatedAt: new Date('2025-01-01T00:00:00Z') }, now)).toBe(false);
+    });
+  });
+});
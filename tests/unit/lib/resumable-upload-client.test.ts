@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/constants', () => ({ RESUMABLE_CHUNK_SIZE: 4 }));
+vi.mock('@/lib/error-handling', () => ({
+  calculateRetryDelay: () => 0,
+  sleep: () => Promise.resolve(),
+}));
+
+import { shouldUploadResumably, uploadFileResumably } from '@/lib/resumable-upload-client';
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status < 400, status, json: async () => body } as Response;
+}
+
+function sessionStatus(offset: number, status: 'uploading' | 'completed' = 'uploading') {
+  return { uploadId: 'upload-1', fileName: 'notes.txt', fileSize: 10, offset, status, chunkSize: 4, expiresAt: '' };
+}
+
+describe('uploadFileResumably', () => {
+  const file = new File(['0123456789'], 'notes.txt', { type: 'text/plain', lastModified: 1 });
+
+  beforeEach(() => {
+    localStorage.clear();
+    global.fetch = vi.fn();
+  });
+
+  it('should only chunk files larger than one chunk', () => {
+    expect(shouldUploadResumably(file)).toBe(true);
+    expect(shouldUploadResumably(new File(['0123'], 'small.txt'))).toBe(false);
+  });
+
+  it('should send chunks at increasing offsets and report progress', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(0), 201))
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(4)))
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(8)))
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(10, 'completed')));
+    const onProgress = vi.fn();
+
+    await expect(uploadFileResumably(file, 'study-1', { onProgress })).resolves.toBe('upload-1');
+
+    const offsets = vi.mocked(fetch).mock.calls.slice(1).map(([, init]) => (init?.headers as Record<string, string>)['Upload-Offset']);
+    expect(offsets).toEqual(['0', '4', '8']);
+    expect(onProgress.mock.calls.map(([sent]) => sent)).toEqual([0, 4, 8, 10]);
+  });
+
+  it('should resume a remembered upload from the server offset', async () => {
+    localStorage.setItem('resumable-upload:study-1:notes.txt:10:1', 'upload-1');
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(8)))
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(10, 'completed')));
+
+    await uploadFileResumably(file, 'study-1');
+
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('/api/upload/resumable/upload-1');
+    expect(vi.mocked(fetch)).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry failed chunks and follow the offset the server reports', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(0), 201))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      // The chunk had landed before the connection dropped
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(4)))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Offset mismatch: expected 8', offset: 8 }, 409))
+      .mockResolvedValueOnce(jsonResponse(sessionStatus(10, 'completed')));
+
+    await uploadFileResumably(file, 'study-1');
+
+    const lastCall = vi.mocked(fetch).mock.calls[4];
+    expect((lastCall[1]?.headers as Record<string, string>)['Upload-Offset']).toBe('8');
+  });
+});
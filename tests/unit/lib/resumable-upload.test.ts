@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm, utimes, writeFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    uploadSession: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { asMockPrisma } from '../../mocks/prisma-mock';
+import type { UploadSessionRecord } from '@/lib/resumable-upload';
+
+const mockPrisma = asMockPrisma<'uploadSession'>(prisma);
+
+// Partial uploads are written under process.cwd(), so point it at a temp dir
+// before the storage modules load
+let tempDir: string;
+let resumable: typeof import('@/lib/resumable-upload');
+let cleanup: typeof import('@/lib/file-storage/cleanup');
+
+function makeSession(overrides: Partial<UploadSessionRecord> = {}): UploadSessionRecord {
+  return {
+    id: 'upload-1',
+    userId: 'user-1',
+    studyId: 'study-1',
+    fileName: 'report.pdf',
+    fileType: 'application/pdf',
+    fileSize: 10,
+    offset: 0,
+    status: 'UPLOADING',
+    storageType: 'filesystem',
+    storagePath: null,
+    storageUrl: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    ...overrides,
+  };
+}
+
+describe('resumable uploads', () => {
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'resumable-upload-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    resumable = await import('@/lib/resumable-upload');
+    cleanup = await import('@/lib/file-storage/cleanup');
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.uploadSession.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.uploadSession.update.mockImplementation(async ({ data }) => makeSession({ ...data }));
+  });
+
+  describe('appendUploadChunk', () => {
+    it('should write chunks at their offsets and reassemble the file on the last one', async () => {
+      const first = await resumable.appendUploadChunk(makeSession(), 0, Buffer.from('hello'));
+      expect(first).toMatchObject({ offset: 5, status: 'UPLOADING' });
+      expect(mockPrisma.uploadSession.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'upload-1', offset: 0, status: 'UPLOADING' },
+        data: expect.objectContaining({ offset: 5 }),
+      }));
+
+      const completed = await resumable.appendUploadChunk(first, 5, Buffer.from('world'));
+
+      expect(completed).toMatchObject({ offset: 10, status: 'COMPLETED' });
+      expect(completed.storagePath).toContain(join(tempDir, 'dev-uploads', 'study-1'));
+      expect(await readFile(completed.storagePath!, 'utf8')).toBe('helloworld');
+    });
+
+    it('should overwrite a chunk that is sent again after a lost response', async () => {
+      const session = makeSession({ id: 'upload-2', fileSize: 8 });
+      await resumable.appendUploadChunk(session, 0, Buffer.from('abcd'));
+      // Offset update was lost; the client resends from the server's offset
+      await resumable.appendUploadChunk(session, 0, Buffer.from('ABCD'));
+      const completed = await resumable.appendUploadChunk({ ...session, offset: 4 }, 4, Buffer.from('EFGH'));
+
+      expect(await readFile(completed.storagePath!, 'utf8')).toBe('ABCDEFGH');
+    });
+
+    it('should reject a chunk at the wrong offset with the current one', async () => {
+      const error = await resumable.appendUploadChunk(makeSession({ offset: 5 }), 0, Buffer.from('hello'))
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(resumable.UploadSessionError);
+      expect(error).toMatchObject({ statusCode: 409, offset: 5 });
+      expect(mockPrisma.uploadSession.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should report the winning offset when a concurrent request advanced first', async () => {
+      mockPrisma.uploadSession.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.uploadSession.findUnique.mockResolvedValue(makeSession({ id: 'upload-3', offset: 5 }));
+
+      await expect(resumable.appendUploadChunk(makeSession({ id: 'upload-3' }), 0, Buffer.from('hello')))
+        .rejects.toMatchObject({ statusCode: 409, offset: 5 });
+    });
+
+    it('should reject chunks that run past the declared size', async () => {
+      await expect(resumable.appendUploadChunk(makeSession({ fileSize: 4 }), 0, Buffer.from('hello')))
+        .rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('cleanupAbandonedUploads', () => {
+    it('should remove expired sessions and stray partial files', async () => {
+      const partialDir = join(tempDir, 'dev-uploads', '.partial');
+      await mkdir(partialDir, { recursive: true });
+      await writeFile(join(partialDir, 'expired'), 'partial');
+      await writeFile(join(partialDir, 'orphan'), 'partial');
+      await writeFile(join(partialDir, 'recent-orphan'), 'partial');
+      const longAgo = new Date(Date.now() - 2 * resumable.UPLOAD_SESSION_TTL_MS);
+      await utimes(join(partialDir, 'orphan'), longAgo, longAgo);
+
+      mockPrisma.uploadSession.findMany
+        .mockResolvedValueOnce([makeSession({ id: 'expired', expiresAt: longAgo })])
+        .mockResolvedValueOnce([]);
+
+      const result = await cleanup.cleanupAbandonedUploads();
+
+      expect(result).toEqual({ deletedCount: 2, errors: [] });
+      expect(mockPrisma.uploadSession.delete).toHaveBeenCalledWith({ where: { id: 'expired' } });
+      await expect(readFile(join(partialDir, 'expired'))).rejects.toThrow();
+      await expect(readFile(join(partialDir, 'orphan'))).rejects.toThrow();
+      // Younger than the TTL: its session row may just not be visible yet
+      expect(await readFile(join(partialDir, 'recent-orphan'), 'utf8')).toBe('partial');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SearchResultStore, toPersistedSearchResult } from '@/lib/llm-tools/search-result-store';
+import { extractSearchResultsFromToolCalls } from '@/lib/utils/citation-extraction';
+import { findRelevantChunks, type SearchResult } from '@/lib/vector-search';
+
+vi.mock('@/lib/vector-search', () => ({
+  findRelevantChunks: vi.fn(),
+}));
+
+function result(chunkId: string, similarity: number): SearchResult {
+  return {
+    chunkId,
+    content: `Content ${chunkId}`,
+    similarity,
+    documentId: `doc-${chunkId}`,
+    documentName: `${chunkId}.txt`,
+    chunkIndex: 0,
+  };
+}
+
+describe('search-result-store', () => {
+  describe('SearchResultStore', () => {
+    it('should return recorded results by tool call ID', () => {
+      const store = new SearchResultStore();
+      store.record('call_1', [result('a', 0.9)]);
+
+      expect(store.get('call_1')?.map(r => r.chunkId)).toEqual(['a']);
+      expect(store.get('call_2')).toBeUndefined();
+    });
+
+    it('should collect results in call order without duplicate chunks', () => {
+      const store = new SearchResultStore();
+      store.record('call_1', [result('a', 0.9), result('shared', 0.8)]);
+      store.record('call_2', [result('shared', 0.5), result('b', 0.4)]);
+
+      const collected = store.collect(['call_1', 'call_2', 'call_missing']);
+
+      expect(collected.map(r => r.chunkId)).toEqual(['a', 'shared', 'b']);
+      expect(collected[1].similarity).toBe(0.8);
+    });
+  });
+
+  describe('toPersistedSearchResult', () => {
+    it('should drop the chunk and window text and keep everything else', () => {
+      const persisted = toPersistedSearchResult({
+        ...result('a', 0.9),
+        startPage: 2,
+        parentContent: 'Window around a',
+        parentStartOffset: 0,
+        parentEndOffset: 15,
+      });
+
+      expect(persisted).not.toHaveProperty('content');
+      expect(persisted).not.toHaveProperty('parentContent');
+      expect(persisted).toMatchObject({ chunkId: 'a', similarity: 0.9, startPage: 2, parentEndOffset: 15 });
+    });
+  });
+
+  describe('extractSearchResultsFromToolCalls', () => {
+    it('should read search tool results from the store without re-running searches', () => {
+      const store = new SearchResultStore();
+      store.record('call_search', [result('a', 0.9)]);
+      store.record('call_lookup', [result('ignored', 1)]);
+
+      const results = extractSearchResultsFromToolCalls([
+        { toolCallId: 'call_lookup', toolName: 'find_document_ids' },
+        { toolCallId: 'call_search', toolName: 'search_all_documents' },
+      ], store);
+
+      expect(results.map(r => r.chunkId)).toEqual(['a']);
+      expect(findRelevantChunks).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import {
+  buildSurveyText,
+  chunkSurveyRecords,
+  findMissingColumns,
+  getSpreadsheetFormat,
+  inferSurveyMapping,
+  parseCSV,
+  readSpreadsheet,
+  type SpreadsheetTable,
+} from '@/lib/survey-import';
+import { extractCitationsFromContent } from '@/lib/utils/citation-extraction';
+import type { SearchResult } from '@/lib/vector-search';
+
+vi.mock('@/lib/vector-search', () => ({
+  findRelevantChunks: vi.fn(),
+}));
+
+const SURVEY: SpreadsheetTable = {
+  headers: ['Respondent ID', 'Segment', 'Plan', 'What frustrates you?', 'What would you change?'],
+  rows: [
+    ['412', 'SMB', 'Pro', 'Exports take forever.', 'Faster exports'],
+    ['413', 'Enterprise', '', '', ''],
+    ['', 'SMB', 'Free', 'Too many clicks to share.', ''],
+  ],
+};
+
+const MAPPING = {
+  responseColumns: ['What frustrates you?', 'What would you change?'],
+  respondentIdColumn: 'Respondent ID',
+  attributeColumns: ['Segment', 'Plan'],
+};
+
+async function buildXLSX(): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('xl/workbook.xml', '<workbook><sheets><sheet name="Responses" sheetId="1" r:id="rId1"/></sheets></workbook>');
+  zip.file('xl/_rels/workbook.xml.rels', '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>');
+  zip.file('xl/sharedStrings.xml', '<sst><si><t>ID</t></si><si><t>Answer</t></si><si><r><t>Love </t></r><r><t xml:space="preserve">it &amp; more</t></r></si></sst>');
+  zip.file('xl/worksheets/sheet1.xml', [
+    '<worksheet><sheetData>',
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>',
+    '<row r="2"><c r="A2"><v>7</v></c><c r="C2" t="s"><v>2</v></c></row>',
+    '<row r="3"><c r="A3"><v>8</v></c><c r="C3" t="inlineStr"><is><t>Meh</t></is></c></row>',
+    '</sheetData></worksheet>',
+  ].join(''));
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+describe('survey-import', () => {
+  describe('parseCSV', () => {
+    it('should handle quoted fields, escaped quotes and embedded newlines', () => {
+      const rows = parseCSV('id,answer\r\n1,"Slow, ""really"" slow\nand buggy"\r\n2,Fine');
+
+      expect(rows).toEqual([
+        ['id', 'answer'],
+        ['1', 'Slow, "really" slow\nand buggy'],
+        ['2', 'Fine'],
+      ]);
+    });
+
+    it('should detect semicolon and tab delimiters', () => {
+      expect(parseCSV('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+      expect(parseCSV('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+  });
+
+  describe('readSpreadsheet', () => {
+    it('should name blank headers, dedupe repeated ones and drop empty rows', async () => {
+      const csv = new TextEncoder().encode('\uFEFFQ,,Q\n1,2,3\n,,\n');
+      const table = await readSpreadsheet(csv, 'csv');
+
+      expect(table.headers).toEqual(['Q', 'Column 2', 'Q (2)']);
+      expect(table.rows).toEqual([['1', '2', '3']]);
+    });
+
+    it('should read the first worksheet of an XLSX workbook', async () => {
+      const table = await readSpreadsheet(await buildXLSX(), 'xlsx');
+
+      expect(table.headers).toEqual(['ID', 'Column 2', 'Answer']);
+      expect(table.rows).toEqual([['7', '', 'Love it & more'], ['8', '', 'Meh']]);
+    });
+  });
+
+  describe('inferSurveyMapping', () => {
+    it('should use an ID-like column as the respondent and the rest as responses', () => {
+      expect(inferSurveyMapping(['Response ID', 'Feedback'])).toEqual({
+        responseColumns: ['Feedback'],
+        respondentIdColumn: 'Response ID',
+        attributeColumns: [],
+      });
+      expect(inferSurveyMapping(['Feedback']).respondentIdColumn).toBeNull();
+    });
+
+    it('should report mapped columns the spreadsheet lacks', () => {
+      expect(findMissingColumns({ ...MAPPING, attributeColumns: ['Region'] }, SURVEY.headers)).toEqual(['Region']);
+    });
+  });
+
+  describe('buildSurveyText', () => {
+    it('should write one block per response with respondent and attributes', () => {
+      const { text, records } = buildSurveyText(SURVEY, MAPPING);
+
+      expect(text).toBe([
+        'Respondent 412 (Segment: SMB, Plan: Pro)',
+        'What frustrates you?: Exports take forever.',
+        'What would you change?: Faster exports',
+        '',
+        'Respondent 3 (Segment: SMB, Plan: Free)',
+        'What frustrates you?: Too many clicks to share.',
+      ].join('\n'));
+      expect(records.map(record => record.respondentId)).toEqual(['412', '3']);
+      expect(records[0].attributes).toEqual({ Segment: 'SMB', Plan: 'Pro' });
+      expect(text.slice(records[1].startOffset, records[1].endOffset)).toBe(
+        'Respondent 3 (Segment: SMB, Plan: Free)\nWhat frustrates you?: Too many clicks to share.'
+      );
+    });
+
+    it('should normalize line endings inside cells so chunk offsets match the text', () => {
+      const table: SpreadsheetTable = {
+        headers: ['id', 'answer'],
+        rows: [['1', 'First line.\r\nSecond line.'], ['2', 'Another answer.']],
+      };
+      const { text, records } = buildSurveyText(table, { responseColumns: ['answer'], respondentIdColumn: 'id' });
+
+      expect(text).not.toContain('\r');
+      const chunks = chunkSurveyRecords(text, records);
+      chunks.forEach(chunk => {
+        expect(text.slice(chunk.startPosition, chunk.endPosition)).toBe(chunk.content);
+      });
+    });
+  });
+
+  describe('chunkSurveyRecords', () => {
+    it('should keep each response in its own chunks tagged with the respondent', () => {
+      const longAnswer = 'The export screen freezes whenever I pick a large date range. '.repeat(30).trim();
+      const table: SpreadsheetTable = {
+        headers: ['id', 'answer'],
+        rows: [['1', 'Short answer.'], ['2', longAnswer]],
+      };
+      const { text, records } = buildSurveyText(table, { responseColumns: ['answer'], respondentIdColumn: 'id' });
+
+      const chunks = chunkSurveyRecords(text, records);
+
+      expect(chunks[0]).toMatchObject({ content: 'Respondent 1\nShort answer.', respondentId: '1', chunkIndex: 0 });
+      expect(chunks.length).toBeGreaterThan(2);
+      chunks.slice(1).forEach(chunk => {
+        expect(chunk.respondentId).toBe('2');
+        expect(text.slice(chunk.startPosition, chunk.endPosition)).toContain(chunk.content.slice(0, 40));
+        expect(chunk.startPosition).toBeGreaterThanOrEqual(records[1].startOffset);
+      });
+    });
+  });
+
+  describe('getSpreadsheetFormat', () => {
+    it('should detect spreadsheets by MIME type or extension', () => {
+      expect(getSpreadsheetFormat('text/csv', 'survey.csv')).toBe('csv');
+      expect(getSpreadsheetFormat('', 'Survey.XLSX')).toBe('xlsx');
+      expect(getSpreadsheetFormat('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'export')).toBe('xlsx');
+      expect(getSpreadsheetFormat('text/plain', 'notes.txt')).toBeNull();
+    });
+  });
+
+  describe('respondent citations', () => {
+    it('should resolve ^[Respondent 412] to the survey passage', () => {
+      const result: SearchResult = {
+        chunkId: 'chunk-412',
+        content: 'Respondent 412 (Segment: SMB)\nExports take forever.',
+        similarity: 0.8,
+        documentId: 'doc-survey',
+        documentName: 'survey.csv',
+        chunkIndex: 0,
+        respondentId: '412',
+        attributes: { Segment: 'SMB' },
+      };
+
+      const citations = extractCitationsFromContent('Exports are slow^[Respondent 412].', [result]);
+
+      expect(citations['1']).toMatchObject({
+        documentId: 'doc-survey',
+        documentName: 'survey.csv',
+        label: 'Respondent 412',
+        respondents: ['412'],
+        chunkId: 'chunk-412',
+      });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkTranscript,
+  detectTranscript,
+  groupTurnsIntoExchanges,
+  parseTranscriptTurns,
+} from '@/lib/transcript-chunking';
+import { chunkText, DEFAULT_CHUNKING_OPTIONS } from '@/lib/document-chunking';
+
+const INTERVIEW = [
+  '[00:00:05] Interviewer: Thanks for joining. How do you plan your week?',
+  '[00:00:12] P3: Mostly on Sunday evenings. I write everything in a notebook first.',
+  'Then I copy the important bits into my calendar.',
+  '[00:01:40] Interviewer: What gets in the way?',
+  '[00:01:47] P3: Meetings that appear at the last minute.',
+  '[00:02:30] Interviewer: How do you deal with those?',
+  '[00:02:36] P3: I decline anything without an agenda.',
+].join('\n');
+
+describe('transcript-chunking', () => {
+  describe('parseTranscriptTurns', () => {
+    it('should parse speaker labels with and without timestamps', () => {
+      const text = 'Interviewer: Hello?\nP3 (00:12): Hi there.\n[00:13] P4: Hello.\nModerator - no label here';
+      const turns = parseTranscriptTurns(text);
+
+      expect(turns.map(turn => turn.speaker)).toEqual(['Interviewer', 'P3', 'P4']);
+      expect(turns.map(turn => turn.timestamp)).toEqual([undefined, '00:12', '00:13']);
+    });
+
+    it('should attach unlabelled lines to the previous turn', () => {
+      const turns = parseTranscriptTurns(INTERVIEW);
+
+      expect(turns).toHaveLength(6);
+      expect(INTERVIEW.slice(turns[1].startPosition, turns[1].endPosition)).toContain('copy the important bits');
+    });
+  });
+
+  describe('detectTranscript', () => {
+    it('should detect speaker-labelled transcripts', () => {
+      expect(detectTranscript(INTERVIEW)).toBe(true);
+    });
+
+    it('should not detect ordinary prose', () => {
+      const prose = [
+        'The study ran for six weeks across three sites.',
+        'Participants completed a diary entry every evening.',
+        'Note: two participants withdrew in the second week.',
+        'Results are summarised in the next section.',
+      ].join('\n');
+
+      expect(detectTranscript(prose)).toBe(false);
+    });
+  });
+
+  describe('groupTurnsIntoExchanges', () => {
+    it('should start a new exchange at each interviewer question', () => {
+      const turns = parseTranscriptTurns(INTERVIEW);
+      const exchanges = groupTurnsIntoExchanges(INTERVIEW, turns);
+
+      expect(exchanges).toHaveLength(3);
+      exchanges.forEach(exchange => {
+        expect(exchange[0].speaker).toBe('Interviewer');
+        expect(exchange[1].speaker).toBe('P3');
+      });
+    });
+
+    it('should fall back to question marks without interviewer labels', () => {
+      const text = 'Anna: Where do you work?\nBen: At the library.\nAnna: Since when?\nBen: Two years.';
+      const exchanges = groupTurnsIntoExchanges(text, parseTranscriptTurns(text));
+
+      expect(exchanges).toHaveLength(2);
+    });
+  });
+
+  describe('chunkTranscript', () => {
+    it('should keep question and answer in the same chunk', () => {
+      const chunks = chunkTranscript(INTERVIEW, { ...DEFAULT_CHUNKING_OPTIONS, chunkSize: 230, minChunkSize: 10 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => {
+        expect(chunk.speakers).toEqual(['Interviewer', 'P3']);
+        expect(chunk.content.startsWith('[')).toBe(true);
+      });
+    });
+
+    it('should record speakers and timestamp range', () => {
+      const chunks = chunkTranscript(INTERVIEW, DEFAULT_CHUNKING_OPTIONS);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].startTimestamp).toBe('00:00:05');
+      expect(chunks[0].endTimestamp).toBe('00:02:36');
+    });
+
+    it('should split an oversized turn instead of exceeding the chunk size', () => {
+      const longAnswer = 'I keep a list of everything. '.repeat(60);
+      const text = `Interviewer: Tell me about your lists?\nP1: ${longAnswer}`;
+      const chunks = chunkTranscript(text, { ...DEFAULT_CHUNKING_OPTIONS, chunkSize: 500 });
+
+      expect(chunks.length).toBeGreaterThan(2);
+      chunks.forEach((chunk, index) => {
+        expect(chunk.content.length).toBeLessThanOrEqual(500);
+        expect(chunk.chunkIndex).toBe(index);
+      });
+    });
+  });
+
+  describe('chunkText strategy', () => {
+    it('should auto-detect transcripts', () => {
+      const chunks = chunkText(INTERVIEW);
+      expect(chunks[0].speakers).toEqual(['Interviewer', 'P3']);
+    });
+
+    it('should use plain-text chunking when requested', () => {
+      const chunks = chunkText(INTERVIEW, { strategy: 'text' });
+      expect(chunks[0].speakers).toBeUndefined();
+    });
+  });
+});
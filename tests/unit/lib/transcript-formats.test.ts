@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatSpeakerTurns,
+  getTranscriptFormat,
+  normalizeTimestamp,
+  parseSRT,
+  parseTranscriptExport,
+  parseWebVTT,
+} from '@/lib/transcript-formats';
+import { chunkText } from '@/lib/document-chunking';
+
+const ZOOM_VTT = `WEBVTT
+
+1
+00:00:05.120 --> 00:00:08.400
+Interviewer: Thanks for joining. How do you plan your week?
+
+2
+00:00:09.000 --> 00:00:12.750
+P3: Mostly on Sunday evenings.
+
+3
+00:00:12.750 --> 00:00:15.000
+P3: I write everything in a notebook first.
+
+NOTE This cue was edited
+
+4
+00:01:40.000 --> 00:01:42.000
+Interviewer: What gets in the way?
+`;
+
+const TEAMS_VTT = `WEBVTT
+
+a1b2c3/12-0
+00:00:01.000 --> 00:00:03.500
+<v Jane Doe>Can you hear me?</v>
+
+a1b2c3/13-0
+00:00:04.000 --> 00:00:06.000
+<v Sam Lee>Yes, <i>loud</i> and clear.</v>
+`;
+
+const SRT = `1
+00:00:01,000 --> 00:00:04,000
+[Moderator] Let's start with your role.
+
+2
+00:00:04,500 --> 00:00:09,000
+>> Participant 2: I lead the support team
+and handle escalations.
+`;
+
+const OTTER_EXPORT = `Jane Doe  0:03
+So tell me about the last time you used the app.
+
+Sam Lee  0:15
+It was yesterday, I was booking a table.
+
+Jane Doe  1:02
+What happened next?`;
+
+describe('transcript-formats', () => {
+  describe('normalizeTimestamp', () => {
+    it('should drop fractions and pad to hh:mm:ss', () => {
+      expect(normalizeTimestamp('00:01:02.500')).toBe('00:01:02');
+      expect(normalizeTimestamp('1:02,5')).toBe('00:01:02');
+      expect(normalizeTimestamp('0:03')).toBe('00:00:03');
+    });
+  });
+
+  describe('parseWebVTT', () => {
+    it('should parse speaker-prefixed cues and merge consecutive captions', () => {
+      const turns = parseWebVTT(ZOOM_VTT);
+
+      expect(turns).toEqual([
+        { speaker: 'Interviewer', start: '00:00:05', end: '00:00:08', text: 'Thanks for joining. How do you plan your week?' },
+        { speaker: 'P3', start: '00:00:09', end: '00:00:15', text: 'Mostly on Sunday evenings. I write everything in a notebook first.' },
+        { speaker: 'Interviewer', start: '00:01:40', end: '00:01:42', text: 'What gets in the way?' },
+      ]);
+    });
+
+    it('should read speakers from voice tags and strip markup', () => {
+      const turns = parseWebVTT(TEAMS_VTT);
+
+      expect(turns.map(turn => turn.speaker)).toEqual(['Jane Doe', 'Sam Lee']);
+      expect(turns[1].text).toBe('Yes, loud and clear.');
+    });
+  });
+
+  describe('parseSRT', () => {
+    it('should parse bracketed and ">>" speakers across multi-line captions', () => {
+      const turns = parseSRT(SRT);
+
+      expect(turns).toEqual([
+        { speaker: 'Moderator', start: '00:00:01', end: '00:00:04', text: "Let's start with your role." },
+        { speaker: 'Participant 2', start: '00:00:04', end: '00:00:09', text: 'I lead the support team and handle escalations.' },
+      ]);
+    });
+  });
+
+  describe('parseTranscriptExport', () => {
+    it('should parse speaker and time header lines', () => {
+      const turns = parseTranscriptExport(OTTER_EXPORT);
+
+      expect(turns).toHaveLength(3);
+      expect(turns![1]).toEqual({ speaker: 'Sam Lee', start: '00:00:15', end: '00:01:02', text: 'It was yesterday, I was booking a table.' });
+    });
+
+    it('should return null for ordinary text', () => {
+      expect(parseTranscriptExport('We met at 10:30\nThe session ran long.\nNotes follow below.\nMore notes.')).toBeNull();
+    });
+  });
+
+  describe('formatSpeakerTurns', () => {
+    it('should render time ranges and speakers that transcript chunking picks up', () => {
+      const text = formatSpeakerTurns(parseWebVTT(ZOOM_VTT));
+      const chunks = chunkText(text);
+
+      expect(text.split('\n')[0]).toBe('[00:00:05 - 00:00:08] Interviewer: Thanks for joining. How do you plan your week?');
+      expect(chunks[0].speakers).toEqual(['Interviewer', 'P3']);
+      expect(chunks[0].startTimestamp).toBe('00:00:05');
+      expect(chunks[chunks.length - 1].endTimestamp).toBe('00:01:42');
+    });
+  });
+
+  describe('getTranscriptFormat', () => {
+    it('should detect caption files by MIME type or extension', () => {
+      expect(getTranscriptFormat('text/vtt', 'call.vtt')).toBe('vtt');
+      expect(getTranscriptFormat('', 'call.SRT')).toBe('srt');
+      expect(getTranscriptFormat('application/x-subrip', 'captions')).toBe('srt');
+      expect(getTranscriptFormat('text/plain', 'notes.txt')).toBeNull();
+    });
+  });
+});
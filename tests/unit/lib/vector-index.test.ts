@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock Prisma to prevent database access
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    documentChunk: {
+      findMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
+    $transaction: vi.fn(),
+  },
+}));
+
+// Use the real SQL template helpers without a generated client
+vi.mock('@prisma/client', async () => {
+  const runtime = await vi.importActual<typeof import('@prisma/client/runtime/library')>('@prisma/client/runtime/library');
+  return {
+    Prisma: {
+      sql: runtime.sqltag,
+      join: runtime.join,
+    },
+  };
+});
+
+import { prisma } from '@/lib/prisma';
+import { serializeEmbedding } from '@/lib/embeddings';
+import { getVectorIndex } from '@/lib/vector-index';
+import {
+  bruteForceVectorIndex,
+  rankChunksBySimilarity,
+  type CandidateChunk,
+} from '@/lib/vector-index/brute-force';
+import {
+  pgVectorIndex,
+  buildPgVectorIndexUpdate,
+  buildPgVectorSearchQuery,
+  buildPgVectorSearchSettings,
+  getEfSearch,
+  supportsIterativeScan,
+  toVectorLiteral,
+} from '@/lib/vector-index/pgvector';
+
+function candidate(id: string, embedding: number[] | null, chunkIndex = 0): CandidateChunk {
+  return {
+    id,
+    content: `Content of ${id}`,
+    chunkIndex,
+    embedding: embedding ? serializeEmbedding(embedding) : null,
+    document: { id: `doc-${id}`, fileName: `${id}.pdf` },
+  };
+}
+
+describe('vector-index', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    delete process.env.VECTOR_INDEX_BACKEND;
+    vi.mocked(prisma.$transaction).mockImplementation(
+      async (fn: (tx: typeof prisma) => Promise<unknown>) => fn(prisma)
+    );
+  });
+
+  describe('getVectorIndex', () => {
+    it('should default to the brute-force backend', () => {
+      expect(getVectorIndex().name).toBe('brute-force');
+    });
+
+    it('should select pgvector when configured', () => {
+      process.env.VECTOR_INDEX_BACKEND = 'pgvector';
+      expect(getVectorIndex().name).toBe('pgvector');
+    });
+
+    it('should fall back to brute-force for unknown backends', () => {
+      process.env.VECTOR_INDEX_BACKEND = 'faiss';
+      expect(getVectorIndex().name).toBe('brute-force');
+    });
+  });
+
+  describe('rankChunksBySimilarity', () => {
+    const query = [1, 0, 0];
+
+    it('should order results by similarity and apply the limit', () => {
+      const chunks = [
+        candidate('far', [0, 1, 0]),
+        candidate('close', [0.9, 0.1, 0]),
+        candidate('exact', [1, 0, 0]),
+      ];
+
+      const results = rankChunksBySimilarity(query, chunks, { limit: 2, minSimilarity: -1 });
+
+      expect(results.map(r => r.chunkId)).toEqual(['exact', 'close']);
+      expect(results[0].similarity).toBeCloseTo(1, 6);
+      expect(results[0].documentName).toBe('exact.pdf');
+    });
+
+    it('should drop results below minSimilarity', () => {
+      const chunks = [candidate('exact', [1, 0, 0]), candidate('orthogonal', [0, 1, 0])];
+
+      const results = rankChunksBySimilarity(query, chunks, { limit: 10, minSimilarity: 0.5 });
+
+      expect(results.map(r => r.chunkId)).toEqual(['exact']);
+    });
+
+    it('should skip chunks without embeddings or with mismatched dimensions', () => {
+      const chunks = [
+        candidate('missing', null),
+        candidate('wrong-size', [1, 0]),
+        candidate('ok', [1, 0, 0]),
+      ];
+
+      const results = rankChunksBySimilarity(query, chunks, { limit: 10, minSimilarity: 0 });
+
+      expect(results.map(r => r.chunkId)).toEqual(['ok']);
+    });
+  });
+
+  describe('bruteForceVectorIndex', () => {
+    it('should scope the chunk query by user, study, documents and excluded chunk', async () => {
+      vi.mocked(prisma.documentChunk.findMany).mockResolvedValue([candidate('a', [1, 0, 0])]);
+
+      const results = await bruteForceVectorIndex.search([1, 0, 0], {
+        userId: 'user-1',
+        studyId: 'study-1',
+        documentIds: ['doc-a'],
+        excludeChunkId: 'chunk-x',
+        limit: 5,
+        minSimilarity: 0.1,
+      });
+
+      expect(results).toHaveLength(1);
+      expect(prisma.documentChunk.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            document: { study: { userId: 'user-1' }, studyId: 'study-1' },
+            embedding: { not: null },
+            documentId: { in: ['doc-a'] },
+            id: { not: 'chunk-x' },
+          },
+        })
+      );
+    });
+  });
+
+  describe('pgVectorIndex', () => {
+    it('should format embeddings as pgvector literals', () => {
+      expect(toVectorLiteral([0.5, -1, 2])).toBe('[0.5,-1,2]');
+    });
+
+    it('should build a scoped, limited nearest-neighbour query', () => {
+      const sql = buildPgVectorSearchQuery([1, 0], {
+        userId: 'user-1',
+        studyId: 'study-1',
+        documentIds: ['doc-1', 'doc-2'],
+        excludeChunkId: 'chunk-x',
+        limit: 7,
+        minSimilarity: 0.1,
+      });
+
+      expect(sql.sql).toContain('<=>');
+      expect(sql.sql).toContain('ORDER BY');
+      expect(sql.values).toEqual(expect.arrayContaining(['[1,0]', 'user-1', 'study-1', 'doc-1', 'doc-2', 'chunk-x', 7]));
+    });
+
+    it('should widen ef_search with the limit, within pgvector bounds', () => {
+      expect(getEfSearch(1)).toBe(40);
+      expect(getEfSearch(20)).toBe(200);
+      expect(getEfSearch(500)).toBe(1000);
+    });
+
+    it('should enable iterative scans only on pgvector 0.8 and later', () => {
+      expect(supportsIterativeScan('0.7.4')).toBe(false);
+      expect(supportsIterativeScan('0.8.0')).toBe(true);
+      expect(supportsIterativeScan('1.0.0')).toBe(true);
+      expect(supportsIterativeScan(undefined)).toBe(false);
+
+      expect(buildPgVectorSearchSettings(20, false)).toHaveLength(1);
+      const settings = buildPgVectorSearchSettings(20, true);
+      expect(settings[0].values).toEqual(['200']);
+      expect(settings[1].sql).toContain('hnsw.iterative_scan');
+    });
+
+    it('should map rows to search results and apply minSimilarity', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { chunkId: 'c1', content: 'One', chunkIndex: 0, documentId: 'd1', documentName: 'one.pdf', similarity: '0.92' },
+        { chunkId: 'c2', content: 'Two', chunkIndex: 3, documentId: 'd2', documentName: 'two.pdf', similarity: 0.05 },
+      ]);
+
+      const results = await pgVectorIndex.search([1, 0], { userId: 'user-1', limit: 5, minSimilarity: 0.1 });
+
+      expect(results).toEqual([
+        { chunkId: 'c1', content: 'One', similarity: 0.92, documentId: 'd1', documentName: 'one.pdf', chunkIndex: 0 },
+      ]);
+    });
+
+    it('should mirror stored embeddings into the vector column', async () => {
+      vi.mocked(prisma.documentChunk.findMany).mockResolvedValue([
+        { id: 'c1', embedding: serializeEmbedding([1, 0]) },
+      ]);
+
+      await pgVectorIndex.indexDocument('doc-1');
+
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write the vectors of many chunks in one statement', () => {
+      const sql = buildPgVectorIndexUpdate([
+        { id: 'c1', vector: '[1,0]' },
+        { id: 'c2', vector: '[0,1]' },
+      ]);
+
+      expect(sql.sql).toContain('FROM (VALUES');
+      expect(sql.values).toEqual(['c1', '[1,0]', 'c2', '[0,1]']);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  ARCHIVE_LIMITS,
+  ArchiveError,
+  expandZipArchive,
+  normalizeEntryPath,
+} from '@/lib/zip-archive';
+
+async function buildZip(entries: Record<string, string | Uint8Array>, options: { symlink?: string } = {}): Promise<Buffer> {
+  const zip = new JSZip();
+  Object.entries(entries).forEach(([name, content]) => {
+    zip.file(name, content, { createFolders: false });
+  });
+  if (options.symlink) {
+    zip.file(options.symlink, '/etc/passwd', { unixPermissions: 0o120777 });
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', platform: 'UNIX' });
+}
+
+describe('zip-archive', () => {
+  describe('normalizeEntryPath', () => {
+    it('should reject absolute and parent-relative paths', () => {
+      expect(normalizeEntryPath('Round 1/./p1.txt')).toBe('Round 1/p1.txt');
+      expect(normalizeEntryPath('Round 1\\p2.txt')).toBe('Round 1/p2.txt');
+      expect(normalizeEntryPath('../../etc/cron.d/job.txt')).toBeNull();
+      expect(normalizeEntryPath('notes/../../x.txt')).toBeNull();
+      expect(normalizeEntryPath('/tmp/x.txt')).toBeNull();
+      expect(normalizeEntryPath('C:\\Users\\x.txt')).toBeNull();
+    });
+  });
+
+  describe('expandZipArchive', () => {
+    it('should expand supported entries with their folder and report the rest', async () => {
+      const archive = await buildZip({
+        'interview-01.txt': 'Participant 1 transcript',
+        'Round 2/Remote/p07.vtt': 'WEBVTT\n\n00:00.000 --> 00:02.000\nHello',
+        'Round 2/.DS_Store': 'x',
+        '__MACOSX/Round 2/._p07.vtt': 'x',
+        'Round 2/recording.mp4': 'x',
+        'older.zip': 'x',
+        '../escape.txt': 'x',
+      }, { symlink: 'Round 2/link.txt' });
+
+      const { files, skipped } = await expandZipArchive('study.zip', archive);
+
+      expect(files.map(({ path, folderPath, file }) => ({ path, folderPath, name: file.name, type: file.type }))).toEqual([
+        { path: 'interview-01.txt', folderPath: null, name: 'interview-01.txt', type: 'text/plain' },
+        { path: 'Round 2/Remote/p07.vtt', folderPath: 'Round 2/Remote', name: 'p07.vtt', type: 'text/vtt' },
+      ]);
+      expect(files[0].file.size).toBe('Participant 1 transcript'.length);
+      expect(skipped.map(({ path, reason }) => [path, reason])).toEqual([
+        ['Round 2/.DS_Store', 'Hidden or system file'],
+        ['__MACOSX/Round 2/._p07.vtt', 'Hidden or system file'],
+        ['Round 2/recording.mp4', 'Unsupported file type'],
+        ['older.zip', 'Nested archives are not expanded'],
+        ['../escape.txt', 'Unsafe path'],
+        ['Round 2/link.txt', 'Symbolic link'],
+      ]);
+      expect(skipped.every(entry => entry.archive === 'study.zip')).toBe(true);
+    });
+
+    it('should skip entries that inflate past the file size limit', async () => {
+      // Highly compressible: a few KB on the wire
+      const archive = await buildZip({
+        'bomb.txt': new Uint8Array(2 * 1024 * 1024),
+        'ok.txt': 'fine',
+      });
+
+      const { files, skipped } = await expandZipArchive('bomb.zip', archive, {
+        ...ARCHIVE_LIMITS,
+        maxFileSize: 1024 * 1024,
+      });
+
+      expect(archive.length).toBeLessThan(64 * 1024);
+      expect(files.map(file => file.path)).toEqual(['ok.txt']);
+      expect(skipped).toEqual([{ archive: 'bomb.zip', path: 'bomb.txt', reason: 'File size exceeds 1MB limit' }]);
+    });
+
+    it('should reject archives that expand past the total limit', async () => {
+      const archive = await buildZip({
+        'a.txt': new Uint8Array(600 * 1024),
+        'b.txt': new Uint8Array(600 * 1024),
+      });
+
+      await expect(expandZipArchive('big.zip', archive, {
+        ...ARCHIVE_LIMITS,
+        maxExpandedSize: 1024 * 1024,
+      })).rejects.toThrow(ArchiveError);
+    });
+
+    it('should cap the number of entries and files', async () => {
+      const archive = await buildZip({ 'a.txt': 'a', 'b.txt': 'b', 'c.txt': 'c' });
+
+      await expect(expandZipArchive('many.zip', archive, { ...ARCHIVE_LIMITS, maxEntries: 2 }))
+        .rejects.toThrow('Archive has too many entries (max 2)');
+
+      const { files, skipped } = await expandZipArchive('many.zip', archive, { ...ARCHIVE_LIMITS, maxFiles: 2 });
+      expect(files).toHaveLength(2);
+      expect(skipped[0]).toMatchObject({ path: 'c.txt', reason: 'Archive file limit reached (max 2 files)' });
+    });
+
+    it('should reject files that are not ZIP archives', async () => {
+      await expect(expandZipArchive('fake.zip', Buffer.from('not a zip'))).rejects.toThrow('File is not a valid ZIP archive');
+    });
+  });
+});